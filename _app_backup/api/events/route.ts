@@ -6,10 +6,25 @@ import { ERROR_CODES } from '@/lib/errorCodes';
 import {
   createEventSchema,
   CreateEventRequest,
+  eventListQuerySchema,
+  EventListQuery,
 } from '@/lib/schemas/eventSchema';
-import { validateRequest } from '@/lib/schemas/validationUtils';
+import { validateData, validateRequest } from '@/lib/schemas/validationUtils';
 import { sanitize } from '@/lib/security';
+import { PUBLICLY_LISTED_EVENTS } from '@/lib/queryOptimizations';
+import { hasEventFilters, listEvents } from '@/lib/eventSearch';
+import {
+  EVENT_LIST_CACHE_TTL_SECONDS,
+  eventListCacheKey,
+} from '@/lib/eventCache';
+import { Actor, canManageEvent } from '@/lib/permissions';
+import { requireAuth } from '@/lib/requireAuth';
 import { corsHandler } from '@/lib/cors';
+import { getTicketQuotaError, toTicketTypeCreateData } from '@/lib/ticketTypes';
+import { toRegistrationQuestionCreateData } from '@/lib/registrationQuestions';
+import { RegistrationError } from '@/lib/errors';
+import { assertRoomBookable } from '@/lib/venues';
+import { assertCategoryExists } from '@/lib/categories';
 import { NextRequest } from 'next/server';
 
 export async function GET(req: NextRequest) {
@@ -29,7 +44,6 @@ export async function GET(req: NextRequest) {
       const { searchParams } = new URL(req.url);
       const page = Number(searchParams.get('page')) || 1;
       const limit = Number(searchParams.get('limit')) || 10;
-      const organizerId = searchParams.get('organizerId');
 
       if (page < 1 || limit < 1) {
         return sendError(
@@ -39,43 +53,88 @@ export async function GET(req: NextRequest) {
         );
       }
 
-      // For simplicity, cache only when no filters are applied (all events)
-      const cacheKey = 'events:all';
+      const validation = validateData(
+        {
+          category: searchParams.get('category') ?? undefined,
+          tags: searchParams.getAll('tag'),
+          from: searchParams.get('from') ?? undefined,
+          to: searchParams.get('to') ?? undefined,
+          location: searchParams.get('location') ?? undefined,
+          hasSeats: searchParams.get('hasSeats') ?? undefined,
+          organizerId: searchParams.get('organizerId') ?? undefined,
+        },
+        eventListQuerySchema,
+      );
+      if (!validation.success) {
+        return validation.response!;
+      }
 
+      const filters = validation.data as EventListQuery;
+      const { organizerId } = filters;
+
+      // Organizers (and admins) listing an organizer's events see every
+      // status, drafts included; that view is never cached
+      let auth: Actor | null = null;
       try {
-        const cachedData = await redis.get(cacheKey);
-        if (cachedData) {
-          logger.info({ message: 'Cache hit for events' });
-          const events = JSON.parse(cachedData);
-          return sendSuccess(events, 'Events retrieved from cache', 200);
+        auth = await requireAuth(req);
+      } catch {
+        // Anonymous callers get the public listing
+      }
+
+      if (organizerId && auth && canManageEvent(auth, { organizerId })) {
+        const listing = await listEvents(
+          prisma,
+          { organizerId, deletedAt: null },
+          filters,
+          page,
+          limit,
+        );
+
+        return sendSuccess(listing, 'Events retrieved successfully', 200);
+      }
+
+      // Only unfiltered pages are cached, one key per page
+      const cacheKey = eventListCacheKey(page, limit);
+      const cacheable = !hasEventFilters(filters);
+
+      if (cacheable) {
+        try {
+          const cachedData = await redis.get(cacheKey);
+          if (cachedData) {
+            logger.info({ message: 'Cache hit for events' });
+            const listing = JSON.parse(cachedData);
+            return sendSuccess(listing, 'Events retrieved from cache', 200);
+          }
+        } catch (redisError) {
+          logger.warn({
+            message: 'Redis error during cache read',
+            error:
+              redisError instanceof Error
+                ? redisError.message
+                : 'Unknown Redis error',
+          });
+          // Continue to database fetch on Redis failure
         }
-      } catch (redisError) {
-        logger.warn({
-          message: 'Redis error during cache read',
-          error:
-            redisError instanceof Error
-              ? redisError.message
-              : 'Unknown Redis error',
-        });
-        // Continue to database fetch on Redis failure
       }
 
       logger.info({ message: 'Cache miss for events' });
 
-      // organizerId is kept as a string to match Prisma schema expectations
-      const where = organizerId ? { organizerId } : {};
-
-      const events = await prisma.event.findMany({
-        where,
-        skip: (page - 1) * limit,
-        take: limit,
-        orderBy: { date: 'asc' },
-      });
+      // Only published events are listed publicly, never invite-only ones
+      const listing = await listEvents(
+        prisma,
+        PUBLICLY_LISTED_EVENTS,
+        filters,
+        page,
+        limit,
+      );
 
-      // Cache the result only if no filters (organizerId) are applied
-      if (!organizerId) {
+      if (cacheable) {
         try {
-          await redis.setex(cacheKey, 60, JSON.stringify(events));
+          await redis.setex(
+            cacheKey,
+            EVENT_LIST_CACHE_TTL_SECONDS,
+            JSON.stringify(listing),
+          );
         } catch (redisError) {
           logger.warn({
             message: 'Redis error during cache write',
@@ -88,7 +147,7 @@ export async function GET(req: NextRequest) {
         }
       }
 
-      return sendSuccess(events, 'Events retrieved successfully', 200);
+      return sendSuccess(listing, 'Events retrieved successfully', 200);
     } catch (error) {
       logger.error({
         message: 'Database error during event retrieval',
@@ -126,42 +185,89 @@ export async function POST(req: NextRequest) {
 
       const data = validation.data as CreateEventRequest;
 
+      const ticketQuotaError = getTicketQuotaError(
+        data.capacity,
+        data.ticketTypes,
+      );
+      if (ticketQuotaError) {
+        return sendError(ticketQuotaError, ERROR_CODES.VALIDATION_ERROR, 400);
+      }
+
       // Sanitize user-provided strings to prevent XSS
       const sanitizedData = {
         title: sanitize(data.title),
         description: sanitize(data.description),
         location: sanitize(data.location),
         capacity: data.capacity,
+        seatsRemaining: data.capacity,
+        cancellationCutoffHours: data.cancellationCutoffHours,
+        registrationMode: data.registrationMode,
         date: new Date(data.date),
+        endsAt: new Date(data.endsAt),
+        timeZone: data.timeZone,
+        roomId: data.roomId,
+        categoryId: data.categoryId,
+        publishAt: data.publishAt ? new Date(data.publishAt) : undefined,
         organizerId: String(data.organizerId),
+        ticketTypes: { create: toTicketTypeCreateData(data.ticketTypes) },
+        questions: {
+          create: toRegistrationQuestionCreateData(data.questions),
+        },
+        tags: {
+          create: (data.tags ?? []).map((tag) => ({ tag: sanitize(tag) })),
+        },
       };
 
-      const event = await prisma.event.create({
-        data: sanitizedData,
-      });
+      const event = await prisma.$transaction(
+        async (tx) => {
+          // Checked and written in one transaction so two events cannot
+          // claim the same room slot
+          if (data.roomId) {
+            await assertRoomBookable(tx, {
+              roomId: data.roomId,
+              startsAt: sanitizedData.date,
+              endsAt: sanitizedData.endsAt,
+              capacity: data.capacity,
+            });
+          }
 
-      // Invalidate cache on new event creation
-      try {
-        await redis.del('events:all');
-        logger.info({ message: 'Cache invalidated after new event creation' });
-      } catch (redisError) {
-        logger.warn({
-          message: 'Redis error during cache invalidation',
-          error:
-            redisError instanceof Error
-              ? redisError.message
-              : 'Unknown Redis error',
-        });
-        // Don't fail the request if invalidation fails
-      }
+          if (data.categoryId) {
+            await assertCategoryExists(tx, data.categoryId);
+          }
 
-      return sendSuccess(event, 'Event created successfully', 201);
+          return tx.event.create({
+            data: sanitizedData,
+            include: {
+              ticketTypes: true,
+              questions: { orderBy: { position: 'asc' } },
+              category: { select: { slug: true, name: true } },
+              tags: { select: { tag: true }, orderBy: { tag: 'asc' } },
+            },
+          });
+        },
+        {
+          isolationLevel: 'ReadCommitted',
+          timeout: 10000,
+        },
+      );
+
+      // New events are drafts, so the cached listing is still accurate; it is
+      // invalidated when the event is published (see src/lib/eventLifecycle.ts)
+      return sendSuccess(
+        { ...event, tags: event.tags.map(({ tag }) => tag) },
+        'Event created as a draft',
+        201,
+      );
     } catch (error: any) {
       logger.error({
         message: 'Database error during event creation',
         error: error.message,
       });
 
+      if (error instanceof RegistrationError) {
+        return sendError(error.message, error.code);
+      }
+
       if (error.code === 'P2002') {
         return sendError(
           'An event with this title already exists',
@@ -191,7 +297,7 @@ export async function POST(req: NextRequest) {
 // Fixed 'unused variable' error by prefixing with underscore
 export async function PUT(_req: Request) {
   return sendError(
-    'PUT requests require a specific event ID in the URL path: /api/events/[id]',
+    'Events are updated with PATCH /api/events/[id]',
     ERROR_CODES.INVALID_INPUT,
     400,
   );
@@ -1,6 +1,7 @@
 import prisma from '@/lib/prisma';
 import { sendSuccess, sendError } from '@/lib/responseHandler';
 import { ERROR_CODES } from '@/lib/errorCodes';
+import { registerUserForEvent } from '@/lib/eventRegistration';
 
 export async function GET(req: Request) {
   try {
@@ -59,32 +60,68 @@ export async function POST(req: Request) {
     }
 
     /**
-     * NOTE: If your database uses CUID/UUID (strings),
-     * ensure the data passed here matches those types.
+     * Registration goes through the transactional service so seatsRemaining is
+     * decremented atomically. With `joinWaitlist: true` a full event puts the
+     * user on its waitlist instead of rejecting the request. Events that
+     * offer ticket types also require a `ticketTypeId`, and invite-only
+     * events an `invitationToken`. `answers` holds the answers to the event's
+     * registration questions, keyed by question id, and `promoCode` a
+     * discount code for the ticket price.
      */
-    const registration = await prisma.registration.create({ data });
+    const result = await registerUserForEvent(
+      prisma,
+      String(data.userId),
+      String(data.eventId),
+      false,
+      {
+        joinWaitlist: data.joinWaitlist === true,
+        ticketTypeId: data.ticketTypeId ? String(data.ticketTypeId) : undefined,
+        invitationToken: data.invitationToken
+          ? String(data.invitationToken)
+          : undefined,
+        answers: data.answers,
+        promoCode: data.promoCode ? String(data.promoCode) : undefined,
+      },
+    );
 
-    return sendSuccess(registration, 'Registration created successfully', 201);
-  } catch (error: any) {
-    console.error('[POST /api/registrations] Error:', error);
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
 
-    if (error.code === 'P2002') {
-      return sendError(
-        'User is already registered for this event',
-        ERROR_CODES.DUPLICATE_ENTRY,
-        409,
+    if (result.waitlistEntry) {
+      return sendSuccess(
+        result.waitlistEntry,
+        `Event is full. Added to the waitlist at position ${result.waitlistEntry.position}`,
+        202,
       );
     }
 
-    if (error.code === 'P2003') {
-      return sendError(
-        'Referenced user or event not found',
-        ERROR_CODES.CONSTRAINT_VIOLATION,
-        400,
-        { error: error.message },
+    // Paid tickets: the seat is held until the payment intent is confirmed
+    if (result.registration?.status === 'PENDING_PAYMENT') {
+      return sendSuccess(
+        { ...result.registration, payment: result.payment },
+        `Seat held until ${result.registration.holdExpiresAt?.toISOString()}. Complete payment to confirm the registration`,
+        202,
       );
     }
 
+    // Approval events: the application waits for the organizer's review
+    if (result.registration?.status === 'PENDING') {
+      return sendSuccess(
+        result.registration,
+        'Registration submitted and awaiting organizer approval',
+        202,
+      );
+    }
+
+    return sendSuccess(
+      result.registration,
+      'Registration created successfully',
+      201,
+    );
+  } catch (error: any) {
+    console.error('[POST /api/registrations] Error:', error);
+
     return sendError(
       'Failed to create registration',
       ERROR_CODES.DATABASE_FAILURE,
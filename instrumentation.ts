@@ -10,4 +10,10 @@ export async function register() {
     // In production, you might want to exit the process here
     // process.exit(1);
   }
+
+  // Background jobs need Node.js APIs (timers, Prisma); skip the edge runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startBackgroundJobs } = await import('./src/lib/jobs');
+    startBackgroundJobs();
+  }
 }
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "cancellationCutoffHours" INTEGER NOT NULL DEFAULT 24;
+
+-- CreateTable
+CREATE TABLE "RegistrationCancellation" (
+    "id" TEXT NOT NULL,
+    "registrationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "cancelledById" TEXT,
+    "reason" TEXT,
+    "registeredAt" TIMESTAMP(3) NOT NULL,
+    "cancelledAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RegistrationCancellation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RegistrationCancellation_eventId_idx" ON "RegistrationCancellation"("eventId");
+
+-- CreateIndex
+CREATE INDEX "RegistrationCancellation_userId_idx" ON "RegistrationCancellation"("userId");
+
+-- AddForeignKey
+ALTER TABLE "RegistrationCancellation" ADD CONSTRAINT "RegistrationCancellation_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RegistrationCancellation" ADD CONSTRAINT "RegistrationCancellation_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RegistrationCancellation" ADD CONSTRAINT "RegistrationCancellation_cancelledById_fkey" FOREIGN KEY ("cancelledById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "seatsRemaining" INTEGER;
+
+-- Data migration
+-- Until now "capacity" was decremented on every registration, so it already
+-- holds the number of seats left. Move that value to "seatsRemaining" and
+-- restore "capacity" to the original event size.
+UPDATE "Event" e
+SET "seatsRemaining" = e."capacity",
+    "capacity" = e."capacity" + (
+      SELECT COUNT(*) FROM "Registration" r WHERE r."eventId" = e."id"
+    );
+
+-- AlterTable
+ALTER TABLE "Event" ALTER COLUMN "seatsRemaining" SET NOT NULL;
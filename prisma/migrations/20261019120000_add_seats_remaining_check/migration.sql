@@ -0,0 +1,6 @@
+-- Repair any rows that were oversold before seat claims became conditional
+UPDATE "Event" SET "seatsRemaining" = 0 WHERE "seatsRemaining" < 0;
+
+-- AddCheckConstraint
+-- Prisma cannot express CHECK constraints in schema.prisma, so this lives here.
+ALTER TABLE "Event" ADD CONSTRAINT "Event_seatsRemaining_check" CHECK ("seatsRemaining" >= 0);
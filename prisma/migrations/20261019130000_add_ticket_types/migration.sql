@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "TicketKind" AS ENUM ('GENERAL', 'VIP', 'STUDENT', 'EARLY_BIRD');
+
+-- CreateTable
+CREATE TABLE "TicketType" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" "TicketKind" NOT NULL DEFAULT 'GENERAL',
+    "priceCents" INTEGER NOT NULL DEFAULT 0,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "quota" INTEGER NOT NULL,
+    "seatsRemaining" INTEGER NOT NULL,
+    "salesStartAt" TIMESTAMP(3),
+    "salesEndAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TicketType_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "TicketType_seatsRemaining_check" CHECK ("seatsRemaining" >= 0)
+);
+
+-- AlterTable
+ALTER TABLE "Registration" ADD COLUMN "ticketTypeId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Waitlist" ADD COLUMN "ticketTypeId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TicketType_eventId_name_key" ON "TicketType"("eventId", "name");
+
+-- CreateIndex
+CREATE INDEX "TicketType_eventId_idx" ON "TicketType"("eventId");
+
+-- CreateIndex
+CREATE INDEX "Registration_ticketTypeId_idx" ON "Registration"("ticketTypeId");
+
+-- AddForeignKey
+ALTER TABLE "TicketType" ADD CONSTRAINT "TicketType_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Registration" ADD CONSTRAINT "Registration_ticketTypeId_fkey" FOREIGN KEY ("ticketTypeId") REFERENCES "TicketType"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Waitlist" ADD CONSTRAINT "Waitlist_ticketTypeId_fkey" FOREIGN KEY ("ticketTypeId") REFERENCES "TicketType"("id") ON DELETE CASCADE ON UPDATE CASCADE;
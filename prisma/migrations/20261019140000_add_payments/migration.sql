@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "RegistrationStatus" AS ENUM ('PENDING_PAYMENT', 'CONFIRMED');
+
+-- CreateEnum
+CREATE TYPE "PaymentStatus" AS ENUM ('REQUIRES_CONFIRMATION', 'SUCCEEDED', 'FAILED', 'CANCELLED', 'REFUNDED');
+
+-- AlterTable (existing registrations were all free and are confirmed)
+ALTER TABLE "Registration" ADD COLUMN "status" "RegistrationStatus" NOT NULL DEFAULT 'CONFIRMED',
+ADD COLUMN "holdExpiresAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "Payment" (
+    "id" TEXT NOT NULL,
+    "registrationId" TEXT,
+    "userId" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "providerIntentId" TEXT NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "status" "PaymentStatus" NOT NULL DEFAULT 'REQUIRES_CONFIRMATION',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Payment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Registration_status_holdExpiresAt_idx" ON "Registration"("status", "holdExpiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_registrationId_key" ON "Payment"("registrationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_providerIntentId_key" ON "Payment"("providerIntentId");
+
+-- CreateIndex
+CREATE INDEX "Payment_userId_idx" ON "Payment"("userId");
+
+-- CreateIndex
+CREATE INDEX "Payment_eventId_idx" ON "Payment"("eventId");
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_registrationId_fkey" FOREIGN KEY ("registrationId") REFERENCES "Registration"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Registration" ADD COLUMN "checkedInAt" TIMESTAMP(3),
+ADD COLUMN "checkedInById" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "Registration" ADD CONSTRAINT "Registration_checkedInById_fkey" FOREIGN KEY ("checkedInById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
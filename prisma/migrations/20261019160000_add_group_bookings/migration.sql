@@ -0,0 +1,58 @@
+-- CreateTable
+CREATE TABLE "GroupBooking" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "purchaserId" TEXT NOT NULL,
+    "ticketTypeId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GroupBooking_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GroupSeat" (
+    "id" TEXT NOT NULL,
+    "groupBookingId" TEXT NOT NULL,
+    "attendeeName" TEXT NOT NULL,
+    "attendeeEmail" TEXT NOT NULL,
+    "registrationId" TEXT,
+    "inviteTokenHash" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GroupSeat_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "GroupBooking_eventId_idx" ON "GroupBooking"("eventId");
+
+-- CreateIndex
+CREATE INDEX "GroupBooking_purchaserId_idx" ON "GroupBooking"("purchaserId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GroupSeat_registrationId_key" ON "GroupSeat"("registrationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GroupSeat_inviteTokenHash_key" ON "GroupSeat"("inviteTokenHash");
+
+-- CreateIndex
+CREATE INDEX "GroupSeat_attendeeEmail_idx" ON "GroupSeat"("attendeeEmail");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GroupSeat_groupBookingId_attendeeEmail_key" ON "GroupSeat"("groupBookingId", "attendeeEmail");
+
+-- AddForeignKey
+ALTER TABLE "GroupBooking" ADD CONSTRAINT "GroupBooking_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GroupBooking" ADD CONSTRAINT "GroupBooking_purchaserId_fkey" FOREIGN KEY ("purchaserId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GroupBooking" ADD CONSTRAINT "GroupBooking_ticketTypeId_fkey" FOREIGN KEY ("ticketTypeId") REFERENCES "TicketType"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GroupSeat" ADD CONSTRAINT "GroupSeat_groupBookingId_fkey" FOREIGN KEY ("groupBookingId") REFERENCES "GroupBooking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GroupSeat" ADD CONSTRAINT "GroupSeat_registrationId_fkey" FOREIGN KEY ("registrationId") REFERENCES "Registration"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "Registration" ADD COLUMN "ticketVersion" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "RegistrationTransfer" (
+    "id" TEXT NOT NULL,
+    "registrationId" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "fromUserId" TEXT NOT NULL,
+    "toUserId" TEXT NOT NULL,
+    "transferredById" TEXT,
+    "transferredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RegistrationTransfer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RegistrationTransfer_registrationId_idx" ON "RegistrationTransfer"("registrationId");
+
+-- CreateIndex
+CREATE INDEX "RegistrationTransfer_eventId_idx" ON "RegistrationTransfer"("eventId");
+
+-- AddForeignKey
+ALTER TABLE "RegistrationTransfer" ADD CONSTRAINT "RegistrationTransfer_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RegistrationTransfer" ADD CONSTRAINT "RegistrationTransfer_fromUserId_fkey" FOREIGN KEY ("fromUserId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RegistrationTransfer" ADD CONSTRAINT "RegistrationTransfer_toUserId_fkey" FOREIGN KEY ("toUserId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RegistrationTransfer" ADD CONSTRAINT "RegistrationTransfer_transferredById_fkey" FOREIGN KEY ("transferredById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- Existing confirmed registrations are approved ones
+ALTER TYPE "RegistrationStatus" RENAME VALUE 'CONFIRMED' TO 'APPROVED';
+
+-- AlterEnum
+ALTER TYPE "RegistrationStatus" ADD VALUE 'PENDING';
+ALTER TYPE "RegistrationStatus" ADD VALUE 'REJECTED';
+ALTER TYPE "RegistrationStatus" ADD VALUE 'CANCELLED';
+
+-- CreateEnum
+CREATE TYPE "RegistrationMode" AS ENUM ('OPEN', 'APPROVAL', 'INVITE_ONLY');
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "registrationMode" "RegistrationMode" NOT NULL DEFAULT 'OPEN';
+
+-- AlterTable
+ALTER TABLE "Registration" ALTER COLUMN "status" SET DEFAULT 'APPROVED',
+ADD COLUMN "reviewedAt" TIMESTAMP(3),
+ADD COLUMN "reviewedById" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Registration_eventId_status_idx" ON "Registration"("eventId", "status");
+
+-- AddForeignKey
+ALTER TABLE "Registration" ADD CONSTRAINT "Registration_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
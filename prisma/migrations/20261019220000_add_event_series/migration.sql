@@ -0,0 +1,69 @@
+-- CreateEnum
+CREATE TYPE "RecurrenceFrequency" AS ENUM ('DAILY', 'WEEKLY', 'MONTHLY');
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "seriesId" TEXT,
+ADD COLUMN "seriesOccurrenceAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "EventSeries" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "location" TEXT NOT NULL,
+    "capacity" INTEGER NOT NULL,
+    "cancellationCutoffHours" INTEGER NOT NULL DEFAULT 24,
+    "registrationMode" "RegistrationMode" NOT NULL DEFAULT 'OPEN',
+    "ticketTypes" JSONB NOT NULL DEFAULT '[]',
+    "questions" JSONB NOT NULL DEFAULT '[]',
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "frequency" "RecurrenceFrequency" NOT NULL,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "byWeekday" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "until" TIMESTAMP(3),
+    "count" INTEGER,
+    "exceptions" TIMESTAMP(3)[] DEFAULT ARRAY[]::TIMESTAMP(3)[],
+    "generatedUntil" TIMESTAMP(3),
+    "organizerId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EventSeries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SeriesRegistration" (
+    "id" TEXT NOT NULL,
+    "seriesId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "ticketTypeName" TEXT,
+    "answers" JSONB,
+    "joinWaitlist" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SeriesRegistration_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Event_seriesId_seriesOccurrenceAt_key" ON "Event"("seriesId", "seriesOccurrenceAt");
+
+-- CreateIndex
+CREATE INDEX "EventSeries_organizerId_idx" ON "EventSeries"("organizerId");
+
+-- CreateIndex
+CREATE INDEX "SeriesRegistration_userId_idx" ON "SeriesRegistration"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SeriesRegistration_seriesId_userId_key" ON "SeriesRegistration"("seriesId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "Event" ADD CONSTRAINT "Event_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "EventSeries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventSeries" ADD CONSTRAINT "EventSeries_organizerId_fkey" FOREIGN KEY ("organizerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SeriesRegistration" ADD CONSTRAINT "SeriesRegistration_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "EventSeries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SeriesRegistration" ADD CONSTRAINT "SeriesRegistration_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
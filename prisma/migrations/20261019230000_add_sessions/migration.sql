@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "Session" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL DEFAULT '',
+    "track" TEXT,
+    "room" TEXT,
+    "speakers" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "capacity" INTEGER NOT NULL,
+    "seatsRemaining" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Session_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SessionRegistration" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "registrationId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SessionRegistration_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Session_eventId_startsAt_idx" ON "Session"("eventId", "startsAt");
+
+-- CreateIndex
+CREATE INDEX "SessionRegistration_registrationId_idx" ON "SessionRegistration"("registrationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SessionRegistration_sessionId_registrationId_key" ON "SessionRegistration"("sessionId", "registrationId");
+
+-- AddForeignKey
+ALTER TABLE "Session" ADD CONSTRAINT "Session_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SessionRegistration" ADD CONSTRAINT "SessionRegistration_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SessionRegistration" ADD CONSTRAINT "SessionRegistration_registrationId_fkey" FOREIGN KEY ("registrationId") REFERENCES "Registration"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddCheckConstraint
+-- Prisma cannot express CHECK constraints in schema.prisma, so they live here.
+ALTER TABLE "Session" ADD CONSTRAINT "Session_seatsRemaining_check" CHECK ("seatsRemaining" >= 0);
+ALTER TABLE "Session" ADD CONSTRAINT "Session_time_check" CHECK ("endsAt" > "startsAt");
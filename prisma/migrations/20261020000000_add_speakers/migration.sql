@@ -0,0 +1,74 @@
+-- AlterTable
+-- Session speakers are now Speaker records (see "SessionSpeaker")
+ALTER TABLE "Session" DROP COLUMN "speakers";
+
+-- CreateTable
+CREATE TABLE "Speaker" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "email" TEXT,
+    "headline" TEXT,
+    "bio" TEXT NOT NULL DEFAULT '',
+    "photoUrl" TEXT,
+    "links" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "editTokenHash" TEXT,
+    "editTokenExpiresAt" TIMESTAMP(3),
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Speaker_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EventSpeaker" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "speakerId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EventSpeaker_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SessionSpeaker" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "speakerId" TEXT NOT NULL,
+
+    CONSTRAINT "SessionSpeaker_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Speaker_editTokenHash_key" ON "Speaker"("editTokenHash");
+
+-- CreateIndex
+CREATE INDEX "Speaker_createdById_idx" ON "Speaker"("createdById");
+
+-- CreateIndex
+CREATE INDEX "EventSpeaker_speakerId_idx" ON "EventSpeaker"("speakerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EventSpeaker_eventId_speakerId_key" ON "EventSpeaker"("eventId", "speakerId");
+
+-- CreateIndex
+CREATE INDEX "SessionSpeaker_speakerId_idx" ON "SessionSpeaker"("speakerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SessionSpeaker_sessionId_speakerId_key" ON "SessionSpeaker"("sessionId", "speakerId");
+
+-- AddForeignKey
+ALTER TABLE "Speaker" ADD CONSTRAINT "Speaker_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventSpeaker" ADD CONSTRAINT "EventSpeaker_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventSpeaker" ADD CONSTRAINT "EventSpeaker_speakerId_fkey" FOREIGN KEY ("speakerId") REFERENCES "Speaker"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SessionSpeaker" ADD CONSTRAINT "SessionSpeaker_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SessionSpeaker" ADD CONSTRAINT "SessionSpeaker_speakerId_fkey" FOREIGN KEY ("speakerId") REFERENCES "Speaker"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,57 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "endsAt" TIMESTAMP(3),
+ADD COLUMN     "roomId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Venue" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "addressLine1" TEXT NOT NULL,
+    "addressLine2" TEXT,
+    "city" TEXT NOT NULL,
+    "region" TEXT,
+    "postalCode" TEXT,
+    "country" TEXT NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Venue_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Room" (
+    "id" TEXT NOT NULL,
+    "venueId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "capacity" INTEGER NOT NULL,
+    "amenities" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Room_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Venue_city_idx" ON "Venue"("city");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Room_venueId_name_key" ON "Room"("venueId", "name");
+
+-- CreateIndex
+CREATE INDEX "Event_roomId_date_idx" ON "Event"("roomId", "date");
+
+-- AddForeignKey
+ALTER TABLE "Event" ADD CONSTRAINT "Event_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Venue" ADD CONSTRAINT "Venue_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Room" ADD CONSTRAINT "Room_venueId_fkey" FOREIGN KEY ("venueId") REFERENCES "Venue"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddCheckConstraint
+-- Prisma cannot express CHECK constraints in schema.prisma, so they live here.
+ALTER TABLE "Room" ADD CONSTRAINT "Room_capacity_check" CHECK ("capacity" > 0);
+ALTER TABLE "Event" ADD CONSTRAINT "Event_endsAt_check" CHECK ("endsAt" IS NULL OR "endsAt" > "date");
+ALTER TABLE "Event" ADD CONSTRAINT "Event_room_endsAt_check" CHECK ("roomId" IS NULL OR "endsAt" IS NOT NULL);
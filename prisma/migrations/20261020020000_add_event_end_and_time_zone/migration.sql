@@ -0,0 +1,23 @@
+-- Backfill: events and series without an end are assumed to last one hour
+UPDATE "Event" SET "endsAt" = "date" + INTERVAL '1 hour' WHERE "endsAt" IS NULL;
+
+-- AlterTable
+ALTER TABLE "Event" ALTER COLUMN "endsAt" SET NOT NULL,
+ADD COLUMN     "timeZone" TEXT NOT NULL DEFAULT 'UTC';
+
+-- AlterTable
+ALTER TABLE "EventSeries" ADD COLUMN     "endsAt" TIMESTAMP(3),
+ADD COLUMN     "timeZone" TEXT NOT NULL DEFAULT 'UTC';
+
+UPDATE "EventSeries" SET "endsAt" = "startsAt" + INTERVAL '1 hour';
+
+ALTER TABLE "EventSeries" ALTER COLUMN "endsAt" SET NOT NULL;
+
+-- Every event has an end now, so booking a room no longer needs its own check
+ALTER TABLE "Event" DROP CONSTRAINT "Event_room_endsAt_check";
+ALTER TABLE "Event" DROP CONSTRAINT "Event_endsAt_check";
+
+-- AddCheckConstraint
+-- Prisma cannot express CHECK constraints in schema.prisma, so they live here.
+ALTER TABLE "Event" ADD CONSTRAINT "Event_endsAt_check" CHECK ("endsAt" > "date");
+ALTER TABLE "EventSeries" ADD CONSTRAINT "EventSeries_endsAt_check" CHECK ("endsAt" > "startsAt");
@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "EventStatus" AS ENUM ('DRAFT', 'PUBLISHED', 'CANCELLED', 'COMPLETED');
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "status" "EventStatus" NOT NULL DEFAULT 'PUBLISHED',
+ADD COLUMN     "publishAt" TIMESTAMP(3),
+ADD COLUMN     "publishedAt" TIMESTAMP(3),
+ADD COLUMN     "previewTokenHash" TEXT,
+ADD COLUMN     "previewTokenExpiresAt" TIMESTAMP(3);
+
+-- Backfill: every existing event was already listed, so it stays published;
+-- the ones that have ended are completed
+UPDATE "Event" SET "publishedAt" = "createdAt";
+UPDATE "Event" SET "status" = 'COMPLETED' WHERE "endsAt" <= NOW();
+
+-- New events start as drafts
+ALTER TABLE "Event" ALTER COLUMN "status" SET DEFAULT 'DRAFT';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Event_previewTokenHash_key" ON "Event"("previewTokenHash");
+
+-- CreateIndex
+CREATE INDEX "Event_status_publishAt_idx" ON "Event"("status", "publishAt");
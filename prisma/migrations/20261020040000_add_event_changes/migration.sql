@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "EventChangeKind" AS ENUM ('RESCHEDULED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "RescheduleResponse" AS ENUM ('PENDING', 'CONFIRMED');
+
+-- AlterTable
+ALTER TABLE "Registration" ADD COLUMN     "rescheduleResponse" "RescheduleResponse";
+
+-- CreateTable
+CREATE TABLE "EventChange" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "kind" "EventChangeKind" NOT NULL,
+    "reason" TEXT,
+    "previousDate" TIMESTAMP(3) NOT NULL,
+    "previousEndsAt" TIMESTAMP(3) NOT NULL,
+    "newDate" TIMESTAMP(3),
+    "newEndsAt" TIMESTAMP(3),
+    "changedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EventChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EventChange_eventId_createdAt_idx" ON "EventChange"("eventId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "EventChange" ADD CONSTRAINT "EventChange_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventChange" ADD CONSTRAINT "EventChange_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -37,15 +37,17 @@ async function main() {
     let event;
     if (eventRes.rowCount === 0) {
       const createEventSql = `
-        INSERT INTO "Event" (id, title, description, date, location, capacity, "organizerId", "createdAt", "updatedAt")
-        VALUES (gen_random_uuid(), $1, $2, $3, $4, $5, $6, now(), now())
+        INSERT INTO "Event" (id, title, description, date, "endsAt", location, capacity, "seatsRemaining", status, "publishedAt", "organizerId", "createdAt", "updatedAt")
+        VALUES (gen_random_uuid(), $1, $2, $3, $4, $5, $6, $6, 'PUBLISHED', now(), $7, now(), now())
         RETURNING id, title;
       `;
       const date = new Date(Date.now() + 1000 * 60 * 60 * 24 * 7); // one week
+      const endsAt = new Date(date.getTime() + 1000 * 60 * 60 * 2);
       const createVals = [
         eventTitle,
         'A sample event created for seeding purposes.',
         date.toISOString(),
+        endsAt.toISOString(),
         'Online',
         100,
         user.id,
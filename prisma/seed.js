@@ -24,8 +24,12 @@ async function main() {
       title: 'Demo Event',
       description: 'A sample event created for seeding purposes.',
       date: new Date(Date.now() + 1000 * 60 * 60 * 24 * 7), // one week from now
+      endsAt: new Date(Date.now() + 1000 * 60 * 60 * (24 * 7 + 2)),
+      status: 'PUBLISHED',
+      publishedAt: new Date(),
       location: 'Online',
       capacity: 100,
+      seatsRemaining: 100,
       organizerId: user.id,
     },
   });
@@ -19,7 +19,7 @@ WITH demo_user AS (
   SELECT id FROM "User" WHERE email = 'demo@events.local'
 )
 -- Insert demo event
-INSERT INTO "Event" (id, title, description, date, location, capacity, "organizerId", "createdAt", "updatedAt")
+INSERT INTO "Event" (id, title, description, date, location, capacity, "seatsRemaining", "organizerId", "createdAt", "updatedAt")
 SELECT
   gen_random_uuid(),
   'Demo Event',
@@ -27,6 +27,7 @@ SELECT
   NOW() + INTERVAL '7 days',
   'Online',
   100,
+  100,
   demo_user.id,
   NOW(),
   NOW()
@@ -67,8 +67,13 @@ async function main() {
           description:
             'Annual technology conference with advanced Prisma workshops',
           date: new Date(Date.now() + 1000 * 60 * 60 * 24 * 30), // 30 days from now
+          endsAt: new Date(Date.now() + 1000 * 60 * 60 * (24 * 30 + 8)),
+          timeZone: 'America/Los_Angeles',
+          status: 'PUBLISHED',
+          publishedAt: new Date(),
           location: 'San Francisco Convention Center',
           capacity: 100,
+          seatsRemaining: 100,
           organizerId: organizer.id,
         },
       });
@@ -76,10 +81,11 @@ async function main() {
       console.log(`✓ Event: ${event.title}`);
       console.log(`  - ID: ${event.id}`);
       console.log(`  - Capacity: ${event.capacity}`);
+      console.log(`  - Seats remaining: ${event.seatsRemaining}`);
       console.log(`  - Date: ${event.date.toISOString()}\n`);
     } else {
       console.log(
-        `✓ Event exists: ${event.title} (capacity: ${event.capacity})\n`,
+        `✓ Event exists: ${event.title} (capacity: ${event.capacity}, seats remaining: ${event.seatsRemaining})\n`,
       );
     }
 
@@ -100,14 +106,15 @@ async function main() {
     // Get current event state
     const eventBefore = await prisma.event.findUnique({
       where: { id: event.id },
-      select: { capacity: true },
+      select: { capacity: true, seatsRemaining: true },
     });
 
     console.log(`Before Transaction:`);
     console.log(`  - Event capacity: ${eventBefore?.capacity}`);
+    console.log(`  - Seats remaining: ${eventBefore?.seatsRemaining}`);
     console.log(`  - User: ${user.email}`);
     console.log(
-      `  - Expected action: Create registration + decrement capacity\n`,
+      `  - Expected action: Create registration + decrement seats remaining\n`,
     );
 
     const transactionStartTime = Date.now();
@@ -128,15 +135,15 @@ async function main() {
           console.log(`  [TX] 2️⃣  Checking event capacity...`);
           const existingEvent = await tx.event.findUnique({
             where: { id: event.id },
-            select: { capacity: true, title: true },
+            select: { seatsRemaining: true, title: true },
           });
 
           if (!existingEvent) throw new Error('Event not found');
-          if (existingEvent.capacity <= 0) {
+          if (existingEvent.seatsRemaining <= 0) {
             throw new Error('Event has no available capacity');
           }
           console.log(
-            `  [TX]     ✓ Capacity available: ${existingEvent.capacity}`,
+            `  [TX]     ✓ Seats available: ${existingEvent.seatsRemaining}`,
           );
 
           console.log(`  [TX] 3️⃣  Creating registration record...`);
@@ -146,14 +153,14 @@ async function main() {
           });
           console.log(`  [TX]     ✓ Registration created: ${registration.id}`);
 
-          console.log(`  [TX] 4️⃣  Decrementing capacity...`);
+          console.log(`  [TX] 4️⃣  Decrementing seats remaining...`);
           const updatedEvent = await tx.event.update({
             where: { id: event.id },
-            data: { capacity: { decrement: 1 } },
-            select: { capacity: true },
+            data: { seatsRemaining: { decrement: 1 } },
+            select: { seatsRemaining: true },
           });
           console.log(
-            `  [TX]     ✓ Capacity updated: ${existingEvent.capacity} → ${updatedEvent.capacity}`,
+            `  [TX]     ✓ Seats remaining updated: ${existingEvent.seatsRemaining} → ${updatedEvent.seatsRemaining}`,
           );
 
           return { registration, event: updatedEvent };
@@ -171,7 +178,7 @@ async function main() {
       );
       console.log(`\nAfter Transaction:`);
       console.log(`  - Registration ID: ${result.registration.id}`);
-      console.log(`  - New capacity: ${result.event.capacity}`);
+      console.log(`  - Seats remaining: ${result.event.seatsRemaining}`);
       console.log(`  - Atomicity: GUARANTEED (all or nothing)\n`);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
@@ -210,8 +217,12 @@ async function main() {
         title: 'Full Event (No Capacity)',
         description: 'Event at full capacity to test rollback',
         date: new Date(Date.now() + 1000 * 60 * 60 * 24),
+        endsAt: new Date(Date.now() + 1000 * 60 * 60 * 25),
+        status: 'PUBLISHED',
+        publishedAt: new Date(),
         location: 'Test Location',
         capacity: 0, // No capacity available
+        seatsRemaining: 0,
         organizerId: organizer.id,
       },
     });
@@ -237,10 +248,10 @@ async function main() {
         console.log(`  [TX] Checking capacity...`);
         const checkEvent = await tx.event.findUnique({
           where: { id: fullEvent.id },
-          select: { capacity: true },
+          select: { seatsRemaining: true },
         });
 
-        if (!checkEvent || checkEvent.capacity <= 0) {
+        if (!checkEvent || checkEvent.seatsRemaining <= 0) {
           throw new Error('❌ CAPACITY CHECK FAILED: Event is full');
         }
 
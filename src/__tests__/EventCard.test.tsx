@@ -30,4 +30,26 @@ describe('EventCard', () => {
 
     expect(screen.queryByText(/description/)).not.toBeInTheDocument();
   });
+
+  it('links each speaker to their profile', () => {
+    render(
+      <EventCard
+        title="Sample Event"
+        date="2023-10-15"
+        speakers={[
+          { id: 'speaker-1', name: 'Ada Lovelace' },
+          { id: 'speaker-2', name: 'Grace Hopper', photoUrl: null },
+        ]}
+      />,
+    );
+
+    expect(screen.getByRole('link', { name: 'Ada Lovelace' })).toHaveAttribute(
+      'href',
+      '/speakers/speaker-1',
+    );
+    expect(screen.getByRole('link', { name: 'Grace Hopper' })).toHaveAttribute(
+      'href',
+      '/speakers/speaker-2',
+    );
+  });
 });
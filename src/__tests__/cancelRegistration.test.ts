@@ -0,0 +1,165 @@
+import { PrismaClient, RegistrationStatus } from '@prisma/client';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { cancelRegistration } from '@/lib/eventRegistration';
+import { releaseAgenda } from '@/lib/sessions';
+import { promoteWaitlistedUsers } from '@/lib/waitlist';
+
+jest.mock('@/lib/seatHolds', () => ({
+  countActiveHolds: jest.fn().mockResolvedValue(0),
+  releaseSeatHold: jest.fn(),
+}));
+
+jest.mock('@/lib/redis', () => ({ __esModule: true, default: {} }));
+
+jest.mock('@/lib/env', () => ({
+  env: {
+    JWT_SECRET: 'test-jwt-secret-key-32-chars-long',
+    JWT_REFRESH_SECRET: 'test-jwt-refresh-secret-key-32-chars',
+  },
+}));
+
+jest.mock('@/lib/email', () => ({ sendEmail: jest.fn() }));
+
+jest.mock('@/lib/security', () => ({
+  sanitize: (input: string) => input,
+}));
+
+jest.mock('@/lib/sessions', () => ({ releaseAgenda: jest.fn() }));
+
+jest.mock('@/lib/waitlist', () => ({
+  promoteWaitlistedUsers: jest.fn().mockResolvedValue([]),
+  notifyWaitlistPromotions: jest.fn(),
+}));
+
+const HOUR = 60 * 60 * 1000;
+
+const attendee = { userId: 'user-1', role: 'VIEWER' };
+const organizer = { userId: 'organizer-1', role: 'ORGANIZER' };
+
+/** A registration for an event starting `startsIn` ms from now */
+function prismaWith(startsIn: number) {
+  const prisma = {
+    registration: {
+      findUnique: jest.fn().mockResolvedValue({
+        id: 'registration-1',
+        userId: 'user-1',
+        eventId: 'event-1',
+        ticketTypeId: null,
+        promoCodeId: null,
+        status: RegistrationStatus.APPROVED,
+        createdAt: new Date('2026-10-01T09:00:00Z'),
+        event: {
+          id: 'event-1',
+          title: 'Launch Party',
+          date: new Date(Date.now() + startsIn),
+          organizerId: 'organizer-1',
+          staff: [],
+          cancellationCutoffHours: 24,
+        },
+        payment: null,
+      }),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    },
+    groupSeat: { deleteMany: jest.fn().mockResolvedValue({ count: 0 }) },
+    event: {
+      update: jest.fn().mockResolvedValue({}),
+      findUnique: jest.fn().mockResolvedValue({
+        id: 'event-1',
+        title: 'Launch Party',
+        capacity: 10,
+        seatsRemaining: 1,
+      }),
+    },
+    registrationCancellation: {
+      create: jest
+        .fn()
+        .mockImplementation(({ data }) =>
+          Promise.resolve({ id: 'cancellation-1', ...data }),
+        ),
+    },
+    $transaction: jest.fn(),
+  };
+  prisma.$transaction.mockImplementation((run) => run(prisma));
+  return prisma;
+}
+
+describe('cancelRegistration', () => {
+  beforeEach(() => {
+    jest.mocked(releaseAgenda).mockClear();
+    jest.mocked(promoteWaitlistedUsers).mockClear();
+  });
+
+  it('lets the registrant cancel before the cutoff', async () => {
+    const prisma = prismaWith(48 * HOUR);
+
+    const result = await cancelRegistration(
+      prisma as unknown as PrismaClient,
+      'registration-1',
+      attendee,
+      { reason: 'Change of plans' },
+    );
+
+    expect(result.success).toBe(true);
+    expect(prisma.registration.updateMany).toHaveBeenCalledWith({
+      where: { id: 'registration-1', status: RegistrationStatus.APPROVED },
+      data: { status: RegistrationStatus.CANCELLED, holdExpiresAt: null },
+    });
+    expect(releaseAgenda).toHaveBeenCalledWith(prisma, 'registration-1');
+    expect(promoteWaitlistedUsers).toHaveBeenCalledWith(prisma, 'event-1');
+    expect(prisma.registrationCancellation.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          registrationId: 'registration-1',
+          userId: 'user-1',
+          cancelledById: 'user-1',
+          reason: 'Change of plans',
+        }),
+      }),
+    );
+  });
+
+  it('refuses the registrant once the cutoff has passed', async () => {
+    const prisma = prismaWith(12 * HOUR);
+
+    const result = await cancelRegistration(
+      prisma as unknown as PrismaClient,
+      'registration-1',
+      attendee,
+    );
+
+    expect(result.error?.code).toBe(ERROR_CODES.CANCELLATION_WINDOW_CLOSED);
+    expect(prisma.registration.updateMany).not.toHaveBeenCalled();
+    expect(prisma.registrationCancellation.create).not.toHaveBeenCalled();
+  });
+
+  it('lets the organizer cancel after the cutoff and records who did', async () => {
+    const prisma = prismaWith(12 * HOUR);
+
+    const result = await cancelRegistration(
+      prisma as unknown as PrismaClient,
+      'registration-1',
+      organizer,
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.cancellation).toMatchObject({
+      userId: 'user-1',
+      cancelledById: 'organizer-1',
+    });
+  });
+
+  it('refuses when the registration changed concurrently', async () => {
+    const prisma = prismaWith(48 * HOUR);
+    prisma.registration.updateMany.mockResolvedValue({ count: 0 });
+
+    const result = await cancelRegistration(
+      prisma as unknown as PrismaClient,
+      'registration-1',
+      attendee,
+    );
+
+    expect(result.error?.code).toBe(ERROR_CODES.INVALID_STATUS_TRANSITION);
+    expect(prisma.event.update).not.toHaveBeenCalled();
+    expect(prisma.registrationCancellation.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,85 @@
+import { PrismaClient, RescheduleResponse } from '@prisma/client';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { respondToReschedule } from '@/lib/eventChanges';
+
+jest.mock('@/lib/redis', () => ({
+  __esModule: true,
+  default: { scan: jest.fn(), del: jest.fn() },
+}));
+
+jest.mock('@/lib/env', () => ({
+  env: {
+    JWT_SECRET: 'test-jwt-secret-key-32-chars-long',
+    JWT_REFRESH_SECRET: 'test-jwt-refresh-secret-key-32-chars',
+  },
+}));
+
+jest.mock('@/lib/email', () => ({ sendEmail: jest.fn() }));
+
+jest.mock('@/lib/security', () => ({
+  sanitize: (input: string) => input,
+}));
+
+const attendee = { userId: 'user-1', role: 'VIEWER' };
+
+function prismaWith(rescheduleResponse: RescheduleResponse | null) {
+  return {
+    registration: {
+      findUnique: jest.fn().mockResolvedValue({
+        id: 'registration-1',
+        userId: 'user-1',
+        rescheduleResponse,
+      }),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    },
+  };
+}
+
+describe('respondToReschedule', () => {
+  it('confirms a pending seat', async () => {
+    const prisma = prismaWith(RescheduleResponse.PENDING);
+
+    const result = await respondToReschedule(
+      prisma as unknown as PrismaClient,
+      'registration-1',
+      'CONFIRM',
+      attendee,
+    );
+
+    expect(result.success).toBe(true);
+    expect(prisma.registration.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: 'registration-1',
+        rescheduleResponse: RescheduleResponse.PENDING,
+      },
+      data: { rescheduleResponse: RescheduleResponse.CONFIRMED },
+    });
+  });
+
+  it('refuses when no reschedule is awaiting an answer', async () => {
+    const prisma = prismaWith(RescheduleResponse.CONFIRMED);
+
+    const result = await respondToReschedule(
+      prisma as unknown as PrismaClient,
+      'registration-1',
+      'RELEASE',
+      attendee,
+    );
+
+    expect(result.error?.code).toBe(ERROR_CODES.INVALID_STATUS_TRANSITION);
+    expect(prisma.registration.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('only lets the registrant answer', async () => {
+    const prisma = prismaWith(RescheduleResponse.PENDING);
+
+    const result = await respondToReschedule(
+      prisma as unknown as PrismaClient,
+      'registration-1',
+      'CONFIRM',
+      { userId: 'user-2', role: 'VIEWER' },
+    );
+
+    expect(result.error?.code).toBe(ERROR_CODES.FORBIDDEN);
+  });
+});
@@ -0,0 +1,94 @@
+import { EventStatus, PrismaClient } from '@prisma/client';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import {
+  assertEventOpenForRegistration,
+  publishScheduledEvents,
+} from '@/lib/eventLifecycle';
+import redis from '@/lib/redis';
+
+jest.mock('@/lib/redis', () => ({
+  __esModule: true,
+  default: {
+    scan: jest
+      .fn()
+      .mockResolvedValue(['0', ['events:published:page=1:limit=10']]),
+    del: jest.fn().mockResolvedValue(1),
+  },
+}));
+
+jest.mock('@/lib/email', () => ({ sendEmail: jest.fn() }));
+
+jest.mock('@/lib/security', () => ({
+  sanitize: (input: string) => input,
+}));
+
+function event(status: EventStatus, deletedAt: Date | null = null) {
+  return { id: 'event-1', title: 'Launch Party', status, deletedAt };
+}
+
+describe('assertEventOpenForRegistration', () => {
+  it('accepts published events', () => {
+    expect(() =>
+      assertEventOpenForRegistration(event(EventStatus.PUBLISHED)),
+    ).not.toThrow();
+  });
+
+  it('reports drafts as not found', () => {
+    expect(() =>
+      assertEventOpenForRegistration(event(EventStatus.DRAFT)),
+    ).toThrow(expect.objectContaining({ code: ERROR_CODES.EVENT_NOT_FOUND }));
+  });
+
+  it('reports deleted events as not found', () => {
+    expect(() =>
+      assertEventOpenForRegistration(
+        event(EventStatus.PUBLISHED, new Date('2026-11-01T00:00:00Z')),
+      ),
+    ).toThrow(expect.objectContaining({ code: ERROR_CODES.EVENT_NOT_FOUND }));
+  });
+
+  it('refuses cancelled and completed events', () => {
+    for (const status of [EventStatus.CANCELLED, EventStatus.COMPLETED]) {
+      expect(() => assertEventOpenForRegistration(event(status))).toThrow(
+        expect.objectContaining({ code: ERROR_CODES.EVENT_NOT_PUBLISHED }),
+      );
+    }
+  });
+});
+
+describe('publishScheduledEvents', () => {
+  const now = new Date('2026-11-02T09:00:00Z');
+
+  it('publishes due drafts and drops the cached listing', async () => {
+    const prisma = {
+      event: { updateMany: jest.fn().mockResolvedValue({ count: 2 }) },
+    };
+
+    await expect(
+      publishScheduledEvents(prisma as unknown as PrismaClient, now),
+    ).resolves.toBe(2);
+
+    expect(prisma.event.updateMany).toHaveBeenCalledWith({
+      where: { status: EventStatus.DRAFT, publishAt: { lte: now } },
+      data: expect.objectContaining({
+        status: EventStatus.PUBLISHED,
+        publishedAt: now,
+        previewTokenHash: null,
+      }),
+    });
+    expect(redis.del).toHaveBeenCalledWith('events:published:page=1:limit=10');
+  });
+
+  it('leaves the cache alone when nothing was due', async () => {
+    jest.mocked(redis.del).mockClear();
+    const prisma = {
+      event: { updateMany: jest.fn().mockResolvedValue({ count: 0 }) },
+    };
+
+    await expect(
+      publishScheduledEvents(prisma as unknown as PrismaClient, now),
+    ).resolves.toBe(0);
+
+    expect(redis.del).not.toHaveBeenCalled();
+  });
+});
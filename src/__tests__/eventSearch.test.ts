@@ -0,0 +1,181 @@
+import { EventStatus, PrismaClient } from '@prisma/client';
+import {
+  hasEventFilters,
+  listEvents,
+  searchEvents,
+  toHighlightSegments,
+  toPrefixQuery,
+} from '@/lib/eventSearch';
+import { eventListQuerySchema } from '@/lib/schemas/eventSchema';
+
+const BASE = { status: EventStatus.PUBLISHED, deletedAt: null };
+
+function mockPrisma() {
+  return {
+    event: {
+      findMany: jest.fn().mockResolvedValue([
+        {
+          id: 'event-1',
+          title: 'Launch Party',
+          category: { slug: 'tech', name: 'Tech' },
+          tags: [{ tag: 'javascript' }, { tag: 'networking' }],
+        },
+      ]),
+      count: jest.fn().mockResolvedValue(1),
+      groupBy: jest
+        .fn()
+        .mockImplementation(({ by }) =>
+          Promise.resolve(
+            by[0] === 'categoryId'
+              ? [{ categoryId: 'category-1', _count: { categoryId: 3 } }]
+              : [],
+          ),
+        ),
+    },
+    eventTag: {
+      groupBy: jest
+        .fn()
+        .mockResolvedValue([{ tag: 'javascript', _count: { tag: 1 } }]),
+    },
+    category: {
+      findMany: jest
+        .fn()
+        .mockResolvedValue([{ id: 'category-1', slug: 'tech', name: 'Tech' }]),
+    },
+    user: { findMany: jest.fn().mockResolvedValue([]) },
+  };
+}
+
+describe('eventListQuerySchema', () => {
+  it('normalises tags and parses hasSeats', () => {
+    const filters = eventListQuerySchema.parse({
+      tags: ['JavaScript', 'javascript '],
+      hasSeats: 'true',
+    });
+
+    expect(filters.tags).toEqual(['javascript']);
+    expect(filters.hasSeats).toBe(true);
+    expect(hasEventFilters(filters)).toBe(true);
+    expect(hasEventFilters(eventListQuerySchema.parse({}))).toBe(false);
+  });
+});
+
+describe('listEvents', () => {
+  it('applies every filter to the page and leaves its own out of a facet', async () => {
+    const prisma = mockPrisma();
+    const filters = eventListQuerySchema.parse({
+      category: 'tech',
+      tags: ['javascript'],
+    });
+
+    const listing = await listEvents(
+      prisma as unknown as PrismaClient,
+      BASE,
+      filters,
+      1,
+      10,
+    );
+
+    const { where } = prisma.event.findMany.mock.calls[0][0];
+    expect(where.AND).toEqual([
+      BASE,
+      { category: { slug: 'tech' } },
+      { tags: { some: { tag: 'javascript' } } },
+    ]);
+
+    const categoryFacet = prisma.event.groupBy.mock.calls.find(
+      ([args]) => args.by[0] === 'categoryId',
+    )![0];
+    expect(categoryFacet.where.AND).toEqual([
+      BASE,
+      { tags: { some: { tag: 'javascript' } } },
+    ]);
+
+    expect(listing.events[0].tags).toEqual(['javascript', 'networking']);
+    expect(listing.facets.categories).toEqual([
+      { slug: 'tech', name: 'Tech', count: 3 },
+    ]);
+    expect(listing.facets.tags).toEqual([{ tag: 'javascript', count: 1 }]);
+  });
+});
+
+describe('toPrefixQuery', () => {
+  it('matches every word as a prefix and drops tsquery syntax', () => {
+    expect(toPrefixQuery("Conf & Rock'n'Roll!")).toBe(
+      'conf:* & rock:* & n:* & roll:*',
+    );
+    expect(toPrefixQuery(' !& ')).toBeNull();
+  });
+});
+
+describe('toHighlightSegments', () => {
+  it('splits ts_headline output on the match delimiters', () => {
+    expect(
+      toHighlightSegments('Tech \u0002Conf\u0003erence \u0002Berlin\u0003'),
+    ).toEqual([
+      { text: 'Tech ', highlighted: false },
+      { text: 'Conf', highlighted: true },
+      { text: 'erence ', highlighted: false },
+      { text: 'Berlin', highlighted: true },
+    ]);
+  });
+});
+
+describe('searchEvents', () => {
+  it('returns ranked results in rank order with highlights', async () => {
+    const prisma = {
+      $queryRaw: jest.fn().mockResolvedValue([
+        {
+          id: 'event-2',
+          rank: 0.6,
+          titleHighlight: '\u0002Rust\u0003 Meetup',
+          snippetHighlight: 'Monthly talks',
+          total: BigInt(13),
+        },
+        {
+          id: 'event-1',
+          rank: 0.2,
+          titleHighlight: 'Systems Night',
+          snippetHighlight: 'Bring your \u0002Rust\u0003 questions',
+          total: BigInt(13),
+        },
+      ]),
+      event: {
+        findMany: jest.fn().mockResolvedValue(
+          ['event-1', 'event-2'].map((id) => ({
+            id,
+            date: new Date('2026-11-02T18:00:00Z'),
+            endsAt: new Date('2026-11-02T20:00:00Z'),
+            timeZone: 'Europe/Berlin',
+            tags: [],
+          })),
+        ),
+      },
+    };
+
+    const result = await searchEvents(
+      prisma as unknown as PrismaClient,
+      'rust',
+      2,
+      10,
+    );
+
+    const [, ...values] = prisma.$queryRaw.mock.calls[0];
+    expect(values).toContain('rust:*');
+    expect(values).toContain(10);
+    expect(result.results.map((event) => event.id)).toEqual([
+      'event-2',
+      'event-1',
+    ]);
+    expect(result.results[1].highlights.snippet[1]).toEqual({
+      text: 'Rust',
+      highlighted: true,
+    });
+    expect(result.pagination).toMatchObject({
+      currentPage: 2,
+      totalRecords: 13,
+      totalPages: 2,
+      hasNextPage: false,
+    });
+  });
+});
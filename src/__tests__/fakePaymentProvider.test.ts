@@ -0,0 +1,73 @@
+import { createFakePaymentProvider } from '@/lib/payments/fakeProvider';
+
+describe('Fake payment provider', () => {
+  const params = {
+    amountCents: 2500,
+    currency: 'USD',
+    metadata: { registrationId: 'registration-1' },
+  };
+
+  it('creates intents awaiting confirmation and confirms them', async () => {
+    const provider = createFakePaymentProvider('test-secret');
+    const intent = await provider.createIntent(params);
+
+    expect(intent.status).toBe('requires_confirmation');
+    expect(intent.amountCents).toBe(2500);
+
+    const confirmed = await provider.confirmIntent(intent.id);
+    expect(confirmed.status).toBe('succeeded');
+
+    const refunded = await provider.refund(intent.id);
+    expect(refunded.status).toBe('refunded');
+  });
+
+  it('fails confirmation of a declined intent', async () => {
+    const provider = createFakePaymentProvider('test-secret');
+    const intent = await provider.createIntent(params);
+
+    provider.declineIntent(intent.id);
+
+    const confirmed = await provider.confirmIntent(intent.id);
+    expect(confirmed.status).toBe('failed');
+    await expect(provider.refund(intent.id)).rejects.toThrow();
+  });
+
+  it('only cancels intents that have not been confirmed', async () => {
+    const provider = createFakePaymentProvider('test-secret');
+    const pending = await provider.createIntent(params);
+    const paid = await provider.createIntent(params);
+    await provider.confirmIntent(paid.id);
+
+    expect((await provider.cancelIntent(pending.id)).status).toBe('canceled');
+    await expect(provider.cancelIntent(paid.id)).rejects.toThrow();
+  });
+
+  it('verifies webhooks signed with its secret', async () => {
+    const provider = createFakePaymentProvider('test-secret');
+    const intent = await provider.createIntent(params);
+    await provider.confirmIntent(intent.id);
+
+    const { payload, signature } = provider.buildWebhook(intent.id);
+    const event = await provider.verifyWebhook(payload, signature);
+
+    expect(event.intent.id).toBe(intent.id);
+    expect(event.intent.status).toBe('succeeded');
+  });
+
+  it('rejects missing, tampered or foreign webhook signatures', async () => {
+    const provider = createFakePaymentProvider('test-secret');
+    const other = createFakePaymentProvider('other-secret');
+    const intent = await provider.createIntent(params);
+    const { payload, signature } = provider.buildWebhook(intent.id);
+
+    await expect(provider.verifyWebhook(payload, null)).rejects.toThrow(
+      'Missing webhook signature',
+    );
+    await expect(
+      provider.verifyWebhook(payload.replace('2500', '1'), signature),
+    ).rejects.toThrow('Invalid webhook signature');
+    await expect(
+      provider.verifyWebhook(payload, other.signWebhook(payload)),
+    ).rejects.toThrow('Invalid webhook signature');
+  });
+});
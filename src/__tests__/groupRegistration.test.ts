@@ -0,0 +1,267 @@
+import {
+  EventStatus,
+  PrismaClient,
+  QuestionType,
+  RegistrationMode,
+  RegistrationStatus,
+} from '@prisma/client';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import {
+  createGroupRegistration,
+  reassignGroupSeat,
+} from '@/lib/groupRegistration';
+import { releaseAgenda } from '@/lib/sessions';
+
+jest.mock('@/lib/seatHolds', () => ({
+  countActiveHolds: jest.fn().mockResolvedValue(0),
+  releaseSeatHold: jest.fn(),
+}));
+
+jest.mock('@/lib/redis', () => ({ __esModule: true, default: {} }));
+
+jest.mock('@/lib/env', () => ({
+  env: {
+    JWT_SECRET: 'test-jwt-secret-key-32-chars-long',
+    JWT_REFRESH_SECRET: 'test-jwt-refresh-secret-key-32-chars',
+  },
+}));
+
+jest.mock('@/lib/email', () => ({ sendEmail: jest.fn() }));
+
+jest.mock('@/lib/security', () => ({
+  sanitize: (input: string) => input,
+}));
+
+jest.mock('@/lib/sessions', () => ({ releaseAgenda: jest.fn() }));
+
+jest.mock('@/lib/tickets', () => ({ sendRegistrationTicket: jest.fn() }));
+
+const purchaser = { userId: 'purchaser-1', role: 'VIEWER' };
+
+const attendees = [
+  { name: 'Ada', email: 'ada@example.com' },
+  { name: 'Grace', email: 'grace@example.com' },
+];
+
+/** A client whose transaction runs against the same mocks */
+function prismaWith<T extends Record<string, Record<string, jest.Mock>>>(
+  models: T,
+) {
+  const prisma = { ...models, $transaction: jest.fn() };
+  prisma.$transaction.mockImplementation((run) => run(prisma));
+  return prisma;
+}
+
+function bookingPrisma({
+  seatsRemaining,
+  questions = [],
+}: {
+  seatsRemaining: number;
+  questions?: unknown[];
+}) {
+  return prismaWith({
+    event: {
+      findUnique: jest.fn().mockResolvedValue({
+        id: 'event-1',
+        title: 'Launch Party',
+        seatsRemaining,
+        registrationMode: RegistrationMode.OPEN,
+        status: EventStatus.PUBLISHED,
+        deletedAt: null,
+      }),
+      updateMany: jest.fn().mockImplementation(({ where }) =>
+        Promise.resolve({
+          count: seatsRemaining >= where.seatsRemaining.gte ? 1 : 0,
+        }),
+      ),
+    },
+    ticketType: { count: jest.fn().mockResolvedValue(0) },
+    registrationQuestion: { findMany: jest.fn().mockResolvedValue(questions) },
+    user: { findMany: jest.fn().mockResolvedValue([]) },
+    registration: { findMany: jest.fn().mockResolvedValue([]) },
+    groupSeat: { findMany: jest.fn().mockResolvedValue([]) },
+    groupBooking: { create: jest.fn() },
+  });
+}
+
+describe('createGroupRegistration', () => {
+  it('books nothing when the event cannot seat the whole group', async () => {
+    const prisma = bookingPrisma({ seatsRemaining: 1 });
+
+    const result = await createGroupRegistration(
+      prisma as unknown as PrismaClient,
+      'purchaser-1',
+      'event-1',
+      attendees,
+    );
+
+    expect(result.error?.code).toBe(ERROR_CODES.EVENT_FULL);
+    expect(prisma.event.updateMany).toHaveBeenCalledWith({
+      where: { id: 'event-1', seatsRemaining: { gte: 2 } },
+      data: { seatsRemaining: { decrement: 2 } },
+    });
+    expect(prisma.groupBooking.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses events with required registration questions', async () => {
+    const prisma = bookingPrisma({
+      seatsRemaining: 10,
+      questions: [
+        {
+          id: 'question-1',
+          label: 'Dietary requirements',
+          type: QuestionType.TEXT,
+          required: true,
+          options: [],
+          position: 0,
+        },
+      ],
+    });
+
+    const result = await createGroupRegistration(
+      prisma as unknown as PrismaClient,
+      'purchaser-1',
+      'event-1',
+      attendees,
+    );
+
+    expect(result.error?.code).toBe(ERROR_CODES.VALIDATION_ERROR);
+    expect(prisma.event.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+function reassignPrisma(
+  registration: {
+    status: RegistrationStatus;
+    checkedInAt: Date | null;
+  },
+  cancelled: number = 1,
+) {
+  return prismaWith({
+    groupSeat: {
+      findFirst: jest.fn().mockResolvedValue({
+        id: 'seat-1',
+        attendeeName: 'Ada',
+        attendeeEmail: 'ada@example.com',
+        registrationId: 'registration-1',
+        inviteTokenHash: null,
+        registration: {
+          id: 'registration-1',
+          userId: 'user-1',
+          createdAt: new Date('2026-10-01T09:00:00Z'),
+          ...registration,
+        },
+      }),
+      findMany: jest.fn().mockResolvedValue([]),
+      update: jest.fn().mockResolvedValue({}),
+    },
+    groupBooking: {
+      findUniqueOrThrow: jest.fn().mockResolvedValue({
+        id: 'booking-1',
+        eventId: 'event-1',
+        purchaserId: 'purchaser-1',
+        ticketTypeId: null,
+        createdAt: new Date('2026-10-01T09:00:00Z'),
+        event: {
+          id: 'event-1',
+          title: 'Launch Party',
+          date: new Date('2026-11-02T18:00:00Z'),
+          endsAt: new Date('2026-11-02T20:00:00Z'),
+          timeZone: 'UTC',
+          location: 'Berlin',
+          organizerId: 'organizer-1',
+          staff: [],
+        },
+        purchaser: {
+          id: 'purchaser-1',
+          name: 'Purchaser',
+          email: 'purchaser@example.com',
+        },
+        ticketType: null,
+        seats: [
+          {
+            id: 'seat-1',
+            attendeeName: 'Grace',
+            attendeeEmail: 'grace@example.com',
+            registrationId: null,
+            inviteTokenHash: 'hash',
+            registration: null,
+          },
+        ],
+      }),
+    },
+    user: { findUnique: jest.fn().mockResolvedValue(null) },
+    registration: {
+      findMany: jest.fn().mockResolvedValue([]),
+      updateMany: jest.fn().mockResolvedValue({ count: cancelled }),
+    },
+    registrationCancellation: { create: jest.fn().mockResolvedValue({}) },
+  });
+}
+
+describe('reassignGroupSeat', () => {
+  beforeEach(() => {
+    jest.mocked(releaseAgenda).mockClear();
+  });
+
+  it("cancels the previous attendee's registration and releases their agenda", async () => {
+    const prisma = reassignPrisma({
+      status: RegistrationStatus.APPROVED,
+      checkedInAt: null,
+    });
+
+    const result = await reassignGroupSeat(
+      prisma as unknown as PrismaClient,
+      'booking-1',
+      'seat-1',
+      attendees[1],
+      purchaser,
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.seat?.status).toBe('INVITED');
+    expect(prisma.registration.updateMany).toHaveBeenCalledWith({
+      where: { id: 'registration-1', status: RegistrationStatus.APPROVED },
+      data: { status: RegistrationStatus.CANCELLED },
+    });
+    expect(releaseAgenda).toHaveBeenCalledWith(prisma, 'registration-1');
+    expect(prisma.registrationCancellation.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses when the registration changed concurrently', async () => {
+    const prisma = reassignPrisma(
+      { status: RegistrationStatus.APPROVED, checkedInAt: null },
+      0,
+    );
+
+    const result = await reassignGroupSeat(
+      prisma as unknown as PrismaClient,
+      'booking-1',
+      'seat-1',
+      attendees[1],
+      purchaser,
+    );
+
+    expect(result.error?.code).toBe(ERROR_CODES.INVALID_STATUS_TRANSITION);
+    expect(releaseAgenda).not.toHaveBeenCalled();
+    expect(prisma.groupSeat.update).not.toHaveBeenCalled();
+  });
+
+  it('keeps checked-in seats with their attendee', async () => {
+    const prisma = reassignPrisma({
+      status: RegistrationStatus.APPROVED,
+      checkedInAt: new Date('2026-11-02T18:05:00Z'),
+    });
+
+    const result = await reassignGroupSeat(
+      prisma as unknown as PrismaClient,
+      'booking-1',
+      'seat-1',
+      attendees[1],
+      purchaser,
+    );
+
+    expect(result.error?.code).toBe(ERROR_CODES.ALREADY_CHECKED_IN);
+    expect(prisma.registration.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,111 @@
+import { Prisma } from '@prisma/client';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import {
+  assertInvitationRedeemable,
+  markInvitationUsed,
+} from '@/lib/invitations';
+import { hashToken } from '@/lib/secureTokens';
+
+jest.mock('@/lib/env', () => ({
+  env: {
+    JWT_SECRET: 'test-jwt-secret-key-32-chars-long',
+    JWT_REFRESH_SECRET: 'test-jwt-refresh-secret-key-32-chars',
+  },
+}));
+
+jest.mock('@/lib/email', () => ({ sendEmail: jest.fn() }));
+
+const now = new Date('2026-10-19T12:00:00Z');
+const invitee = { email: 'Ada@Example.com' };
+
+function txWith(invitation: Record<string, unknown> | null) {
+  return {
+    invitation: {
+      findUnique: jest.fn().mockResolvedValue(
+        invitation && {
+          id: 'invitation-1',
+          eventId: 'event-1',
+          email: 'ada@example.com',
+          expiresAt: new Date('2026-10-26T12:00:00Z'),
+          usedAt: null,
+          ...invitation,
+        },
+      ),
+    },
+  } as unknown as Prisma.TransactionClient;
+}
+
+describe('assertInvitationRedeemable', () => {
+  it('accepts an unused invitation for the invited address', async () => {
+    const tx = txWith({});
+
+    await expect(
+      assertInvitationRedeemable(tx, 'token', invitee, 'event-1', now),
+    ).resolves.toBe('invitation-1');
+    expect(tx.invitation.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { tokenHash: hashToken('token') } }),
+    );
+  });
+
+  it('refuses an invitation that was already used', async () => {
+    const tx = txWith({ usedAt: new Date('2026-10-18T09:00:00Z') });
+
+    await expect(
+      assertInvitationRedeemable(tx, 'token', invitee, 'event-1', now),
+    ).rejects.toMatchObject({ code: ERROR_CODES.INVITATION_ALREADY_USED });
+  });
+
+  it('refuses an expired invitation', async () => {
+    const tx = txWith({ expiresAt: now });
+
+    await expect(
+      assertInvitationRedeemable(tx, 'token', invitee, 'event-1', now),
+    ).rejects.toMatchObject({ code: ERROR_CODES.INVITATION_EXPIRED });
+  });
+
+  it('refuses another account', async () => {
+    const tx = txWith({});
+
+    await expect(
+      assertInvitationRedeemable(
+        tx,
+        'token',
+        { email: 'grace@example.com' },
+        'event-1',
+        now,
+      ),
+    ).rejects.toMatchObject({ code: ERROR_CODES.INVITATION_EMAIL_MISMATCH });
+  });
+
+  it("refuses another event's invitation", async () => {
+    const tx = txWith({ eventId: 'event-2' });
+
+    await expect(
+      assertInvitationRedeemable(tx, 'token', invitee, 'event-1', now),
+    ).rejects.toMatchObject({ code: ERROR_CODES.INVALID_INVITATION });
+  });
+});
+
+describe('markInvitationUsed', () => {
+  it('lets only one concurrent redemption through', async () => {
+    const updateMany = jest
+      .fn()
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 });
+    const tx = {
+      invitation: { updateMany },
+    } as unknown as Prisma.TransactionClient;
+
+    await expect(
+      markInvitationUsed(tx, 'invitation-1', 'registration-1', now),
+    ).resolves.toBeUndefined();
+    await expect(
+      markInvitationUsed(tx, 'invitation-1', 'registration-2', now),
+    ).rejects.toMatchObject({ code: ERROR_CODES.INVITATION_ALREADY_USED });
+
+    expect(updateMany).toHaveBeenCalledWith({
+      where: { id: 'invitation-1', usedAt: null },
+      data: { usedAt: now, registrationId: 'registration-1' },
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server';
+import { middleware } from '@/middleware';
+
+jest.mock('@/lib/env', () => ({
+  env: {
+    JWT_SECRET: 'test-jwt-secret-key-32-chars-long',
+    JWT_REFRESH_SECRET: 'test-jwt-refresh-secret-key-32-chars',
+  },
+}));
+
+function request(path: string) {
+  return new NextRequest(new URL(path, 'http://localhost:3000'));
+}
+
+describe('middleware without an access token cookie', () => {
+  it('lets token-authenticated speaker profile requests through', () => {
+    for (const path of [
+      '/api/speakers/profile?token=abc',
+      '/api/speakers/profile/photo',
+    ]) {
+      const response = middleware(request(path));
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('x-middleware-next')).toBe('1');
+    }
+  });
+
+  it('lets draft preview links through instead of redirecting to login', () => {
+    for (const path of [
+      '/events/preview?token=abc',
+      '/api/events/preview?token=abc',
+    ]) {
+      expect(middleware(request(path)).headers.get('x-middleware-next')).toBe(
+        '1',
+      );
+    }
+    expect(middleware(request('/events/abc/edit')).status).toBe(307);
+  });
+
+  it('rejects other API requests', () => {
+    expect(middleware(request('/api/events/abc/staff')).status).toBe(401);
+  });
+});
@@ -0,0 +1,57 @@
+import { EventStaffRole } from '@prisma/client';
+import { getEventRole, hasEventPermission } from '@/lib/permissions';
+
+const owner = { userId: 'user-owner', role: 'EDITOR' };
+const member = { userId: 'user-staff', role: 'EDITOR' };
+const admin = { userId: 'user-admin', role: 'ADMIN' };
+
+function event(staffRole?: EventStaffRole) {
+  return {
+    organizerId: owner.userId,
+    staff: staffRole ? [{ role: staffRole }] : [],
+  };
+}
+
+describe('getEventRole', () => {
+  it('treats the organizer as the owner', () => {
+    expect(getEventRole(owner, event())).toBe('OWNER');
+  });
+
+  it('returns the staff role, or null without one', () => {
+    expect(getEventRole(member, event(EventStaffRole.VIEWER))).toBe('VIEWER');
+    expect(getEventRole(member, event())).toBeNull();
+  });
+});
+
+describe('hasEventPermission', () => {
+  it('lets co-organizers do everything but owner-only operations', () => {
+    const coOrganized = event(EventStaffRole.CO_ORGANIZER);
+
+    expect(hasEventPermission(member, coOrganized, 'manage')).toBe(true);
+    expect(hasEventPermission(member, coOrganized, 'exportAttendees')).toBe(
+      true,
+    );
+    expect(hasEventPermission(member, coOrganized, 'own')).toBe(false);
+  });
+
+  it('limits check-in staff to the attendee list and check-in', () => {
+    const staffed = event(EventStaffRole.CHECK_IN);
+
+    expect(hasEventPermission(member, staffed, 'view')).toBe(true);
+    expect(hasEventPermission(member, staffed, 'checkIn')).toBe(true);
+    expect(hasEventPermission(member, staffed, 'exportAttendees')).toBe(false);
+    expect(hasEventPermission(member, staffed, 'manage')).toBe(false);
+  });
+
+  it('lets viewers see and export attendees but not check them in', () => {
+    const viewed = event(EventStaffRole.VIEWER);
+
+    expect(hasEventPermission(member, viewed, 'exportAttendees')).toBe(true);
+    expect(hasEventPermission(member, viewed, 'checkIn')).toBe(false);
+  });
+
+  it('refuses users without a role and lets admins through', () => {
+    expect(hasEventPermission(member, event(), 'view')).toBe(false);
+    expect(hasEventPermission(admin, event(), 'own')).toBe(true);
+  });
+});
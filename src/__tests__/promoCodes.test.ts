@@ -0,0 +1,67 @@
+import { DiscountType } from '@prisma/client';
+import { calculateDiscountCents } from '../lib/promoCodes';
+import { createPromoCodeSchema } from '../lib/schemas/promoCodeSchema';
+
+describe('Promo code discounts', () => {
+  it('rounds percentage discounts down to whole cents', () => {
+    expect(
+      calculateDiscountCents(
+        { discountType: DiscountType.PERCENTAGE, discountValue: 15 },
+        1999,
+      ),
+    ).toBe(299);
+  });
+
+  it('never takes more than the ticket price off', () => {
+    expect(
+      calculateDiscountCents(
+        { discountType: DiscountType.FIXED_AMOUNT, discountValue: 5000 },
+        2500,
+      ),
+    ).toBe(2500);
+    expect(
+      calculateDiscountCents(
+        { discountType: DiscountType.PERCENTAGE, discountValue: 100 },
+        2500,
+      ),
+    ).toBe(2500);
+  });
+});
+
+describe('Promo code definitions', () => {
+  it('normalises the code and applies defaults', () => {
+    const result = createPromoCodeSchema.safeParse({
+      code: ' early-bird ',
+      discountType: 'PERCENTAGE',
+      discountValue: 20,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({
+      code: 'EARLY-BIRD',
+      currency: 'USD',
+      active: true,
+      eventIds: [],
+      ticketTypeIds: [],
+    });
+  });
+
+  it('rejects percentages above 100 and inverted validity windows', () => {
+    expect(
+      createPromoCodeSchema.safeParse({
+        code: 'HALFOFF',
+        discountType: 'PERCENTAGE',
+        discountValue: 150,
+      }).success,
+    ).toBe(false);
+    expect(
+      createPromoCodeSchema.safeParse({
+        code: 'SPRING',
+        discountType: 'FIXED_AMOUNT',
+        discountValue: 500,
+        startsAt: '2026-05-01T00:00:00.000Z',
+        expiresAt: '2026-04-01T00:00:00.000Z',
+      }).success,
+    ).toBe(false);
+  });
+});
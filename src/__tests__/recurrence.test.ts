@@ -0,0 +1,134 @@
+import {
+  RecurrenceRule,
+  expandRecurrence,
+  formatRRule,
+} from '../lib/recurrence';
+
+const farFuture = new Date('2030-01-01T00:00:00.000Z');
+
+function expand(rule: RecurrenceRule, limit = 50) {
+  return expandRecurrence(rule, { until: farFuture, limit }).map((date) =>
+    date.toISOString(),
+  );
+}
+
+describe('Recurrence expansion', () => {
+  it('repeats weekly on the given weekdays at the first start time', () => {
+    const occurrences = expand({
+      // A Wednesday
+      startsAt: new Date('2027-03-03T18:30:00.000Z'),
+      frequency: 'WEEKLY',
+      interval: 1,
+      byWeekday: ['MO', 'WE'],
+      count: 4,
+    });
+
+    expect(occurrences).toEqual([
+      '2027-03-03T18:30:00.000Z',
+      '2027-03-08T18:30:00.000Z',
+      '2027-03-10T18:30:00.000Z',
+      '2027-03-15T18:30:00.000Z',
+    ]);
+  });
+
+  it('counts exceptions towards COUNT without returning them', () => {
+    const occurrences = expand({
+      startsAt: new Date('2027-03-01T09:00:00.000Z'),
+      frequency: 'DAILY',
+      interval: 2,
+      byWeekday: [],
+      count: 3,
+      exceptions: [new Date('2027-03-03T09:00:00.000Z')],
+    });
+
+    expect(occurrences).toEqual([
+      '2027-03-01T09:00:00.000Z',
+      '2027-03-05T09:00:00.000Z',
+    ]);
+  });
+
+  it('skips months without the day and stops at UNTIL', () => {
+    const occurrences = expand({
+      startsAt: new Date('2027-01-31T12:00:00.000Z'),
+      frequency: 'MONTHLY',
+      interval: 1,
+      byWeekday: [],
+      until: new Date('2027-05-31T12:00:00.000Z'),
+    });
+
+    expect(occurrences).toEqual([
+      '2027-01-31T12:00:00.000Z',
+      '2027-03-31T12:00:00.000Z',
+      '2027-05-31T12:00:00.000Z',
+    ]);
+  });
+
+  it('only returns occurrences after the given instant, up to the limit', () => {
+    const occurrences = expandRecurrence(
+      {
+        startsAt: new Date('2027-03-01T09:00:00.000Z'),
+        frequency: 'DAILY',
+        interval: 1,
+        byWeekday: [],
+      },
+      {
+        after: new Date('2027-03-10T09:00:00.000Z'),
+        until: farFuture,
+        limit: 2,
+      },
+    ).map((date) => date.toISOString());
+
+    expect(occurrences).toEqual([
+      '2027-03-11T09:00:00.000Z',
+      '2027-03-12T09:00:00.000Z',
+    ]);
+  });
+
+  it('keeps the local start time across a daylight saving change', () => {
+    const occurrences = expand({
+      // A Monday, 18:30 in Berlin (UTC+1); Berlin moves to UTC+2 on Mar 28
+      startsAt: new Date('2027-03-22T17:30:00.000Z'),
+      frequency: 'WEEKLY',
+      interval: 1,
+      byWeekday: [],
+      count: 2,
+      timeZone: 'Europe/Berlin',
+    });
+
+    expect(occurrences).toEqual([
+      '2027-03-22T17:30:00.000Z',
+      '2027-03-29T16:30:00.000Z',
+    ]);
+  });
+
+  it('uses weekdays of the local date in the rule zone', () => {
+    const occurrences = expand({
+      // Tuesday 01:00 in Tokyo is still Monday in UTC
+      startsAt: new Date('2027-03-01T16:00:00.000Z'),
+      frequency: 'WEEKLY',
+      interval: 1,
+      byWeekday: ['TU', 'TH'],
+      count: 2,
+      timeZone: 'Asia/Tokyo',
+    });
+
+    expect(occurrences).toEqual([
+      '2027-03-01T16:00:00.000Z',
+      '2027-03-03T16:00:00.000Z',
+    ]);
+  });
+});
+
+describe('RRULE formatting', () => {
+  it('formats the rule parts', () => {
+    expect(
+      formatRRule({
+        startsAt: new Date('2027-03-03T18:30:00.000Z'),
+        frequency: 'WEEKLY',
+        interval: 2,
+        byWeekday: ['MO', 'WE'],
+        until: new Date('2027-06-30T23:59:59.000Z'),
+      }),
+    ).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20270630T235959Z');
+  });
+});
@@ -0,0 +1,189 @@
+import { PrismaClient } from '@prisma/client';
+import { PrismaPg } from '@prisma/adapter-pg';
+import { Pool } from 'pg';
+import {
+  bulkRegisterUsersForEvent,
+  registerUserForEvent,
+} from '@/lib/eventRegistration';
+
+/**
+ * Concurrency harness for seat allocation.
+ *
+ * Fires hundreds of registrations at the same event in parallel against a
+ * real PostgreSQL database and asserts the event is never oversold.
+ *
+ * Requires a disposable, migrated database (e.g. the docker-compose `db`
+ * service after `prisma migrate deploy`):
+ *
+ *   CONCURRENCY_TEST_DATABASE_URL=postgresql://... npm run test:concurrency
+ *
+ * The suite is skipped when the variable is not set.
+ */
+
+jest.mock('@/lib/email', () => ({ sendEmail: jest.fn() }));
+// Checkout holds live in Redis and are out of scope for the database race
+jest.mock('@/lib/seatHolds', () => ({
+  countActiveHolds: jest.fn().mockResolvedValue(0),
+  releaseSeatHold: jest.fn().mockResolvedValue(false),
+}));
+jest.mock('@/lib/redis', () => ({ __esModule: true, default: {} }));
+
+const databaseUrl = process.env.CONCURRENCY_TEST_DATABASE_URL;
+const describeWithDatabase = databaseUrl ? describe : describe.skip;
+
+const PARALLEL_REQUESTS = 200;
+const CAPACITY = 25;
+
+describeWithDatabase('Seat allocation under concurrent registration', () => {
+  let pool: Pool;
+  let prisma: PrismaClient;
+  let organizerId: string;
+  let userIds: string[];
+  const runId = Date.now().toString(36);
+
+  beforeAll(async () => {
+    pool = new Pool({ connectionString: databaseUrl, max: 20 });
+    prisma = new PrismaClient({ adapter: new PrismaPg(pool) });
+
+    const organizer = await prisma.user.create({
+      data: {
+        name: 'Concurrency Organizer',
+        email: `organizer-${runId}@concurrency.test`,
+        passwordHash: 'not-a-real-hash',
+      },
+    });
+    organizerId = organizer.id;
+
+    await prisma.user.createMany({
+      data: Array.from({ length: PARALLEL_REQUESTS }, (_, index) => ({
+        name: `Attendee ${index}`,
+        email: `attendee-${index}-${runId}@concurrency.test`,
+        passwordHash: 'not-a-real-hash',
+      })),
+    });
+
+    const users = await prisma.user.findMany({
+      where: { email: { endsWith: `-${runId}@concurrency.test` } },
+      select: { id: true },
+    });
+    userIds = users.map((user) => user.id).filter((id) => id !== organizerId);
+  }, 60000);
+
+  afterAll(async () => {
+    // Events, registrations and waitlist entries cascade from the users
+    await prisma.user.deleteMany({
+      where: { email: { endsWith: `${runId}@concurrency.test` } },
+    });
+    await prisma.$disconnect();
+    await pool.end();
+  });
+
+  async function createEvent(title: string) {
+    return prisma.event.create({
+      data: {
+        title,
+        description: 'Concurrency harness event',
+        date: new Date(Date.now() + 1000 * 60 * 60 * 24 * 30),
+        endsAt: new Date(Date.now() + 1000 * 60 * 60 * (24 * 30 + 2)),
+        status: 'PUBLISHED',
+        location: 'Test Hall',
+        capacity: CAPACITY,
+        seatsRemaining: CAPACITY,
+        organizerId,
+      },
+    });
+  }
+
+  it('never oversells when every user registers at once', async () => {
+    const event = await createEvent(`Parallel registrations ${runId}`);
+
+    const results = await Promise.all(
+      userIds.map((userId) => registerUserForEvent(prisma, userId, event.id)),
+    );
+
+    const succeeded = results.filter((result) => result.success);
+    const rejected = results.filter((result) => !result.success);
+
+    expect(succeeded).toHaveLength(CAPACITY);
+    expect(rejected).toHaveLength(userIds.length - CAPACITY);
+    rejected.forEach((result) => {
+      expect(result.error?.code).toBe('EVENT_FULL');
+    });
+
+    const after = await prisma.event.findUniqueOrThrow({
+      where: { id: event.id },
+      select: {
+        seatsRemaining: true,
+        _count: { select: { registrations: true } },
+      },
+    });
+
+    expect(after._count.registrations).toBe(CAPACITY);
+    expect(after.seatsRemaining).toBe(0);
+  }, 120000);
+
+  it('sends everyone past capacity to the waitlist', async () => {
+    const event = await createEvent(`Parallel waitlist ${runId}`);
+
+    const results = await Promise.all(
+      userIds.map((userId) =>
+        registerUserForEvent(prisma, userId, event.id, false, {
+          joinWaitlist: true,
+        }),
+      ),
+    );
+
+    expect(results.every((result) => result.success)).toBe(true);
+    expect(results.filter((result) => result.registration)).toHaveLength(
+      CAPACITY,
+    );
+    expect(results.filter((result) => result.waitlistEntry)).toHaveLength(
+      userIds.length - CAPACITY,
+    );
+
+    const after = await prisma.event.findUniqueOrThrow({
+      where: { id: event.id },
+      select: {
+        seatsRemaining: true,
+        _count: { select: { registrations: true, waitlist: true } },
+      },
+    });
+
+    expect(after.seatsRemaining).toBe(0);
+    expect(after._count.registrations).toBe(CAPACITY);
+    expect(after._count.waitlist).toBe(userIds.length - CAPACITY);
+  }, 120000);
+
+  it('never oversells when bulk registrations race each other', async () => {
+    const event = await createEvent(`Parallel bulk ${runId}`);
+
+    // 20 batches of 10 users competing for 25 seats
+    const batches = Array.from({ length: 20 }, (_, index) =>
+      userIds.slice(index * 10, index * 10 + 10),
+    );
+
+    const results = await Promise.all(
+      batches.map((batch) =>
+        bulkRegisterUsersForEvent(prisma, batch, event.id),
+      ),
+    );
+
+    const created = results.reduce(
+      (total, result) => total + (result.registrationsCreated ?? 0),
+      0,
+    );
+
+    const after = await prisma.event.findUniqueOrThrow({
+      where: { id: event.id },
+      select: {
+        seatsRemaining: true,
+        _count: { select: { registrations: true } },
+      },
+    });
+
+    // Every user is attempted, so the seats fill exactly
+    expect(created).toBe(CAPACITY);
+    expect(after._count.registrations).toBe(CAPACITY);
+    expect(after.seatsRemaining).toBe(0);
+  }, 120000);
+});
@@ -0,0 +1,92 @@
+import {
+  RegistrationQuestionDefinition,
+  buildRegistrationAnswersSchema,
+  registrationQuestionSchema,
+} from '../lib/schemas/registrationFormSchema';
+
+const questions: RegistrationQuestionDefinition[] = [
+  {
+    id: 'company',
+    label: 'Company',
+    type: 'TEXT',
+    required: true,
+    options: [],
+  },
+  {
+    id: 'shirt',
+    label: 'T-shirt size',
+    type: 'SELECT',
+    required: false,
+    options: ['S', 'M', 'L'],
+  },
+  {
+    id: 'terms',
+    label: 'I accept the code of conduct',
+    type: 'CHECKBOX',
+    required: true,
+    options: [],
+  },
+];
+
+describe('Registration answers schema', () => {
+  const schema = buildRegistrationAnswersSchema(questions);
+
+  it('accepts valid answers and leaves optional questions out', () => {
+    const result = schema.safeParse({ company: ' Acme ', terms: true });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({ company: 'Acme', terms: true });
+  });
+
+  it('reports missing required answers by question label', () => {
+    const result = schema.safeParse({ company: '', terms: false });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map((issue) => issue.message)).toEqual([
+      '"Company" is required',
+      '"I accept the code of conduct" must be checked',
+    ]);
+  });
+
+  it('rejects choices outside a select question options', () => {
+    const result = schema.safeParse({
+      company: 'Acme',
+      terms: true,
+      shirt: 'XXL',
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toBe(
+      '"T-shirt size" must be one of: S, M, L',
+    );
+  });
+
+  it('rejects answers to unknown questions', () => {
+    const result = schema.safeParse({
+      company: 'Acme',
+      terms: true,
+      removed: 'stale answer',
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('Registration question definitions', () => {
+  it('requires options for select questions only', () => {
+    expect(
+      registrationQuestionSchema.safeParse({
+        label: 'Dietary needs',
+        type: 'SELECT',
+        options: ['None'],
+      }).success,
+    ).toBe(false);
+    expect(
+      registrationQuestionSchema.safeParse({
+        label: 'Company',
+        type: 'TEXT',
+        options: ['Acme'],
+      }).success,
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+import { RegistrationStatus } from '@prisma/client';
+import {
+  assertTransition,
+  canTransition,
+  holdsSeat,
+} from '../lib/registrationStatus';
+
+describe('Registration status transitions', () => {
+  it('lets organizers approve or reject pending registrations', () => {
+    expect(
+      canTransition(RegistrationStatus.PENDING, RegistrationStatus.APPROVED),
+    ).toBe(true);
+    expect(
+      canTransition(
+        RegistrationStatus.PENDING,
+        RegistrationStatus.PENDING_PAYMENT,
+      ),
+    ).toBe(true);
+    expect(
+      canTransition(RegistrationStatus.PENDING, RegistrationStatus.REJECTED),
+    ).toBe(true);
+  });
+
+  it('does not reject registrations that already hold a seat', () => {
+    expect(() =>
+      assertTransition(
+        RegistrationStatus.APPROVED,
+        RegistrationStatus.REJECTED,
+      ),
+    ).toThrow('Registration cannot move from APPROVED to REJECTED');
+    expect(
+      canTransition(
+        RegistrationStatus.PENDING_PAYMENT,
+        RegistrationStatus.REJECTED,
+      ),
+    ).toBe(false);
+  });
+
+  it('lets a cancelled registration be reopened but not rejected', () => {
+    expect(
+      canTransition(RegistrationStatus.CANCELLED, RegistrationStatus.PENDING),
+    ).toBe(true);
+    expect(
+      canTransition(RegistrationStatus.CANCELLED, RegistrationStatus.REJECTED),
+    ).toBe(false);
+  });
+
+  it('only counts approved and payment-pending registrations as seated', () => {
+    expect(holdsSeat(RegistrationStatus.APPROVED)).toBe(true);
+    expect(holdsSeat(RegistrationStatus.PENDING_PAYMENT)).toBe(true);
+    expect(holdsSeat(RegistrationStatus.PENDING)).toBe(false);
+    expect(holdsSeat(RegistrationStatus.REJECTED)).toBe(false);
+    expect(holdsSeat(RegistrationStatus.CANCELLED)).toBe(false);
+  });
+});
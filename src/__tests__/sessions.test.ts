@@ -0,0 +1,45 @@
+import { findOverlappingSessions } from '@/lib/sessions';
+
+jest.mock('@/lib/security', () => ({
+  sanitize: (input: string) => input,
+}));
+
+function session(id: string, start: string, end: string) {
+  return {
+    id,
+    startsAt: new Date(`2026-11-02T${start}:00Z`),
+    endsAt: new Date(`2026-11-02T${end}:00Z`),
+  };
+}
+
+describe('findOverlappingSessions', () => {
+  it('allows back-to-back sessions', () => {
+    expect(
+      findOverlappingSessions([
+        session('a', '09:00', '10:00'),
+        session('b', '10:00', '11:00'),
+      ]),
+    ).toEqual([]);
+  });
+
+  it('reports sessions that overlap in any order', () => {
+    const keynote = session('keynote', '09:00', '10:30');
+    const workshop = session('workshop', '13:00', '15:00');
+    const talk = session('talk', '10:00', '11:00');
+
+    expect(findOverlappingSessions([workshop, talk, keynote])).toEqual([
+      [keynote, talk],
+    ]);
+  });
+
+  it('reports a session contained in a longer one', () => {
+    const allDay = session('all-day', '09:00', '17:00');
+    const lunch = session('lunch', '12:00', '13:00');
+    const late = session('late', '16:30', '18:00');
+
+    expect(findOverlappingSessions([allDay, lunch, late])).toEqual([
+      [allDay, lunch],
+      [allDay, late],
+    ]);
+  });
+});
@@ -0,0 +1,62 @@
+import jwt from 'jsonwebtoken';
+import {
+  generateAccessToken,
+  generateTicketToken,
+  verifyAccessToken,
+  verifyTicketToken,
+} from '../lib/auth-tokens';
+
+jest.mock('../lib/env', () => ({
+  env: {
+    JWT_SECRET: 'test-jwt-secret-key-32-chars-long',
+    JWT_REFRESH_SECRET: 'test-jwt-refresh-secret-key-32-chars',
+  },
+}));
+
+describe('Ticket tokens', () => {
+  it('round-trips the registration and event ids', () => {
+    const code = generateTicketToken('registration-1', 'event-1');
+
+    expect(verifyTicketToken(code)).toEqual({
+      registrationId: 'registration-1',
+      eventId: 'event-1',
+      ticketVersion: 1,
+    });
+  });
+
+  it('carries the ticket version of reissued tickets', () => {
+    const code = generateTicketToken('registration-1', 'event-1', 3);
+
+    expect(verifyTicketToken(code).ticketVersion).toBe(3);
+  });
+
+  it('rejects tampered ticket codes', () => {
+    const code = generateTicketToken('registration-1', 'event-1');
+    const [header, , signature] = code.split('.');
+    const forgedPayload = Buffer.from(
+      JSON.stringify({ registrationId: 'registration-2', eventId: 'event-1' }),
+    ).toString('base64url');
+
+    expect(() =>
+      verifyTicketToken(`${header}.${forgedPayload}.${signature}`),
+    ).toThrow('Invalid ticket code');
+  });
+
+  it('does not accept access tokens as tickets or tickets as access tokens', () => {
+    const accessToken = generateAccessToken('user-1', 'VIEWER');
+    const ticket = generateTicketToken('registration-1', 'event-1');
+
+    expect(() => verifyTicketToken(accessToken)).toThrow('Invalid ticket code');
+    expect(() => verifyAccessToken(ticket)).toThrow();
+  });
+
+  it('rejects codes signed with another key', () => {
+    const foreign = jwt.sign(
+      { registrationId: 'registration-1', eventId: 'event-1' },
+      'some-other-secret',
+      { issuer: 'eventease:ticket' },
+    );
+
+    expect(() => verifyTicketToken(foreign)).toThrow('Invalid ticket code');
+  });
+});
@@ -1,4 +1,4 @@
-import { formatEventDate } from '@/lib/utils';
+import { formatEventDate, formatEventTime } from '@/lib/utils';
 
 describe('formatEventDate', () => {
   it('should format a Date object correctly', () => {
@@ -21,3 +21,29 @@ describe('formatEventDate', () => {
     expect(formatEventDate(date)).toBe('Jan 5, 2023');
   });
 });
+
+describe('formatEventDate in a time zone', () => {
+  it('uses the day in the given zone', () => {
+    const date = new Date('2023-10-15T23:30:00Z');
+    expect(formatEventDate(date, 'UTC')).toBe('Oct 15, 2023');
+    expect(formatEventDate(date, 'Asia/Tokyo')).toBe('Oct 16, 2023');
+  });
+});
+
+describe('formatEventTime', () => {
+  it('shows start and end times in the event zone', () => {
+    expect(
+      formatEventTime(
+        '2026-11-02T08:00:00Z',
+        '2026-11-02T16:00:00Z',
+        'Europe/Berlin',
+      ),
+    ).toBe('Nov 2, 2026, 9:00 AM – 5:00 PM GMT+1');
+  });
+
+  it('repeats the date for events that end on a later day', () => {
+    expect(
+      formatEventTime('2026-11-02T21:00:00Z', '2026-11-03T02:00:00Z', 'UTC'),
+    ).toBe('Nov 2, 2026, 9:00 PM – Nov 3, 2026, 2:00 AM UTC');
+  });
+});
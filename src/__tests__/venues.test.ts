@@ -0,0 +1,85 @@
+import { Prisma } from '@prisma/client';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { assertRoomBookable } from '@/lib/venues';
+
+jest.mock('@/lib/security', () => ({
+  sanitize: (input: string) => input,
+}));
+
+function mockTx(clash: object | null = null) {
+  return {
+    room: {
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      findUniqueOrThrow: jest
+        .fn()
+        .mockResolvedValue({ name: 'Main Hall', capacity: 200 }),
+    },
+    event: { findFirst: jest.fn().mockResolvedValue(clash) },
+  };
+}
+
+const booking = {
+  roomId: 'room-1',
+  startsAt: new Date('2026-11-02T09:00:00Z'),
+  endsAt: new Date('2026-11-02T12:00:00Z'),
+  capacity: 150,
+};
+
+describe('assertRoomBookable', () => {
+  it('accepts a free slot and looks for overlapping bookings only', async () => {
+    const tx = mockTx();
+
+    await expect(
+      assertRoomBookable(tx as unknown as Prisma.TransactionClient, {
+        ...booking,
+        excludeEventId: 'event-1',
+      }),
+    ).resolves.toBeUndefined();
+
+    expect(tx.event.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          roomId: 'room-1',
+          id: { not: 'event-1' },
+          date: { lt: booking.endsAt },
+          endsAt: { gt: booking.startsAt },
+        },
+      }),
+    );
+  });
+
+  it('refuses an event larger than the room', async () => {
+    const tx = mockTx();
+
+    await expect(
+      assertRoomBookable(tx as unknown as Prisma.TransactionClient, {
+        ...booking,
+        capacity: 250,
+      }),
+    ).rejects.toMatchObject({ code: ERROR_CODES.ROOM_CAPACITY_EXCEEDED });
+    expect(tx.event.findFirst).not.toHaveBeenCalled();
+  });
+
+  it('refuses a slot overlapping another booking', async () => {
+    const tx = mockTx({
+      id: 'event-2',
+      title: 'Morning Workshop',
+      date: new Date('2026-11-02T08:00:00Z'),
+      endsAt: new Date('2026-11-02T10:00:00Z'),
+      capacity: 50,
+    });
+
+    await expect(
+      assertRoomBookable(tx as unknown as Prisma.TransactionClient, booking),
+    ).rejects.toMatchObject({ code: ERROR_CODES.ROOM_ALREADY_BOOKED });
+  });
+
+  it('reports a missing room', async () => {
+    const tx = mockTx();
+    tx.room.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      assertRoomBookable(tx as unknown as Prisma.TransactionClient, booking),
+    ).rejects.toMatchObject({ code: ERROR_CODES.NOT_FOUND });
+  });
+});
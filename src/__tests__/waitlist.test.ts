@@ -0,0 +1,83 @@
+import { Prisma, RegistrationStatus } from '@prisma/client';
+import { promoteWaitlistedUsers } from '@/lib/waitlist';
+
+jest.mock('@/lib/seatHolds', () => ({
+  countActiveHolds: jest.fn().mockResolvedValue(0),
+}));
+
+jest.mock('@/lib/redis', () => ({ __esModule: true, default: {} }));
+
+jest.mock('@/lib/env', () => ({
+  env: {
+    JWT_SECRET: 'test-jwt-secret-key-32-chars-long',
+    JWT_REFRESH_SECRET: 'test-jwt-refresh-secret-key-32-chars',
+  },
+}));
+
+jest.mock('@/lib/email', () => ({ sendEmail: jest.fn() }));
+
+function entry(id: string, userId: string) {
+  return {
+    id,
+    ticketTypeId: null,
+    answers: null,
+    ticketType: null,
+    user: { id: userId, email: `${userId}@example.com`, name: userId },
+  };
+}
+
+describe('promoteWaitlistedUsers', () => {
+  it('drops queue entries of users who registered some other way', async () => {
+    const tx = {
+      event: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'event-1',
+          title: 'Launch Party',
+          date: new Date('2026-11-02T18:00:00Z'),
+          endsAt: new Date('2026-11-02T20:00:00Z'),
+          timeZone: 'UTC',
+          location: 'Berlin',
+          seatsRemaining: 1,
+        }),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      waitlist: {
+        findMany: jest
+          .fn()
+          .mockResolvedValue([
+            entry('entry-1', 'registered-user'),
+            entry('entry-2', 'queued-user'),
+          ]),
+        delete: jest.fn().mockResolvedValue({}),
+      },
+      registration: {
+        findUnique: jest
+          .fn()
+          .mockImplementation(({ where }) =>
+            Promise.resolve(
+              where.userId_eventId.userId === 'registered-user'
+                ? { id: 'registration-1', status: RegistrationStatus.APPROVED }
+                : null,
+            ),
+          ),
+        create: jest.fn().mockResolvedValue({ id: 'registration-2' }),
+      },
+    };
+
+    const promotions = await promoteWaitlistedUsers(
+      tx as unknown as Prisma.TransactionClient,
+      'event-1',
+    );
+
+    expect(promotions.map((promotion) => promotion.user.id)).toEqual([
+      'queued-user',
+    ]);
+    expect(tx.event.updateMany).toHaveBeenCalledTimes(1);
+    expect(tx.waitlist.delete).toHaveBeenCalledWith({
+      where: { id: 'entry-1' },
+    });
+    expect(tx.waitlist.delete).toHaveBeenCalledWith({
+      where: { id: 'entry-2' },
+    });
+  });
+});
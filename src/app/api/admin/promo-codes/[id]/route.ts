@@ -0,0 +1,221 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import {
+  deletePromoCode,
+  getPromoCode,
+  updatePromoCode,
+} from '@/lib/promoCodes';
+import {
+  updatePromoCodeSchema,
+  UpdatePromoCodeRequest,
+} from '@/lib/schemas/promoCodeSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/admin/promo-codes/{id}:
+ *   get:
+ *     summary: Get a promo code
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Promo code retrieved
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller is not an admin
+ *       404:
+ *         description: Promo code not found
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: promoCodeId } = await params;
+
+    const result = await getPromoCode(prisma, promoCodeId, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.promoCode, 'Promo code retrieved successfully');
+  });
+}
+
+/**
+ * @swagger
+ * /api/admin/promo-codes/{id}:
+ *   patch:
+ *     summary: Update a promo code
+ *     description: Changes a promo code's limits, validity window, restrictions or discount amount. The code, discount type and currency cannot change. Send null to clear maxRedemptions, startsAt or expiresAt; maxRedemptions cannot go below the redemptions already made. Admin only.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *               discountValue:
+ *                 type: integer
+ *               maxRedemptions:
+ *                 type: integer
+ *                 nullable: true
+ *               startsAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               active:
+ *                 type: boolean
+ *               eventIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               ticketTypeIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Promo code updated
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller is not an admin
+ *       404:
+ *         description: Promo code not found
+ */
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: promoCodeId } = await params;
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, updatePromoCodeSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const result = await updatePromoCode(
+      prisma,
+      promoCodeId,
+      validation.data as UpdatePromoCodeRequest,
+      auth,
+    );
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.promoCode, 'Promo code updated');
+  });
+}
+
+/**
+ * @swagger
+ * /api/admin/promo-codes/{id}:
+ *   delete:
+ *     summary: Delete a promo code
+ *     description: Deletes a promo code. Registrations that used it keep their discount but drop out of its usage report; deactivate the code instead to keep its history. Admin only.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Promo code deleted
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller is not an admin
+ *       404:
+ *         description: Promo code not found
+ */
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: promoCodeId } = await params;
+
+    const result = await deletePromoCode(prisma, promoCodeId, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess({ id: promoCodeId }, 'Promo code deleted');
+  });
+}
@@ -0,0 +1,60 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { getPromoCodeUsage } from '@/lib/promoCodes';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/admin/promo-codes/{id}/usage:
+ *   get:
+ *     summary: Promo code usage report
+ *     description: Redemptions held by active registrations, total discount given, a per-event breakdown and the most recent redemptions. Admin only.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Usage report retrieved
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller is not an admin
+ *       404:
+ *         description: Promo code not found
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: promoCodeId } = await params;
+
+    const result = await getPromoCodeUsage(prisma, promoCodeId, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.usage, 'Promo code usage retrieved successfully');
+  });
+}
@@ -0,0 +1,156 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { createPromoCode, listPromoCodes } from '@/lib/promoCodes';
+import {
+  createPromoCodeSchema,
+  CreatePromoCodeRequest,
+} from '@/lib/schemas/promoCodeSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+/**
+ * @swagger
+ * /api/admin/promo-codes:
+ *   get:
+ *     summary: List promo codes
+ *     description: Returns every promo code, newest first, with its redemption counts. Admin only.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Promo codes retrieved
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller is not an admin
+ */
+export async function GET(req: NextRequest) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const result = await listPromoCodes(prisma, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.promoCodes, 'Promo codes retrieved successfully');
+  });
+}
+
+/**
+ * @swagger
+ * /api/admin/promo-codes:
+ *   post:
+ *     summary: Create a promo code
+ *     description: Creates a discount code for paid tickets. Leave maxRedemptions out for unlimited use, and eventIds / ticketTypeIds empty to allow every event and ticket type. Admin only.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *               - discountType
+ *               - discountValue
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: 3-32 letters, numbers, hyphens or underscores; case-insensitive
+ *               description:
+ *                 type: string
+ *               discountType:
+ *                 type: string
+ *                 enum: [PERCENTAGE, FIXED_AMOUNT]
+ *               discountValue:
+ *                 type: integer
+ *                 description: Percent off (1-100) or amount off in cents
+ *               currency:
+ *                 type: string
+ *                 description: Currency of a FIXED_AMOUNT discount (default USD)
+ *               maxRedemptions:
+ *                 type: integer
+ *               startsAt:
+ *                 type: string
+ *                 format: date-time
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *               active:
+ *                 type: boolean
+ *               eventIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               ticketTypeIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       201:
+ *         description: Promo code created
+ *       400:
+ *         description: Validation error or unknown event / ticket type
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller is not an admin
+ *       409:
+ *         description: A promo code with this code already exists
+ */
+export async function POST(req: NextRequest) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, createPromoCodeSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const result = await createPromoCode(
+      prisma,
+      validation.data as CreatePromoCodeRequest,
+      auth,
+    );
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.promoCode, 'Promo code created', 201);
+  });
+}
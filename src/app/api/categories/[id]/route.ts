@@ -0,0 +1,154 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { deleteCategory, updateCategory } from '@/lib/categories';
+import {
+  updateCategorySchema,
+  UpdateCategoryRequest,
+} from '@/lib/schemas/categorySchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/categories/{id}:
+ *   patch:
+ *     summary: Edit an event category
+ *     description: Renaming keeps the slug unless a new one is sent; send `null` to clear the description. Admin only.
+ *     tags:
+ *       - Events
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               slug:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Category updated
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller is not an admin
+ *       404:
+ *         description: Category not found
+ *       409:
+ *         description: Another category already has this slug
+ */
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: categoryId } = await params;
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, updateCategorySchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const result = await updateCategory(
+      prisma,
+      categoryId,
+      validation.data as UpdateCategoryRequest,
+      auth,
+    );
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.category, 'Category updated');
+  });
+}
+
+/**
+ * @swagger
+ * /api/categories/{id}:
+ *   delete:
+ *     summary: Delete an event category
+ *     description: Refused while any event is filed under the category. Admin only.
+ *     tags:
+ *       - Events
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Category deleted
+ *       400:
+ *         description: Events still use the category
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller is not an admin
+ *       404:
+ *         description: Category not found
+ */
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: categoryId } = await params;
+
+    const result = await deleteCategory(prisma, categoryId, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess({ categoryId }, 'Category deleted');
+  });
+}
@@ -0,0 +1,115 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { createCategory, listCategories } from '@/lib/categories';
+import {
+  createCategorySchema,
+  CreateCategoryRequest,
+} from '@/lib/schemas/categorySchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+/**
+ * @swagger
+ * /api/categories:
+ *   get:
+ *     summary: List event categories
+ *     description: Returns every category, ordered by name. Filter the event listing with GET /api/events?category={slug}.
+ *     tags:
+ *       - Events
+ *     responses:
+ *       200:
+ *         description: Categories retrieved
+ */
+export async function GET(req: NextRequest) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    const result = await listCategories(prisma);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.categories, 'Categories retrieved successfully');
+  });
+}
+
+/**
+ * @swagger
+ * /api/categories:
+ *   post:
+ *     summary: Create an event category
+ *     description: The slug is derived from the name when left out and must be unique. Admin only.
+ *     tags:
+ *       - Events
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *               slug:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Category created
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller is not an admin
+ *       409:
+ *         description: A category with this slug already exists
+ */
+export async function POST(req: NextRequest) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, createCategorySchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const result = await createCategory(
+      prisma,
+      validation.data as CreateCategoryRequest,
+      auth,
+    );
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.category, 'Category created', 201);
+  });
+}
@@ -0,0 +1,142 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { getAgenda, setAgenda } from '@/lib/sessions';
+import { setAgendaSchema, SetAgendaRequest } from '@/lib/schemas/sessionSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/agenda:
+ *   get:
+ *     summary: Get my agenda for the event
+ *     description: Returns the sessions on the caller's personal agenda, in start order.
+ *     tags:
+ *       - Registrations
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Agenda retrieved
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Caller is not registered for the event
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: eventId } = await params;
+
+    const result = await getAgenda(prisma, eventId, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.sessions, 'Agenda retrieved successfully');
+  });
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/agenda:
+ *   put:
+ *     summary: Set my agenda for the event
+ *     description: Replaces the caller's agenda with the given sessions. The caller needs a confirmed seat at the event. Sessions on one agenda cannot overlap, and each newly picked session must have a free seat; if any check fails the agenda is left unchanged. Send an empty list to clear the agenda.
+ *     tags:
+ *       - Registrations
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - sessionIds
+ *             properties:
+ *               sessionIds:
+ *                 type: array
+ *                 maxItems: 50
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Agenda updated
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Caller is not registered for the event, or a session was not found
+ *       409:
+ *         description: Caller has no confirmed seat, selected sessions overlap, or a session is full
+ */
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: eventId } = await params;
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, setAgendaSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const { sessionIds } = validation.data as SetAgendaRequest;
+
+    const result = await setAgenda(prisma, eventId, sessionIds, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.sessions, 'Agenda updated');
+  });
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import logger, { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { exportEventAttendees } from '@/lib/attendeeExport';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/attendees/export:
+ *   get:
+ *     summary: Export the attendee list as CSV
+ *     description: Downloads one row per active registration with the attendee's details, status, ticket type, check-in time and one column per registration question. Open to the event owner, co-organizers, viewers and admins.
+ *     tags:
+ *       - Registrations
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: CSV attendee list
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller may not export the event's attendees
+ *       404:
+ *         description: Event not found
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: eventId } = await params;
+
+    const result = await exportEventAttendees(prisma, eventId, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    logger.info({
+      message: 'Attendee list exported',
+      eventId,
+      attendeeCount: result.attendeeCount,
+    });
+
+    return new NextResponse(result.csv, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${result.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  });
+}
@@ -0,0 +1,63 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { listEventAttendees } from '@/lib/attendeeExport';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/attendees:
+ *   get:
+ *     summary: List the event's attendees
+ *     description: Returns every active registration with the attendee's details, status, ticket type, check-in time and answers, along with the registration questions. Open to the event owner, every staff member and admins.
+ *     tags:
+ *       - Registrations
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Attendee list
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller is not on the event's team
+ *       404:
+ *         description: Event not found
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: eventId } = await params;
+
+    const result = await listEventAttendees(prisma, eventId, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(
+      { questions: result.questions, attendees: result.attendees },
+      'Attendees retrieved successfully',
+    );
+  });
+}
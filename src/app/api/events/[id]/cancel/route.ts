@@ -0,0 +1,114 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { cancelEvent } from '@/lib/eventChanges';
+import {
+  cancelEventSchema,
+  CancelEventRequest,
+} from '@/lib/schemas/eventSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+import { sanitize } from '@/lib/security';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/cancel:
+ *   post:
+ *     summary: Cancel an event
+ *     description: Cancels a draft or published event, records the reason, empties the waitlist and cancels every active registration (refunding or voiding payments). Registrants and waitlisted users are emailed. Registrations that fail to cancel are listed in failedRegistrationIds.
+ *     tags:
+ *       - Events
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *     responses:
+ *       200:
+ *         description: Event cancelled
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not the organizer of this event
+ *       404:
+ *         description: Event not found
+ *       409:
+ *         description: The event is already cancelled or completed
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: eventId } = await params;
+
+    // The reason is optional, so an empty payload is treated as {}
+    let payload: unknown = {};
+    const rawBody = await req.text();
+    if (rawBody) {
+      try {
+        payload = JSON.parse(rawBody);
+      } catch {
+        return sendError(
+          'Request body must be valid JSON',
+          ERROR_CODES.INVALID_INPUT,
+        );
+      }
+    }
+
+    const validation = validateData(payload, cancelEventSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const { reason } = validation.data as CancelEventRequest;
+
+    const result = await cancelEvent(
+      prisma,
+      eventId,
+      reason ? sanitize(reason) : undefined,
+      auth,
+    );
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(
+      {
+        event: result.event,
+        change: result.change,
+        cancelledRegistrations: result.cancelledRegistrations,
+        failedRegistrationIds: result.failedRegistrationIds,
+        notified: result.notified,
+      },
+      'Event cancelled',
+    );
+  });
+}
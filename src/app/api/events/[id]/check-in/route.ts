@@ -0,0 +1,98 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { checkInAttendee } from '@/lib/tickets';
+import {
+  checkInSchema,
+  CheckInRequest,
+} from '@/lib/schemas/registrationSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/check-in:
+ *   post:
+ *     summary: Check an attendee in
+ *     description: Validates a ticket code scanned from an attendee's QR code and records their attendance. Only the event organizer and admins can check attendees in. Each ticket can be checked in once.
+ *     tags:
+ *       - Check-in
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Attendee checked in
+ *       400:
+ *         description: Invalid ticket code
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not the organizer of this event
+ *       404:
+ *         description: Event or registration not found
+ *       409:
+ *         description: Ticket is for another event, not confirmed, or already checked in
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: eventId } = await params;
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, checkInSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const { code } = validation.data as CheckInRequest;
+
+    const result = await checkInAttendee(prisma, eventId, code, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(
+      result.registration,
+      `${result.registration!.user.name} checked in`,
+    );
+  });
+}
@@ -0,0 +1,119 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { createGroupRegistration } from '@/lib/groupRegistration';
+import {
+  groupRegistrationSchema,
+  GroupRegistrationRequest,
+} from '@/lib/schemas/registrationSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/group-registrations:
+ *   post:
+ *     summary: Book seats for a group
+ *     description: Atomically books one seat per attendee (up to 20). Attendees who already have an account are registered immediately; the others are emailed an invitation to claim their seat. Only free ticket types can be booked as a group, and not for events with required registration questions.
+ *     tags:
+ *       - Registrations
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - attendees
+ *             properties:
+ *               attendees:
+ *                 type: array
+ *                 minItems: 1
+ *                 maxItems: 20
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - name
+ *                     - email
+ *                   properties:
+ *                     name:
+ *                       type: string
+ *                     email:
+ *                       type: string
+ *                       format: email
+ *               ticketTypeId:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Group booked
+ *       400:
+ *         description: Validation error, paid ticket type, or the event has required registration questions
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Event or ticket type not found
+ *       409:
+ *         description: Not enough seats, or an attendee is already registered or invited
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: eventId } = await params;
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, groupRegistrationSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const { attendees, ticketTypeId } =
+      validation.data as GroupRegistrationRequest;
+
+    const result = await createGroupRegistration(
+      prisma,
+      auth.userId,
+      eventId,
+      attendees,
+      ticketTypeId,
+    );
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(
+      result.booking,
+      `${result.booking!.seatCount} seats booked`,
+      201,
+    );
+  });
+}
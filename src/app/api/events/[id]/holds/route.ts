@@ -0,0 +1,200 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import logger, { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { canManageEvent, eventStaffSelect } from '@/lib/permissions';
+import {
+  acquireSeatHold,
+  getSeatHoldSummary,
+  releaseSeatHold,
+} from '@/lib/seatHolds';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/holds:
+ *   get:
+ *     summary: List checkout seat holds
+ *     description: Returns the seats currently held by users in checkout and who holds them. Only the event organizer and admins can view holds.
+ *     tags:
+ *       - Seat Holds
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Active holds retrieved
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not the organizer of this event
+ *       404:
+ *         description: Event not found
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    try {
+      const { id: eventId } = await params;
+
+      const event = await prisma.event.findUnique({
+        where: { id: eventId },
+        select: { organizerId: true, staff: eventStaffSelect(auth) },
+      });
+
+      if (!event) {
+        return sendError('Event not found', ERROR_CODES.EVENT_NOT_FOUND);
+      }
+
+      if (!canManageEvent(auth, event)) {
+        return sendError(
+          'Only the event organizer can view seat holds',
+          ERROR_CODES.FORBIDDEN,
+        );
+      }
+
+      const summary = await getSeatHoldSummary(prisma, eventId);
+
+      return sendSuccess(summary, 'Seat holds retrieved successfully');
+    } catch (error) {
+      logger.error({
+        message: 'Failed to list seat holds',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return sendError(
+        'Failed to retrieve seat holds',
+        ERROR_CODES.INTERNAL_ERROR,
+      );
+    }
+  });
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/holds:
+ *   post:
+ *     summary: Hold a seat during checkout
+ *     description: Reserves a seat for the authenticated user for a limited time while they complete registration. Requesting again while the hold is active returns the existing hold.
+ *     tags:
+ *       - Seat Holds
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       201:
+ *         description: Seat held
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Event not found
+ *       409:
+ *         description: No seats left to hold, or already registered
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: eventId } = await params;
+    const result = await acquireSeatHold(prisma, auth.userId, eventId);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    logger.info({
+      message: 'Seat hold granted',
+      eventId,
+      expiresAt: result.hold!.expiresAt.toISOString(),
+    });
+
+    return sendSuccess(
+      result.hold,
+      `Seat held until ${result.hold!.expiresAt.toISOString()}`,
+      201,
+    );
+  });
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/holds:
+ *   delete:
+ *     summary: Release my seat hold
+ *     description: Gives up the authenticated user's checkout hold on the event.
+ *     tags:
+ *       - Seat Holds
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Hold released
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: No active hold for this event
+ */
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    try {
+      const { id: eventId } = await params;
+      const released = await releaseSeatHold(eventId, auth.userId);
+
+      if (!released) {
+        return sendError(
+          'You do not hold a seat for this event',
+          ERROR_CODES.NOT_FOUND,
+        );
+      }
+
+      return sendSuccess({ eventId }, 'Seat hold released');
+    } catch (error) {
+      logger.error({
+        message: 'Failed to release seat hold',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return sendError(
+        'Failed to release seat hold',
+        ERROR_CODES.INTERNAL_ERROR,
+      );
+    }
+  });
+}
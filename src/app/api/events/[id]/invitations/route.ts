@@ -0,0 +1,102 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { issueInvitations } from '@/lib/invitations';
+import {
+  issueInvitationsSchema,
+  IssueInvitationsRequest,
+} from '@/lib/schemas/registrationSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/invitations:
+ *   post:
+ *     summary: Invite attendees to an invite-only event
+ *     description: Emails a single-use invitation link to each address (up to 100). Inviting an address again replaces its previous link. Addresses that are already registered or have already accepted an invitation are skipped. Only the event organizer or an admin can invite.
+ *     tags:
+ *       - Registrations
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - emails
+ *             properties:
+ *               emails:
+ *                 type: array
+ *                 minItems: 1
+ *                 maxItems: 100
+ *                 items:
+ *                   type: string
+ *                   format: email
+ *     responses:
+ *       201:
+ *         description: Invitations issued
+ *       400:
+ *         description: Validation error or the event is not invite-only
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller does not manage the event
+ *       404:
+ *         description: Event not found
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: eventId } = await params;
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, issueInvitationsSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const { emails } = validation.data as IssueInvitationsRequest;
+
+    const result = await issueInvitations(prisma, eventId, emails, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(
+      { invitations: result.invitations, skipped: result.skipped },
+      `${result.invitations.length} invitations sent`,
+      201,
+    );
+  });
+}
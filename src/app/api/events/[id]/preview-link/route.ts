@@ -0,0 +1,62 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { createPreviewLink } from '@/lib/eventLifecycle';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/preview-link:
+ *   post:
+ *     summary: Create a draft preview link
+ *     description: Returns a link that shows the draft to anyone who has it, without an account. The link stays valid for EVENT_PREVIEW_LINK_TTL_DAYS or until the event is published; creating a new one invalidates the previous link.
+ *     tags:
+ *       - Events
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       201:
+ *         description: Preview link created
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not the organizer of this event
+ *       404:
+ *         description: Event not found
+ *       409:
+ *         description: The event is not a draft
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: eventId } = await params;
+
+    const result = await createPreviewLink(prisma, eventId, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.previewLink, 'Preview link created', 201);
+  });
+}
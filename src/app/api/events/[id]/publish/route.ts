@@ -0,0 +1,110 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { publishEvent } from '@/lib/eventLifecycle';
+import {
+  publishEventSchema,
+  PublishEventRequest,
+} from '@/lib/schemas/eventSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/publish:
+ *   post:
+ *     summary: Publish a draft event
+ *     description: Publishes the draft immediately, or schedules it when publishAt is in the future; a background job publishes scheduled drafts once their time passes. Publishing lists the event publicly, opens registration and revokes its preview link.
+ *     tags:
+ *       - Events
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               publishAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: When to publish; must be before the event starts
+ *     responses:
+ *       200:
+ *         description: Event published, or its publish time scheduled
+ *       400:
+ *         description: Validation error, or the event has already ended
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not the organizer of this event
+ *       404:
+ *         description: Event not found
+ *       409:
+ *         description: The event is not a draft
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: eventId } = await params;
+
+    // Every field is optional, so an empty payload is treated as {}
+    let payload: unknown = {};
+    const rawBody = await req.text();
+    if (rawBody) {
+      try {
+        payload = JSON.parse(rawBody);
+      } catch {
+        return sendError(
+          'Request body must be valid JSON',
+          ERROR_CODES.INVALID_INPUT,
+        );
+      }
+    }
+
+    const validation = validateData(payload, publishEventSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const { publishAt } = validation.data as PublishEventRequest;
+
+    const result = await publishEvent(
+      prisma,
+      eventId,
+      auth,
+      publishAt ? new Date(publishAt) : undefined,
+    );
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(
+      result.event,
+      result.event!.status === 'PUBLISHED'
+        ? 'Event published'
+        : 'Event publish scheduled',
+    );
+  });
+}
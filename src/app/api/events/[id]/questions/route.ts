@@ -0,0 +1,160 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import {
+  getRegistrationQuestions,
+  setRegistrationQuestions,
+} from '@/lib/registrationQuestions';
+import {
+  setRegistrationQuestionsSchema,
+  SetRegistrationQuestionsRequest,
+} from '@/lib/schemas/registrationFormSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/questions:
+ *   get:
+ *     summary: Get the event's registration questions
+ *     description: Returns the questions attendees answer when registering, in display order. Answers are sent with the registration, keyed by question id.
+ *     tags:
+ *       - Events
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Registration questions retrieved
+ *       404:
+ *         description: Event not found
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    const { id: eventId } = await params;
+
+    const result = await getRegistrationQuestions(prisma, eventId);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(
+      result.questions,
+      'Registration questions retrieved successfully',
+    );
+  });
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/questions:
+ *   put:
+ *     summary: Replace the event's registration questions
+ *     description: Sets the full registration form. Questions sent with an id are updated in place and keep their answers; questions without one are created; any other existing question is removed. Only the event organizer or an admin can edit the form.
+ *     tags:
+ *       - Events
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - questions
+ *             properties:
+ *               questions:
+ *                 type: array
+ *                 maxItems: 30
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - label
+ *                     - type
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     label:
+ *                       type: string
+ *                     type:
+ *                       type: string
+ *                       enum: [TEXT, SELECT, CHECKBOX]
+ *                     required:
+ *                       type: boolean
+ *                     options:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *     responses:
+ *       200:
+ *         description: Registration questions updated
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller does not manage the event
+ *       404:
+ *         description: Event not found
+ */
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: eventId } = await params;
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, setRegistrationQuestionsSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const { questions } = validation.data as SetRegistrationQuestionsRequest;
+
+    const result = await setRegistrationQuestions(
+      prisma,
+      eventId,
+      questions,
+      auth,
+    );
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.questions, 'Registration questions updated');
+  });
+}
@@ -0,0 +1,106 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { approveRegistrations } from '@/lib/registrationReview';
+import {
+  reviewRegistrationsSchema,
+  ReviewRegistrationsRequest,
+} from '@/lib/schemas/registrationSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/registrations/approve:
+ *   post:
+ *     summary: Approve pending registrations
+ *     description: Approves up to 100 registrations, claiming a seat for each. Free registrations are confirmed and ticketed; priced ones move to PENDING_PAYMENT with a payment hold. Registrations that cannot be approved (event full, already reviewed) are reported individually without affecting the rest.
+ *     tags:
+ *       - Registrations
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - registrationIds
+ *             properties:
+ *               registrationIds:
+ *                 type: array
+ *                 minItems: 1
+ *                 maxItems: 100
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *     responses:
+ *       200:
+ *         description: Batch reviewed; see `failed` for registrations that could not be approved
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller does not manage the event
+ *       404:
+ *         description: Event not found
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: eventId } = await params;
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, reviewRegistrationsSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const { registrationIds } = validation.data as ReviewRegistrationsRequest;
+
+    const result = await approveRegistrations(
+      prisma,
+      eventId,
+      registrationIds,
+      auth,
+    );
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(
+      { approved: result.approved, failed: result.failed },
+      `${result.approved.length} registrations approved`,
+    );
+  });
+}
@@ -0,0 +1,61 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { getRegistrationReviewQueue } from '@/lib/registrationReview';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/registrations/pending:
+ *   get:
+ *     summary: List registrations awaiting approval
+ *     description: Returns the event's PENDING registrations, oldest first. Only the event organizer or an admin can view the review queue.
+ *     tags:
+ *       - Registrations
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Review queue retrieved
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller does not manage the event
+ *       404:
+ *         description: Event not found
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: eventId } = await params;
+
+    const result = await getRegistrationReviewQueue(prisma, eventId, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(
+      { event: result.event, registrations: result.registrations },
+      'Review queue retrieved successfully',
+    );
+  });
+}
@@ -0,0 +1,111 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { rejectRegistrations } from '@/lib/registrationReview';
+import {
+  reviewRegistrationsSchema,
+  ReviewRegistrationsRequest,
+} from '@/lib/schemas/registrationSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/registrations/reject:
+ *   post:
+ *     summary: Reject pending registrations
+ *     description: Rejects up to 100 PENDING registrations and emails each applicant, including the optional reason. Registrations that cannot be rejected are reported individually without affecting the rest.
+ *     tags:
+ *       - Registrations
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - registrationIds
+ *             properties:
+ *               registrationIds:
+ *                 type: array
+ *                 minItems: 1
+ *                 maxItems: 100
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *     responses:
+ *       200:
+ *         description: Batch reviewed; see `failed` for registrations that could not be rejected
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller does not manage the event
+ *       404:
+ *         description: Event not found
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: eventId } = await params;
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, reviewRegistrationsSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const { registrationIds, reason } =
+      validation.data as ReviewRegistrationsRequest;
+
+    const result = await rejectRegistrations(
+      prisma,
+      eventId,
+      registrationIds,
+      auth,
+      reason,
+    );
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(
+      { rejected: result.rejected, failed: result.failed },
+      `${result.rejected.length} registrations rejected`,
+    );
+  });
+}
@@ -0,0 +1,124 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { rescheduleEvent } from '@/lib/eventChanges';
+import {
+  rescheduleEventSchema,
+  RescheduleEventRequest,
+} from '@/lib/schemas/eventSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+import { sanitize } from '@/lib/security';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/reschedule:
+ *   post:
+ *     summary: Move an event to a new time
+ *     description: Moves a draft or published event and its sessions, records the change and emails registrants and waitlisted users. Each registrant is asked to confirm or release their seat through POST /api/registrations/{id}/reschedule-response. The event's room must be free at the new time.
+ *     tags:
+ *       - Events
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - date
+ *               - endsAt
+ *             properties:
+ *               date:
+ *                 type: string
+ *                 format: date-time
+ *               endsAt:
+ *                 type: string
+ *                 format: date-time
+ *               timeZone:
+ *                 type: string
+ *                 description: IANA time zone; defaults to the event's current zone
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *     responses:
+ *       200:
+ *         description: Event rescheduled
+ *       400:
+ *         description: Validation error, or the event is already at that time
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not the organizer of this event
+ *       404:
+ *         description: Event not found
+ *       409:
+ *         description: The event is cancelled or completed, or its room is booked at the new time
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: eventId } = await params;
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, rescheduleEventSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const changes = validation.data as RescheduleEventRequest;
+
+    const result = await rescheduleEvent(
+      prisma,
+      eventId,
+      {
+        ...changes,
+        reason: changes.reason ? sanitize(changes.reason) : undefined,
+      },
+      auth,
+    );
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(
+      {
+        event: result.event,
+        change: result.change,
+        notified: result.notified,
+      },
+      'Event rescheduled',
+    );
+  });
+}
@@ -0,0 +1,231 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { deleteEvent, getEvent, updateEvent } from '@/lib/events';
+import { Actor } from '@/lib/permissions';
+import {
+  updateEventSchema,
+  UpdateEventRequest,
+} from '@/lib/schemas/eventSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+import { sanitize } from '@/lib/security';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/events/{id}:
+ *   get:
+ *     summary: Get an event
+ *     description: Returns the event with its ticket types, speakers and schedule in the event's time zone. Drafts are only visible to their organizer and admins; deleted events are not found.
+ *     tags:
+ *       - Events
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The event
+ *       404:
+ *         description: Event not found
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth: Actor | null = null;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      // Anonymous callers only see non-draft events
+    }
+
+    const { id: eventId } = await params;
+
+    const result = await getEvent(prisma, eventId, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.event, 'Event retrieved successfully');
+  });
+}
+
+/**
+ * @swagger
+ * /api/events/{id}:
+ *   patch:
+ *     summary: Update an event
+ *     description: Changes any of the event's details. Only drafts can be moved here; published events are moved with POST /api/events/{id}/reschedule. Capacity cannot go below the seats already taken or the ticket type quotas, and the event's room is checked for capacity and double-booking. Sending tags replaces the event's tags.
+ *     tags:
+ *       - Events
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               title:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               location:
+ *                 type: string
+ *               date:
+ *                 type: string
+ *                 format: date-time
+ *               endsAt:
+ *                 type: string
+ *                 format: date-time
+ *               timeZone:
+ *                 type: string
+ *               capacity:
+ *                 type: integer
+ *               cancellationCutoffHours:
+ *                 type: integer
+ *               registrationMode:
+ *                 type: string
+ *                 enum: [OPEN, APPROVAL, INVITE_ONLY]
+ *               roomId:
+ *                 type: string
+ *                 nullable: true
+ *               categoryId:
+ *                 type: string
+ *                 nullable: true
+ *               tags:
+ *                 type: array
+ *                 maxItems: 10
+ *                 description: Replaces the event's tags
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Event updated
+ *       400:
+ *         description: Validation error, or a published event was moved
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not the organizer of this event
+ *       404:
+ *         description: Event or category not found
+ *       409:
+ *         description: Capacity below the seats taken, room already booked, or the event is cancelled or completed
+ */
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: eventId } = await params;
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, updateEventSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const data = validation.data as UpdateEventRequest;
+
+    // Sanitize user-provided strings to prevent XSS
+    const changes: UpdateEventRequest = {
+      ...data,
+      title: data.title && sanitize(data.title),
+      description: data.description && sanitize(data.description),
+      location: data.location && sanitize(data.location),
+      tags: data.tags?.map((tag) => sanitize(tag)),
+    };
+
+    const result = await updateEvent(prisma, eventId, changes, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.event, 'Event updated');
+  });
+}
+
+/**
+ * @swagger
+ * /api/events/{id}:
+ *   delete:
+ *     summary: Delete an event
+ *     description: Soft-deletes the event; it disappears from listings and lookups but its registrations, payments and history are kept. Events with active registrations or a waitlist must be cancelled first (POST /api/events/{id}/cancel) so attendees are notified.
+ *     tags:
+ *       - Events
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Event deleted
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not the organizer of this event
+ *       404:
+ *         description: Event not found
+ *       409:
+ *         description: The event still has active registrations or a waitlist
+ */
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: eventId } = await params;
+
+    const result = await deleteEvent(prisma, eventId, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.event, 'Event deleted');
+  });
+}
@@ -0,0 +1,184 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { deleteSession, updateSession } from '@/lib/sessions';
+import {
+  updateSessionSchema,
+  UpdateSessionRequest,
+} from '@/lib/schemas/sessionSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+interface RouteContext {
+  params: Promise<{ id: string; sessionId: string }>;
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/sessions/{sessionId}:
+ *   patch:
+ *     summary: Edit a session
+ *     description: Updates the given fields. Capacity cannot drop below the seats already taken, and a session cannot be moved so that it overlaps another session on an attendee's agenda. Only the event organizer or an admin can edit sessions.
+ *     tags:
+ *       - Events
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               title:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               track:
+ *                 type: string
+ *                 nullable: true
+ *               room:
+ *                 type: string
+ *                 nullable: true
+ *               speakerIds:
+ *                 type: array
+ *                 maxItems: 10
+ *                 description: Speakers from the event's line-up
+ *                 items:
+ *                   type: string
+ *               startsAt:
+ *                 type: string
+ *                 format: date-time
+ *               endsAt:
+ *                 type: string
+ *                 format: date-time
+ *               capacity:
+ *                 type: integer
+ *                 minimum: 1
+ *     responses:
+ *       200:
+ *         description: Session updated
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller does not manage the event
+ *       404:
+ *         description: Event or session not found
+ *       409:
+ *         description: The new time slot overlaps another session on an attendee's agenda
+ */
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: eventId, sessionId } = await params;
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, updateSessionSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const result = await updateSession(
+      prisma,
+      eventId,
+      sessionId,
+      validation.data as UpdateSessionRequest,
+      auth,
+    );
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.session, 'Session updated');
+  });
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/sessions/{sessionId}:
+ *   delete:
+ *     summary: Remove a session
+ *     description: Deletes the session and removes it from every attendee's agenda. Only the event organizer or an admin can remove sessions.
+ *     tags:
+ *       - Events
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session removed
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller does not manage the event
+ *       404:
+ *         description: Event or session not found
+ */
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: eventId, sessionId } = await params;
+
+    const result = await deleteSession(prisma, eventId, sessionId, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(
+      { sessionId, removedFromAgendas: result.removedFromAgendas },
+      'Session removed',
+    );
+  });
+}
@@ -0,0 +1,158 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { createSession, listEventSessions } from '@/lib/sessions';
+import {
+  createSessionSchema,
+  CreateSessionRequest,
+} from '@/lib/schemas/sessionSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/sessions:
+ *   get:
+ *     summary: List the event's sessions
+ *     description: Returns the event's sessions in start order, with the seats still available in each.
+ *     tags:
+ *       - Events
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Sessions retrieved
+ *       404:
+ *         description: Event not found
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    const { id: eventId } = await params;
+
+    const result = await listEventSessions(prisma, eventId);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.sessions, 'Sessions retrieved successfully');
+  });
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/sessions:
+ *   post:
+ *     summary: Add a session to the event
+ *     description: Creates a session with its own time slot and capacity. The capacity cannot exceed the event's, and speakers must be on the event's line-up. Only the event organizer or an admin can add sessions.
+ *     tags:
+ *       - Events
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - title
+ *               - startsAt
+ *               - endsAt
+ *               - capacity
+ *             properties:
+ *               title:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               track:
+ *                 type: string
+ *               room:
+ *                 type: string
+ *               speakerIds:
+ *                 type: array
+ *                 maxItems: 10
+ *                 description: Speakers from the event's line-up
+ *                 items:
+ *                   type: string
+ *               startsAt:
+ *                 type: string
+ *                 format: date-time
+ *               endsAt:
+ *                 type: string
+ *                 format: date-time
+ *               capacity:
+ *                 type: integer
+ *                 minimum: 1
+ *     responses:
+ *       201:
+ *         description: Session created
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller does not manage the event
+ *       404:
+ *         description: Event not found
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: eventId } = await params;
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, createSessionSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const result = await createSession(
+      prisma,
+      eventId,
+      validation.data as CreateSessionRequest,
+      auth,
+    );
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.session, 'Session created', 201);
+  });
+}
@@ -0,0 +1,65 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { removeEventSpeaker } from '@/lib/speakers';
+
+interface RouteContext {
+  params: Promise<{ id: string; speakerId: string }>;
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/speakers/{speakerId}:
+ *   delete:
+ *     summary: Remove a speaker from the event
+ *     description: Takes the speaker off the event's line-up and off its sessions. The speaker profile is kept. Only the event organizer or an admin can change the line-up.
+ *     tags:
+ *       - Events
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: speakerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Speaker removed
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller does not manage the event
+ *       404:
+ *         description: Event not found, or the speaker is not on its line-up
+ */
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: eventId, speakerId } = await params;
+
+    const result = await removeEventSpeaker(prisma, eventId, speakerId, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess({ speakerId }, 'Speaker removed from event');
+  });
+}
@@ -0,0 +1,154 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { addEventSpeaker, listEventSpeakers } from '@/lib/speakers';
+import {
+  addEventSpeakerSchema,
+  AddEventSpeakerRequest,
+} from '@/lib/schemas/speakerSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/speakers:
+ *   get:
+ *     summary: List the event's speakers
+ *     description: Returns the event's speaker line-up in display order, with each speaker's sessions at the event.
+ *     tags:
+ *       - Events
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Speakers retrieved
+ *       404:
+ *         description: Event not found
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    const { id: eventId } = await params;
+
+    const result = await listEventSpeakers(prisma, eventId);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.speakers, 'Speakers retrieved successfully');
+  });
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/speakers:
+ *   post:
+ *     summary: Add a speaker to the event
+ *     description: Adds an existing speaker by id, or creates a new speaker profile, at the end of the event's line-up. Only the event organizer or an admin can change the line-up.
+ *     tags:
+ *       - Events
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               speakerId:
+ *                 type: string
+ *                 description: An existing speaker; omit to create one
+ *               speaker:
+ *                 type: object
+ *                 required:
+ *                   - name
+ *                 properties:
+ *                   name:
+ *                     type: string
+ *                   email:
+ *                     type: string
+ *                     description: Needed to invite the speaker to edit their profile
+ *                   headline:
+ *                     type: string
+ *                   bio:
+ *                     type: string
+ *                   links:
+ *                     type: array
+ *                     maxItems: 10
+ *                     items:
+ *                       type: string
+ *     responses:
+ *       201:
+ *         description: Speaker added
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller does not manage the event
+ *       404:
+ *         description: Event or speaker not found
+ *       409:
+ *         description: The speaker is already on the line-up
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: eventId } = await params;
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, addEventSpeakerSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const result = await addEventSpeaker(
+      prisma,
+      eventId,
+      validation.data as AddEventSpeakerRequest,
+      auth,
+    );
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.speaker, 'Speaker added', 201);
+  });
+}
@@ -0,0 +1,155 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { removeStaff, updateStaffRole } from '@/lib/eventStaff';
+import {
+  updateStaffRoleSchema,
+  UpdateStaffRoleRequest,
+} from '@/lib/schemas/eventStaffSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+interface RouteContext {
+  params: Promise<{ id: string; userId: string }>;
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/staff/{userId}:
+ *   patch:
+ *     summary: Change a staff member's role
+ *     description: Only the event owner or an admin can change staff roles.
+ *     tags:
+ *       - Events
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [CO_ORGANIZER, CHECK_IN, VIEWER]
+ *     responses:
+ *       200:
+ *         description: Role changed
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller does not own the event
+ *       404:
+ *         description: Event not found, or the user is not on its staff
+ */
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: eventId, userId } = await params;
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, updateStaffRoleSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const { role } = validation.data as UpdateStaffRoleRequest;
+
+    const result = await updateStaffRole(prisma, eventId, userId, role, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.staff, 'Staff role updated');
+  });
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/staff/{userId}:
+ *   delete:
+ *     summary: Remove someone from the event's staff
+ *     description: The event owner or an admin can remove any staff member; staff members can remove themselves.
+ *     tags:
+ *       - Events
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Staff member removed
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller does not own the event
+ *       404:
+ *         description: Event not found, or the user is not on its staff
+ */
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: eventId, userId } = await params;
+
+    const result = await removeStaff(prisma, eventId, userId, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess({ userId }, 'Removed from event staff');
+  });
+}
@@ -0,0 +1,158 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { inviteStaff, listEventStaff } from '@/lib/eventStaff';
+import {
+  inviteStaffSchema,
+  InviteStaffRequest,
+} from '@/lib/schemas/eventStaffSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/staff:
+ *   get:
+ *     summary: List the event's team
+ *     description: Returns the event owner, its staff with their roles and the staff invitations not yet accepted. Open to the owner, every staff member and admins.
+ *     tags:
+ *       - Events
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Owner, staff and pending invitations
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller is not on the event's team
+ *       404:
+ *         description: Event not found
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: eventId } = await params;
+
+    const result = await listEventStaff(prisma, eventId, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(
+      {
+        owner: result.owner,
+        staff: result.staff,
+        invitations: result.invitations,
+      },
+      'Event staff retrieved successfully',
+    );
+  });
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/staff:
+ *   post:
+ *     summary: Invite someone to the event's staff
+ *     description: Emails a single-use link that adds the invited address to the event's staff with the given role once accepted. Inviting an address again replaces its previous link and role. Only the event owner or an admin can invite staff.
+ *     tags:
+ *       - Events
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - role
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               role:
+ *                 type: string
+ *                 enum: [CO_ORGANIZER, CHECK_IN, VIEWER]
+ *     responses:
+ *       201:
+ *         description: Invitation issued
+ *       400:
+ *         description: Validation error, or the address owns the event
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller does not own the event
+ *       404:
+ *         description: Event not found
+ *       409:
+ *         description: The address is already on the event's staff
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: eventId } = await params;
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, inviteStaffSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const { email, role } = validation.data as InviteStaffRequest;
+
+    const result = await inviteStaff(prisma, eventId, email, role, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.invitation, 'Staff invitation sent', 201);
+  });
+}
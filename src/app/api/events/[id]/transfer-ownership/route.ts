@@ -0,0 +1,98 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { transferEventOwnership } from '@/lib/eventStaff';
+import {
+  transferOwnershipSchema,
+  TransferOwnershipRequest,
+} from '@/lib/schemas/eventStaffSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/transfer-ownership:
+ *   post:
+ *     summary: Transfer ownership of the event
+ *     description: Makes one of the event's co-organizers its owner. The previous owner stays on the staff as a co-organizer. Only the event owner or an admin can transfer ownership.
+ *     tags:
+ *       - Events
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *             properties:
+ *               userId:
+ *                 type: string
+ *                 format: uuid
+ *     responses:
+ *       200:
+ *         description: Ownership transferred
+ *       400:
+ *         description: Validation error, or the user is not a co-organizer of the event
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller does not own the event
+ *       404:
+ *         description: Event not found
+ *       409:
+ *         description: The event changed owner concurrently
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: eventId } = await params;
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, transferOwnershipSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const { userId } = validation.data as TransferOwnershipRequest;
+
+    const result = await transferEventOwnership(prisma, eventId, userId, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.event, 'Event ownership transferred');
+  });
+}
@@ -0,0 +1,128 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import logger, { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { getWaitlistPosition, leaveWaitlist } from '@/lib/waitlist';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/waitlist:
+ *   get:
+ *     summary: Get my waitlist position
+ *     description: Returns the authenticated user's position in the event's waitlist and the total waitlist size.
+ *     tags:
+ *       - Waitlist
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Waitlist position retrieved
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: User is not on the waitlist
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    try {
+      const { id: eventId } = await params;
+      const position = await getWaitlistPosition(prisma, auth.userId, eventId);
+
+      if (!position) {
+        return sendError(
+          'You are not on the waitlist for this event',
+          ERROR_CODES.NOT_FOUND,
+        );
+      }
+
+      return sendSuccess(position, 'Waitlist position retrieved successfully');
+    } catch (error) {
+      logger.error({
+        message: 'Database error during waitlist lookup',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return sendError(
+        'Failed to retrieve waitlist position',
+        ERROR_CODES.DATABASE_FAILURE,
+      );
+    }
+  });
+}
+
+/**
+ * @swagger
+ * /api/events/{id}/waitlist:
+ *   delete:
+ *     summary: Leave the waitlist
+ *     description: Removes the authenticated user from the event's waitlist.
+ *     tags:
+ *       - Waitlist
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Removed from the waitlist
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: User is not on the waitlist
+ */
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    try {
+      const { id: eventId } = await params;
+      const removed = await leaveWaitlist(prisma, auth.userId, eventId);
+
+      if (!removed) {
+        return sendError(
+          'You are not on the waitlist for this event',
+          ERROR_CODES.NOT_FOUND,
+        );
+      }
+
+      logger.info({ message: 'User left waitlist', eventId });
+      return sendSuccess({ eventId }, 'Removed from the waitlist');
+    } catch (error) {
+      logger.error({
+        message: 'Database error while leaving waitlist',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return sendError(
+        'Failed to leave the waitlist',
+        ERROR_CODES.DATABASE_FAILURE,
+      );
+    }
+  });
+}
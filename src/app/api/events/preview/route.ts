@@ -0,0 +1,53 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { getEventPreview } from '@/lib/eventLifecycle';
+
+/**
+ * @swagger
+ * /api/events/preview:
+ *   get:
+ *     summary: Preview a draft event
+ *     description: Returns the draft a preview link belongs to. No account is needed; the link token is the credential.
+ *     tags:
+ *       - Events
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Draft retrieved
+ *       400:
+ *         description: Token missing
+ *       404:
+ *         description: Link invalid, replaced by a newer one, or the event has been published
+ *       410:
+ *         description: Link expired
+ */
+export async function GET(req: NextRequest) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    const token = req.nextUrl.searchParams.get('token');
+
+    if (!token) {
+      return sendError(
+        'Preview link token is required',
+        ERROR_CODES.MISSING_REQUIRED_FIELD,
+      );
+    }
+
+    const result = await getEventPreview(prisma, token);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.event, 'Event preview retrieved successfully');
+  });
+}
@@ -0,0 +1,78 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { searchEvents } from '@/lib/eventSearch';
+import {
+  eventSearchQuerySchema,
+  EventSearchQuery,
+} from '@/lib/schemas/eventSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+/**
+ * @swagger
+ * /api/events/search:
+ *   get:
+ *     summary: Search events
+ *     description: Full-text search over published, publicly listed events. Every word is matched as a prefix in the title, location and description, with title matches ranked highest; titles also match despite small typos. Results come best match first, with the title and a description snippet split into highlighted and plain segments.
+ *     tags:
+ *       - Events
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *           minLength: 2
+ *           maxLength: 200
+ *       - in: query
+ *         name: page
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 50
+ *     responses:
+ *       200:
+ *         description: Search results with pagination details
+ *       400:
+ *         description: Validation error
+ */
+export async function GET(req: NextRequest) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    const { searchParams } = req.nextUrl;
+
+    const validation = validateData(
+      {
+        q: searchParams.get('q') ?? undefined,
+        page: searchParams.get('page') ?? undefined,
+        limit: searchParams.get('limit') ?? undefined,
+      },
+      eventSearchQuerySchema,
+    );
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const { q, page, limit } = validation.data as EventSearchQuery;
+
+    const result = await searchEvents(prisma, q, page, limit);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(
+      { results: result.results, pagination: result.pagination },
+      `${result.pagination!.totalRecords} events found`,
+    );
+  });
+}
@@ -0,0 +1,57 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { getGroupBooking } from '@/lib/groupRegistration';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/group-registrations/{id}:
+ *   get:
+ *     summary: Get a group booking
+ *     description: Returns the booking and each seat's attendee and status (REGISTERED or INVITED). Available to the purchaser, the event organizer and admins.
+ *     tags:
+ *       - Registrations
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Group booking retrieved
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not allowed to view this booking
+ *       404:
+ *         description: Group booking not found
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: groupBookingId } = await params;
+    const result = await getGroupBooking(prisma, groupBookingId, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.booking, 'Group booking retrieved successfully');
+  });
+}
@@ -0,0 +1,108 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { reassignGroupSeat } from '@/lib/groupRegistration';
+import {
+  groupAttendeeSchema,
+  GroupAttendee,
+} from '@/lib/schemas/registrationSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+interface RouteContext {
+  params: Promise<{ id: string; seatId: string }>;
+}
+
+/**
+ * @swagger
+ * /api/group-registrations/{id}/seats/{seatId}:
+ *   patch:
+ *     summary: Reassign a group seat
+ *     description: Gives the seat to a different attendee. The previous attendee's registration or invitation is revoked and the new attendee is registered or invited. Seats that have been checked in cannot be reassigned.
+ *     tags:
+ *       - Registrations
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: seatId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - email
+ *             properties:
+ *               name:
+ *                 type: string
+ *               email:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       200:
+ *         description: Seat reassigned
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not the purchaser of this booking
+ *       404:
+ *         description: Seat not found
+ *       409:
+ *         description: Seat already checked in, or the new attendee is already registered or invited
+ */
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: groupBookingId, seatId } = await params;
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, groupAttendeeSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const result = await reassignGroupSeat(
+      prisma,
+      groupBookingId,
+      seatId,
+      validation.data as GroupAttendee,
+      auth,
+    );
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.seat, 'Seat reassigned successfully');
+  });
+}
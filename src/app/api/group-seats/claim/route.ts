@@ -0,0 +1,85 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { claimGroupSeat } from '@/lib/groupRegistration';
+import {
+  claimGroupSeatSchema,
+  ClaimGroupSeatRequest,
+} from '@/lib/schemas/registrationSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+/**
+ * @swagger
+ * /api/group-seats/claim:
+ *   post:
+ *     summary: Claim an invited group seat
+ *     description: Registers the signed-in user for the seat a group purchaser booked for them. The account email must match the address the invitation was sent to.
+ *     tags:
+ *       - Registrations
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Seat claimed and registration created
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Invitation was sent to a different email address
+ *       404:
+ *         description: Invitation not found or already claimed
+ *       409:
+ *         description: Already registered for this event
+ */
+export async function POST(req: NextRequest) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, claimGroupSeatSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const { token } = validation.data as ClaimGroupSeatRequest;
+
+    const result = await claimGroupSeat(prisma, token, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(
+      result.registration,
+      `You're registered for ${result.registration!.event.title}`,
+      201,
+    );
+  });
+}
@@ -0,0 +1,124 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { registerUserForEvent } from '@/lib/eventRegistration';
+import { findInvitationEventId } from '@/lib/invitations';
+import {
+  redeemInvitationSchema,
+  RedeemInvitationRequest,
+} from '@/lib/schemas/registrationSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+/**
+ * @swagger
+ * /api/invitations/redeem:
+ *   post:
+ *     summary: Accept an event invitation
+ *     description: Registers the authenticated user for the invite-only event the token belongs to. The user must be signed in with the invited email address; the token can be used once and only before it expires.
+ *     tags:
+ *       - Registrations
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *               ticketTypeId:
+ *                 type: string
+ *               answers:
+ *                 type: object
+ *                 description: Answers to the event's registration questions, keyed by question id
+ *               promoCode:
+ *                 type: string
+ *                 description: Discount code to apply to the ticket price
+ *     responses:
+ *       201:
+ *         description: Registered for the event
+ *       202:
+ *         description: Seat held pending payment
+ *       400:
+ *         description: Validation error, or the promo code is invalid or does not apply
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Invitation was sent to a different email address
+ *       404:
+ *         description: Invitation not found
+ *       409:
+ *         description: Invitation already used, event full, promo code used up, or user already registered
+ *       410:
+ *         description: Invitation expired
+ */
+export async function POST(req: NextRequest) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, redeemInvitationSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const { token, ticketTypeId, answers, promoCode } =
+      validation.data as RedeemInvitationRequest;
+
+    const eventId = await findInvitationEventId(prisma, token);
+    if (!eventId) {
+      return sendError(
+        'Invitation not found or no longer valid',
+        ERROR_CODES.INVALID_INVITATION,
+      );
+    }
+
+    const result = await registerUserForEvent(
+      prisma,
+      auth.userId,
+      eventId,
+      false,
+      { ticketTypeId, invitationToken: token, answers, promoCode },
+    );
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    // Paid tickets: the seat is held until the payment intent is confirmed
+    if (result.registration?.status === 'PENDING_PAYMENT') {
+      return sendSuccess(
+        { ...result.registration, payment: result.payment },
+        `Seat held until ${result.registration.holdExpiresAt?.toISOString()}. Complete payment to confirm the registration`,
+        202,
+      );
+    }
+
+    return sendSuccess(
+      result.registration,
+      `Registered for ${result.registration!.event.title}`,
+      201,
+    );
+  });
+}
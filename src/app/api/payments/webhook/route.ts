@@ -0,0 +1,76 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import logger, { withRequestId } from '@/lib/logger';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { getPaymentProvider } from '@/lib/payments';
+import { applyPaymentIntentUpdate } from '@/lib/registrationPayments';
+
+/**
+ * Header carrying the provider's signature of the raw request body
+ */
+const SIGNATURE_HEADER = 'x-payment-signature';
+
+/**
+ * @swagger
+ * /api/payments/webhook:
+ *   post:
+ *     summary: Payment provider webhook
+ *     description: Receives signed payment intent updates from the payment provider. Authenticated by the body signature in the x-payment-signature header rather than a user session. Replayed or out-of-order notifications are acknowledged without side effects.
+ *     tags:
+ *       - Payments
+ *     responses:
+ *       200:
+ *         description: Notification processed
+ *       401:
+ *         description: Missing or invalid signature
+ *       404:
+ *         description: Unknown payment intent
+ */
+export async function POST(req: NextRequest) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    // The signature covers the exact bytes sent, so read the raw body
+    const payload = await req.text();
+    const provider = getPaymentProvider();
+
+    let webhookEvent;
+    try {
+      webhookEvent = await provider.verifyWebhook(
+        payload,
+        req.headers.get(SIGNATURE_HEADER),
+      );
+    } catch (error) {
+      logger.warn({
+        message: 'Rejected payment webhook',
+        provider: provider.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return sendError('Invalid webhook signature', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const result = await applyPaymentIntentUpdate(
+      prisma,
+      webhookEvent.intent,
+      provider,
+    );
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    logger.info({
+      message: 'Processed payment webhook',
+      providerIntentId: webhookEvent.intent.id,
+      status: result.payment?.status,
+      applied: result.applied,
+      refunded: result.refunded,
+    });
+
+    return sendSuccess(
+      { payment: result.payment, applied: result.applied },
+      'Webhook processed',
+    );
+  });
+}
@@ -0,0 +1,78 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import logger, { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { confirmRegistrationPayment } from '@/lib/registrationPayments';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/registrations/{id}/payment/confirm:
+ *   post:
+ *     summary: Confirm payment for a held registration
+ *     description: Confirms the registration's payment intent with the provider. On success the registration is confirmed; on failure the seat hold is released and the next waitlisted user is promoted.
+ *     tags:
+ *       - Registrations
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Payment succeeded and the registration is confirmed
+ *       401:
+ *         description: Unauthorized
+ *       402:
+ *         description: Payment failed; the seat hold was released
+ *       403:
+ *         description: Not the registrant
+ *       404:
+ *         description: Registration not found
+ *       409:
+ *         description: Registration is not awaiting payment
+ *       410:
+ *         description: Seat hold has expired
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: registrationId } = await params;
+
+    logger.info({
+      message: 'Confirming registration payment',
+      method: req.method,
+      path: req.nextUrl.pathname,
+      registrationId,
+    });
+
+    const result = await confirmRegistrationPayment(
+      prisma,
+      registrationId,
+      auth,
+    );
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(
+      { payment: result.payment },
+      'Payment succeeded, registration confirmed',
+    );
+  });
+}
@@ -0,0 +1,76 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import logger, { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { createRegistrationPayment } from '@/lib/registrationPayments';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/registrations/{id}/payment:
+ *   post:
+ *     summary: Start payment for a held registration
+ *     description: Creates the payment intent for a registration that is awaiting payment, or returns the existing one. The seat stays held until the payment succeeds or the hold expires.
+ *     tags:
+ *       - Registrations
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Payment intent ready
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not the registrant
+ *       404:
+ *         description: Registration not found
+ *       409:
+ *         description: Registration is not awaiting payment
+ *       410:
+ *         description: Seat hold has expired
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: registrationId } = await params;
+
+    logger.info({
+      message: 'Starting registration payment',
+      method: req.method,
+      path: req.nextUrl.pathname,
+      registrationId,
+    });
+
+    const result = await createRegistrationPayment(
+      prisma,
+      registrationId,
+      auth,
+    );
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(
+      { payment: result.payment, clientSecret: result.clientSecret },
+      'Payment intent ready',
+    );
+  });
+}
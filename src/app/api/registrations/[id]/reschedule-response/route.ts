@@ -0,0 +1,111 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { respondToReschedule } from '@/lib/eventChanges';
+import {
+  rescheduleResponseSchema,
+  RescheduleResponseRequest,
+} from '@/lib/schemas/registrationSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/registrations/{id}/reschedule-response:
+ *   post:
+ *     summary: Confirm or release a seat after the event was rescheduled
+ *     description: CONFIRM keeps the registration at the new time. RELEASE cancels it, even inside the event's cancellation window, refunding any payment and offering the seat to the waitlist.
+ *     tags:
+ *       - Registrations
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - response
+ *             properties:
+ *               response:
+ *                 type: string
+ *                 enum: [CONFIRM, RELEASE]
+ *     responses:
+ *       200:
+ *         description: Answer recorded
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not the registrant
+ *       404:
+ *         description: Registration not found
+ *       409:
+ *         description: No reschedule is awaiting an answer
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: registrationId } = await params;
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, rescheduleResponseSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const { response } = validation.data as RescheduleResponseRequest;
+
+    const result = await respondToReschedule(
+      prisma,
+      registrationId,
+      response,
+      auth,
+    );
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(
+      {
+        rescheduleResponse: result.rescheduleResponse,
+        cancellation: result.cancellation,
+      },
+      response === 'CONFIRM'
+        ? 'Seat confirmed for the new time'
+        : 'Seat released',
+    );
+  });
+}
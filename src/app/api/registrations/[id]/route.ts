@@ -0,0 +1,118 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import logger, { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { cancelRegistration } from '@/lib/eventRegistration';
+import {
+  cancelRegistrationSchema,
+  CancelRegistrationRequest,
+} from '@/lib/schemas/registrationSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+import { sanitize } from '@/lib/security';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/registrations/{id}:
+ *   delete:
+ *     summary: Cancel a registration
+ *     description: Cancels a registration, returns its seat to the event and promotes the next waitlisted user. Registrants can cancel their own registration until the event's cancellation cutoff; the organizer and admins can cancel at any time.
+ *     tags:
+ *       - Registrations
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *     responses:
+ *       200:
+ *         description: Registration cancelled
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not allowed to cancel this registration
+ *       404:
+ *         description: Registration not found
+ *       409:
+ *         description: Cancellation cutoff has passed
+ */
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: registrationId } = await params;
+
+    // The body is optional for DELETE, so an empty payload is treated as {}
+    let payload: unknown = {};
+    const rawBody = await req.text();
+    if (rawBody) {
+      try {
+        payload = JSON.parse(rawBody);
+      } catch {
+        return sendError(
+          'Request body must be valid JSON',
+          ERROR_CODES.INVALID_INPUT,
+        );
+      }
+    }
+
+    const validation = validateData(payload, cancelRegistrationSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const { reason } = validation.data as CancelRegistrationRequest;
+
+    logger.info({
+      message: 'Cancelling registration',
+      method: req.method,
+      path: req.nextUrl.pathname,
+      registrationId,
+    });
+
+    const result = await cancelRegistration(prisma, registrationId, auth, {
+      reason: reason ? sanitize(reason) : undefined,
+    });
+
+    if (!result.success) {
+      logger.warn({
+        message: 'Registration cancellation rejected',
+        registrationId,
+        error: result.error!.message,
+      });
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(
+      {
+        cancellation: result.cancellation,
+        event: result.updatedEvent,
+        promotedFromWaitlist: result.promotions.length,
+      },
+      'Registration cancelled successfully',
+    );
+  });
+}
@@ -0,0 +1,59 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { getRegistrationTicket } from '@/lib/tickets';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/registrations/{id}/ticket:
+ *   get:
+ *     summary: Get a registration's ticket
+ *     description: Returns the signed ticket code and its QR code (as a PNG data URL) for a confirmed registration. Available to the registrant, the event organizer and admins.
+ *     tags:
+ *       - Registrations
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Ticket retrieved
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not allowed to view this ticket
+ *       404:
+ *         description: Registration not found
+ *       409:
+ *         description: Registration is not confirmed yet
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: registrationId } = await params;
+    const result = await getRegistrationTicket(prisma, registrationId, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.ticket, 'Ticket retrieved successfully');
+  });
+}
@@ -0,0 +1,104 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { transferRegistration } from '@/lib/registrationTransfer';
+import {
+  transferRegistrationSchema,
+  TransferRegistrationRequest,
+} from '@/lib/schemas/registrationSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/registrations/{id}/transfer:
+ *   post:
+ *     summary: Transfer a registration to another user
+ *     description: Hands a confirmed registration to the user with the given account email without releasing the seat. The previous ticket code stops working; the recipient is emailed a new ticket and the previous holder a notice. Available to the registrant, the event organizer and admins.
+ *     tags:
+ *       - Registrations
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       200:
+ *         description: Registration transferred
+ *       400:
+ *         description: Validation error, or the event has required registration questions
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not allowed to transfer this registration
+ *       404:
+ *         description: Registration or recipient not found
+ *       409:
+ *         description: Recipient already registered or has a cancelled registration, registration not confirmed, or already checked in
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: registrationId } = await params;
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, transferRegistrationSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const { email } = validation.data as TransferRegistrationRequest;
+
+    const result = await transferRegistration(
+      prisma,
+      registrationId,
+      email,
+      auth,
+    );
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(
+      { registration: result.registration, transfer: result.transfer },
+      `Registration transferred to ${result.registration!.user.name}`,
+    );
+  });
+}
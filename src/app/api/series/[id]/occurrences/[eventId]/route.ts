@@ -0,0 +1,187 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import {
+  skipSeriesOccurrence,
+  updateSeriesOccurrence,
+} from '@/lib/eventSeries';
+import {
+  updateSeriesOccurrenceSchema,
+  UpdateSeriesOccurrenceRequest,
+} from '@/lib/schemas/eventSeriesSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+interface RouteContext {
+  params: Promise<{ id: string; eventId: string }>;
+}
+
+/**
+ * @swagger
+ * /api/series/{id}/occurrences/{eventId}:
+ *   patch:
+ *     summary: Edit an occurrence of a series
+ *     description: With scope THIS only the given occurrence changes, and a draft occurrence can be moved to another date. With scope THIS_AND_FUTURE the change also applies to every later occurrence, including those generated later. Only the series organizer (or an admin) can edit.
+ *     tags:
+ *       - Events
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - scope
+ *             properties:
+ *               scope:
+ *                 type: string
+ *                 enum: [THIS, THIS_AND_FUTURE]
+ *               title:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               location:
+ *                 type: string
+ *               capacity:
+ *                 type: integer
+ *               cancellationCutoffHours:
+ *                 type: integer
+ *               registrationMode:
+ *                 type: string
+ *                 enum: [OPEN, APPROVAL, INVITE_ONLY]
+ *               date:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Scope THIS only, and only for draft occurrences; published occurrences are moved with POST /api/events/{id}/reschedule
+ *     responses:
+ *       200:
+ *         description: Occurrences updated
+ *       400:
+ *         description: Validation error, a published occurrence is being moved, or an occurrence has more registrations than the new capacity
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller does not organize the series
+ *       404:
+ *         description: Series or occurrence not found
+ */
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: seriesId, eventId } = await params;
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, updateSeriesOccurrenceSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const result = await updateSeriesOccurrence(
+      prisma,
+      seriesId,
+      eventId,
+      validation.data as UpdateSeriesOccurrenceRequest,
+      auth,
+    );
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(
+      result.occurrences,
+      `${result.occurrences.length} occurrence(s) updated`,
+    );
+  });
+}
+
+/**
+ * @swagger
+ * /api/series/{id}/occurrences/{eventId}:
+ *   delete:
+ *     summary: Skip an occurrence of a series
+ *     description: Deletes the occurrence (a soft delete, as for events) and adds it to the series exceptions so it is not generated again. Refused while the occurrence has registrations, a waitlist or payments.
+ *     tags:
+ *       - Events
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Occurrence skipped
+ *       400:
+ *         description: The occurrence has registrations, a waitlist or payments
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller does not organize the series
+ *       404:
+ *         description: Series or occurrence not found
+ */
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: seriesId, eventId } = await params;
+
+    const result = await skipSeriesOccurrence(prisma, seriesId, eventId, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(
+      { eventId, skippedAt: result.skippedAt },
+      'Occurrence skipped',
+    );
+  });
+}
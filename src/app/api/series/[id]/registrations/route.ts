@@ -0,0 +1,163 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { registerForSeries, unregisterFromSeries } from '@/lib/eventSeries';
+import {
+  seriesRegistrationSchema,
+  SeriesRegistrationRequest,
+} from '@/lib/schemas/eventSeriesSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/series/{id}/registrations:
+ *   post:
+ *     summary: Register for every occurrence of a series
+ *     description: Registers the caller for each upcoming occurrence, and for occurrences generated later. Each occurrence is registered on its own; the outcome of each is returned. Registering again updates the preferences and retries occurrences the caller is not registered for.
+ *     tags:
+ *       - Registrations
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               ticketTypeName:
+ *                 type: string
+ *                 description: Ticket type to pick on each occurrence, by name
+ *               joinWaitlist:
+ *                 type: boolean
+ *               answers:
+ *                 type: object
+ *                 description: Answers to the registration questions, keyed by question label
+ *     responses:
+ *       201:
+ *         description: Series registration recorded; see outcomes per occurrence
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The series is invite-only
+ *       404:
+ *         description: Series not found
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: seriesId } = await params;
+
+    // Every field is optional, so an empty payload is treated as {}
+    let payload: unknown = {};
+    const rawBody = await req.text();
+    if (rawBody) {
+      try {
+        payload = JSON.parse(rawBody);
+      } catch {
+        return sendError(
+          'Request body must be valid JSON',
+          ERROR_CODES.INVALID_INPUT,
+        );
+      }
+    }
+
+    const validation = validateData(payload, seriesRegistrationSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const result = await registerForSeries(
+      prisma,
+      seriesId,
+      auth.userId,
+      validation.data as SeriesRegistrationRequest,
+    );
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    const registered = result.outcomes.filter(
+      ({ result }) => result !== 'FAILED',
+    ).length;
+
+    return sendSuccess(
+      { subscription: result.subscription, outcomes: result.outcomes },
+      `Registered for ${registered} of ${result.outcomes.length} upcoming occurrences`,
+      201,
+    );
+  });
+}
+
+/**
+ * @swagger
+ * /api/series/{id}/registrations:
+ *   delete:
+ *     summary: Leave a series
+ *     description: Stops the caller's series registration and cancels their registrations for upcoming occurrences. Occurrences inside their cancellation window stay registered and are listed in failed.
+ *     tags:
+ *       - Registrations
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Series registration removed
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Not registered for this series
+ */
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: seriesId } = await params;
+
+    const result = await unregisterFromSeries(prisma, seriesId, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(
+      { cancelled: result.cancelled, failed: result.failed },
+      'Left the event series',
+    );
+  });
+}
@@ -0,0 +1,54 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { getEventSeries } from '@/lib/eventSeries';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/series/{id}:
+ *   get:
+ *     summary: Get an event series
+ *     description: Returns the series, its recurrence rule (also as an RRULE string) and its generated occurrences, earliest first.
+ *     tags:
+ *       - Events
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: upcoming
+ *         schema:
+ *           type: boolean
+ *         description: Only include occurrences that have not started yet
+ *     responses:
+ *       200:
+ *         description: Series retrieved
+ *       404:
+ *         description: Series not found
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    const { id: seriesId } = await params;
+    const upcomingOnly = req.nextUrl.searchParams.get('upcoming') === 'true';
+
+    const result = await getEventSeries(prisma, seriesId, upcomingOnly);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(
+      { ...result.series, occurrences: result.occurrences },
+      'Event series retrieved successfully',
+    );
+  });
+}
@@ -0,0 +1,147 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { createEventSeries } from '@/lib/eventSeries';
+import {
+  createEventSeriesSchema,
+  CreateEventSeriesRequest,
+} from '@/lib/schemas/eventSeriesSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+/**
+ * @swagger
+ * /api/series:
+ *   post:
+ *     summary: Create a recurring event series
+ *     description: Creates a series from an event template and a recurrence rule, and generates its occurrences as events for the coming SERIES_GENERATION_HORIZON_DAYS. Later occurrences are generated automatically. The caller becomes the organizer.
+ *     tags:
+ *       - Events
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - title
+ *               - location
+ *               - capacity
+ *               - startsAt
+ *               - endsAt
+ *               - recurrence
+ *             properties:
+ *               title:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               location:
+ *                 type: string
+ *               capacity:
+ *                 type: integer
+ *               cancellationCutoffHours:
+ *                 type: integer
+ *               registrationMode:
+ *                 type: string
+ *                 enum: [OPEN, APPROVAL, INVITE_ONLY]
+ *               ticketTypes:
+ *                 type: array
+ *                 description: Copied onto each occurrence; sales windows move with the occurrence
+ *                 items:
+ *                   type: object
+ *               questions:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *               startsAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Start of the first occurrence
+ *               endsAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: End of the first occurrence; later occurrences last as long
+ *               timeZone:
+ *                 type: string
+ *                 description: IANA time zone; occurrences keep the first one's local start time (default UTC)
+ *               recurrence:
+ *                 type: object
+ *                 required:
+ *                   - frequency
+ *                 properties:
+ *                   frequency:
+ *                     type: string
+ *                     enum: [DAILY, WEEKLY, MONTHLY]
+ *                   interval:
+ *                     type: integer
+ *                   byWeekday:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                       enum: [SU, MO, TU, WE, TH, FR, SA]
+ *                   until:
+ *                     type: string
+ *                     format: date-time
+ *                   count:
+ *                     type: integer
+ *                   exceptions:
+ *                     type: array
+ *                     description: Occurrence starts to skip
+ *                     items:
+ *                       type: string
+ *                       format: date-time
+ *     responses:
+ *       201:
+ *         description: Series created with its first occurrences
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ */
+export async function POST(req: NextRequest) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, createEventSeriesSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const result = await createEventSeries(
+      prisma,
+      validation.data as CreateEventSeriesRequest,
+      auth,
+    );
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(
+      { ...result.series, occurrences: result.occurrences },
+      `Event series created with ${result.occurrences.length} occurrences`,
+      201,
+    );
+  });
+}
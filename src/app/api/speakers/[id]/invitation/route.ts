@@ -0,0 +1,62 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { inviteSpeaker } from '@/lib/speakers';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/speakers/{id}/invitation:
+ *   post:
+ *     summary: Invite a speaker to edit their profile
+ *     description: Emails the speaker a link to edit their own profile without an account. The link stays valid for SPEAKER_EDIT_LINK_TTL_DAYS; sending a new one invalidates the previous link. The speaker needs an email address.
+ *     tags:
+ *       - Speakers
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       201:
+ *         description: Invitation sent; see emailSent for delivery
+ *       400:
+ *         description: The speaker has no email address
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller cannot edit this speaker
+ *       404:
+ *         description: Speaker not found
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: speakerId } = await params;
+
+    const result = await inviteSpeaker(prisma, speakerId, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.invitation, 'Speaker invitation sent', 201);
+  });
+}
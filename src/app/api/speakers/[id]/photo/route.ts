@@ -0,0 +1,99 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { createSpeakerPhotoUpload } from '@/lib/speakers';
+import {
+  speakerPhotoUploadSchema,
+  SpeakerPhotoUploadRequest,
+} from '@/lib/schemas/speakerSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/speakers/{id}/photo:
+ *   post:
+ *     summary: Get an upload URL for a speaker photo
+ *     description: Returns a short-lived uploadUrl to PUT the image to (with the x-ms-blob-type BlockBlob header), and the photoUrl to save on the profile afterwards.
+ *     tags:
+ *       - Speakers
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - contentType
+ *             properties:
+ *               contentType:
+ *                 type: string
+ *                 enum: [image/jpeg, image/png, image/webp]
+ *     responses:
+ *       200:
+ *         description: Upload URL created
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller cannot edit this speaker
+ *       404:
+ *         description: Speaker not found
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: speakerId } = await params;
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, speakerPhotoUploadSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const { contentType } = validation.data as SpeakerPhotoUploadRequest;
+
+    const result = await createSpeakerPhotoUpload(prisma, contentType, {
+      speakerId,
+      actor: auth,
+    });
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.upload, 'Upload URL created');
+  });
+}
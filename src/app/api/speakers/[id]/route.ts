@@ -0,0 +1,148 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { getSpeaker, updateSpeaker } from '@/lib/speakers';
+import {
+  updateSpeakerSchema,
+  UpdateSpeakerRequest,
+} from '@/lib/schemas/speakerSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/speakers/{id}:
+ *   get:
+ *     summary: Get a speaker's public profile
+ *     description: Returns the speaker's profile with their publicly listed events and sessions.
+ *     tags:
+ *       - Speakers
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Speaker retrieved
+ *       404:
+ *         description: Speaker not found
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    const { id: speakerId } = await params;
+
+    const result = await getSpeaker(prisma, speakerId);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.speaker, 'Speaker retrieved successfully');
+  });
+}
+
+/**
+ * @swagger
+ * /api/speakers/{id}:
+ *   patch:
+ *     summary: Edit a speaker's profile
+ *     description: Updates the given fields; send null to clear an optional field. Photos must first be uploaded through POST /api/speakers/{id}/photo. Only admins and the speaker's creator can edit it; the speaker can edit their own profile through their emailed link.
+ *     tags:
+ *       - Speakers
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               email:
+ *                 type: string
+ *                 nullable: true
+ *               headline:
+ *                 type: string
+ *                 nullable: true
+ *               bio:
+ *                 type: string
+ *               photoUrl:
+ *                 type: string
+ *                 nullable: true
+ *               links:
+ *                 type: array
+ *                 maxItems: 10
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Speaker updated
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller cannot edit this speaker
+ *       404:
+ *         description: Speaker not found
+ */
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: speakerId } = await params;
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, updateSpeakerSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const result = await updateSpeaker(
+      prisma,
+      speakerId,
+      validation.data as UpdateSpeakerRequest,
+      auth,
+    );
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.speaker, 'Speaker updated');
+  });
+}
@@ -0,0 +1,84 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { createSpeakerPhotoUpload } from '@/lib/speakers';
+import {
+  speakerPhotoUploadSchema,
+  SpeakerPhotoUploadRequest,
+} from '@/lib/schemas/speakerSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+/**
+ * @swagger
+ * /api/speakers/profile/photo:
+ *   post:
+ *     summary: Get an upload URL for my speaker photo
+ *     description: Same as POST /api/speakers/{id}/photo, authorized by the emailed edit link instead of an account.
+ *     tags:
+ *       - Speakers
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - contentType
+ *             properties:
+ *               token:
+ *                 type: string
+ *               contentType:
+ *                 type: string
+ *                 enum: [image/jpeg, image/png, image/webp]
+ *     responses:
+ *       200:
+ *         description: Upload URL created
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Link invalid or replaced by a newer one
+ *       410:
+ *         description: Link expired
+ */
+export async function POST(req: NextRequest) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, speakerPhotoUploadSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const { token, contentType } = validation.data as SpeakerPhotoUploadRequest;
+
+    if (!token) {
+      return sendError(
+        'Profile link token is required',
+        ERROR_CODES.MISSING_REQUIRED_FIELD,
+      );
+    }
+
+    const result = await createSpeakerPhotoUpload(prisma, contentType, {
+      token,
+    });
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.upload, 'Upload URL created');
+  });
+}
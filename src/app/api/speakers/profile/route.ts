@@ -0,0 +1,132 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { getOwnSpeakerProfile, updateOwnSpeakerProfile } from '@/lib/speakers';
+import {
+  updateOwnSpeakerProfileSchema,
+  UpdateOwnSpeakerProfileRequest,
+} from '@/lib/schemas/speakerSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+/**
+ * @swagger
+ * /api/speakers/profile:
+ *   get:
+ *     summary: Get my speaker profile
+ *     description: Returns the profile the emailed edit link belongs to. No account is needed; the link token is the credential.
+ *     tags:
+ *       - Speakers
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Profile retrieved
+ *       404:
+ *         description: Link invalid or replaced by a newer one
+ *       410:
+ *         description: Link expired
+ */
+export async function GET(req: NextRequest) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    const token = req.nextUrl.searchParams.get('token');
+
+    if (!token) {
+      return sendError(
+        'Profile link token is required',
+        ERROR_CODES.MISSING_REQUIRED_FIELD,
+      );
+    }
+
+    const result = await getOwnSpeakerProfile(prisma, token);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.speaker, 'Profile retrieved successfully');
+  });
+}
+
+/**
+ * @swagger
+ * /api/speakers/profile:
+ *   patch:
+ *     summary: Edit my speaker profile
+ *     description: Updates the profile the edit link belongs to. Photos must first be uploaded through POST /api/speakers/profile/photo.
+ *     tags:
+ *       - Speakers
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *               headline:
+ *                 type: string
+ *                 nullable: true
+ *               bio:
+ *                 type: string
+ *               photoUrl:
+ *                 type: string
+ *                 nullable: true
+ *               links:
+ *                 type: array
+ *                 maxItems: 10
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Profile updated
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Link invalid or replaced by a newer one
+ *       410:
+ *         description: Link expired
+ */
+export async function PATCH(req: NextRequest) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, updateOwnSpeakerProfileSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const { token, ...changes } =
+      validation.data as UpdateOwnSpeakerProfileRequest;
+
+    const result = await updateOwnSpeakerProfile(prisma, token, changes);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.speaker, 'Profile updated');
+  });
+}
@@ -0,0 +1,88 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { acceptStaffInvitation } from '@/lib/eventStaff';
+import {
+  acceptStaffInvitationSchema,
+  AcceptStaffInvitationRequest,
+} from '@/lib/schemas/eventStaffSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+/**
+ * @swagger
+ * /api/staff-invitations/accept:
+ *   post:
+ *     summary: Accept a staff invitation
+ *     description: Adds the authenticated user to the staff of the event the token belongs to, with the role they were invited for. The user must be signed in with the invited email address; the token can be used once and only before it expires.
+ *     tags:
+ *       - Events
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Joined the event's staff
+ *       400:
+ *         description: Validation error, or the user already owns the event
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Invitation was sent to a different email address
+ *       404:
+ *         description: Invitation not found
+ *       409:
+ *         description: Invitation already accepted
+ *       410:
+ *         description: Invitation expired
+ */
+export async function POST(req: NextRequest) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, acceptStaffInvitationSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const { token } = validation.data as AcceptStaffInvitationRequest;
+
+    const result = await acceptStaffInvitation(prisma, token, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(
+      result.staff,
+      `Joined the team for ${result.staff!.eventTitle}`,
+    );
+  });
+}
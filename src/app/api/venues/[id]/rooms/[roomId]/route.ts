@@ -0,0 +1,251 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { deleteRoom, getRoomSchedule, updateRoom } from '@/lib/venues';
+import {
+  roomScheduleQuerySchema,
+  RoomScheduleQuery,
+  updateRoomSchema,
+  UpdateRoomRequest,
+} from '@/lib/schemas/venueSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+interface RouteContext {
+  params: Promise<{ id: string; roomId: string }>;
+}
+
+/**
+ * @swagger
+ * /api/venues/{id}/rooms/{roomId}:
+ *   get:
+ *     summary: Get a room and its bookings
+ *     description: Returns the room with the events booked into it, ordered by start. Without a window only bookings that have not ended yet are returned.
+ *     tags:
+ *       - Venues
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: roomId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Room schedule retrieved
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Room not found
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    try {
+      await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: venueId, roomId } = await params;
+    const { searchParams } = req.nextUrl;
+
+    const validation = validateData(
+      {
+        from: searchParams.get('from') ?? undefined,
+        to: searchParams.get('to') ?? undefined,
+      },
+      roomScheduleQuerySchema,
+    );
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const result = await getRoomSchedule(
+      prisma,
+      venueId,
+      roomId,
+      validation.data as RoomScheduleQuery,
+    );
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.room, 'Room schedule retrieved successfully');
+  });
+}
+
+/**
+ * @swagger
+ * /api/venues/{id}/rooms/{roomId}:
+ *   patch:
+ *     summary: Edit a room
+ *     description: Updates the room's name, capacity or amenities. The capacity cannot drop below that of an upcoming event booked into the room. Admin only.
+ *     tags:
+ *       - Venues
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: roomId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               capacity:
+ *                 type: integer
+ *               amenities:
+ *                 type: array
+ *                 maxItems: 20
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Room updated
+ *       400:
+ *         description: Validation error or an upcoming booking needs more seats
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller is not an admin
+ *       404:
+ *         description: Room not found
+ *       409:
+ *         description: The venue already has a room with this name
+ */
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: venueId, roomId } = await params;
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, updateRoomSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const result = await updateRoom(
+      prisma,
+      venueId,
+      roomId,
+      validation.data as UpdateRoomRequest,
+      auth,
+    );
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.room, 'Room updated');
+  });
+}
+
+/**
+ * @swagger
+ * /api/venues/{id}/rooms/{roomId}:
+ *   delete:
+ *     summary: Remove a room
+ *     description: Refused while any event is booked into the room. Admin only.
+ *     tags:
+ *       - Venues
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: roomId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Room removed
+ *       400:
+ *         description: Events are still booked into the room
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller is not an admin
+ *       404:
+ *         description: Room not found
+ */
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: venueId, roomId } = await params;
+
+    const result = await deleteRoom(prisma, venueId, roomId, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess({ id: roomId }, 'Room removed');
+  });
+}
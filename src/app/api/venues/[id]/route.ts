@@ -0,0 +1,198 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { deleteVenue, getVenue, updateVenue } from '@/lib/venues';
+import {
+  updateVenueSchema,
+  UpdateVenueRequest,
+} from '@/lib/schemas/venueSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @swagger
+ * /api/venues/{id}:
+ *   get:
+ *     summary: Get a venue
+ *     description: Returns the venue's address and room inventory.
+ *     tags:
+ *       - Venues
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Venue retrieved
+ *       404:
+ *         description: Venue not found
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    const { id: venueId } = await params;
+
+    const result = await getVenue(prisma, venueId);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.venue, 'Venue retrieved successfully');
+  });
+}
+
+/**
+ * @swagger
+ * /api/venues/{id}:
+ *   patch:
+ *     summary: Edit a venue
+ *     description: Updates the venue's name or address; send null to clear an optional address part. Rooms are managed through /api/venues/{id}/rooms. Admin only.
+ *     tags:
+ *       - Venues
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               addressLine1:
+ *                 type: string
+ *               addressLine2:
+ *                 type: string
+ *                 nullable: true
+ *               city:
+ *                 type: string
+ *               region:
+ *                 type: string
+ *                 nullable: true
+ *               postalCode:
+ *                 type: string
+ *                 nullable: true
+ *               country:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Venue updated
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller is not an admin
+ *       404:
+ *         description: Venue not found
+ */
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: venueId } = await params;
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, updateVenueSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const result = await updateVenue(
+      prisma,
+      venueId,
+      validation.data as UpdateVenueRequest,
+      auth,
+    );
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.venue, 'Venue updated');
+  });
+}
+
+/**
+ * @swagger
+ * /api/venues/{id}:
+ *   delete:
+ *     summary: Delete a venue
+ *     description: Deletes the venue and its rooms. Refused while any event is booked into one of its rooms. Admin only.
+ *     tags:
+ *       - Venues
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Venue deleted
+ *       400:
+ *         description: Events are still booked at the venue
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller is not an admin
+ *       404:
+ *         description: Venue not found
+ */
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    const { id: venueId } = await params;
+
+    const result = await deleteVenue(prisma, venueId, auth);
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess({ id: venueId }, 'Venue deleted');
+  });
+}
@@ -0,0 +1,151 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { withRequestId } from '@/lib/logger';
+import { requireAuth } from '@/lib/requireAuth';
+import { sendSuccess, sendError } from '@/lib/responseHandler';
+import { ERROR_CODES } from '@/lib/errorCodes';
+import { createVenue, listVenues } from '@/lib/venues';
+import {
+  createVenueSchema,
+  CreateVenueRequest,
+} from '@/lib/schemas/venueSchema';
+import { validateData } from '@/lib/schemas/validationUtils';
+
+/**
+ * @swagger
+ * /api/venues:
+ *   get:
+ *     summary: List venues
+ *     description: Returns every venue with its rooms, ordered by name.
+ *     tags:
+ *       - Venues
+ *     parameters:
+ *       - in: query
+ *         name: city
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Only venues in this city (case-insensitive)
+ *     responses:
+ *       200:
+ *         description: Venues retrieved
+ */
+export async function GET(req: NextRequest) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    const city = req.nextUrl.searchParams.get('city')?.trim() || undefined;
+
+    const result = await listVenues(prisma, { city });
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.venues, 'Venues retrieved successfully');
+  });
+}
+
+/**
+ * @swagger
+ * /api/venues:
+ *   post:
+ *     summary: Create a venue
+ *     description: Creates a venue, optionally with its rooms. Room names must be unique within the venue. Admin only.
+ *     tags:
+ *       - Venues
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - addressLine1
+ *               - city
+ *               - country
+ *             properties:
+ *               name:
+ *                 type: string
+ *               addressLine1:
+ *                 type: string
+ *               addressLine2:
+ *                 type: string
+ *               city:
+ *                 type: string
+ *               region:
+ *                 type: string
+ *               postalCode:
+ *                 type: string
+ *               country:
+ *                 type: string
+ *                 description: ISO 3166-1 alpha-2 code
+ *               rooms:
+ *                 type: array
+ *                 maxItems: 50
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - name
+ *                     - capacity
+ *                   properties:
+ *                     name:
+ *                       type: string
+ *                     capacity:
+ *                       type: integer
+ *                     amenities:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *     responses:
+ *       201:
+ *         description: Venue created
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Caller is not an admin
+ */
+export async function POST(req: NextRequest) {
+  const requestId = req.headers.get('x-request-id') || 'unknown';
+
+  return withRequestId(requestId, async () => {
+    let auth;
+    try {
+      auth = await requireAuth(req);
+    } catch {
+      return sendError('Authentication required', ERROR_CODES.UNAUTHORIZED);
+    }
+
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return sendError(
+        'Request body must be valid JSON',
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const validation = validateData(payload, createVenueSchema);
+    if (!validation.success) {
+      return validation.response!;
+    }
+
+    const result = await createVenue(
+      prisma,
+      validation.data as CreateVenueRequest,
+      auth,
+    );
+
+    if (!result.success) {
+      return sendError(result.error!.message, result.error!.code);
+    }
+
+    return sendSuccess(result.venue, 'Venue created', 201);
+  });
+}
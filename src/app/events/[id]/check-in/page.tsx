@@ -0,0 +1,95 @@
+import { cookies } from 'next/headers';
+import { notFound, redirect } from 'next/navigation';
+import prisma from '@/lib/prisma';
+import { verifyAccessToken } from '@/lib/auth-tokens';
+import { eventStaffSelect, hasEventPermission } from '@/lib/permissions';
+import CheckInScanner from '@/components/CheckInScanner';
+import EventTime from '@/components/EventTime';
+
+interface CheckInPageProps {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Event-day scanner for organizers and check-in staff. Access is checked here on the server;
+ * the check-in API enforces the same rule for every scan.
+ */
+export default async function CheckInPage({ params }: CheckInPageProps) {
+  const { id: eventId } = await params;
+
+  const accessToken = (await cookies()).get('accessToken')?.value;
+  let actor;
+  try {
+    actor = accessToken ? verifyAccessToken(accessToken) : null;
+  } catch {
+    actor = null;
+  }
+
+  if (!actor) {
+    redirect('/login');
+  }
+
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: {
+      id: true,
+      title: true,
+      date: true,
+      endsAt: true,
+      timeZone: true,
+      location: true,
+      organizerId: true,
+      staff: eventStaffSelect(actor),
+      _count: {
+        select: {
+          registrations: {
+            where: { status: 'APPROVED', checkedInAt: { not: null } },
+          },
+        },
+      },
+    },
+  });
+
+  if (!event) {
+    notFound();
+  }
+
+  if (!hasEventPermission(actor, event, 'checkIn')) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8">
+        <div className="max-w-xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="bg-white shadow-md rounded-lg p-6">
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">
+              Check-in unavailable
+            </h1>
+            <p className="text-gray-600">
+              Only the organizer of this event and its check-in staff can check
+              attendees in.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-xl mx-auto px-4 sm:px-6 lg:px-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-1">Check-in</h1>
+        <p className="text-gray-600 mb-6">
+          {event.title} &middot;{' '}
+          <EventTime
+            startsAt={event.date}
+            endsAt={event.endsAt}
+            timeZone={event.timeZone}
+          />{' '}
+          &middot; {event.location}
+        </p>
+        <CheckInScanner
+          eventId={event.id}
+          initialCheckedInCount={event._count.registrations}
+        />
+      </div>
+    </div>
+  );
+}
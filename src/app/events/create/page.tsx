@@ -1,21 +1,41 @@
 'use client';
 
+import { useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { eventFormSchema, EventFormData } from '@/lib/schemas/eventSchema';
+import {
+  eventFormSchema,
+  EventFormData,
+  toEventTimes,
+} from '@/lib/schemas/eventSchema';
+import { listTimeZones } from '@/lib/timeZones';
 import FormInput from '@/components/ui/FormInput';
 
+const TIME_ZONES = listTimeZones();
+
 export default function CreateEventPage() {
   const {
     register,
     handleSubmit,
+    setValue,
     formState: { errors, isSubmitting },
   } = useForm<EventFormData>({
     resolver: zodResolver(eventFormSchema),
+    defaultValues: { timeZone: 'UTC' },
   });
 
+  // Start from the organizer's own zone; only known in the browser
+  useEffect(() => {
+    setValue('timeZone', Intl.DateTimeFormat().resolvedOptions().timeZone);
+  }, [setValue]);
+
   const onSubmit = async (data: EventFormData) => {
-    console.log('Form data:', data);
+    console.log('Event payload:', {
+      title: data.title,
+      description: data.description,
+      location: data.location,
+      ...toEventTimes(data),
+    });
     // Simulate API call
     await new Promise((resolve) => setTimeout(resolve, 2000));
     alert('Event created successfully!');
@@ -54,13 +74,6 @@ export default function CreateEventPage() {
               type="textarea"
             />
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-              <FormInput
-                label="Date"
-                name="date"
-                register={register}
-                error={errors.date}
-                type="datetime-local"
-              />
               <FormInput
                 label="Start Time"
                 name="startTime"
@@ -75,7 +88,34 @@ export default function CreateEventPage() {
                 error={errors.endTime}
                 type="datetime-local"
               />
+              <div className="mb-4">
+                <label
+                  htmlFor="timeZone"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Time Zone
+                </label>
+                <select
+                  id="timeZone"
+                  {...register('timeZone')}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {TIME_ZONES.map((zone) => (
+                    <option key={zone} value={zone}>
+                      {zone.replace(/_/g, ' ')}
+                    </option>
+                  ))}
+                </select>
+                {errors.timeZone && (
+                  <p className="mt-1 text-sm text-red-600">
+                    {errors.timeZone.message}
+                  </p>
+                )}
+              </div>
             </div>
+            <p className="text-sm text-gray-500">
+              Start and end are local times in the selected time zone.
+            </p>
             <button
               type="submit"
               disabled={isSubmitting}
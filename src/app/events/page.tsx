@@ -1,51 +1,165 @@
-export default async function EventsPage() {
-  // Temporary 3-second delay to test Loading Skeleton
-  await new Promise((res) => setTimeout(res, 3000));
+import prisma from '@/lib/prisma';
+import { HighlightSegment, searchEvents } from '@/lib/eventSearch';
+import { getEventsPaginated } from '@/lib/queryOptimizations';
+import { eventSearchQuerySchema } from '@/lib/schemas/eventSchema';
+import { EventCard } from '@/components/EventCard';
+import EventTime from '@/components/EventTime';
 
-  // Temporary condition to test Error Boundary (simulate failure)
-  if (Math.random() > 0.7) {
-    throw new Error('Failed to load events');
+const PAGE_SIZE = 12;
+
+interface EventsPageProps {
+  searchParams: Promise<{ q?: string; page?: string }>;
+}
+
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+  return segments.map((segment, index) =>
+    segment.highlighted ? (
+      <mark key={index} className="bg-yellow-100 text-inherit">
+        {segment.text}
+      </mark>
+    ) : (
+      <span key={index}>{segment.text}</span>
+    ),
+  );
+}
+
+function pageHref(page: number, q?: string): string {
+  const params = new URLSearchParams({ page: String(page) });
+  if (q) {
+    params.set('q', q);
   }
+  return `/events?${params}`;
+}
+
+/**
+ * Published events, or full-text search results when `q` is set (see
+ * src/lib/eventSearch.ts). The search box is a plain GET form, so results
+ * are shareable links and work without JavaScript.
+ */
+export default async function EventsPage({ searchParams }: EventsPageProps) {
+  const { q, page } = await searchParams;
 
-  // Mock event data for demonstration
-  const events = [
-    {
-      id: 1,
-      title: 'Tech Conference 2024',
-      date: '2024-10-15',
-      location: 'San Francisco',
-    },
-    {
-      id: 2,
-      title: 'Music Festival',
-      date: '2024-11-20',
-      location: 'Los Angeles',
-    },
-    {
-      id: 3,
-      title: 'Art Exhibition',
-      date: '2024-12-05',
-      location: 'New York',
-    },
-  ];
+  const search = q?.trim()
+    ? eventSearchQuerySchema.safeParse({ q, page })
+    : null;
+
+  const searchText = search?.success ? search.data.q : undefined;
+  const searchResult = search?.success
+    ? await searchEvents(prisma, search.data.q, search.data.page, PAGE_SIZE)
+    : null;
+
+  const listing = search
+    ? null
+    : await getEventsPaginated(prisma, Number(page) || 1, PAGE_SIZE);
+
+  const pagination = searchResult?.pagination ?? listing?.pagination;
 
   return (
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
-        <h1 className="text-3xl font-bold text-gray-900 mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-6">
           Upcoming Events
         </h1>
+        <form action="/events" role="search" className="mb-8 flex gap-2">
+          <input
+            type="search"
+            name="q"
+            defaultValue={q}
+            placeholder="Search by title, place or topic"
+            aria-label="Search events"
+            className="flex-1 rounded-md border border-gray-300 px-3 py-2"
+          />
+          <button
+            type="submit"
+            className="bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700"
+          >
+            Search
+          </button>
+        </form>
+
+        {search && !search.success && (
+          <p className="mb-6 rounded-md bg-red-50 p-3 text-sm text-red-800">
+            {search.error.issues[0].message}
+          </p>
+        )}
+        {searchResult && !searchResult.success && (
+          <p className="mb-6 rounded-md bg-red-50 p-3 text-sm text-red-800">
+            Search is unavailable right now, try again later.
+          </p>
+        )}
+        {searchResult?.pagination && (
+          <p className="mb-4 text-sm text-gray-600">
+            {searchResult.pagination.totalRecords === 0
+              ? `No events match “${searchText}”.`
+              : `${searchResult.pagination.totalRecords} events match “${searchText}”.`}
+          </p>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {events.map((event) => (
-            <div key={event.id} className="bg-white shadow-md rounded-lg p-6">
-              <h2 className="text-xl font-semibold text-gray-800 mb-2">
-                {event.title}
+          {searchResult?.results.map((event) => (
+            <div
+              key={event.id}
+              className="bg-white shadow-md rounded-lg p-4 border"
+            >
+              <h2 className="text-xl font-bold mb-2">
+                <Highlighted segments={event.highlights.title} />
               </h2>
-              <p className="text-gray-600 mb-1">Date: {event.date}</p>
-              <p className="text-gray-600">Location: {event.location}</p>
+              <p className="text-gray-600 mb-1">
+                <EventTime
+                  startsAt={event.date}
+                  endsAt={event.endsAt}
+                  timeZone={event.timeZone}
+                />
+              </p>
+              <p className="text-gray-600 mb-2">{event.location}</p>
+              <p className="text-sm text-gray-800">
+                <Highlighted segments={event.highlights.snippet} />
+              </p>
             </div>
           ))}
+          {listing?.events.map((event) => (
+            <EventCard
+              key={event.id}
+              title={event.title}
+              date={event.date}
+              endsAt={event.endsAt}
+              timeZone={event.timeZone}
+              description={event.location}
+              speakers={event.speakers}
+            />
+          ))}
         </div>
+
+        {pagination && pagination.totalPages > 1 && (
+          <nav
+            aria-label="Pagination"
+            className="mt-8 flex items-center justify-between text-sm"
+          >
+            {pagination.hasPreviousPage ? (
+              <a
+                href={pageHref(pagination.currentPage - 1, q)}
+                className="text-blue-600 hover:underline"
+              >
+                Previous
+              </a>
+            ) : (
+              <span />
+            )}
+            <span className="text-gray-600">
+              Page {pagination.currentPage} of {pagination.totalPages}
+            </span>
+            {pagination.hasNextPage ? (
+              <a
+                href={pageHref(pagination.currentPage + 1, q)}
+                className="text-blue-600 hover:underline"
+              >
+                Next
+              </a>
+            ) : (
+              <span />
+            )}
+          </nav>
+        )}
       </div>
     </div>
   );
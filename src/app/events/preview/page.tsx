@@ -0,0 +1,92 @@
+import prisma from '@/lib/prisma';
+import { getEventPreview } from '@/lib/eventLifecycle';
+import { formatDateTime } from '@/lib/utils';
+import EventTime from '@/components/EventTime';
+
+interface EventPreviewPageProps {
+  searchParams: Promise<{ token?: string }>;
+}
+
+/**
+ * Landing page for a draft preview link. Shows the event as attendees will
+ * see it once published; no account is needed and registration stays closed.
+ */
+export default async function EventPreviewPage({
+  searchParams,
+}: EventPreviewPageProps) {
+  const { token } = await searchParams;
+  const result = token ? await getEventPreview(prisma, token) : null;
+  const event = result?.event;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+        {event ? (
+          <>
+            <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-lg p-4 text-sm">
+              Draft preview &middot; this event is not published yet
+              {event.publishAt &&
+                ` and is scheduled to go live on ${formatDateTime(event.publishAt, event.timeZone)}`}
+              .
+            </div>
+
+            <div className="bg-white shadow-md rounded-lg p-6">
+              <h1 className="text-3xl font-bold text-gray-900">
+                {event.title}
+              </h1>
+              <p className="text-gray-600 mt-2">
+                <EventTime
+                  startsAt={event.date}
+                  endsAt={event.endsAt}
+                  timeZone={event.timeZone}
+                />{' '}
+                &middot; {event.location}
+              </p>
+              {event.description && (
+                <p className="text-gray-800 mt-4 whitespace-pre-line">
+                  {event.description}
+                </p>
+              )}
+              {event.ticketTypes.length > 0 && (
+                <ul className="mt-4 text-sm text-gray-700 list-disc ml-4">
+                  {event.ticketTypes.map((ticketType) => (
+                    <li key={ticketType.id}>{ticketType.name}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {event.speakers.length > 0 && (
+              <div className="bg-white shadow-md rounded-lg p-6">
+                <h2 className="text-xl font-semibold text-gray-800 mb-4">
+                  Speakers
+                </h2>
+                <ul className="space-y-2">
+                  {event.speakers.map((speaker) => (
+                    <li key={speaker.id}>
+                      <p className="font-medium text-gray-900">
+                        {speaker.name}
+                      </p>
+                      {speaker.headline && (
+                        <p className="text-gray-600 text-sm">
+                          {speaker.headline}
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        ) : (
+          <div className="bg-white shadow-md rounded-lg p-6">
+            <p className="text-gray-600">
+              {result?.error?.message ??
+                'This preview link is invalid. Please ask the organizer for a new one.'}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
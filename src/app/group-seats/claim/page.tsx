@@ -0,0 +1,53 @@
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { verifyAccessToken } from '@/lib/auth-tokens';
+import ClaimGroupSeat from '@/components/ClaimGroupSeat';
+
+interface ClaimGroupSeatPageProps {
+  searchParams: Promise<{ token?: string }>;
+}
+
+/**
+ * Landing page for group seat invitations. The invitee must be signed in
+ * with the invited address; the claim API checks the match.
+ */
+export default async function ClaimGroupSeatPage({
+  searchParams,
+}: ClaimGroupSeatPageProps) {
+  const { token } = await searchParams;
+
+  const accessToken = (await cookies()).get('accessToken')?.value;
+  let actor;
+  try {
+    actor = accessToken ? verifyAccessToken(accessToken) : null;
+  } catch {
+    actor = null;
+  }
+
+  if (!actor) {
+    redirect('/login');
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-xl mx-auto px-4 sm:px-6 lg:px-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-1">
+          Claim your seat
+        </h1>
+        <p className="text-gray-600 mb-6">
+          Someone has booked a seat for you as part of a group.
+        </p>
+        {token ? (
+          <ClaimGroupSeat token={token} />
+        ) : (
+          <div className="bg-white shadow-md rounded-lg p-6">
+            <p className="text-gray-600">
+              This invitation link is incomplete. Please open it again from your
+              email.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import prisma from '@/lib/prisma';
+import { verifyAccessToken } from '@/lib/auth-tokens';
+import { findInvitationEventId } from '@/lib/invitations';
+import AcceptInvitation from '@/components/AcceptInvitation';
+import EventTime from '@/components/EventTime';
+
+interface AcceptInvitationPageProps {
+  searchParams: Promise<{ token?: string }>;
+}
+
+/**
+ * Landing page for invite-only event invitations. The invitee must be signed
+ * in with the invited address; the redeem API checks the match, the expiry
+ * and that the link has not been used.
+ */
+export default async function AcceptInvitationPage({
+  searchParams,
+}: AcceptInvitationPageProps) {
+  const { token } = await searchParams;
+
+  const accessToken = (await cookies()).get('accessToken')?.value;
+  let actor;
+  try {
+    actor = accessToken ? verifyAccessToken(accessToken) : null;
+  } catch {
+    actor = null;
+  }
+
+  if (!actor) {
+    redirect('/login');
+  }
+
+  const eventId = token ? await findInvitationEventId(prisma, token) : null;
+  const event = eventId
+    ? await prisma.event.findUnique({
+        where: { id: eventId },
+        select: {
+          title: true,
+          date: true,
+          endsAt: true,
+          timeZone: true,
+          location: true,
+          ticketTypes: {
+            select: { id: true, name: true, priceCents: true, currency: true },
+            orderBy: { priceCents: 'asc' },
+          },
+          questions: {
+            select: {
+              id: true,
+              label: true,
+              type: true,
+              required: true,
+              options: true,
+            },
+            orderBy: { position: 'asc' },
+          },
+        },
+      })
+    : null;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-xl mx-auto px-4 sm:px-6 lg:px-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-1">
+          {event ? `You're invited to ${event.title}` : 'Event invitation'}
+        </h1>
+        {event && (
+          <p className="text-gray-600 mb-6">
+            <EventTime
+              startsAt={event.date}
+              endsAt={event.endsAt}
+              timeZone={event.timeZone}
+            />{' '}
+            &middot; {event.location}
+          </p>
+        )}
+        {token && event ? (
+          <AcceptInvitation
+            token={token}
+            ticketTypes={event.ticketTypes}
+            questions={event.questions}
+          />
+        ) : (
+          <div className="bg-white shadow-md rounded-lg p-6">
+            <p className="text-gray-600">
+              This invitation link is invalid or has been replaced by a newer
+              one. Please open the latest invitation from your email.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { RescheduleResponse as RescheduleAnswer } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { verifyAccessToken } from '@/lib/auth-tokens';
+import RescheduleResponse from '@/components/RescheduleResponse';
+import EventTime from '@/components/EventTime';
+
+interface ReschedulePageProps {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Landing page linked from the reschedule email. Shows the new time and asks
+ * the registrant to keep or release their seat.
+ */
+export default async function ReschedulePage({ params }: ReschedulePageProps) {
+  const { id } = await params;
+
+  const accessToken = (await cookies()).get('accessToken')?.value;
+  let actor;
+  try {
+    actor = accessToken ? verifyAccessToken(accessToken) : null;
+  } catch {
+    actor = null;
+  }
+
+  if (!actor) {
+    redirect('/login');
+  }
+
+  const registration = await prisma.registration.findFirst({
+    where: { id, userId: actor.userId },
+    select: {
+      rescheduleResponse: true,
+      event: {
+        select: {
+          title: true,
+          date: true,
+          endsAt: true,
+          timeZone: true,
+          location: true,
+        },
+      },
+    },
+  });
+  const event = registration?.event;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-xl mx-auto px-4 sm:px-6 lg:px-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-1">
+          {event ? `${event.title} has moved` : 'Event rescheduled'}
+        </h1>
+        {event && (
+          <p className="text-gray-600 mb-6">
+            Now{' '}
+            <EventTime
+              startsAt={event.date}
+              endsAt={event.endsAt}
+              timeZone={event.timeZone}
+            />{' '}
+            &middot; {event.location}
+          </p>
+        )}
+        {registration?.rescheduleResponse === RescheduleAnswer.PENDING ? (
+          <RescheduleResponse registrationId={id} />
+        ) : (
+          <div className="bg-white shadow-md rounded-lg p-6">
+            <p className="text-gray-600">
+              {registration
+                ? 'There is nothing to answer for this registration.'
+                : 'Registration not found.'}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { notFound } from 'next/navigation';
+import prisma from '@/lib/prisma';
+import { getSpeaker } from '@/lib/speakers';
+import EventTime from '@/components/EventTime';
+
+interface SpeakerPageProps {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Public speaker profile with the speaker's publicly listed events and
+ * sessions.
+ */
+export default async function SpeakerPage({ params }: SpeakerPageProps) {
+  const { id } = await params;
+  const { speaker } = await getSpeaker(prisma, id);
+
+  if (!speaker) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+        <div className="bg-white shadow-md rounded-lg p-6 flex gap-6">
+          {speaker.photoUrl && (
+            <img
+              src={speaker.photoUrl}
+              alt={speaker.name}
+              className="w-32 h-32 rounded-full object-cover flex-shrink-0"
+            />
+          )}
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">{speaker.name}</h1>
+            {speaker.headline && (
+              <p className="text-gray-600 mt-1">{speaker.headline}</p>
+            )}
+            {speaker.bio && (
+              <p className="text-gray-800 mt-4 whitespace-pre-line">
+                {speaker.bio}
+              </p>
+            )}
+            {speaker.links.length > 0 && (
+              <ul className="mt-4 space-y-1">
+                {speaker.links.map((link) => (
+                  <li key={link}>
+                    <a
+                      href={link}
+                      rel="noopener noreferrer nofollow"
+                      target="_blank"
+                      className="text-blue-600 hover:underline break-all"
+                    >
+                      {link}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        {speaker.events.length > 0 && (
+          <div className="bg-white shadow-md rounded-lg p-6">
+            <h2 className="text-xl font-semibold text-gray-800 mb-4">Events</h2>
+            <ul className="space-y-3">
+              {speaker.events.map((event) => (
+                <li key={event.id}>
+                  <p className="font-medium text-gray-900">{event.title}</p>
+                  <p className="text-gray-600 text-sm">
+                    <EventTime
+                      startsAt={event.date}
+                      endsAt={event.endsAt}
+                      timeZone={event.timeZone}
+                    />{' '}
+                    &middot; {event.location}
+                  </p>
+                  <ul className="mt-1 ml-4 list-disc text-sm text-gray-700">
+                    {speaker.sessions
+                      .filter((session) => session.eventId === event.id)
+                      .map((session) => (
+                        <li key={session.id}>
+                          {session.title} &middot;{' '}
+                          <EventTime
+                            startsAt={session.startsAt}
+                            endsAt={session.endsAt}
+                            timeZone={event.timeZone}
+                          />
+                          {session.room && ` · ${session.room}`}
+                        </li>
+                      ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import prisma from '@/lib/prisma';
+import { getOwnSpeakerProfile } from '@/lib/speakers';
+import SpeakerProfileForm from '@/components/SpeakerProfileForm';
+
+interface EditSpeakerProfilePageProps {
+  searchParams: Promise<{ token?: string }>;
+}
+
+/**
+ * Landing page for the speaker profile link emailed by organizers. No
+ * account is needed: the token in the link authorizes the edits until it
+ * expires or a newer link is sent.
+ */
+export default async function EditSpeakerProfilePage({
+  searchParams,
+}: EditSpeakerProfilePageProps) {
+  const { token } = await searchParams;
+  const result = token ? await getOwnSpeakerProfile(prisma, token) : null;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-xl mx-auto px-4 sm:px-6 lg:px-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-6">
+          Your speaker profile
+        </h1>
+        {token && result?.speaker ? (
+          <SpeakerProfileForm token={token} speaker={result.speaker} />
+        ) : (
+          <div className="bg-white shadow-md rounded-lg p-6">
+            <p className="text-gray-600">
+              {result?.error?.message ??
+                'This profile link is invalid. Please open the latest link from your email.'}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import prisma from '@/lib/prisma';
+import { verifyAccessToken } from '@/lib/auth-tokens';
+import { findStaffInvitation } from '@/lib/eventStaff';
+import AcceptStaffInvitation from '@/components/AcceptStaffInvitation';
+import EventTime from '@/components/EventTime';
+
+interface AcceptStaffInvitationPageProps {
+  searchParams: Promise<{ token?: string }>;
+}
+
+/**
+ * Landing page for event staff invitations. The invitee must be signed in
+ * with the invited address; the accept API checks the match, the expiry and
+ * that the link has not been used.
+ */
+export default async function AcceptStaffInvitationPage({
+  searchParams,
+}: AcceptStaffInvitationPageProps) {
+  const { token } = await searchParams;
+
+  const accessToken = (await cookies()).get('accessToken')?.value;
+  let actor;
+  try {
+    actor = accessToken ? verifyAccessToken(accessToken) : null;
+  } catch {
+    actor = null;
+  }
+
+  if (!actor) {
+    redirect('/login');
+  }
+
+  const invitation = token ? await findStaffInvitation(prisma, token) : null;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-xl mx-auto px-4 sm:px-6 lg:px-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-1">
+          {invitation
+            ? `Join the team for ${invitation.event.title}`
+            : 'Staff invitation'}
+        </h1>
+        {invitation && (
+          <p className="text-gray-600 mb-6">
+            <EventTime
+              startsAt={invitation.event.date}
+              endsAt={invitation.event.endsAt}
+              timeZone={invitation.event.timeZone}
+            />{' '}
+            &middot; as {invitation.roleName}
+          </p>
+        )}
+        {token && invitation ? (
+          <AcceptStaffInvitation token={token} />
+        ) : (
+          <div className="bg-white shadow-md rounded-lg p-6">
+            <p className="text-gray-600">
+              This invitation link is invalid, has already been used or has been
+              replaced by a newer one. Please open the latest invitation from
+              your email.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+'use client';
+
+import { useState } from 'react';
+import { RegistrationQuestionDefinition } from '@/lib/schemas/registrationFormSchema';
+
+interface AcceptInvitationProps {
+  token: string;
+  ticketTypes: {
+    id: string;
+    name: string;
+    priceCents: number;
+    currency: string;
+  }[];
+  questions: RegistrationQuestionDefinition[];
+}
+
+function formatPrice(priceCents: number, currency: string): string {
+  if (priceCents === 0) {
+    return 'Free';
+  }
+
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+  }).format(priceCents / 100);
+}
+
+/**
+ * Accepts an event invitation with an explicit click, so link previews and
+ * mail scanners opening the invitation URL cannot use up the single-use token.
+ */
+export default function AcceptInvitation({
+  token,
+  ticketTypes,
+  questions,
+}: AcceptInvitationProps) {
+  const [ticketTypeId, setTicketTypeId] = useState(ticketTypes[0]?.id);
+  const [answers, setAnswers] = useState<Record<string, string | boolean>>({});
+  const [promoCode, setPromoCode] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<{ ok: boolean; message: string }>();
+
+  const onAccept = async () => {
+    setSubmitting(true);
+    try {
+      const response = await fetch('/api/invitations/redeem', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          token,
+          ticketTypeId,
+          answers,
+          promoCode: promoCode.trim() || undefined,
+        }),
+      });
+      const body = await response.json();
+      setResult({
+        ok: response.ok,
+        message: body.message ?? 'Unexpected response',
+      });
+    } catch {
+      setResult({ ok: false, message: 'Network error, try again' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-6 space-y-4">
+      {!result?.ok && ticketTypes.length > 0 && (
+        <label className="block text-sm font-medium text-gray-700">
+          Ticket
+          <select
+            value={ticketTypeId}
+            onChange={(e) => setTicketTypeId(e.target.value)}
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2"
+          >
+            {ticketTypes.map((ticketType) => (
+              <option key={ticketType.id} value={ticketType.id}>
+                {`${ticketType.name} · ${formatPrice(ticketType.priceCents, ticketType.currency)}`}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      {!result?.ok &&
+        questions.map((question) => (
+          <label
+            key={question.id}
+            className={
+              question.type === 'CHECKBOX'
+                ? 'flex items-center gap-2 text-sm text-gray-700'
+                : 'block text-sm font-medium text-gray-700'
+            }
+          >
+            {question.type === 'CHECKBOX' && (
+              <input
+                type="checkbox"
+                checked={answers[question.id] === true}
+                onChange={(e) =>
+                  setAnswers({ ...answers, [question.id]: e.target.checked })
+                }
+              />
+            )}
+            {question.label}
+            {question.required && ' *'}
+            {question.type === 'TEXT' && (
+              <input
+                type="text"
+                value={String(answers[question.id] ?? '')}
+                onChange={(e) =>
+                  setAnswers({ ...answers, [question.id]: e.target.value })
+                }
+                className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2"
+              />
+            )}
+            {question.type === 'SELECT' && (
+              <select
+                value={String(answers[question.id] ?? '')}
+                onChange={(e) =>
+                  setAnswers({ ...answers, [question.id]: e.target.value })
+                }
+                className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2"
+              >
+                <option value="" disabled>
+                  Choose…
+                </option>
+                {question.options.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            )}
+          </label>
+        ))}
+      {!result?.ok &&
+        ticketTypes.some((ticketType) => ticketType.priceCents > 0) && (
+          <label className="block text-sm font-medium text-gray-700">
+            Promo code
+            <input
+              type="text"
+              value={promoCode}
+              onChange={(e) => setPromoCode(e.target.value)}
+              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 uppercase"
+            />
+          </label>
+        )}
+      {!result?.ok && (
+        <button
+          type="button"
+          onClick={onAccept}
+          disabled={submitting}
+          className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {submitting ? 'Accepting…' : 'Accept invitation'}
+        </button>
+      )}
+      {result && (
+        <p
+          className={`rounded-md p-3 text-sm ${
+            result.ok ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}
+        >
+          {result.message}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import { useState } from 'react';
+
+interface AcceptStaffInvitationProps {
+  token: string;
+}
+
+/**
+ * Accepts a staff invitation with an explicit click, so link previews and
+ * mail scanners opening the invitation URL cannot use up the token.
+ */
+export default function AcceptStaffInvitation({
+  token,
+}: AcceptStaffInvitationProps) {
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<{ ok: boolean; message: string }>();
+
+  const onAccept = async () => {
+    setSubmitting(true);
+    try {
+      const response = await fetch('/api/staff-invitations/accept', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+      const body = await response.json();
+      setResult({
+        ok: response.ok,
+        message: body.message ?? 'Unexpected response',
+      });
+    } catch {
+      setResult({ ok: false, message: 'Network error, try again' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-6 space-y-4">
+      {!result?.ok && (
+        <button
+          type="button"
+          onClick={onAccept}
+          disabled={submitting}
+          className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {submitting ? 'Joining…' : 'Join the team'}
+        </button>
+      )}
+      {result && (
+        <p
+          className={`rounded-md p-3 text-sm ${
+            result.ok ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}
+        >
+          {result.message}
+        </p>
+      )}
+    </div>
+  );
+}
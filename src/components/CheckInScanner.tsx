@@ -0,0 +1,215 @@
+'use client';
+
+import { FormEvent, useCallback, useEffect, useRef, useState } from 'react';
+
+interface CheckInScannerProps {
+  eventId: string;
+  initialCheckedInCount: number;
+}
+
+interface ScanResult {
+  ok: boolean;
+  message: string;
+  at: Date;
+}
+
+// BarcodeDetector is not in the TypeScript DOM lib yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+declare global {
+  interface Window {
+    BarcodeDetector?: new (options: {
+      formats: string[];
+    }) => BarcodeDetectorLike;
+  }
+}
+
+/**
+ * Scans ticket QR codes with the device camera where the browser supports
+ * the BarcodeDetector API, and always accepts codes typed or pasted in (USB
+ * and Bluetooth scanners type the code followed by Enter).
+ */
+export default function CheckInScanner({
+  eventId,
+  initialCheckedInCount,
+}: CheckInScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const lastCodeRef = useRef<string | null>(null);
+  const [code, setCode] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [cameraActive, setCameraActive] = useState(false);
+  const [cameraSupported, setCameraSupported] = useState(false);
+  const [checkedInCount, setCheckedInCount] = useState(initialCheckedInCount);
+  const [results, setResults] = useState<ScanResult[]>([]);
+
+  const submitCode = useCallback(
+    async (ticketCode: string) => {
+      setSubmitting(true);
+      try {
+        const response = await fetch(`/api/events/${eventId}/check-in`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ code: ticketCode }),
+        });
+        const body = await response.json();
+
+        if (response.ok) {
+          setCheckedInCount((count) => count + 1);
+        }
+
+        setResults((previous) =>
+          [
+            {
+              ok: response.ok,
+              message: body.message ?? 'Unexpected response',
+              at: new Date(),
+            },
+            ...previous,
+          ].slice(0, 20),
+        );
+      } catch {
+        setResults((previous) => [
+          { ok: false, message: 'Network error, try again', at: new Date() },
+          ...previous,
+        ]);
+      } finally {
+        setSubmitting(false);
+      }
+    },
+    [eventId],
+  );
+
+  useEffect(() => {
+    setCameraSupported(
+      typeof window !== 'undefined' &&
+        !!window.BarcodeDetector &&
+        !!navigator.mediaDevices,
+    );
+  }, []);
+
+  useEffect(() => {
+    if (!cameraActive || !window.BarcodeDetector) {
+      return;
+    }
+
+    const detector = new window.BarcodeDetector({ formats: ['qr_code'] });
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' } })
+      .then((mediaStream) => {
+        stream = mediaStream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream;
+          void videoRef.current.play();
+        }
+
+        timer = setInterval(async () => {
+          if (!videoRef.current) return;
+          const [barcode] = await detector.detect(videoRef.current);
+          // Ignore the same code while it stays in front of the camera
+          if (barcode && barcode.rawValue !== lastCodeRef.current) {
+            lastCodeRef.current = barcode.rawValue;
+            void submitCode(barcode.rawValue);
+          }
+        }, 500);
+      })
+      .catch(() => setCameraActive(false));
+
+    return () => {
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [cameraActive, submitCode]);
+
+  const onSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    await submitCode(code.trim());
+    setCode('');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow-md rounded-lg p-6">
+        <p className="text-sm text-gray-500">Checked in</p>
+        <p className="text-3xl font-bold text-gray-900">{checkedInCount}</p>
+      </div>
+
+      {cameraSupported && (
+        <div className="bg-white shadow-md rounded-lg p-6 space-y-4">
+          <button
+            type="button"
+            onClick={() => setCameraActive((active) => !active)}
+            className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700"
+          >
+            {cameraActive ? 'Stop camera' : 'Scan with camera'}
+          </button>
+          {cameraActive && (
+            <video
+              ref={videoRef}
+              className="w-full rounded-md bg-black"
+              muted
+              playsInline
+            />
+          )}
+        </div>
+      )}
+
+      <form
+        onSubmit={onSubmit}
+        className="bg-white shadow-md rounded-lg p-6 space-y-4"
+      >
+        <label
+          htmlFor="ticket-code"
+          className="block text-sm font-medium text-gray-700"
+        >
+          Ticket code
+        </label>
+        <input
+          id="ticket-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          autoFocus
+          autoComplete="off"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          placeholder="Scan or paste a ticket code"
+        />
+        <button
+          type="submit"
+          disabled={submitting || !code.trim()}
+          className="w-full bg-gray-800 text-white py-2 px-4 rounded-md hover:bg-gray-900 disabled:opacity-50"
+        >
+          {submitting ? 'Checking…' : 'Check in'}
+        </button>
+      </form>
+
+      {results.length > 0 && (
+        <ul className="space-y-2">
+          {results.map((result, index) => (
+            <li
+              key={`${result.at.getTime()}-${index}`}
+              className={`rounded-md p-3 text-sm ${
+                result.ok
+                  ? 'bg-green-50 text-green-800'
+                  : 'bg-red-50 text-red-800'
+              }`}
+            >
+              <span className="font-medium">
+                {result.at.toLocaleTimeString()}
+              </span>{' '}
+              {result.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
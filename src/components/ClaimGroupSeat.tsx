@@ -0,0 +1,62 @@
+'use client';
+
+import { useState } from 'react';
+
+interface ClaimGroupSeatProps {
+  token: string;
+}
+
+/**
+ * Claims an invited group seat with an explicit click, so link previews and
+ * mail scanners opening the invitation URL cannot claim it by accident.
+ */
+export default function ClaimGroupSeat({ token }: ClaimGroupSeatProps) {
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<{ ok: boolean; message: string }>();
+
+  const onClaim = async () => {
+    setSubmitting(true);
+    try {
+      const response = await fetch('/api/group-seats/claim', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+      const body = await response.json();
+      setResult({
+        ok: response.ok,
+        message: body.message ?? 'Unexpected response',
+      });
+    } catch {
+      setResult({ ok: false, message: 'Network error, try again' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-6 space-y-4">
+      {!result?.ok && (
+        <button
+          type="button"
+          onClick={onClaim}
+          disabled={submitting}
+          className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {submitting ? 'Claiming…' : 'Claim my seat'}
+        </button>
+      )}
+      {result && (
+        <p
+          className={`rounded-md p-3 text-sm ${
+            result.ok ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}
+        >
+          {result.ok
+            ? `${result.message}. Your ticket is on its way to your inbox.`
+            : result.message}
+        </p>
+      )}
+    </div>
+  );
+}
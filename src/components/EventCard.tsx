@@ -1,16 +1,30 @@
 import React from 'react';
 import { formatEventDate } from '@/lib/utils';
+import EventTime from './EventTime';
+
+interface EventCardSpeaker {
+  id: string;
+  name: string;
+  photoUrl?: string | null;
+}
 
 interface EventCardProps {
   title: string;
   date: Date | string;
+  // With an end, the card shows start and end times instead of just the day
+  endsAt?: Date | string;
+  timeZone?: string;
   description?: string;
+  speakers?: EventCardSpeaker[];
 }
 
 export const EventCard: React.FC<EventCardProps> = ({
   title,
   date,
+  endsAt,
+  timeZone,
   description,
+  speakers = [],
 }) => {
   return (
     <div className="bg-white shadow-md rounded-lg p-4 border">
@@ -18,13 +32,42 @@ export const EventCard: React.FC<EventCardProps> = ({
         {title}
       </h2>
       <p className="text-gray-600 mb-2" role="text">
-        {formatEventDate(date)}
+        {endsAt ? (
+          <EventTime
+            startsAt={date}
+            endsAt={endsAt}
+            timeZone={timeZone ?? 'UTC'}
+          />
+        ) : (
+          formatEventDate(date, timeZone)
+        )}
       </p>
       {description && (
         <p className="text-gray-800" role="text">
           {description}
         </p>
       )}
+      {speakers.length > 0 && (
+        <ul className="mt-3 flex flex-wrap gap-3" aria-label="Speakers">
+          {speakers.map((speaker) => (
+            <li key={speaker.id}>
+              <a
+                href={`/speakers/${speaker.id}`}
+                className="flex items-center gap-2 text-sm text-gray-700 hover:underline"
+              >
+                {speaker.photoUrl && (
+                  <img
+                    src={speaker.photoUrl}
+                    alt=""
+                    className="w-6 h-6 rounded-full object-cover"
+                  />
+                )}
+                {speaker.name}
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 };
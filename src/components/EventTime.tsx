@@ -0,0 +1,40 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { formatEventTime } from '@/lib/utils';
+
+interface EventTimeProps {
+  startsAt: Date | string;
+  endsAt: Date | string;
+  timeZone: string;
+}
+
+/**
+ * An event's start and end in the event's own zone, followed by the viewer's
+ * local time when their zone shows a different one. The local time is only
+ * added in the browser, so server and client render the same markup first.
+ */
+export default function EventTime({
+  startsAt,
+  endsAt,
+  timeZone,
+}: EventTimeProps) {
+  const [viewerTimeZone, setViewerTimeZone] = useState<string>();
+
+  useEffect(() => {
+    setViewerTimeZone(Intl.DateTimeFormat().resolvedOptions().timeZone);
+  }, []);
+
+  const eventTime = formatEventTime(startsAt, endsAt, timeZone);
+  const localTime =
+    viewerTimeZone && formatEventTime(startsAt, endsAt, viewerTimeZone);
+
+  return (
+    <span>
+      <time dateTime={new Date(startsAt).toISOString()}>{eventTime}</time>
+      {localTime && localTime !== eventTime && (
+        <span className="text-gray-500"> ({localTime} your time)</span>
+      )}
+    </span>
+  );
+}
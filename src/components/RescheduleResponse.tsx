@@ -0,0 +1,76 @@
+'use client';
+
+import { useState } from 'react';
+
+interface RescheduleResponseProps {
+  registrationId: string;
+}
+
+/**
+ * Lets a registrant keep or release their seat after the event moved. The
+ * answer is an explicit click so mail scanners opening the link cannot
+ * release the seat.
+ */
+export default function RescheduleResponse({
+  registrationId,
+}: RescheduleResponseProps) {
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<{ ok: boolean; message: string }>();
+
+  const onAnswer = async (answer: 'CONFIRM' | 'RELEASE') => {
+    setSubmitting(true);
+    try {
+      const response = await fetch(
+        `/api/registrations/${registrationId}/reschedule-response`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ response: answer }),
+        },
+      );
+      const body = await response.json();
+      setResult({
+        ok: response.ok,
+        message: body.message ?? 'Unexpected response',
+      });
+    } catch {
+      setResult({ ok: false, message: 'Network error, try again' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-6 space-y-4">
+      {!result?.ok && (
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={() => onAnswer('CONFIRM')}
+            disabled={submitting}
+            className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            Keep my seat
+          </button>
+          <button
+            type="button"
+            onClick={() => onAnswer('RELEASE')}
+            disabled={submitting}
+            className="flex-1 border border-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Release my seat
+          </button>
+        </div>
+      )}
+      {result && (
+        <p
+          className={`rounded-md p-3 text-sm ${
+            result.ok ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}
+        >
+          {result.message}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+'use client';
+
+import { useState } from 'react';
+import { SPEAKER_PHOTO_TYPES } from '@/lib/schemas/speakerSchema';
+
+interface SpeakerProfileFormProps {
+  token: string;
+  speaker: {
+    id: string;
+    name: string;
+    headline: string | null;
+    bio: string;
+    photoUrl: string | null;
+    links: string[];
+  };
+}
+
+const MAX_PHOTO_BYTES = 2 * 1024 * 1024; // 2MB
+
+/**
+ * Lets a speaker edit their own profile through the emailed link. Photos are
+ * uploaded straight to storage first, then saved with the rest of the form.
+ */
+export default function SpeakerProfileForm({
+  token,
+  speaker,
+}: SpeakerProfileFormProps) {
+  const [name, setName] = useState(speaker.name);
+  const [headline, setHeadline] = useState(speaker.headline ?? '');
+  const [bio, setBio] = useState(speaker.bio);
+  const [links, setLinks] = useState(speaker.links.join('\n'));
+  const [photoUrl, setPhotoUrl] = useState(speaker.photoUrl);
+  const [busy, setBusy] = useState(false);
+  const [result, setResult] = useState<{ ok: boolean; message: string }>();
+
+  const onPhotoSelected = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    if (
+      !(SPEAKER_PHOTO_TYPES as readonly string[]).includes(file.type) ||
+      file.size > MAX_PHOTO_BYTES
+    ) {
+      setResult({
+        ok: false,
+        message: 'Photos must be JPEG, PNG or WebP images under 2MB',
+      });
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const response = await fetch('/api/speakers/profile/photo', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, contentType: file.type }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.message ?? 'Failed to get upload URL');
+      }
+
+      const upload = await fetch(body.data.uploadUrl, {
+        method: 'PUT',
+        headers: { 'x-ms-blob-type': 'BlockBlob', 'Content-Type': file.type },
+        body: file,
+      });
+      if (!upload.ok) {
+        throw new Error('Failed to upload photo');
+      }
+
+      setPhotoUrl(body.data.photoUrl);
+      setResult(undefined);
+    } catch (error) {
+      setResult({
+        ok: false,
+        message: error instanceof Error ? error.message : 'Upload failed',
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onSave = async () => {
+    setBusy(true);
+    try {
+      const response = await fetch('/api/speakers/profile', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          token,
+          name,
+          headline: headline.trim() || null,
+          bio,
+          photoUrl,
+          links: links
+            .split('\n')
+            .map((link) => link.trim())
+            .filter(Boolean),
+        }),
+      });
+      const body = await response.json();
+      setResult({
+        ok: response.ok,
+        message: body.message ?? 'Unexpected response',
+      });
+    } catch {
+      setResult({ ok: false, message: 'Network error, try again' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-6 space-y-4">
+      <div className="flex items-center gap-4">
+        {photoUrl && (
+          <img
+            src={photoUrl}
+            alt={name}
+            className="w-20 h-20 rounded-full object-cover"
+          />
+        )}
+        <label className="block text-sm font-medium text-gray-700">
+          Photo
+          <input
+            type="file"
+            accept={SPEAKER_PHOTO_TYPES.join(',')}
+            onChange={onPhotoSelected}
+            disabled={busy}
+            className="mt-1 block w-full text-sm"
+          />
+        </label>
+      </div>
+      <label className="block text-sm font-medium text-gray-700">
+        Name
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2"
+        />
+      </label>
+      <label className="block text-sm font-medium text-gray-700">
+        Headline
+        <input
+          type="text"
+          value={headline}
+          onChange={(e) => setHeadline(e.target.value)}
+          placeholder="e.g. Staff Engineer at Example"
+          className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2"
+        />
+      </label>
+      <label className="block text-sm font-medium text-gray-700">
+        Bio
+        <textarea
+          value={bio}
+          onChange={(e) => setBio(e.target.value)}
+          rows={6}
+          className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2"
+        />
+      </label>
+      <label className="block text-sm font-medium text-gray-700">
+        Links (one per line)
+        <textarea
+          value={links}
+          onChange={(e) => setLinks(e.target.value)}
+          rows={3}
+          className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2"
+        />
+      </label>
+      <button
+        type="button"
+        onClick={onSave}
+        disabled={busy}
+        className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50"
+      >
+        {busy ? 'Saving…' : 'Save profile'}
+      </button>
+      {result && (
+        <p
+          className={`rounded-md p-3 text-sm ${
+            result.ok ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}
+        >
+          {result.message}
+        </p>
+      )}
+      {result?.ok && (
+        <a
+          href={`/speakers/${speaker.id}`}
+          className="block text-blue-600 hover:underline"
+        >
+          View your public profile
+        </a>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import {
+  Html,
+  Head,
+  Body,
+  Container,
+  Text,
+  Heading,
+} from '@react-email/components';
+
+interface EventCancelledTemplateProps {
+  userName: string;
+  eventTitle: string;
+  eventDate: string;
+  reason?: string;
+  // Waitlisted users held no seat, so there is nothing to refund
+  waitlisted: boolean;
+}
+
+export function EventCancelledTemplate({
+  userName,
+  eventTitle,
+  eventDate,
+  reason,
+  waitlisted,
+}: EventCancelledTemplateProps): React.JSX.Element {
+  return (
+    <Html>
+      <Head />
+      <Body
+        style={{
+          fontFamily: 'Arial, sans-serif',
+          backgroundColor: '#f4f4f4',
+          padding: '20px',
+        }}
+      >
+        <Container
+          style={{
+            maxWidth: '600px',
+            margin: '0 auto',
+            backgroundColor: '#ffffff',
+            padding: '20px',
+            borderRadius: '8px',
+          }}
+        >
+          <Heading style={{ color: '#333333', textAlign: 'center' }}>
+            {eventTitle} has been cancelled
+          </Heading>
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            Hi {userName},
+          </Text>
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            We&apos;re sorry to let you know that <strong>{eventTitle}</strong>,
+            planned for {eventDate}, has been cancelled by the organizer.
+          </Text>
+
+          {reason && (
+            <Text
+              style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+            >
+              Reason given by the organizer: {reason}
+            </Text>
+          )}
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            {waitlisted
+              ? 'You have been removed from the waitlist.'
+              : 'Your registration has been cancelled and any payment you made will be refunded.'}
+          </Text>
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            Best regards,
+            <br />
+            The EventEase Team
+          </Text>
+        </Container>
+      </Body>
+    </Html>
+  );
+}
@@ -0,0 +1,118 @@
+import {
+  Html,
+  Head,
+  Body,
+  Container,
+  Text,
+  Heading,
+  Button,
+  Section,
+} from '@react-email/components';
+
+interface EventRescheduledTemplateProps {
+  userName: string;
+  eventTitle: string;
+  previousDate: string;
+  newDate: string;
+  eventLocation: string;
+  reason?: string;
+  // Only registrants are asked to confirm; waitlisted users just get the news
+  respondUrl?: string;
+}
+
+export function EventRescheduledTemplate({
+  userName,
+  eventTitle,
+  previousDate,
+  newDate,
+  eventLocation,
+  reason,
+  respondUrl,
+}: EventRescheduledTemplateProps): React.JSX.Element {
+  return (
+    <Html>
+      <Head />
+      <Body
+        style={{
+          fontFamily: 'Arial, sans-serif',
+          backgroundColor: '#f4f4f4',
+          padding: '20px',
+        }}
+      >
+        <Container
+          style={{
+            maxWidth: '600px',
+            margin: '0 auto',
+            backgroundColor: '#ffffff',
+            padding: '20px',
+            borderRadius: '8px',
+          }}
+        >
+          <Heading style={{ color: '#333333', textAlign: 'center' }}>
+            {eventTitle} has a new date
+          </Heading>
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            Hi {userName},
+          </Text>
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            <strong>{eventTitle}</strong> has moved from {previousDate} to{' '}
+            <strong>{newDate}</strong> at {eventLocation}.
+          </Text>
+
+          {reason && (
+            <Text
+              style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+            >
+              Reason given by the organizer: {reason}
+            </Text>
+          )}
+
+          {respondUrl && (
+            <>
+              <Text
+                style={{
+                  fontSize: '16px',
+                  color: '#555555',
+                  lineHeight: '1.5',
+                }}
+              >
+                Please let us know whether you can still attend. If the new time
+                does not work for you, release your seat so someone on the
+                waitlist can have it; any payment will be refunded.
+              </Text>
+
+              <Section style={{ textAlign: 'center', margin: '24px 0' }}>
+                <Button
+                  href={respondUrl}
+                  style={{
+                    backgroundColor: '#2563eb',
+                    color: '#ffffff',
+                    padding: '12px 24px',
+                    borderRadius: '6px',
+                    fontSize: '16px',
+                  }}
+                >
+                  Confirm or release my seat
+                </Button>
+              </Section>
+            </>
+          )}
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            Best regards,
+            <br />
+            The EventEase Team
+          </Text>
+        </Container>
+      </Body>
+    </Html>
+  );
+}
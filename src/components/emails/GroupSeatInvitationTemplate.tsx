@@ -0,0 +1,100 @@
+import {
+  Html,
+  Head,
+  Body,
+  Container,
+  Text,
+  Heading,
+  Button,
+  Section,
+} from '@react-email/components';
+
+interface GroupSeatInvitationTemplateProps {
+  attendeeName: string;
+  purchaserName: string;
+  eventTitle: string;
+  eventDate: string;
+  eventLocation: string;
+  claimUrl: string;
+}
+
+export function GroupSeatInvitationTemplate({
+  attendeeName,
+  purchaserName,
+  eventTitle,
+  eventDate,
+  eventLocation,
+  claimUrl,
+}: GroupSeatInvitationTemplateProps): React.JSX.Element {
+  return (
+    <Html>
+      <Head />
+      <Body
+        style={{
+          fontFamily: 'Arial, sans-serif',
+          backgroundColor: '#f4f4f4',
+          padding: '20px',
+        }}
+      >
+        <Container
+          style={{
+            maxWidth: '600px',
+            margin: '0 auto',
+            backgroundColor: '#ffffff',
+            padding: '20px',
+            borderRadius: '8px',
+          }}
+        >
+          <Heading style={{ color: '#333333', textAlign: 'center' }}>
+            A seat has been booked for you
+          </Heading>
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            Hi {attendeeName},
+          </Text>
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            {purchaserName} has booked you a seat for{' '}
+            <strong>{eventTitle}</strong> on {eventDate} at {eventLocation}.
+            Sign in or create an EventEase account with this email address and
+            claim your seat to receive your ticket.
+          </Text>
+
+          <Section style={{ textAlign: 'center', margin: '24px 0' }}>
+            <Button
+              href={claimUrl}
+              style={{
+                backgroundColor: '#2563eb',
+                color: '#ffffff',
+                padding: '12px 24px',
+                borderRadius: '6px',
+                fontSize: '16px',
+              }}
+            >
+              Claim your seat
+            </Button>
+          </Section>
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            This link is personal to you. If you cannot attend, let{' '}
+            {purchaserName} know so they can give the seat to someone else.
+          </Text>
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            Best regards,
+            <br />
+            The EventEase Team
+          </Text>
+        </Container>
+      </Body>
+    </Html>
+  );
+}
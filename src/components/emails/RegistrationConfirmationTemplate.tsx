@@ -0,0 +1,102 @@
+import {
+  Html,
+  Head,
+  Body,
+  Container,
+  Text,
+  Heading,
+  Img,
+  Section,
+} from '@react-email/components';
+
+interface RegistrationConfirmationTemplateProps {
+  userName: string;
+  eventTitle: string;
+  eventDate: string;
+  eventLocation: string;
+  ticketTypeName?: string;
+  /** Name of the previous holder when the registration was transferred */
+  transferredFrom?: string;
+  /** Image source for the ticket QR code (usually an inline `cid:` reference) */
+  qrCodeSrc: string;
+}
+
+export function RegistrationConfirmationTemplate({
+  userName,
+  eventTitle,
+  eventDate,
+  eventLocation,
+  ticketTypeName,
+  transferredFrom,
+  qrCodeSrc,
+}: RegistrationConfirmationTemplateProps): React.JSX.Element {
+  return (
+    <Html>
+      <Head />
+      <Body
+        style={{
+          fontFamily: 'Arial, sans-serif',
+          backgroundColor: '#f4f4f4',
+          padding: '20px',
+        }}
+      >
+        <Container
+          style={{
+            maxWidth: '600px',
+            margin: '0 auto',
+            backgroundColor: '#ffffff',
+            padding: '20px',
+            borderRadius: '8px',
+          }}
+        >
+          <Heading style={{ color: '#333333', textAlign: 'center' }}>
+            You&apos;re registered!
+          </Heading>
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            Hi {userName},
+          </Text>
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            {transferredFrom
+              ? `${transferredFrom} has transferred their registration for `
+              : 'Your registration for '}
+            <strong>{eventTitle}</strong>
+            {ticketTypeName ? ` (${ticketTypeName})` : ''}
+            {transferredFrom ? ' to you.' : ' is confirmed.'} We look forward to
+            seeing you on {eventDate} at {eventLocation}.
+          </Text>
+
+          <Section style={{ textAlign: 'center', margin: '24px 0' }}>
+            <Img
+              src={qrCodeSrc}
+              alt="Your ticket QR code"
+              width="240"
+              height="240"
+              style={{ margin: '0 auto' }}
+            />
+          </Section>
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            Show this QR code at the entrance to check in. It is your personal
+            ticket, so please do not share it.
+          </Text>
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            Best regards,
+            <br />
+            The EventEase Team
+          </Text>
+        </Container>
+      </Body>
+    </Html>
+  );
+}
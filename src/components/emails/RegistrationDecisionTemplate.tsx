@@ -0,0 +1,97 @@
+import {
+  Html,
+  Head,
+  Body,
+  Container,
+  Text,
+  Heading,
+} from '@react-email/components';
+
+interface RegistrationDecisionTemplateProps {
+  userName: string;
+  eventTitle: string;
+  eventDate: string;
+  approved: boolean;
+  /** Present when an approved seat is only held until payment is completed */
+  paymentDueBy?: string;
+  /** Organizer's explanation for a rejection */
+  reason?: string;
+}
+
+export function RegistrationDecisionTemplate({
+  userName,
+  eventTitle,
+  eventDate,
+  approved,
+  paymentDueBy,
+  reason,
+}: RegistrationDecisionTemplateProps): React.JSX.Element {
+  return (
+    <Html>
+      <Head />
+      <Body
+        style={{
+          fontFamily: 'Arial, sans-serif',
+          backgroundColor: '#f4f4f4',
+          padding: '20px',
+        }}
+      >
+        <Container
+          style={{
+            maxWidth: '600px',
+            margin: '0 auto',
+            backgroundColor: '#ffffff',
+            padding: '20px',
+            borderRadius: '8px',
+          }}
+        >
+          <Heading style={{ color: '#333333', textAlign: 'center' }}>
+            {approved
+              ? 'Your registration was approved'
+              : 'Registration update'}
+          </Heading>
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            Hi {userName},
+          </Text>
+
+          {approved ? (
+            <Text
+              style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+            >
+              The organizer has approved your registration for{' '}
+              <strong>{eventTitle}</strong> on {eventDate}. We are holding your
+              seat until <strong>{paymentDueBy}</strong>; please complete your
+              payment by then to confirm it.
+            </Text>
+          ) : (
+            <Text
+              style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+            >
+              Unfortunately your registration for <strong>{eventTitle}</strong>{' '}
+              on {eventDate} was not accepted by the organizer.
+            </Text>
+          )}
+
+          {!approved && reason && (
+            <Text
+              style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+            >
+              Message from the organizer: {reason}
+            </Text>
+          )}
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            Best regards,
+            <br />
+            The EventEase Team
+          </Text>
+        </Container>
+      </Body>
+    </Html>
+  );
+}
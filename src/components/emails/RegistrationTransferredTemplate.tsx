@@ -0,0 +1,77 @@
+import {
+  Html,
+  Head,
+  Body,
+  Container,
+  Text,
+  Heading,
+} from '@react-email/components';
+
+interface RegistrationTransferredTemplateProps {
+  userName: string;
+  recipientName: string;
+  eventTitle: string;
+  eventDate: string;
+}
+
+export function RegistrationTransferredTemplate({
+  userName,
+  recipientName,
+  eventTitle,
+  eventDate,
+}: RegistrationTransferredTemplateProps): React.JSX.Element {
+  return (
+    <Html>
+      <Head />
+      <Body
+        style={{
+          fontFamily: 'Arial, sans-serif',
+          backgroundColor: '#f4f4f4',
+          padding: '20px',
+        }}
+      >
+        <Container
+          style={{
+            maxWidth: '600px',
+            margin: '0 auto',
+            backgroundColor: '#ffffff',
+            padding: '20px',
+            borderRadius: '8px',
+          }}
+        >
+          <Heading style={{ color: '#333333', textAlign: 'center' }}>
+            Your registration was transferred
+          </Heading>
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            Hi {userName},
+          </Text>
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            Your registration for <strong>{eventTitle}</strong> on {eventDate}{' '}
+            has been transferred to {recipientName}, who has been sent a new
+            ticket. Your previous ticket is no longer valid.
+          </Text>
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            If you did not expect this, please contact the event organizer.
+          </Text>
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            Best regards,
+            <br />
+            The EventEase Team
+          </Text>
+        </Container>
+      </Body>
+    </Html>
+  );
+}
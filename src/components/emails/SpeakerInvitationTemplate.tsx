@@ -0,0 +1,103 @@
+import {
+  Html,
+  Head,
+  Body,
+  Container,
+  Text,
+  Heading,
+  Button,
+  Section,
+} from '@react-email/components';
+
+interface SpeakerInvitationTemplateProps {
+  speakerName: string;
+  inviterName: string;
+  eventTitles: string[];
+  expiresAt: string;
+  editUrl: string;
+}
+
+export function SpeakerInvitationTemplate({
+  speakerName,
+  inviterName,
+  eventTitles,
+  expiresAt,
+  editUrl,
+}: SpeakerInvitationTemplateProps): React.JSX.Element {
+  return (
+    <Html>
+      <Head />
+      <Body
+        style={{
+          fontFamily: 'Arial, sans-serif',
+          backgroundColor: '#f4f4f4',
+          padding: '20px',
+        }}
+      >
+        <Container
+          style={{
+            maxWidth: '600px',
+            margin: '0 auto',
+            backgroundColor: '#ffffff',
+            padding: '20px',
+            borderRadius: '8px',
+          }}
+        >
+          <Heading style={{ color: '#333333', textAlign: 'center' }}>
+            Set up your speaker profile
+          </Heading>
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            Hi {speakerName},
+          </Text>
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            {inviterName} has listed you as a speaker
+            {eventTitles.length > 0 && (
+              <>
+                {' '}
+                at <strong>{eventTitles.join(', ')}</strong>
+              </>
+            )}
+            . Use the link below to add your bio, photo and links to your public
+            speaker profile; no account is needed.
+          </Text>
+
+          <Section style={{ textAlign: 'center', margin: '24px 0' }}>
+            <Button
+              href={editUrl}
+              style={{
+                backgroundColor: '#2563eb',
+                color: '#ffffff',
+                padding: '12px 24px',
+                borderRadius: '6px',
+                fontSize: '16px',
+              }}
+            >
+              Edit my profile
+            </Button>
+          </Section>
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            The link can be used as often as you like until {expiresAt}. Anyone
+            with it can edit your profile, so please do not forward it.
+          </Text>
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            Best regards,
+            <br />
+            The EventEase Team
+          </Text>
+        </Container>
+      </Body>
+    </Html>
+  );
+}
@@ -0,0 +1,100 @@
+import {
+  Html,
+  Head,
+  Body,
+  Container,
+  Text,
+  Heading,
+  Button,
+  Section,
+} from '@react-email/components';
+
+interface StaffInvitationTemplateProps {
+  inviterName: string;
+  eventTitle: string;
+  eventDate: string;
+  roleName: string;
+  expiresAt: string;
+  acceptUrl: string;
+}
+
+export function StaffInvitationTemplate({
+  inviterName,
+  eventTitle,
+  eventDate,
+  roleName,
+  expiresAt,
+  acceptUrl,
+}: StaffInvitationTemplateProps): React.JSX.Element {
+  return (
+    <Html>
+      <Head />
+      <Body
+        style={{
+          fontFamily: 'Arial, sans-serif',
+          backgroundColor: '#f4f4f4',
+          padding: '20px',
+        }}
+      >
+        <Container
+          style={{
+            maxWidth: '600px',
+            margin: '0 auto',
+            backgroundColor: '#ffffff',
+            padding: '20px',
+            borderRadius: '8px',
+          }}
+        >
+          <Heading style={{ color: '#333333', textAlign: 'center' }}>
+            Join the team for {eventTitle}
+          </Heading>
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            Hi,
+          </Text>
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            {inviterName} has invited you to help run{' '}
+            <strong>{eventTitle}</strong> ({eventDate}) as {roleName}. Sign in
+            or create an EventEase account with this email address and accept
+            the invitation to join.
+          </Text>
+
+          <Section style={{ textAlign: 'center', margin: '24px 0' }}>
+            <Button
+              href={acceptUrl}
+              style={{
+                backgroundColor: '#2563eb',
+                color: '#ffffff',
+                padding: '12px 24px',
+                borderRadius: '6px',
+                fontSize: '16px',
+              }}
+            >
+              Accept invitation
+            </Button>
+          </Section>
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            The link can be used once and expires on {expiresAt}. Please do not
+            forward it.
+          </Text>
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            Best regards,
+            <br />
+            The EventEase Team
+          </Text>
+        </Container>
+      </Body>
+    </Html>
+  );
+}
@@ -0,0 +1,92 @@
+import {
+  Html,
+  Head,
+  Body,
+  Container,
+  Text,
+  Heading,
+} from '@react-email/components';
+
+interface WaitlistPromotionTemplateProps {
+  userName: string;
+  eventTitle: string;
+  eventDate: string;
+  eventLocation: string;
+  /** Present when the seat is only held until payment is completed */
+  paymentDueBy?: string;
+}
+
+export function WaitlistPromotionTemplate({
+  userName,
+  eventTitle,
+  eventDate,
+  eventLocation,
+  paymentDueBy,
+}: WaitlistPromotionTemplateProps): React.JSX.Element {
+  return (
+    <Html>
+      <Head />
+      <Body
+        style={{
+          fontFamily: 'Arial, sans-serif',
+          backgroundColor: '#f4f4f4',
+          padding: '20px',
+        }}
+      >
+        <Container
+          style={{
+            maxWidth: '600px',
+            margin: '0 auto',
+            backgroundColor: '#ffffff',
+            padding: '20px',
+            borderRadius: '8px',
+          }}
+        >
+          <Heading style={{ color: '#333333', textAlign: 'center' }}>
+            You&apos;re off the waitlist!
+          </Heading>
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            Hi {userName},
+          </Text>
+
+          {paymentDueBy ? (
+            <Text
+              style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+            >
+              A seat opened up for <strong>{eventTitle}</strong> and we are
+              holding it for you. Please complete your payment by{' '}
+              <strong>{paymentDueBy}</strong> to confirm your registration;
+              after that the seat goes to the next person on the waitlist.
+            </Text>
+          ) : (
+            <Text
+              style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+            >
+              A seat opened up for <strong>{eventTitle}</strong> and you have
+              been registered automatically. We look forward to seeing you on{' '}
+              {eventDate} at {eventLocation}.
+            </Text>
+          )}
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            If you can no longer attend, please cancel your registration so the
+            next person on the waitlist can take your place.
+          </Text>
+
+          <Text
+            style={{ fontSize: '16px', color: '#555555', lineHeight: '1.5' }}
+          >
+            Best regards,
+            <br />
+            The EventEase Team
+          </Text>
+        </Container>
+      </Body>
+    </Html>
+  );
+}
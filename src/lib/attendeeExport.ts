@@ -0,0 +1,224 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { ERROR_CODES } from './errorCodes';
+import { RegistrationError, getErrorCode } from './errors';
+import { Actor, eventStaffSelect, hasEventPermission } from './permissions';
+import { ACTIVE_STATUSES } from './registrationStatus';
+
+/**
+ * Attendee List and Export
+ *
+ * An event's attendees are its active registrations (approved, awaiting
+ * payment or awaiting review). Everyone on the event's staff can see the
+ * list; the owner, co-organizers and viewers can also download it as CSV:
+ * one row per registration with the attendee's details followed by one
+ * column per registration question, in form order.
+ */
+
+const ATTENDEE_SELECT = {
+  id: true,
+  status: true,
+  answers: true,
+  createdAt: true,
+  checkedInAt: true,
+  user: { select: { name: true, email: true } },
+  ticketType: { select: { name: true } },
+} satisfies Prisma.RegistrationSelect;
+
+const FIXED_COLUMNS = [
+  'Registration ID',
+  'Name',
+  'Email',
+  'Status',
+  'Ticket Type',
+  'Registered At',
+  'Checked In At',
+];
+
+/**
+ * Quote a CSV field when needed, and neutralise values a spreadsheet would
+ * otherwise evaluate as a formula
+ */
+function toCsvField(value: string | boolean | null | undefined): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let field = typeof value === 'boolean' ? (value ? 'Yes' : 'No') : value;
+
+  if (/^[=+\-@\t\r]/.test(field)) {
+    field = `'${field}`;
+  }
+
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+function toCsvRow(fields: (string | boolean | null | undefined)[]): string {
+  return fields.map(toCsvField).join(',');
+}
+
+function findAttendees(prisma: PrismaClient, eventId: string) {
+  return prisma.registration.findMany({
+    where: { eventId, status: { in: ACTIVE_STATUSES } },
+    select: ATTENDEE_SELECT,
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+  });
+}
+
+/**
+ * List an event's attendees
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event
+ * @param actor - Caller; needs the view permission (see
+ *                src/lib/permissions.ts)
+ * @returns The attendees in registration order, with the event's
+ *          registration questions to label their answers
+ */
+export async function listEventAttendees(
+  prisma: PrismaClient,
+  eventId: string,
+  actor: Actor,
+) {
+  try {
+    const event = await prisma.event.findUnique({
+      where: { id: eventId, deletedAt: null },
+      select: {
+        id: true,
+        title: true,
+        organizerId: true,
+        staff: eventStaffSelect(actor),
+        questions: {
+          select: { id: true, label: true },
+          orderBy: { position: 'asc' },
+        },
+      },
+    });
+
+    if (!event) {
+      throw new RegistrationError(
+        `Event not found: ${eventId}`,
+        ERROR_CODES.EVENT_NOT_FOUND,
+      );
+    }
+
+    if (!hasEventPermission(actor, event, 'view')) {
+      throw new RegistrationError(
+        'Only the event organizer and its staff can see its attendees',
+        ERROR_CODES.FORBIDDEN,
+      );
+    }
+
+    const attendees = await findAttendees(prisma, eventId);
+
+    return {
+      success: true,
+      questions: event.questions,
+      attendees,
+      error: null,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      questions: [],
+      attendees: [],
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Build the CSV attendee export for an event
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event
+ * @param actor - Caller; needs the exportAttendees permission (see
+ *                src/lib/permissions.ts)
+ * @returns The CSV document and a suggested file name, or a structured error
+ */
+export async function exportEventAttendees(
+  prisma: PrismaClient,
+  eventId: string,
+  actor: Actor,
+) {
+  try {
+    const event = await prisma.event.findUnique({
+      where: { id: eventId, deletedAt: null },
+      select: {
+        id: true,
+        title: true,
+        organizerId: true,
+        staff: eventStaffSelect(actor),
+        questions: {
+          select: { id: true, label: true },
+          orderBy: { position: 'asc' },
+        },
+      },
+    });
+
+    if (!event) {
+      throw new RegistrationError(
+        `Event not found: ${eventId}`,
+        ERROR_CODES.EVENT_NOT_FOUND,
+      );
+    }
+
+    if (!hasEventPermission(actor, event, 'exportAttendees')) {
+      throw new RegistrationError(
+        'Only the event organizer and its staff can export its attendees',
+        ERROR_CODES.FORBIDDEN,
+      );
+    }
+
+    const registrations = await findAttendees(prisma, eventId);
+
+    const rows = registrations.map((registration) => {
+      const answers = (registration.answers ?? {}) as Record<
+        string,
+        string | boolean
+      >;
+
+      return toCsvRow([
+        registration.id,
+        registration.user.name,
+        registration.user.email,
+        registration.status,
+        registration.ticketType?.name,
+        registration.createdAt.toISOString(),
+        registration.checkedInAt?.toISOString(),
+        ...event.questions.map((question) => answers[question.id]),
+      ]);
+    });
+
+    const header = toCsvRow([
+      ...FIXED_COLUMNS,
+      ...event.questions.map((question) => question.label),
+    ]);
+
+    const slug = event.title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '');
+
+    return {
+      success: true,
+      filename: `${slug || 'event'}-attendees.csv`,
+      csv: [header, ...rows].join('\r\n') + '\r\n',
+      attendeeCount: registrations.length,
+      error: null,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      filename: null,
+      csv: null,
+      attendeeCount: 0,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
@@ -1,3 +1,4 @@
+import { createHmac } from 'crypto';
 import { NextResponse } from 'next/server';
 import jwt from 'jsonwebtoken';
 import { env } from './env';
@@ -5,6 +6,13 @@ import { env } from './env';
 const JWT_ACCESS_SECRET = env.JWT_SECRET!;
 const JWT_REFRESH_SECRET = env.JWT_REFRESH_SECRET!;
 
+// Ticket codes are derived from the access secret but signed with a separate
+// key, so a ticket can never be replayed as an access token (or vice versa)
+const TICKET_SECRET = createHmac('sha256', JWT_ACCESS_SECRET)
+  .update('eventease:ticket')
+  .digest('hex');
+const TICKET_ISSUER = 'eventease:ticket';
+
 export interface AccessTokenPayload {
   userId: string;
   role: string;
@@ -56,6 +64,52 @@ export function verifyRefreshToken(token: string): RefreshTokenPayload {
   }
 }
 
+export interface TicketTokenPayload {
+  registrationId: string;
+  eventId: string;
+  /** Must match `Registration.ticketVersion`; bumped when a ticket is reissued */
+  ticketVersion: number;
+}
+
+/**
+ * Generates the signed ticket code encoded in a registration's QR code.
+ * Tickets do not expire. Check-in refuses a code whose version no longer
+ * matches the registration: cancelled registrations are kept, and both
+ * reopening and transferring one bump its ticket version, so codes issued
+ * before either stop working.
+ */
+export function generateTicketToken(
+  registrationId: string,
+  eventId: string,
+  ticketVersion: number = 1,
+): string {
+  const payload: TicketTokenPayload = {
+    registrationId,
+    eventId,
+    ticketVersion,
+  };
+  return jwt.sign(payload, TICKET_SECRET, { issuer: TICKET_ISSUER });
+}
+
+/**
+ * Verifies a ticket code and returns the payload.
+ */
+export function verifyTicketToken(token: string): TicketTokenPayload {
+  try {
+    const decoded = jwt.verify(token, TICKET_SECRET, {
+      issuer: TICKET_ISSUER,
+    }) as jwt.JwtPayload & TicketTokenPayload;
+    return {
+      registrationId: decoded.registrationId,
+      eventId: decoded.eventId,
+      // Codes issued before versioning are the first version
+      ticketVersion: decoded.ticketVersion ?? 1,
+    };
+  } catch (error) {
+    throw new Error('Invalid ticket code');
+  }
+}
+
 /**
  * Sets HTTP-only, Secure, SameSite=Lax cookies for access and refresh tokens.
  */
@@ -67,3 +67,15 @@ export async function generateUploadSasUrl(
 
   return { sasUrl };
 }
+
+/**
+ * Public URL of a blob in the uploads container (the container is created
+ * with public blob read access)
+ */
+export function getBlobUrl(blobName: string): string {
+  const containerName = env.AZURE_STORAGE_CONTAINER_NAME || 'uploads';
+
+  return getBlobServiceClient()
+    .getContainerClient(containerName)
+    .getBlockBlobClient(blobName).url;
+}
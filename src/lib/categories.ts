@@ -0,0 +1,284 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { ERROR_CODES } from './errorCodes';
+import { RegistrationError, getErrorCode } from './errors';
+import { invalidateEventListCache } from './eventCache';
+import logger from './logger';
+import { Actor, isAdmin } from './permissions';
+import { sanitize } from './security';
+import {
+  CreateCategoryRequest,
+  UpdateCategoryRequest,
+} from './schemas/categorySchema';
+
+/**
+ * Event Categories
+ *
+ * Categories are a fixed taxonomy managed by admins ("Tech Meetups",
+ * "Workshops", ...); each event has at most one. The listing is filtered by
+ * a category's `slug`, so renaming a category keeps its links working unless
+ * the slug is changed too. Tags, by contrast, are free-form and set by
+ * organizers on each event (see EventTag).
+ *
+ * Deleting a category is refused while live events use it; soft-deleted
+ * events simply lose theirs.
+ */
+
+const CATEGORY_SELECT = {
+  id: true,
+  slug: true,
+  name: true,
+  description: true,
+} satisfies Prisma.CategorySelect;
+
+function categoryNotFound(categoryId: string) {
+  return new RegistrationError(
+    `Category not found: ${categoryId}`,
+    ERROR_CODES.NOT_FOUND,
+  );
+}
+
+function assertCanManageCategories(actor: Actor) {
+  if (!isAdmin(actor)) {
+    throw new RegistrationError(
+      'Only admins can manage categories',
+      ERROR_CODES.FORBIDDEN,
+    );
+  }
+}
+
+function toSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+async function assertSlugAvailable(
+  tx: Prisma.TransactionClient,
+  slug: string,
+  categoryId?: string,
+) {
+  const existing = await tx.category.findUnique({
+    where: { slug },
+    select: { id: true },
+  });
+
+  if (existing && existing.id !== categoryId) {
+    throw new RegistrationError(
+      `A category with the slug '${slug}' already exists`,
+      ERROR_CODES.RESOURCE_ALREADY_EXISTS,
+    );
+  }
+}
+
+/**
+ * Check that an event can be filed under a category
+ *
+ * @throws RegistrationError NOT_FOUND
+ */
+export async function assertCategoryExists(
+  tx: Prisma.TransactionClient,
+  categoryId: string,
+) {
+  const category = await tx.category.findUnique({
+    where: { id: categoryId },
+    select: { id: true },
+  });
+
+  if (!category) {
+    throw categoryNotFound(categoryId);
+  }
+}
+
+/**
+ * List every category, ordered by name
+ *
+ * @param prisma - Prisma client instance
+ */
+export async function listCategories(prisma: PrismaClient) {
+  try {
+    const categories = await prisma.category.findMany({
+      select: CATEGORY_SELECT,
+      orderBy: { name: 'asc' },
+    });
+
+    return { success: true, categories, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      categories: [],
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Create a category
+ *
+ * @param prisma - Prisma client instance
+ * @param data - Validated category details
+ * @param actor - Caller; must be an admin
+ */
+export async function createCategory(
+  prisma: PrismaClient,
+  data: CreateCategoryRequest,
+  actor: Actor,
+) {
+  try {
+    assertCanManageCategories(actor);
+
+    const slug = data.slug ?? toSlug(data.name);
+
+    if (!slug) {
+      throw new RegistrationError(
+        'A slug could not be derived from the name; please provide one',
+        ERROR_CODES.VALIDATION_ERROR,
+      );
+    }
+
+    await assertSlugAvailable(prisma, slug);
+
+    const category = await prisma.category.create({
+      data: {
+        slug,
+        name: sanitize(data.name),
+        description: data.description ? sanitize(data.description) : null,
+      },
+      select: CATEGORY_SELECT,
+    });
+
+    logger.info({
+      message: 'Category created',
+      categoryId: category.id,
+      slug,
+      createdBy: actor.userId,
+    });
+
+    return { success: true, category, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      category: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Rename a category or change its slug or description
+ *
+ * @param prisma - Prisma client instance
+ * @param categoryId - UUID of the category
+ * @param changes - Validated changes
+ * @param actor - Caller; must be an admin
+ */
+export async function updateCategory(
+  prisma: PrismaClient,
+  categoryId: string,
+  changes: UpdateCategoryRequest,
+  actor: Actor,
+) {
+  try {
+    assertCanManageCategories(actor);
+
+    await assertCategoryExists(prisma, categoryId);
+
+    if (changes.slug) {
+      await assertSlugAvailable(prisma, changes.slug, categoryId);
+    }
+
+    const category = await prisma.category.update({
+      where: { id: categoryId },
+      data: {
+        slug: changes.slug,
+        name: changes.name === undefined ? undefined : sanitize(changes.name),
+        description:
+          typeof changes.description === 'string'
+            ? sanitize(changes.description)
+            : changes.description,
+      },
+      select: CATEGORY_SELECT,
+    });
+
+    // Cached listing pages embed the category
+    await invalidateEventListCache();
+
+    logger.info({ message: 'Category updated', categoryId });
+
+    return { success: true, category, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      category: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Delete a category
+ *
+ * Refused while any live event is filed under it; move those events to
+ * another category first.
+ *
+ * @param prisma - Prisma client instance
+ * @param categoryId - UUID of the category
+ * @param actor - Caller; must be an admin
+ */
+export async function deleteCategory(
+  prisma: PrismaClient,
+  categoryId: string,
+  actor: Actor,
+) {
+  try {
+    assertCanManageCategories(actor);
+
+    await prisma.$transaction(
+      async (tx) => {
+        await assertCategoryExists(tx, categoryId);
+
+        const events = await tx.event.count({
+          where: { categoryId, deletedAt: null },
+        });
+
+        if (events > 0) {
+          throw new RegistrationError(
+            `The category is still used by ${events} event(s)`,
+            ERROR_CODES.INVALID_INPUT,
+          );
+        }
+
+        await tx.category.delete({ where: { id: categoryId } });
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 10000,
+      },
+    );
+
+    logger.info({
+      message: 'Category deleted',
+      categoryId,
+      deletedBy: actor.userId,
+    });
+
+    return { success: true, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
@@ -1,4 +1,4 @@
-import { Resend } from 'resend';
+import { Attachment, Resend } from 'resend';
 import React from 'react';
 
 const resend = new Resend(process.env.RESEND_API_KEY!);
@@ -9,6 +9,8 @@ export interface SendEmailOptions {
   html?: string;
   react?: React.ReactNode;
   from?: string;
+  /** Inline images are referenced from the body as `cid:<contentId>` */
+  attachments?: Attachment[];
 }
 
 export async function sendEmail(options: SendEmailOptions) {
@@ -18,6 +20,7 @@ export async function sendEmail(options: SendEmailOptions) {
     html,
     react,
     from = 'EventEase <noreply@eventease.com>',
+    attachments,
   } = options;
 
   try {
@@ -27,6 +30,10 @@ export async function sendEmail(options: SendEmailOptions) {
       subject,
     };
 
+    if (attachments?.length) {
+      emailData.attachments = attachments;
+    }
+
     if (react) {
       emailData.react = react;
     } else {
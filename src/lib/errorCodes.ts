@@ -27,6 +27,56 @@ export const ERROR_CODES = {
   DUPLICATE_ENTRY: 'DUPLICATE_ENTRY',
   RESOURCE_ALREADY_EXISTS: 'RESOURCE_ALREADY_EXISTS',
 
+  // Registration business rules (409)
+  EVENT_FULL: 'EVENT_FULL',
+  CANCELLATION_WINDOW_CLOSED: 'CANCELLATION_WINDOW_CLOSED',
+  TICKET_TYPE_SOLD_OUT: 'TICKET_TYPE_SOLD_OUT',
+  TICKET_NOT_ON_SALE: 'TICKET_NOT_ON_SALE',
+  INVALID_STATUS_TRANSITION: 'INVALID_STATUS_TRANSITION',
+  REGISTRATION_REJECTED: 'REGISTRATION_REJECTED',
+  INVITATION_REQUIRED: 'INVITATION_REQUIRED',
+
+  // Payment errors
+  PAYMENT_FAILED: 'PAYMENT_FAILED',
+  PAYMENT_NOT_PENDING: 'PAYMENT_NOT_PENDING',
+  PAYMENT_HOLD_EXPIRED: 'PAYMENT_HOLD_EXPIRED',
+
+  // Promo code errors
+  INVALID_PROMO_CODE: 'INVALID_PROMO_CODE',
+  PROMO_CODE_NOT_APPLICABLE: 'PROMO_CODE_NOT_APPLICABLE',
+  PROMO_CODE_EXHAUSTED: 'PROMO_CODE_EXHAUSTED',
+
+  // Ticket and check-in errors
+  INVALID_TICKET: 'INVALID_TICKET',
+  TICKET_EVENT_MISMATCH: 'TICKET_EVENT_MISMATCH',
+  REGISTRATION_NOT_CONFIRMED: 'REGISTRATION_NOT_CONFIRMED',
+  ALREADY_CHECKED_IN: 'ALREADY_CHECKED_IN',
+
+  // Group booking and event invitation errors
+  INVALID_INVITATION: 'INVALID_INVITATION',
+  INVITATION_EMAIL_MISMATCH: 'INVITATION_EMAIL_MISMATCH',
+  INVITATION_EXPIRED: 'INVITATION_EXPIRED',
+  INVITATION_ALREADY_USED: 'INVITATION_ALREADY_USED',
+
+  // Session agenda errors
+  SESSION_FULL: 'SESSION_FULL',
+  SESSION_OVERLAP: 'SESSION_OVERLAP',
+
+  // Speaker errors
+  INVALID_SPEAKER_LINK: 'INVALID_SPEAKER_LINK',
+  SPEAKER_LINK_EXPIRED: 'SPEAKER_LINK_EXPIRED',
+
+  // Venue errors
+  ROOM_ALREADY_BOOKED: 'ROOM_ALREADY_BOOKED',
+  ROOM_CAPACITY_EXCEEDED: 'ROOM_CAPACITY_EXCEEDED',
+
+  // Event lifecycle errors
+  EVENT_NOT_PUBLISHED: 'EVENT_NOT_PUBLISHED',
+  INVALID_PREVIEW_LINK: 'INVALID_PREVIEW_LINK',
+  PREVIEW_LINK_EXPIRED: 'PREVIEW_LINK_EXPIRED',
+  CAPACITY_BELOW_REGISTRATIONS: 'CAPACITY_BELOW_REGISTRATIONS',
+  EVENT_HAS_REGISTRATIONS: 'EVENT_HAS_REGISTRATIONS',
+
   // Database errors (5xx range)
   DATABASE_FAILURE: 'DATABASE_FAILURE',
   DATABASE_CONNECTION_ERROR: 'DATABASE_CONNECTION_ERROR',
@@ -53,6 +103,38 @@ export const ERROR_CODE_TO_STATUS: Record<string, number> = {
   [ERROR_CODES.REGISTRATION_NOT_FOUND]: 404,
   [ERROR_CODES.DUPLICATE_ENTRY]: 409,
   [ERROR_CODES.RESOURCE_ALREADY_EXISTS]: 409,
+  [ERROR_CODES.EVENT_FULL]: 409,
+  [ERROR_CODES.CANCELLATION_WINDOW_CLOSED]: 409,
+  [ERROR_CODES.TICKET_TYPE_SOLD_OUT]: 409,
+  [ERROR_CODES.TICKET_NOT_ON_SALE]: 409,
+  [ERROR_CODES.INVALID_STATUS_TRANSITION]: 409,
+  [ERROR_CODES.REGISTRATION_REJECTED]: 403,
+  [ERROR_CODES.INVITATION_REQUIRED]: 403,
+  [ERROR_CODES.PAYMENT_FAILED]: 402,
+  [ERROR_CODES.PAYMENT_NOT_PENDING]: 409,
+  [ERROR_CODES.PAYMENT_HOLD_EXPIRED]: 410,
+  [ERROR_CODES.INVALID_PROMO_CODE]: 400,
+  [ERROR_CODES.PROMO_CODE_NOT_APPLICABLE]: 400,
+  [ERROR_CODES.PROMO_CODE_EXHAUSTED]: 409,
+  [ERROR_CODES.INVALID_TICKET]: 400,
+  [ERROR_CODES.TICKET_EVENT_MISMATCH]: 409,
+  [ERROR_CODES.REGISTRATION_NOT_CONFIRMED]: 409,
+  [ERROR_CODES.ALREADY_CHECKED_IN]: 409,
+  [ERROR_CODES.INVALID_INVITATION]: 404,
+  [ERROR_CODES.INVITATION_EMAIL_MISMATCH]: 403,
+  [ERROR_CODES.INVITATION_EXPIRED]: 410,
+  [ERROR_CODES.INVITATION_ALREADY_USED]: 409,
+  [ERROR_CODES.SESSION_FULL]: 409,
+  [ERROR_CODES.SESSION_OVERLAP]: 409,
+  [ERROR_CODES.INVALID_SPEAKER_LINK]: 404,
+  [ERROR_CODES.SPEAKER_LINK_EXPIRED]: 410,
+  [ERROR_CODES.ROOM_ALREADY_BOOKED]: 409,
+  [ERROR_CODES.ROOM_CAPACITY_EXCEEDED]: 400,
+  [ERROR_CODES.EVENT_NOT_PUBLISHED]: 409,
+  [ERROR_CODES.INVALID_PREVIEW_LINK]: 404,
+  [ERROR_CODES.PREVIEW_LINK_EXPIRED]: 410,
+  [ERROR_CODES.CAPACITY_BELOW_REGISTRATIONS]: 409,
+  [ERROR_CODES.EVENT_HAS_REGISTRATIONS]: 409,
   [ERROR_CODES.DATABASE_FAILURE]: 500,
   [ERROR_CODES.DATABASE_CONNECTION_ERROR]: 500,
   [ERROR_CODES.CONSTRAINT_VIOLATION]: 500,
@@ -76,6 +158,57 @@ export const ERROR_CODE_MESSAGES: Record<string, string> = {
   [ERROR_CODES.REGISTRATION_NOT_FOUND]: 'Registration not found.',
   [ERROR_CODES.DUPLICATE_ENTRY]: 'This resource already exists.',
   [ERROR_CODES.RESOURCE_ALREADY_EXISTS]: 'Resource already exists.',
+  [ERROR_CODES.EVENT_FULL]: 'This event has no available seats.',
+  [ERROR_CODES.CANCELLATION_WINDOW_CLOSED]:
+    'Registrations for this event can no longer be cancelled.',
+  [ERROR_CODES.TICKET_TYPE_SOLD_OUT]: 'This ticket type is sold out.',
+  [ERROR_CODES.TICKET_NOT_ON_SALE]: 'This ticket type is not on sale.',
+  [ERROR_CODES.INVALID_STATUS_TRANSITION]:
+    'This registration cannot be changed to the requested status.',
+  [ERROR_CODES.REGISTRATION_REJECTED]:
+    'The organizer has declined this registration.',
+  [ERROR_CODES.INVITATION_REQUIRED]:
+    'This event is invite-only; an invitation is required to register.',
+  [ERROR_CODES.PAYMENT_FAILED]: 'The payment could not be completed.',
+  [ERROR_CODES.PAYMENT_NOT_PENDING]:
+    'This registration is not awaiting payment.',
+  [ERROR_CODES.PAYMENT_HOLD_EXPIRED]:
+    'The seat hold for this registration has expired.',
+  [ERROR_CODES.INVALID_PROMO_CODE]: 'This promo code is not valid.',
+  [ERROR_CODES.PROMO_CODE_NOT_APPLICABLE]:
+    'This promo code cannot be used for this ticket.',
+  [ERROR_CODES.PROMO_CODE_EXHAUSTED]:
+    'This promo code has reached its redemption limit.',
+  [ERROR_CODES.INVALID_TICKET]: 'This ticket code is not valid.',
+  [ERROR_CODES.TICKET_EVENT_MISMATCH]: 'This ticket is for a different event.',
+  [ERROR_CODES.REGISTRATION_NOT_CONFIRMED]:
+    'This registration has not been confirmed.',
+  [ERROR_CODES.ALREADY_CHECKED_IN]: 'This ticket has already been checked in.',
+  [ERROR_CODES.INVALID_INVITATION]:
+    'This invitation link is invalid or has already been used.',
+  [ERROR_CODES.INVITATION_EMAIL_MISMATCH]:
+    'This invitation was sent to a different email address.',
+  [ERROR_CODES.INVITATION_EXPIRED]: 'This invitation has expired.',
+  [ERROR_CODES.INVITATION_ALREADY_USED]:
+    'This invitation has already been used.',
+  [ERROR_CODES.SESSION_FULL]: 'This session has no available seats.',
+  [ERROR_CODES.SESSION_OVERLAP]:
+    'The selected sessions overlap; choose one session per time slot.',
+  [ERROR_CODES.INVALID_SPEAKER_LINK]:
+    'This profile link is invalid or has been replaced by a newer one.',
+  [ERROR_CODES.SPEAKER_LINK_EXPIRED]: 'This profile link has expired.',
+  [ERROR_CODES.ROOM_ALREADY_BOOKED]:
+    'The room is already booked for part of this time slot.',
+  [ERROR_CODES.ROOM_CAPACITY_EXCEEDED]:
+    'The event capacity exceeds the capacity of the room.',
+  [ERROR_CODES.EVENT_NOT_PUBLISHED]: 'This event is not open for registration.',
+  [ERROR_CODES.INVALID_PREVIEW_LINK]:
+    'This preview link is invalid or has been replaced by a newer one.',
+  [ERROR_CODES.PREVIEW_LINK_EXPIRED]: 'This preview link has expired.',
+  [ERROR_CODES.CAPACITY_BELOW_REGISTRATIONS]:
+    'The capacity cannot be lower than the number of seats already taken.',
+  [ERROR_CODES.EVENT_HAS_REGISTRATIONS]:
+    'Cancel the event before deleting it so its attendees are notified.',
   [ERROR_CODES.DATABASE_FAILURE]: 'Database operation failed.',
   [ERROR_CODES.DATABASE_CONNECTION_ERROR]: 'Unable to connect to database.',
   [ERROR_CODES.CONSTRAINT_VIOLATION]: 'Operation violates data constraints.',
@@ -0,0 +1,35 @@
+import { ERROR_CODES } from './errorCodes';
+
+/**
+ * Error thrown by the registration services for expected business-rule
+ * failures (event full, duplicate registration, missing records).
+ *
+ * The `code` is one of ERROR_CODES, so route handlers can pass it straight to
+ * `sendError` and get the matching HTTP status from ERROR_CODE_TO_STATUS.
+ */
+export class RegistrationError extends Error {
+  readonly code: string;
+
+  constructor(message: string, code: string = ERROR_CODES.OPERATION_FAILED) {
+    super(message);
+    this.name = 'RegistrationError';
+    this.code = code;
+  }
+}
+
+/**
+ * Resolve the ERROR_CODES value for an error caught by a service.
+ * Unique-constraint violations (Prisma P2002) surface as duplicates since they
+ * usually mean a concurrent request won the race for the same row.
+ */
+export function getErrorCode(error: unknown): string {
+  if (error instanceof RegistrationError) {
+    return error.code;
+  }
+
+  if ((error as { code?: string })?.code === 'P2002') {
+    return ERROR_CODES.DUPLICATE_ENTRY;
+  }
+
+  return ERROR_CODES.DATABASE_FAILURE;
+}
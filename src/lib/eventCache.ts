@@ -0,0 +1,52 @@
+import logger from './logger';
+import redis from './redis';
+
+/**
+ * Event listing cache
+ *
+ * GET /api/events caches the unfiltered public listing (events, total and
+ * facet counts, see src/lib/eventSearch.ts) in Redis, one key per page
+ * under `events:`. Anything that changes which events are listed or what
+ * they show (publishing, unpublishing, editing or completing events,
+ * editing categories) calls `invalidateEventListCache`. Redis failures are
+ * logged and never fail the request; the cached pages expire after
+ * EVENT_LIST_CACHE_TTL_SECONDS anyway.
+ */
+
+export const EVENT_LIST_CACHE_TTL_SECONDS = 60;
+
+const EVENT_LIST_CACHE_PATTERN = 'events:*';
+
+/**
+ * Cache key for one page of the public listing
+ */
+export function eventListCacheKey(page: number, limit: number): string {
+  return `events:published:page=${page}:limit=${limit}`;
+}
+
+/**
+ * Drop every cached page of the event listing
+ */
+export async function invalidateEventListCache(): Promise<void> {
+  try {
+    let cursor = '0';
+    do {
+      const [next, keys] = await redis.scan(
+        cursor,
+        'MATCH',
+        EVENT_LIST_CACHE_PATTERN,
+        'COUNT',
+        100,
+      );
+      if (keys.length > 0) {
+        await redis.del(...keys);
+      }
+      cursor = next;
+    } while (cursor !== '0');
+  } catch (error) {
+    logger.warn({
+      message: 'Redis error during event cache invalidation',
+      error: error instanceof Error ? error.message : 'Unknown Redis error',
+    });
+  }
+}
@@ -0,0 +1,679 @@
+import {
+  EventChangeKind,
+  EventStatus,
+  Prisma,
+  PrismaClient,
+  RegistrationStatus,
+  RescheduleResponse,
+} from '@prisma/client';
+import { sendEmail } from './email';
+import { ERROR_CODES } from './errorCodes';
+import { RegistrationError, getErrorCode } from './errors';
+import { invalidateEventListCache } from './eventCache';
+import { assertEventTransition } from './eventLifecycle';
+import { cancelRegistration } from './eventRegistration';
+import { revokeUnclaimedGroupSeats } from './groupRegistration';
+import logger from './logger';
+import { Actor, canManageEvent, eventStaffSelect } from './permissions';
+import { ACTIVE_STATUSES } from './registrationStatus';
+import { shiftEventSessions } from './sessions';
+import { formatEventTime } from './utils';
+import { assertRoomBookable } from './venues';
+import { RescheduleEventRequest } from './schemas/eventSchema';
+import { EventCancelledTemplate } from '@/components/emails/EventCancelledTemplate';
+import { EventRescheduledTemplate } from '@/components/emails/EventRescheduledTemplate';
+
+/**
+ * Event Cancellation and Rescheduling
+ *
+ * Both changes are recorded as an EventChange (who, why, and the times before
+ * and after) and announced by email to everyone registered or waitlisted.
+ *
+ * Rescheduling moves the event (and its sessions, by the same amount) and
+ * asks every registrant to answer: CONFIRM keeps their seat at the new time,
+ * RELEASE cancels the registration even inside the cancellation window, so
+ * the seat goes to the waitlist and any payment is refunded.
+ *
+ * Cancelling empties the waitlist and then cancels each registration through
+ * `cancelRegistration`, which refunds or voids its payment. Registrations
+ * that fail to cancel are logged and reported; cancelling them again by hand
+ * is safe.
+ */
+
+export type RescheduleAnswer = 'CONFIRM' | 'RELEASE';
+
+const EVENT_CHANGE_SELECT = {
+  id: true,
+  kind: true,
+  reason: true,
+  previousDate: true,
+  previousEndsAt: true,
+  newDate: true,
+  newEndsAt: true,
+  createdAt: true,
+} satisfies Prisma.EventChangeSelect;
+
+const CHANGED_EVENT_SELECT = {
+  id: true,
+  title: true,
+  location: true,
+  status: true,
+  date: true,
+  endsAt: true,
+  timeZone: true,
+} satisfies Prisma.EventSelect;
+
+interface ChangeRecipient {
+  registrationId?: string;
+  user: { name: string; email: string };
+}
+
+/**
+ * Load an event the actor manages, with what a change needs to check
+ */
+async function getChangeableEvent(
+  tx: Prisma.TransactionClient,
+  eventId: string,
+  actor: Actor,
+) {
+  const event = await tx.event.findUnique({
+    where: { id: eventId, deletedAt: null },
+    select: {
+      ...CHANGED_EVENT_SELECT,
+      organizerId: true,
+      staff: eventStaffSelect(actor),
+      roomId: true,
+      capacity: true,
+      publishAt: true,
+    },
+  });
+
+  if (!event) {
+    throw new RegistrationError(
+      `Event not found: ${eventId}`,
+      ERROR_CODES.EVENT_NOT_FOUND,
+    );
+  }
+
+  if (!canManageEvent(actor, event)) {
+    throw new RegistrationError(
+      'Only the event organizer can reschedule or cancel it',
+      ERROR_CODES.FORBIDDEN,
+    );
+  }
+
+  return event;
+}
+
+/**
+ * Everyone to tell about a change: active registrants and the waitlist
+ */
+async function getChangeRecipients(
+  tx: Prisma.TransactionClient,
+  eventId: string,
+) {
+  const [registrations, waitlist] = await Promise.all([
+    tx.registration.findMany({
+      where: { eventId, status: { in: ACTIVE_STATUSES } },
+      select: { id: true, user: { select: { name: true, email: true } } },
+    }),
+    tx.waitlist.findMany({
+      where: { eventId },
+      select: { user: { select: { name: true, email: true } } },
+    }),
+  ]);
+
+  return {
+    registrants: registrations.map(
+      ({ id, user }): ChangeRecipient => ({ registrationId: id, user }),
+    ),
+    waitlisted: waitlist as ChangeRecipient[],
+  };
+}
+
+/**
+ * Send one email per recipient, logging failures; the change has already
+ * been committed and must not be reported as failed
+ *
+ * @returns The number of emails sent
+ */
+async function notifyRecipients(
+  eventId: string,
+  recipients: ChangeRecipient[],
+  emails: Parameters<typeof sendEmail>[0][],
+): Promise<number> {
+  const results = await Promise.allSettled(
+    emails.map((email) => sendEmail(email)),
+  );
+
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      logger.error({
+        message: 'Failed to send event change email',
+        eventId,
+        registrationId: recipients[index].registrationId,
+        error:
+          result.reason instanceof Error
+            ? result.reason.message
+            : String(result.reason),
+      });
+    }
+  });
+
+  return results.filter(({ status }) => status === 'fulfilled').length;
+}
+
+/**
+ * Move an event to a new time and ask its registrants to confirm
+ *
+ * The event keeps its room, which must be free at the new time; sessions
+ * move by the same amount as the start.
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event; must be a draft or published
+ * @param changes - New start, end, optional zone and reason
+ * @param actor - Caller; must be the event organizer or an admin
+ * @returns The rescheduled event, the change record and how many people
+ *          were emailed
+ */
+export async function rescheduleEvent(
+  prisma: PrismaClient,
+  eventId: string,
+  changes: RescheduleEventRequest,
+  actor: Actor,
+) {
+  const startsAt = new Date(changes.date);
+  const endsAt = new Date(changes.endsAt);
+
+  try {
+    const result = await prisma.$transaction(
+      async (tx) => {
+        const event = await getChangeableEvent(tx, eventId, actor);
+
+        if (
+          event.status !== EventStatus.DRAFT &&
+          event.status !== EventStatus.PUBLISHED
+        ) {
+          throw new RegistrationError(
+            `Event '${event.title}' is ${event.status.toLowerCase()} and can no longer be rescheduled`,
+            ERROR_CODES.INVALID_STATUS_TRANSITION,
+          );
+        }
+
+        if (
+          startsAt.getTime() === event.date.getTime() &&
+          endsAt.getTime() === event.endsAt.getTime()
+        ) {
+          throw new RegistrationError(
+            `Event '${event.title}' is already scheduled at that time`,
+            ERROR_CODES.INVALID_INPUT,
+          );
+        }
+
+        if (event.publishAt && event.publishAt >= startsAt) {
+          throw new RegistrationError(
+            'The event is scheduled to be published after the new start; change its publish time first',
+            ERROR_CODES.VALIDATION_ERROR,
+          );
+        }
+
+        if (event.roomId) {
+          await assertRoomBookable(tx, {
+            roomId: event.roomId,
+            startsAt,
+            endsAt,
+            capacity: event.capacity,
+            excludeEventId: eventId,
+          });
+        }
+
+        // Conditional on the times read above, so two concurrent reschedules
+        // cannot both notify attendees
+        const { count } = await tx.event.updateMany({
+          where: { id: eventId, status: event.status, date: event.date },
+          data: {
+            date: startsAt,
+            endsAt,
+            timeZone: changes.timeZone ?? event.timeZone,
+          },
+        });
+
+        if (count === 0) {
+          throw new RegistrationError(
+            `Event '${event.title}' changed while it was being rescheduled; please try again`,
+            ERROR_CODES.INVALID_STATUS_TRANSITION,
+          );
+        }
+
+        await shiftEventSessions(
+          tx,
+          eventId,
+          startsAt.getTime() - event.date.getTime(),
+        );
+
+        const recipients = await getChangeRecipients(tx, eventId);
+
+        await tx.registration.updateMany({
+          where: {
+            id: {
+              in: recipients.registrants.map(
+                ({ registrationId }) => registrationId!,
+              ),
+            },
+          },
+          data: { rescheduleResponse: RescheduleResponse.PENDING },
+        });
+
+        const change = await tx.eventChange.create({
+          data: {
+            eventId,
+            kind: EventChangeKind.RESCHEDULED,
+            reason: changes.reason,
+            previousDate: event.date,
+            previousEndsAt: event.endsAt,
+            newDate: startsAt,
+            newEndsAt: endsAt,
+            changedById: actor.userId,
+          },
+          select: EVENT_CHANGE_SELECT,
+        });
+
+        const updated = await tx.event.findUniqueOrThrow({
+          where: { id: eventId },
+          select: CHANGED_EVENT_SELECT,
+        });
+
+        return { event: updated, previous: event, change, ...recipients };
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 10000,
+      },
+    );
+
+    await invalidateEventListCache();
+
+    const { event, previous } = result;
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+    const email = (recipient: ChangeRecipient) => ({
+      to: recipient.user.email,
+      subject: `${event.title} has been rescheduled`,
+      react: EventRescheduledTemplate({
+        userName: recipient.user.name,
+        eventTitle: event.title,
+        previousDate: formatEventTime(
+          previous.date,
+          previous.endsAt,
+          previous.timeZone,
+        ),
+        newDate: formatEventTime(event.date, event.endsAt, event.timeZone),
+        eventLocation: event.location,
+        reason: changes.reason,
+        respondUrl:
+          recipient.registrationId &&
+          `${appUrl}/registrations/${recipient.registrationId}/reschedule`,
+      }),
+    });
+
+    const notified = {
+      registrants: await notifyRecipients(
+        eventId,
+        result.registrants,
+        result.registrants.map(email),
+      ),
+      waitlisted: await notifyRecipients(
+        eventId,
+        result.waitlisted,
+        result.waitlisted.map(email),
+      ),
+    };
+
+    logger.info({
+      message: 'Event rescheduled',
+      eventId,
+      previousDate: previous.date.toISOString(),
+      newDate: event.date.toISOString(),
+      ...notified,
+    });
+
+    return {
+      success: true,
+      event,
+      change: result.change,
+      notified,
+      error: null,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      event: null,
+      change: null,
+      notified: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Cancel an event, its registrations and its waitlist, and release its room
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event; must be a draft or published
+ * @param reason - Optional reason, recorded and included in the emails
+ * @param actor - Caller; must be the event organizer or an admin
+ * @returns The cancelled event, the change record, the registrations that
+ *          could not be cancelled and how many people were emailed
+ */
+export async function cancelEvent(
+  prisma: PrismaClient,
+  eventId: string,
+  reason: string | undefined,
+  actor: Actor,
+) {
+  try {
+    const result = await prisma.$transaction(
+      async (tx) => {
+        const event = await getChangeableEvent(tx, eventId, actor);
+
+        assertEventTransition(event.status, EventStatus.CANCELLED);
+
+        const { count } = await tx.event.updateMany({
+          where: { id: eventId, status: event.status },
+          data: {
+            status: EventStatus.CANCELLED,
+            publishAt: null,
+            previewTokenHash: null,
+            previewTokenExpiresAt: null,
+            // Frees the room's slot for other bookings
+            roomId: null,
+          },
+        });
+
+        if (count === 0) {
+          throw new RegistrationError(
+            `Event '${event.title}' changed while it was being cancelled; please try again`,
+            ERROR_CODES.INVALID_STATUS_TRANSITION,
+          );
+        }
+
+        const recipients = await getChangeRecipients(tx, eventId);
+
+        // Emptied first so cancelling the registrations promotes nobody
+        await tx.waitlist.deleteMany({ where: { eventId } });
+
+        // Unclaimed group seats can no longer be turned into registrations
+        await revokeUnclaimedGroupSeats(tx, eventId);
+
+        const change = await tx.eventChange.create({
+          data: {
+            eventId,
+            kind: EventChangeKind.CANCELLED,
+            reason,
+            previousDate: event.date,
+            previousEndsAt: event.endsAt,
+            changedById: actor.userId,
+          },
+          select: EVENT_CHANGE_SELECT,
+        });
+
+        const updated = await tx.event.findUniqueOrThrow({
+          where: { id: eventId },
+          select: CHANGED_EVENT_SELECT,
+        });
+
+        return { event: updated, change, ...recipients };
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 10000,
+      },
+    );
+
+    await invalidateEventListCache();
+
+    // One at a time: each cancellation settles its own payment
+    const failedRegistrationIds: string[] = [];
+    for (const { registrationId } of result.registrants) {
+      const cancelled = await cancelRegistration(
+        prisma,
+        registrationId!,
+        actor,
+        { reason: reason ? `Event cancelled: ${reason}` : 'Event cancelled' },
+      );
+
+      if (!cancelled.success) {
+        failedRegistrationIds.push(registrationId!);
+        logger.error({
+          message: 'Failed to cancel registration of cancelled event',
+          eventId,
+          registrationId,
+          error: cancelled.error!.message,
+        });
+      }
+    }
+
+    const { event } = result;
+    const eventDate = formatEventTime(event.date, event.endsAt, event.timeZone);
+    const email = (waitlisted: boolean) => (recipient: ChangeRecipient) => ({
+      to: recipient.user.email,
+      subject: `${event.title} has been cancelled`,
+      react: EventCancelledTemplate({
+        userName: recipient.user.name,
+        eventTitle: event.title,
+        eventDate,
+        reason,
+        waitlisted,
+      }),
+    });
+
+    const notified = {
+      registrants: await notifyRecipients(
+        eventId,
+        result.registrants,
+        result.registrants.map(email(false)),
+      ),
+      waitlisted: await notifyRecipients(
+        eventId,
+        result.waitlisted,
+        result.waitlisted.map(email(true)),
+      ),
+    };
+
+    logger.info({
+      message: 'Event cancelled',
+      eventId,
+      cancelledRegistrations:
+        result.registrants.length - failedRegistrationIds.length,
+      failedRegistrations: failedRegistrationIds.length,
+      ...notified,
+    });
+
+    return {
+      success: true,
+      event,
+      change: result.change,
+      cancelledRegistrations:
+        result.registrants.length - failedRegistrationIds.length,
+      failedRegistrationIds,
+      notified,
+      error: null,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      event: null,
+      change: null,
+      cancelledRegistrations: 0,
+      failedRegistrationIds: [],
+      notified: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Answer a reschedule: keep the seat at the new time or release it
+ *
+ * @param prisma - Prisma client instance
+ * @param registrationId - UUID of the caller's registration
+ * @param answer - CONFIRM or RELEASE
+ * @param actor - Caller; must be the registrant
+ * @returns The new reschedule response, and the cancellation when released
+ */
+export async function respondToReschedule(
+  prisma: PrismaClient,
+  registrationId: string,
+  answer: RescheduleAnswer,
+  actor: Actor,
+) {
+  try {
+    const registration = await prisma.registration.findUnique({
+      where: { id: registrationId },
+      select: { id: true, userId: true, rescheduleResponse: true },
+    });
+
+    if (!registration) {
+      throw new RegistrationError(
+        `Registration not found: ${registrationId}`,
+        ERROR_CODES.REGISTRATION_NOT_FOUND,
+      );
+    }
+
+    if (registration.userId !== actor.userId) {
+      throw new RegistrationError(
+        'You can only answer for your own registrations',
+        ERROR_CODES.FORBIDDEN,
+      );
+    }
+
+    const notAwaiting = new RegistrationError(
+      `Registration ${registrationId} has no reschedule awaiting an answer`,
+      ERROR_CODES.INVALID_STATUS_TRANSITION,
+    );
+
+    if (registration.rescheduleResponse !== RescheduleResponse.PENDING) {
+      throw notAwaiting;
+    }
+
+    if (answer === 'CONFIRM') {
+      const { count } = await prisma.registration.updateMany({
+        where: {
+          id: registrationId,
+          rescheduleResponse: RescheduleResponse.PENDING,
+        },
+        data: { rescheduleResponse: RescheduleResponse.CONFIRMED },
+      });
+
+      if (count === 0) {
+        throw notAwaiting;
+      }
+
+      logger.info({ message: 'Reschedule confirmed', registrationId });
+
+      return {
+        success: true,
+        rescheduleResponse: RescheduleResponse.CONFIRMED,
+        cancellation: null,
+        error: null,
+      };
+    }
+
+    const cancelled = await cancelRegistration(prisma, registrationId, actor, {
+      reason: 'Released after the event was rescheduled',
+      ignoreCutoff: true,
+    });
+
+    if (!cancelled.success) {
+      throw new RegistrationError(
+        cancelled.error!.message,
+        cancelled.error!.code,
+      );
+    }
+
+    await prisma.registration.updateMany({
+      where: { id: registrationId, status: RegistrationStatus.CANCELLED },
+      data: { rescheduleResponse: null },
+    });
+
+    logger.info({ message: 'Seat released after reschedule', registrationId });
+
+    return {
+      success: true,
+      rescheduleResponse: null,
+      cancellation: cancelled.cancellation,
+      error: null,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      rescheduleResponse: null,
+      cancellation: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Move several events to start `daysToAdd` days from now, keeping their
+ * durations
+ *
+ * Each event goes through `rescheduleEvent`, so every move is recorded and
+ * its attendees are notified. Events that cannot be moved are reported
+ * rather than failing the batch.
+ *
+ * @param prisma - Prisma client instance
+ * @param eventIds - UUIDs of the events to move
+ * @param daysToAdd - Days from now the events should start
+ * @param actor - Caller; must manage every event
+ * @param reason - Optional reason sent to attendees
+ */
+export async function bulkUpdateEventDates(
+  prisma: PrismaClient,
+  eventIds: string[],
+  daysToAdd: number,
+  actor: Actor,
+  reason?: string,
+) {
+  const newDate = new Date();
+  newDate.setDate(newDate.getDate() + daysToAdd);
+
+  const events = await prisma.event.findMany({
+    where: { id: { in: eventIds } },
+    select: { id: true, date: true, endsAt: true },
+  });
+
+  const failed: { eventId: string; error: string }[] = [];
+
+  for (const event of events) {
+    const result = await rescheduleEvent(
+      prisma,
+      event.id,
+      {
+        date: newDate.toISOString(),
+        endsAt: new Date(
+          newDate.getTime() + event.endsAt.getTime() - event.date.getTime(),
+        ).toISOString(),
+        reason,
+      },
+      actor,
+    );
+
+    if (!result.success) {
+      failed.push({ eventId: event.id, error: result.error!.message });
+    }
+  }
+
+  return {
+    updated: events.length - failed.length,
+    failed,
+  };
+}
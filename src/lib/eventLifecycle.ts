@@ -0,0 +1,525 @@
+import { EventStatus, Prisma, PrismaClient } from '@prisma/client';
+import { ERROR_CODES } from './errorCodes';
+import { RegistrationError, getErrorCode } from './errors';
+import { invalidateEventListCache } from './eventCache';
+import logger from './logger';
+import { Actor, canManageEvent, eventStaffSelect } from './permissions';
+import {
+  EVENT_SPEAKERS_SELECT,
+  EVENT_TIME_SELECT,
+  toSpeakerList,
+} from './queryOptimizations';
+import { ACTIVE_STATUSES } from './registrationStatus';
+import { createHashedToken, hashToken } from './secureTokens';
+import { toEventSchedule } from './timeZones';
+
+/**
+ * Event Lifecycle
+ *
+ *   DRAFT ◀───────▶ PUBLISHED ──▶ COMPLETED (once `endsAt` has passed)
+ *     │  (unpublish while   │
+ *     │  nobody registered) │
+ *     └────▶ CANCELLED ◀────┘
+ *
+ * New events start as drafts. A draft is only visible to its organizer and
+ * admins, and to whoever they share a preview link with; registration, seat
+ * holds and group bookings treat it as not found. Organizers publish it right
+ * away or set `publishAt`, and the background job (src/lib/jobs.ts) publishes
+ * it once that time passes. The same job completes published events that
+ * have ended.
+ *
+ * Preview links carry a random token valid for EVENT_PREVIEW_LINK_TTL_DAYS
+ * (default 7); only its SHA-256 hash is stored. Creating a new link replaces
+ * the previous one, and publishing the event revokes it.
+ *
+ * Every status change invalidates the cached event listing
+ * (src/lib/eventCache.ts).
+ */
+
+export const EVENT_PREVIEW_LINK_TTL_DAYS =
+  Number(process.env.EVENT_PREVIEW_LINK_TTL_DAYS) || 7;
+
+const EVENT_TRANSITIONS: Record<EventStatus, EventStatus[]> = {
+  DRAFT: [EventStatus.PUBLISHED, EventStatus.CANCELLED],
+  PUBLISHED: [EventStatus.DRAFT, EventStatus.CANCELLED, EventStatus.COMPLETED],
+  CANCELLED: [],
+  COMPLETED: [],
+};
+
+/** What organizers see about an event's lifecycle */
+const LIFECYCLE_SELECT = {
+  id: true,
+  status: true,
+  publishAt: true,
+  publishedAt: true,
+} satisfies Prisma.EventSelect;
+
+/** Everything shown on the draft preview page */
+const PREVIEW_SELECT = {
+  id: true,
+  title: true,
+  description: true,
+  ...EVENT_TIME_SELECT,
+  location: true,
+  capacity: true,
+  registrationMode: true,
+  status: true,
+  publishAt: true,
+  previewTokenExpiresAt: true,
+  ticketTypes: {
+    select: {
+      id: true,
+      name: true,
+      kind: true,
+      priceCents: true,
+      currency: true,
+      quota: true,
+    },
+    orderBy: { priceCents: 'asc' },
+  },
+  speakers: EVENT_SPEAKERS_SELECT,
+} satisfies Prisma.EventSelect;
+
+export function canTransitionEvent(
+  from: EventStatus,
+  to: EventStatus,
+): boolean {
+  return EVENT_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Throw INVALID_STATUS_TRANSITION unless `from → to` is allowed
+ */
+export function assertEventTransition(
+  from: EventStatus,
+  to: EventStatus,
+): void {
+  if (!canTransitionEvent(from, to)) {
+    throw new RegistrationError(
+      `Event cannot move from ${from} to ${to}`,
+      ERROR_CODES.INVALID_STATUS_TRANSITION,
+    );
+  }
+}
+
+/**
+ * Refuse registrations (and seat holds) for events that are not published
+ *
+ * Drafts and deleted events are reported as not found so their existence is
+ * not leaked.
+ */
+export function assertEventOpenForRegistration(event: {
+  id: string;
+  title: string;
+  status: EventStatus;
+  deletedAt: Date | null;
+}): void {
+  if (event.status === EventStatus.DRAFT || event.deletedAt) {
+    throw new RegistrationError(
+      `Event not found: ${event.id}`,
+      ERROR_CODES.EVENT_NOT_FOUND,
+    );
+  }
+
+  if (event.status !== EventStatus.PUBLISHED) {
+    throw new RegistrationError(
+      `Event '${event.title}' is ${event.status.toLowerCase()} and no longer accepts registrations`,
+      ERROR_CODES.EVENT_NOT_PUBLISHED,
+    );
+  }
+}
+
+/**
+ * Load an event the actor manages
+ */
+async function getManagedEvent(
+  tx: Prisma.TransactionClient,
+  eventId: string,
+  actor: Actor,
+) {
+  const event = await tx.event.findUnique({
+    where: { id: eventId, deletedAt: null },
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      publishAt: true,
+      date: true,
+      endsAt: true,
+      organizerId: true,
+      staff: eventStaffSelect(actor),
+    },
+  });
+
+  if (!event) {
+    throw new RegistrationError(
+      `Event not found: ${eventId}`,
+      ERROR_CODES.EVENT_NOT_FOUND,
+    );
+  }
+
+  if (!canManageEvent(actor, event)) {
+    throw new RegistrationError(
+      'Only the event organizer can change its status',
+      ERROR_CODES.FORBIDDEN,
+    );
+  }
+
+  return event;
+}
+
+/**
+ * Publish a draft now, or schedule it to be published
+ *
+ * A `publishAt` in the future only records the schedule; the event stays a
+ * draft until the background job publishes it. Omitting it (or passing a time
+ * that has already passed) publishes immediately and revokes the preview
+ * link.
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event; must be a draft that has not ended
+ * @param actor - Caller; must be the event organizer or an admin
+ * @param publishAt - When to publish; must be before the event starts
+ */
+export async function publishEvent(
+  prisma: PrismaClient,
+  eventId: string,
+  actor: Actor,
+  publishAt?: Date,
+) {
+  const operationTimestamp = new Date();
+
+  try {
+    const event = await getManagedEvent(prisma, eventId, actor);
+
+    assertEventTransition(event.status, EventStatus.PUBLISHED);
+
+    if (event.endsAt <= operationTimestamp) {
+      throw new RegistrationError(
+        `Event '${event.title}' has already ended and cannot be published`,
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const scheduled = publishAt !== undefined && publishAt > operationTimestamp;
+
+    if (scheduled && publishAt >= event.date) {
+      throw new RegistrationError(
+        'The publish time must be before the event starts',
+        ERROR_CODES.VALIDATION_ERROR,
+      );
+    }
+
+    // Conditional on the status, so a concurrent change wins cleanly
+    const { count } = await prisma.event.updateMany({
+      where: { id: eventId, status: EventStatus.DRAFT },
+      data: scheduled
+        ? { publishAt }
+        : {
+            status: EventStatus.PUBLISHED,
+            publishAt: null,
+            publishedAt: operationTimestamp,
+            previewTokenHash: null,
+            previewTokenExpiresAt: null,
+          },
+    });
+
+    if (count === 0) {
+      throw new RegistrationError(
+        `Event '${event.title}' is no longer a draft`,
+        ERROR_CODES.INVALID_STATUS_TRANSITION,
+      );
+    }
+
+    if (!scheduled) {
+      await invalidateEventListCache();
+    }
+
+    logger.info({
+      message: scheduled ? 'Event publish scheduled' : 'Event published',
+      eventId,
+      publishAt: scheduled ? publishAt.toISOString() : undefined,
+    });
+
+    const updated = await prisma.event.findUniqueOrThrow({
+      where: { id: eventId },
+      select: LIFECYCLE_SELECT,
+    });
+
+    return { success: true, event: updated, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      event: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Take a published event back to draft, or clear a draft's scheduled publish
+ *
+ * Refused once anyone has registered or joined the waitlist; cancel the event
+ * instead. The event row is updated before registrations are counted, so a
+ * registration committed in the meantime is seen and rolls the change back.
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event
+ * @param actor - Caller; must be the event organizer or an admin
+ */
+export async function unpublishEvent(
+  prisma: PrismaClient,
+  eventId: string,
+  actor: Actor,
+) {
+  try {
+    const event = await prisma.$transaction(
+      async (tx) => {
+        const event = await getManagedEvent(tx, eventId, actor);
+
+        if (event.status === EventStatus.DRAFT) {
+          if (!event.publishAt) {
+            throw new RegistrationError(
+              `Event '${event.title}' is already a draft`,
+              ERROR_CODES.INVALID_STATUS_TRANSITION,
+            );
+          }
+
+          return tx.event.update({
+            where: { id: eventId },
+            data: { publishAt: null },
+            select: LIFECYCLE_SELECT,
+          });
+        }
+
+        assertEventTransition(event.status, EventStatus.DRAFT);
+
+        const { count } = await tx.event.updateMany({
+          where: { id: eventId, status: EventStatus.PUBLISHED },
+          data: { status: EventStatus.DRAFT, publishedAt: null },
+        });
+
+        if (count === 0) {
+          throw new RegistrationError(
+            `Event '${event.title}' is no longer published`,
+            ERROR_CODES.INVALID_STATUS_TRANSITION,
+          );
+        }
+
+        const [registrations, waitlisted] = await Promise.all([
+          tx.registration.count({
+            where: { eventId, status: { in: ACTIVE_STATUSES } },
+          }),
+          tx.waitlist.count({ where: { eventId } }),
+        ]);
+
+        if (registrations > 0 || waitlisted > 0) {
+          throw new RegistrationError(
+            `Event '${event.title}' has registrations or a waitlist; cancel it instead of unpublishing`,
+            ERROR_CODES.INVALID_STATUS_TRANSITION,
+          );
+        }
+
+        return tx.event.findUniqueOrThrow({
+          where: { id: eventId },
+          select: LIFECYCLE_SELECT,
+        });
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 10000,
+      },
+    );
+
+    await invalidateEventListCache();
+
+    logger.info({ message: 'Event unpublished', eventId });
+
+    return { success: true, event, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      event: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Create a link to preview a draft without publishing it
+ *
+ * Replaces any earlier link. Anyone holding the link can view the draft until
+ * it expires or the event is published; it does not allow registering.
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event; must be a draft
+ * @param actor - Caller; must be the event organizer or an admin
+ * @returns The preview URL and when it expires
+ */
+export async function createPreviewLink(
+  prisma: PrismaClient,
+  eventId: string,
+  actor: Actor,
+) {
+  const operationTimestamp = new Date();
+  const expiresAt = new Date(
+    operationTimestamp.getTime() +
+      EVENT_PREVIEW_LINK_TTL_DAYS * 24 * 60 * 60 * 1000,
+  );
+  const { token, tokenHash } = createHashedToken();
+
+  try {
+    const event = await getManagedEvent(prisma, eventId, actor);
+
+    const { count } = await prisma.event.updateMany({
+      where: { id: eventId, status: EventStatus.DRAFT },
+      data: {
+        previewTokenHash: tokenHash,
+        previewTokenExpiresAt: expiresAt,
+      },
+    });
+
+    if (count === 0) {
+      throw new RegistrationError(
+        `Event '${event.title}' is not a draft; share its page instead`,
+        ERROR_CODES.INVALID_STATUS_TRANSITION,
+      );
+    }
+
+    logger.info({ message: 'Event preview link created', eventId });
+
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+    return {
+      success: true,
+      previewLink: {
+        url: `${appUrl}/events/preview?token=${encodeURIComponent(token)}`,
+        expiresAt,
+      },
+      error: null,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      previewLink: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Get the draft a preview link belongs to
+ *
+ * @param prisma - Prisma client instance
+ * @param token - Token from the preview link
+ */
+export async function getEventPreview(prisma: PrismaClient, token: string) {
+  try {
+    const event = await prisma.event.findUnique({
+      where: { previewTokenHash: hashToken(token) },
+      select: PREVIEW_SELECT,
+    });
+
+    if (!event || event.status !== EventStatus.DRAFT) {
+      throw new RegistrationError(
+        'Preview link not found or no longer valid',
+        ERROR_CODES.INVALID_PREVIEW_LINK,
+      );
+    }
+
+    if (
+      !event.previewTokenExpiresAt ||
+      event.previewTokenExpiresAt <= new Date()
+    ) {
+      throw new RegistrationError(
+        'This preview link has expired; ask the organizer for a new one',
+        ERROR_CODES.PREVIEW_LINK_EXPIRED,
+      );
+    }
+
+    return {
+      success: true,
+      event: {
+        ...event,
+        schedule: toEventSchedule(event),
+        speakers: toSpeakerList(event.speakers),
+      },
+      error: null,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      event: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Publish drafts whose scheduled publish time has passed
+ *
+ * Run periodically by the background jobs. Safe to run on several instances
+ * at once: the update is conditional on the event still being a draft.
+ *
+ * @param prisma - Prisma client instance
+ * @param now - Current instant (injectable for tests)
+ * @returns The number of events published
+ */
+export async function publishScheduledEvents(
+  prisma: PrismaClient,
+  now: Date = new Date(),
+): Promise<number> {
+  const { count } = await prisma.event.updateMany({
+    where: { status: EventStatus.DRAFT, publishAt: { lte: now } },
+    data: {
+      status: EventStatus.PUBLISHED,
+      publishAt: null,
+      publishedAt: now,
+      previewTokenHash: null,
+      previewTokenExpiresAt: null,
+    },
+  });
+
+  if (count > 0) {
+    await invalidateEventListCache();
+    logger.info({ message: 'Published scheduled events', count });
+  }
+
+  return count;
+}
+
+/**
+ * Mark published events that have ended as completed
+ *
+ * @param prisma - Prisma client instance
+ * @param now - Current instant (injectable for tests)
+ * @returns The number of events completed
+ */
+export async function completeEndedEvents(
+  prisma: PrismaClient,
+  now: Date = new Date(),
+): Promise<number> {
+  const { count } = await prisma.event.updateMany({
+    where: { status: EventStatus.PUBLISHED, endsAt: { lte: now } },
+    data: { status: EventStatus.COMPLETED },
+  });
+
+  if (count > 0) {
+    await invalidateEventListCache();
+    logger.info({ message: 'Completed ended events', count });
+  }
+
+  return count;
+}
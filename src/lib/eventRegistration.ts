@@ -1,4 +1,41 @@
-import { PrismaClient } from '@prisma/client';
+import {
+  PrismaClient,
+  RegistrationMode,
+  RegistrationStatus,
+} from '@prisma/client';
+import { ERROR_CODES } from './errorCodes';
+import { RegistrationError, getErrorCode } from './errors';
+import { assertEventOpenForRegistration } from './eventLifecycle';
+import { assertInvitationRedeemable, markInvitationUsed } from './invitations';
+import { getPaymentHoldExpiry } from './payments';
+import { parseRegistrationAnswers } from './registrationQuestions';
+import { Actor, canManageEvent, eventStaffSelect } from './permissions';
+import { redeemPromoCode, releasePromoCodeRedemption } from './promoCodes';
+import {
+  createRegistrationPayment,
+  settleCancelledRegistrationPayment,
+} from './registrationPayments';
+import {
+  assertCanRegister,
+  assertTransition,
+  createOrReopenRegistration,
+  holdsSeat,
+} from './registrationStatus';
+import {
+  claimSeats,
+  claimTicketSeats,
+  releaseSeats,
+  releaseTicketSeats,
+} from './seatAllocation';
+import { countActiveHolds, releaseSeatHold } from './seatHolds';
+import { releaseAgenda } from './sessions';
+import { sendRegistrationTicket } from './tickets';
+import { resolveTicketType } from './ticketTypes';
+import {
+  addToWaitlist,
+  notifyWaitlistPromotions,
+  promoteWaitlistedUsers,
+} from './waitlist';
 
 /**
  * Event Registration Service with Transaction Support
@@ -10,11 +47,11 @@ import { PrismaClient } from '@prisma/client';
  * ================
  * When a user registers for an event, we must:
  *   1. Create a Registration record linking the user to the event
- *   2. Decrement Event.capacity by 1 (to track available slots)
+ *   2. Decrement Event.seatsRemaining by 1 (to track available slots)
  *
  * These operations MUST succeed together or fail together:
- * - If registration creates but capacity fails, we have an orphaned record
- * - If capacity decrements but registration fails, we have incorrect inventory
+ * - If registration creates but the seat count fails, we have an orphaned record
+ * - If seats decrement but registration fails, we have incorrect inventory
  * - Both failures should roll back and return an error to the client
  *
  * Prisma $transaction ensures ACID compliance:
@@ -27,8 +64,58 @@ import { PrismaClient } from '@prisma/client';
  * - Sequential: Each query runs in order, accessible within the transaction
  * - Parallel: All queries submitted at once, most performant for independent ops
  * We use sequential here because capacity check depends on current value.
+ *
+ * Capacity vs. seats remaining:
+ * `Event.capacity` is the total size of the event and never changes as people
+ * sign up. `Event.seatsRemaining` is the maintained counter of free seats; every
+ * path that creates or deletes a Registration adjusts it in the same transaction.
+ *
+ * Full events:
+ * By default a full event rejects the registration. Callers can instead pass
+ * `joinWaitlist: true` to place the user on the event's FIFO waitlist (see
+ * src/lib/waitlist.ts); they are promoted automatically when a seat frees up.
+ *
+ * Checkout holds:
+ * Seats held by other users during checkout (src/lib/seatHolds.ts) count as
+ * taken. A user registering with their own active hold consumes it.
+ *
+ * Paid tickets:
+ * Registering with a priced ticket type claims the seat as usual but leaves the
+ * registration PENDING_PAYMENT with a seat hold, and a payment intent is opened
+ * once the transaction commits. See src/lib/registrationPayments.ts for how the
+ * hold is confirmed, released on failure, or released when it expires.
+ *
+ * Registration modes:
+ * OPEN events register (or waitlist) immediately. APPROVAL events record a
+ * PENDING application that takes no seat; capacity is claimed only when the
+ * organizer approves it (src/lib/registrationReview.ts). INVITE_ONLY events
+ * require `invitationToken`, which is consumed by the registration it creates
+ * (src/lib/invitations.ts). Status changes follow the state machine in
+ * src/lib/registrationStatus.ts.
+ *
+ * Promo codes:
+ * `promoCode` is redeemed in the same transaction that writes the
+ * registration (src/lib/promoCodes.ts), and reduces the amount to pay. It is
+ * not used when the user is put on the waitlist instead. A code that covers
+ * the whole price makes the registration free.
  */
 
+export interface RegisterUserOptions {
+  /** Join the waitlist instead of failing when the event is full */
+  joinWaitlist?: boolean;
+  /** Ticket type to register with; required when the event defines any */
+  ticketTypeId?: string;
+  /** Invitation token; required for INVITE_ONLY events */
+  invitationToken?: string;
+  /**
+   * Answers to the event's registration questions, keyed by question id;
+   * validated against the questions before anything is written
+   */
+  answers?: unknown;
+  /** Promo code to apply to the ticket price */
+  promoCode?: string;
+}
+
 /**
  * Register a user for an event with transaction protection
  *
@@ -36,12 +123,15 @@ import { PrismaClient } from '@prisma/client';
  * @param userId - UUID of the user registering
  * @param eventId - UUID of the event to register for
  * @param dryRun - If true, simulate without saving; if false, commit to DB
- * @returns Object with success status, registration data, and diagnostics
+ * @param options - See RegisterUserOptions
+ * @returns Object with success status, registration (or waitlist entry) data,
+ *          and diagnostics
  *
  * Rollback Scenarios (automatic via transaction):
  * 1. User not found → Registration fails → Both operations roll back
- * 2. Event not found → Capacity update fails → Both operations roll back
- * 3. Capacity already 0 → Update fails (business rule) → Both operations roll back
+ * 2. Event not found → Seat update fails → Both operations roll back
+ * 3. No seats remaining → Conditional seat claim matches no row → Both roll back
+ *    (unless joinWaitlist is set, in which case only a waitlist entry is written)
  * 4. Duplicate registration → Insert constraint fails → Both operations roll back
  */
 export async function registerUserForEvent(
@@ -49,7 +139,15 @@ export async function registerUserForEvent(
   userId: string,
   eventId: string,
   dryRun: boolean = false,
+  options: RegisterUserOptions = {},
 ) {
+  const {
+    joinWaitlist = false,
+    ticketTypeId,
+    invitationToken,
+    answers: rawAnswers,
+    promoCode,
+  } = options;
   const operationTimestamp = new Date();
   const performanceMetrics = {
     transactionStartMs: 0,
@@ -67,6 +165,9 @@ export async function registerUserForEvent(
       );
     }
 
+    // Read outside the transaction: holds live in Redis, not the database
+    const heldByOthers = await countActiveHolds(eventId, userId);
+
     const result = await prisma.$transaction(
       async (tx) => {
         const user = await tx.user.findUnique({
@@ -75,7 +176,10 @@ export async function registerUserForEvent(
         });
 
         if (!user) {
-          throw new Error(`User not found: ${userId}`);
+          throw new RegistrationError(
+            `User not found: ${userId}`,
+            ERROR_CODES.USER_NOT_FOUND,
+          );
         }
 
         const event = await tx.event.findUnique({
@@ -84,43 +188,172 @@ export async function registerUserForEvent(
             id: true,
             title: true,
             capacity: true,
+            seatsRemaining: true,
             organizerId: true,
             date: true,
+            registrationMode: true,
+            status: true,
+            deletedAt: true,
           },
         });
 
         if (!event) {
-          throw new Error(`Event not found: ${eventId}`);
-        }
-
-        if (event.capacity <= 0) {
-          throw new Error(
-            `Event '${event.title}' has no available capacity. Current capacity: ${event.capacity}`,
+          throw new RegistrationError(
+            `Event not found: ${eventId}`,
+            ERROR_CODES.EVENT_NOT_FOUND,
           );
         }
 
-        const existingRegistration = await tx.registration.findUnique({
-          where: {
-            userId_eventId: { userId, eventId },
-          },
-          select: { id: true, createdAt: true },
-        });
+        assertEventOpenForRegistration(event);
+
+        let invitationId: string | null = null;
 
-        if (existingRegistration) {
-          throw new Error(
-            `User is already registered for this event (registration ID: ${existingRegistration.id})`,
+        if (event.registrationMode === RegistrationMode.INVITE_ONLY) {
+          if (!invitationToken) {
+            throw new RegistrationError(
+              `Event '${event.title}' is invite-only`,
+              ERROR_CODES.INVITATION_REQUIRED,
+            );
+          }
+
+          // Checked here but only marked used once a registration is written,
+          // so an invitee who lands on the waitlist keeps their invitation
+          invitationId = await assertInvitationRedeemable(
+            tx,
+            invitationToken,
+            user,
+            eventId,
+            operationTimestamp,
           );
         }
 
-        const registration = await tx.registration.create({
-          data: {
+        // Checked up front so a registered user is never put on the waitlist
+        await assertCanRegister(tx, userId, eventId);
+
+        const ticketType = await resolveTicketType(
+          tx,
+          eventId,
+          ticketTypeId,
+          operationTimestamp,
+        );
+
+        const answers = await parseRegistrationAnswers(tx, eventId, rawAnswers);
+
+        // Applications wait for the organizer without taking a seat
+        const requiresApproval =
+          event.registrationMode === RegistrationMode.APPROVAL;
+
+        if (!requiresApproval) {
+          // The seatsRemaining read above may already be stale under concurrent
+          // registrations, so the seat is claimed with a conditional update.
+          let seatClaimed = await claimSeats(tx, eventId, 1, heldByOthers);
+
+          // The ticket type's own quota can run out before the event does
+          if (seatClaimed && ticketType) {
+            const ticketSeatClaimed = await claimTicketSeats(tx, ticketType.id);
+
+            if (!ticketSeatClaimed) {
+              if (!joinWaitlist) {
+                throw new RegistrationError(
+                  `Ticket type '${ticketType.name}' is sold out`,
+                  ERROR_CODES.TICKET_TYPE_SOLD_OUT,
+                );
+              }
+
+              await releaseSeats(tx, eventId);
+              seatClaimed = false;
+            }
+          }
+
+          if (!seatClaimed) {
+            if (!joinWaitlist) {
+              throw new RegistrationError(
+                heldByOthers > 0
+                  ? `Event '${event.title}' has no available capacity. The remaining seats are held by other registrants`
+                  : `Event '${event.title}' has no available capacity. All ${event.capacity} seats are taken`,
+                ERROR_CODES.EVENT_FULL,
+              );
+            }
+
+            const waitlistEntry = await addToWaitlist(
+              tx,
+              userId,
+              eventId,
+              ticketType?.id,
+              answers,
+            );
+
+            return {
+              success: true,
+              registration: null,
+              updatedEvent: null,
+              waitlistEntry,
+              dryRun,
+            };
+          }
+        }
+
+        const discount = promoCode
+          ? await redeemPromoCode(
+              tx,
+              promoCode,
+              { eventId, ticketType },
+              operationTimestamp,
+            )
+          : null;
+
+        const amountDueCents =
+          (ticketType?.priceCents ?? 0) - (discount?.discountCents ?? 0);
+        const requiresPayment = !requiresApproval && amountDueCents > 0;
+
+        const { id: registrationId } = await createOrReopenRegistration(
+          tx,
+          {
             userId,
             eventId,
+            ticketTypeId: ticketType?.id,
+            status: requiresApproval
+              ? RegistrationStatus.PENDING
+              : requiresPayment
+                ? RegistrationStatus.PENDING_PAYMENT
+                : RegistrationStatus.APPROVED,
+            holdExpiresAt: requiresPayment
+              ? getPaymentHoldExpiry(operationTimestamp)
+              : null,
+            answers,
+            promoCodeId: discount?.promoCodeId,
+            discountCents: discount?.discountCents,
           },
+          operationTimestamp,
+        );
+
+        if (invitationId) {
+          await markInvitationUsed(
+            tx,
+            invitationId,
+            registrationId,
+            operationTimestamp,
+          );
+        }
+
+        const registration = await tx.registration.findUniqueOrThrow({
+          where: { id: registrationId },
           select: {
             id: true,
+            status: true,
+            holdExpiresAt: true,
+            discountCents: true,
             createdAt: true,
             user: { select: { id: true, email: true, name: true } },
+            ticketType: {
+              select: {
+                id: true,
+                name: true,
+                kind: true,
+                priceCents: true,
+                currency: true,
+              },
+            },
             event: {
               select: {
                 id: true,
@@ -132,28 +365,31 @@ export async function registerUserForEvent(
           },
         });
 
-        const updatedEvent = await tx.event.update({
+        const updatedEvent = await tx.event.findUniqueOrThrow({
           where: { id: eventId },
-          data: {
-            capacity: { decrement: 1 },
-          },
           select: {
             id: true,
             title: true,
             capacity: true,
+            seatsRemaining: true,
           },
         });
 
+        // A direct registration supersedes any place the user held in the queue
+        await tx.waitlist.deleteMany({ where: { userId, eventId } });
+
         return {
           success: true,
           registration,
           updatedEvent,
+          waitlistEntry: null,
           dryRun,
         };
       },
       {
         // Transaction configuration for PostgreSQL
-        // Allows concurrent reads but serializes writes for isolation
+        // ReadCommitted is sufficient because the seat is claimed with a
+        // conditional UPDATE (row lock + re-checked WHERE), see seatAllocation.ts
         isolationLevel: 'ReadCommitted',
         timeout: 10000, // 10 second timeout per transaction
       },
@@ -164,8 +400,32 @@ export async function registerUserForEvent(
       performanceMetrics.transactionEndMs -
       performanceMetrics.transactionStartMs;
 
+    if (result.registration) {
+      // The hold expires on its own if Redis cannot be reached now
+      await releaseSeatHold(eventId, userId).catch((error) =>
+        console.warn(
+          `[SEAT HOLD] Could not release hold for user:${userId} event:${eventId}: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+    }
+
+    if (result.registration?.status === RegistrationStatus.APPROVED) {
+      await sendRegistrationTicket(prisma, result.registration.id);
+    }
+
+    // The seat is held; open the payment intent now that the hold is committed.
+    // If this fails the registrant can retry via the payment endpoint before
+    // the hold expires.
+    const payment =
+      result.registration?.status === RegistrationStatus.PENDING_PAYMENT
+        ? await createRegistrationPayment(prisma, result.registration.id, null)
+        : null;
+
     return {
       ...result,
+      payment: payment?.success
+        ? { ...payment.payment, clientSecret: payment.clientSecret }
+        : null,
       timestamp: operationTimestamp,
       metrics: performanceMetrics,
       error: null,
@@ -186,11 +446,14 @@ export async function registerUserForEvent(
       success: false,
       registration: null,
       updatedEvent: null,
+      waitlistEntry: null,
+      payment: null,
       dryRun,
       timestamp: operationTimestamp,
       metrics: performanceMetrics,
       error: {
         message: errorMessage,
+        code: getErrorCode(error),
         type: error instanceof Error ? error.constructor.name : 'UnknownError',
         rolledBack: true,
       },
@@ -198,13 +461,236 @@ export async function registerUserForEvent(
   }
 }
 
+export interface CancelRegistrationOptions {
+  /** Free-text reason recorded in the cancellation audit trail */
+  reason?: string;
+  /**
+   * Let the registrant cancel inside the cutoff window; used when they
+   * release their seat after the event was rescheduled
+   */
+  ignoreCutoff?: boolean;
+}
+
 /**
- * Intentional failure test: Attempt registration when capacity is 0
+ * Cancel a registration and give its seat (if it held one) back to the event
+ *
+ * @param prisma - Prisma client instance
+ * @param registrationId - UUID of the registration to cancel
+ * @param actor - Authenticated caller performing the cancellation
+ * @param options - See CancelRegistrationOptions
+ * @returns Object with success status, the cancellation record, and any
+ *          waitlist promotions triggered by the freed seat
+ *
+ * Inside one transaction we:
+ *   1. Mark the Registration CANCELLED (the row is kept; registering again
+ *      reopens it) and delete the group booking seat it filled, if any
+ *   2. Increment Event.seatsRemaining (and the ticket type's quota) by 1
+ *      unless it was a PENDING application, which never held a seat, and
+ *      give back the promo code redemption it used
+ *   3. Record a RegistrationCancellation with who cancelled and why
+ *   4. Promote the head of the waitlist into the freed seat
+ *
+ * After commit, a completed payment is refunded and a pending one voided.
+ *
+ * Registrants may only cancel their own registration and only before the
+ * event's `cancellationCutoffHours` window opens, unless `ignoreCutoff` is
+ * set. The event organizer and admins can cancel any registration at any
+ * time.
+ */
+export async function cancelRegistration(
+  prisma: PrismaClient,
+  registrationId: string,
+  actor: Actor,
+  options: CancelRegistrationOptions = {},
+) {
+  const operationTimestamp = new Date();
+
+  try {
+    const result = await prisma.$transaction(
+      async (tx) => {
+        const registration = await tx.registration.findUnique({
+          where: { id: registrationId },
+          select: {
+            id: true,
+            userId: true,
+            eventId: true,
+            ticketTypeId: true,
+            promoCodeId: true,
+            status: true,
+            createdAt: true,
+            event: {
+              select: {
+                id: true,
+                title: true,
+                date: true,
+                organizerId: true,
+                staff: eventStaffSelect(actor),
+                cancellationCutoffHours: true,
+              },
+            },
+            payment: {
+              select: { id: true, providerIntentId: true, status: true },
+            },
+          },
+        });
+
+        if (!registration) {
+          throw new RegistrationError(
+            `Registration not found: ${registrationId}`,
+            ERROR_CODES.REGISTRATION_NOT_FOUND,
+          );
+        }
+
+        const isManager = canManageEvent(actor, registration.event);
+
+        if (!isManager && registration.userId !== actor.userId) {
+          throw new RegistrationError(
+            'You can only cancel your own registrations',
+            ERROR_CODES.FORBIDDEN,
+          );
+        }
+
+        if (!isManager && !options.ignoreCutoff) {
+          const cutoff = new Date(
+            registration.event.date.getTime() -
+              registration.event.cancellationCutoffHours * 60 * 60 * 1000,
+          );
+
+          if (operationTimestamp >= cutoff) {
+            throw new RegistrationError(
+              `Registrations for '${registration.event.title}' could only be cancelled until ${cutoff.toISOString()}`,
+              ERROR_CODES.CANCELLATION_WINDOW_CLOSED,
+            );
+          }
+        }
+
+        assertTransition(registration.status, RegistrationStatus.CANCELLED);
+
+        // A cancelled group seat is given up by the group, not left empty
+        await tx.groupSeat.deleteMany({ where: { registrationId } });
+
+        // Conditional on the status read above so a concurrent cancellation,
+        // review or payment update cannot release the seat twice
+        const { count } = await tx.registration.updateMany({
+          where: { id: registrationId, status: registration.status },
+          data: { status: RegistrationStatus.CANCELLED, holdExpiresAt: null },
+        });
+
+        if (count === 0) {
+          throw new RegistrationError(
+            `Registration ${registrationId} changed while it was being cancelled; please try again`,
+            ERROR_CODES.INVALID_STATUS_TRANSITION,
+          );
+        }
+
+        const seatReleased = holdsSeat(registration.status);
+
+        if (seatReleased) {
+          await releaseSeats(tx, registration.eventId);
+
+          if (registration.ticketTypeId) {
+            await releaseTicketSeats(tx, registration.ticketTypeId);
+          }
+
+          await releaseAgenda(tx, registrationId);
+        }
+
+        if (registration.promoCodeId) {
+          await releasePromoCodeRedemption(tx, registration.promoCodeId);
+        }
+
+        const cancellation = await tx.registrationCancellation.create({
+          data: {
+            registrationId,
+            userId: registration.userId,
+            eventId: registration.eventId,
+            cancelledById: actor.userId,
+            reason: options.reason,
+            registeredAt: registration.createdAt,
+          },
+          select: {
+            id: true,
+            registrationId: true,
+            userId: true,
+            eventId: true,
+            cancelledById: true,
+            reason: true,
+            cancelledAt: true,
+          },
+        });
+
+        const promotions = seatReleased
+          ? await promoteWaitlistedUsers(tx, registration.eventId)
+          : [];
+
+        const updatedEvent = await tx.event.findUnique({
+          where: { id: registration.eventId },
+          select: {
+            id: true,
+            title: true,
+            capacity: true,
+            seatsRemaining: true,
+          },
+        });
+
+        return {
+          cancellation,
+          updatedEvent,
+          promotions,
+          payment: registration.payment,
+        };
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 10000,
+      },
+    );
+
+    // Only notify once the seat hand-over has been committed
+    await notifyWaitlistPromotions(prisma, result.promotions);
+
+    // Refund a completed payment, or void one that was still pending
+    const paymentStatus = result.payment
+      ? await settleCancelledRegistrationPayment(prisma, result.payment)
+      : null;
+
+    return {
+      success: true,
+      cancellation: result.cancellation,
+      updatedEvent: result.updatedEvent,
+      promotions: result.promotions,
+      paymentStatus,
+      timestamp: operationTimestamp,
+      error: null,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    console.error(`[CANCELLATION FAILED] ${errorMessage}`);
+
+    return {
+      success: false,
+      cancellation: null,
+      updatedEvent: null,
+      promotions: [],
+      paymentStatus: null,
+      timestamp: operationTimestamp,
+      error: {
+        message: errorMessage,
+        code: getErrorCode(error),
+        rolledBack: true,
+      },
+    };
+  }
+}
+
+/**
+ * Intentional failure test: Attempt registration when no seats remain
  * This demonstrates rollback behavior in action
  *
  * @param prisma - Prisma client instance
  * @param userId - UUID of user attempting to register
- * @param eventId - UUID of event with no capacity
+ * @param eventId - UUID of event with no seats remaining
  * @returns Transaction result showing the rollback
  */
 export async function testTransactionRollback(
@@ -214,31 +700,41 @@ export async function testTransactionRollback(
 ) {
   console.log('\n--- TRANSACTION ROLLBACK TEST ---');
   console.log(
-    'Scenario: User attempts to register for an event with capacity = 0',
+    'Scenario: User attempts to register for an event with seatsRemaining = 0',
   );
-  console.log('Expected: Registration fails, capacity update never executes\n');
+  console.log('Expected: Registration fails, seat update never executes\n');
 
   const eventBefore = await prisma.event.findUnique({
     where: { id: eventId },
-    select: { capacity: true, registrations: { select: { id: true } } },
+    select: {
+      capacity: true,
+      seatsRemaining: true,
+      registrations: { select: { id: true } },
+    },
   });
 
   console.log(`Event state BEFORE transaction attempt:`);
   console.log(`  - Capacity: ${eventBefore?.capacity}`);
+  console.log(`  - Seats remaining: ${eventBefore?.seatsRemaining}`);
   console.log(`  - Registration count: ${eventBefore?.registrations.length}`);
 
   const result = await registerUserForEvent(prisma, userId, eventId);
 
   const eventAfter = await prisma.event.findUnique({
     where: { id: eventId },
-    select: { capacity: true, registrations: { select: { id: true } } },
+    select: {
+      capacity: true,
+      seatsRemaining: true,
+      registrations: { select: { id: true } },
+    },
   });
 
   console.log(`\nEvent state AFTER transaction attempt:`);
   console.log(`  - Capacity: ${eventAfter?.capacity}`);
+  console.log(`  - Seats remaining: ${eventAfter?.seatsRemaining}`);
   console.log(`  - Registration count: ${eventAfter?.registrations.length}`);
   console.log(
-    `\nRollback Confirmation: Capacity unchanged = ${eventBefore?.capacity === eventAfter?.capacity ? '✓ YES (no partial writes)' : '✗ NO (INCONSISTENT!)'}`,
+    `\nRollback Confirmation: Seats unchanged = ${eventBefore?.seatsRemaining === eventAfter?.seatsRemaining ? '✓ YES (no partial writes)' : '✗ NO (INCONSISTENT!)'}`,
   );
   console.log(`Transaction Result:`, result);
 
@@ -266,12 +762,15 @@ export async function getUserRegistrations(
   pageSize: number = 10,
 ) {
   const skip = (page - 1) * pageSize;
+  const where = { userId, status: { not: RegistrationStatus.CANCELLED } };
 
   const [registrations, total] = await Promise.all([
     prisma.registration.findMany({
-      where: { userId },
+      where,
       select: {
         id: true,
+        status: true,
+        holdExpiresAt: true,
         createdAt: true,
         event: {
           select: {
@@ -280,6 +779,7 @@ export async function getUserRegistrations(
             date: true,
             location: true,
             capacity: true,
+            seatsRemaining: true,
           },
         },
       },
@@ -287,7 +787,7 @@ export async function getUserRegistrations(
       skip,
       take: pageSize,
     }),
-    prisma.registration.count({ where: { userId } }),
+    prisma.registration.count({ where }),
   ]);
 
   return {
@@ -302,66 +802,197 @@ export async function getUserRegistrations(
   };
 }
 
+export interface BulkRegistrationFailure {
+  userId: string;
+  error: { message: string; code: string };
+}
+
 /**
- * Bulk operation example: Register multiple users for an event
+ * Register multiple users for an event in one transaction
  *
- * Why createMany?
- * - Single database round-trip instead of N trips
- * - Significantly faster for bulk operations
- * - Atomic by default (all-or-nothing insert)
+ * Every user goes through the same checks as `registerUserForEvent`: the
+ * event must be open for registration, the ticket type (required when the
+ * event defines any) must be on sale and have quota left, and users who are
+ * already registered or were rejected are refused. CANCELLED registrations
+ * are reopened, and registered users leave the waitlist.
+ *
+ * Seats are claimed one user at a time with the same conditional updates, so
+ * concurrent bulk calls can never oversell the event. A user who cannot be
+ * registered is reported in `failures` and the others still go through;
+ * nobody is waitlisted.
+ *
+ * APPROVAL events record PENDING applications that take no seat. INVITE_ONLY
+ * events cannot be bulk registered, since each registration needs its own
+ * invitation. Priced tickets leave the registration PENDING_PAYMENT with a
+ * seat hold; the registrant pays through the payment endpoint.
  *
  * @param prisma - Prisma client
  * @param userIds - Array of user IDs to register
  * @param eventId - Event ID to register users for
- * @returns Count of created registrations
+ * @param ticketTypeId - Ticket type for every user; required when the event
+ *                       defines any
+ * @returns Count of registrations written and the users that failed; users
+ *          already registered are reported as DUPLICATE_ENTRY failures
  */
 export async function bulkRegisterUsersForEvent(
   prisma: PrismaClient,
   userIds: string[],
   eventId: string,
+  ticketTypeId?: string,
 ) {
+  const operationTimestamp = new Date();
+
   try {
-    // Pre-validation: Check event capacity can accommodate all registrations
-    const event = await prisma.event.findUnique({
-      where: { id: eventId },
-      select: { capacity: true, _count: { select: { registrations: true } } },
-    });
+    const heldSeats = await countActiveHolds(eventId);
 
-    if (!event) throw new Error(`Event not found: ${eventId}`);
+    const result = await prisma.$transaction(
+      async (tx) => {
+        const event = await tx.event.findUnique({
+          where: { id: eventId },
+          select: {
+            id: true,
+            title: true,
+            registrationMode: true,
+            status: true,
+            deletedAt: true,
+          },
+        });
 
-    const availableSlots = event.capacity;
-    const requestedRegistrations = userIds.length;
+        if (!event) {
+          throw new RegistrationError(
+            `Event not found: ${eventId}`,
+            ERROR_CODES.EVENT_NOT_FOUND,
+          );
+        }
 
-    if (availableSlots < requestedRegistrations) {
-      throw new Error(
-        `Insufficient capacity. Available: ${availableSlots}, Requested: ${requestedRegistrations}`,
-      );
-    }
+        assertEventOpenForRegistration(event);
+
+        if (event.registrationMode === RegistrationMode.INVITE_ONLY) {
+          throw new RegistrationError(
+            `Event '${event.title}' is invite-only; each user must redeem their own invitation`,
+            ERROR_CODES.INVITATION_REQUIRED,
+          );
+        }
+
+        const ticketType = await resolveTicketType(
+          tx,
+          eventId,
+          ticketTypeId,
+          operationTimestamp,
+        );
+
+        // Required questions cannot be answered on the users' behalf
+        const answers = await parseRegistrationAnswers(tx, eventId, undefined);
+
+        const requiresApproval =
+          event.registrationMode === RegistrationMode.APPROVAL;
+        const requiresPayment =
+          !requiresApproval && (ticketType?.priceCents ?? 0) > 0;
+
+        const existingUsers = await tx.user.findMany({
+          where: { id: { in: userIds } },
+          select: { id: true },
+        });
+        const existingUserIds = new Set(existingUsers.map(({ id }) => id));
+
+        const registrationIds: string[] = [];
+        const failures: BulkRegistrationFailure[] = [];
+
+        for (const userId of new Set(userIds)) {
+          try {
+            if (!existingUserIds.has(userId)) {
+              throw new RegistrationError(
+                `User not found: ${userId}`,
+                ERROR_CODES.USER_NOT_FOUND,
+              );
+            }
+
+            await assertCanRegister(tx, userId, eventId);
+
+            if (!requiresApproval) {
+              if (!(await claimSeats(tx, eventId, 1, heldSeats))) {
+                throw new RegistrationError(
+                  `Event '${event.title}' has no available capacity`,
+                  ERROR_CODES.EVENT_FULL,
+                );
+              }
+
+              if (ticketType && !(await claimTicketSeats(tx, ticketType.id))) {
+                await releaseSeats(tx, eventId);
+                throw new RegistrationError(
+                  `Ticket type '${ticketType.name}' is sold out`,
+                  ERROR_CODES.TICKET_TYPE_SOLD_OUT,
+                );
+              }
+            }
+          } catch (error) {
+            if (!(error instanceof RegistrationError)) {
+              throw error;
+            }
+            failures.push({
+              userId,
+              error: { message: error.message, code: getErrorCode(error) },
+            });
+            continue;
+          }
+
+          const { id } = await createOrReopenRegistration(
+            tx,
+            {
+              userId,
+              eventId,
+              ticketTypeId: ticketType?.id,
+              status: requiresApproval
+                ? RegistrationStatus.PENDING
+                : requiresPayment
+                  ? RegistrationStatus.PENDING_PAYMENT
+                  : RegistrationStatus.APPROVED,
+              holdExpiresAt: requiresPayment
+                ? getPaymentHoldExpiry(operationTimestamp)
+                : null,
+              answers,
+            },
+            operationTimestamp,
+          );
+
+          await tx.waitlist.deleteMany({ where: { userId, eventId } });
 
-    // Bulk create registrations
-    const result = await prisma.registration.createMany({
-      data: userIds.map((userId) => ({
-        userId,
-        eventId,
-      })),
-      skipDuplicates: true, // Skip users already registered (ignore constraint errors)
-    });
-
-    // Decrement capacity once for all registrations
-    await prisma.event.update({
-      where: { id: eventId },
-      data: { capacity: { decrement: result.count } },
-    });
+          registrationIds.push(id);
+        }
+
+        return {
+          registrationIds,
+          failures,
+          confirmed: !requiresApproval && !requiresPayment,
+        };
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 10000,
+      },
+    );
+
+    if (result.confirmed) {
+      for (const registrationId of result.registrationIds) {
+        await sendRegistrationTicket(prisma, registrationId);
+      }
+    }
 
     return {
       success: true,
-      registrationsCreated: result.count,
-      duplicatesSkipped: requestedRegistrations - result.count,
+      registrationsCreated: result.registrationIds.length,
+      failures: result.failures,
+      error: null,
     };
   } catch (error) {
     return {
       success: false,
-      error: error instanceof Error ? error.message : String(error),
+      registrationsCreated: 0,
+      failures: [],
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
     };
   }
 }
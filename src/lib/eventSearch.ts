@@ -0,0 +1,408 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { getErrorCode } from './errors';
+import { EVENT_TIME_SELECT } from './queryOptimizations';
+import { toEventSchedule } from './timeZones';
+import { EventListQuery } from './schemas/eventSchema';
+
+/**
+ * Event Listing, Filters, Facets and Search
+ *
+ * GET /api/events narrows the listing by category (slug), tags, a date
+ * window, location (case-insensitive substring), seat availability and
+ * organizer, and returns facet counts next to the page of events so the UI
+ * can show each filter chip with the number of events it would leave.
+ *
+ * Each facet is counted with every other active filter applied but not its
+ * own, so picking a category still shows how many events the other
+ * categories have. Tags are the exception: an event must carry every
+ * selected tag, so tag counts include the tag filter and tell how many
+ * events adding that tag would leave.
+ *
+ * The caller passes the base condition (the public listing, or one
+ * organizer's events); the filters and facets never widen it.
+ *
+ * Full-text search (GET /api/events/search and the events page) runs on
+ * Postgres over the publicly listed events:
+ *   - `Event.searchVector` is a generated tsvector column weighting the
+ *     title (A) over the location (B) and the description (C); Postgres
+ *     keeps it current, and it has a GIN index
+ *   - every search word is matched as a prefix, so "conf" finds
+ *     "conference"; all words must match
+ *   - titles are also matched by trigram similarity (pg_trgm), so a typo
+ *     like "confrence" still finds "Conference"; those matches rank below
+ *     real ones
+ *   - results are ordered by `ts_rank`, then by date, and carry the title
+ *     and a description snippet split into highlighted and plain segments
+ */
+
+/** Most values returned per facet, highest counts first */
+export const MAX_FACET_VALUES = 20;
+
+type EventFilterName = keyof EventListQuery;
+
+const EVENT_LIST_INCLUDE = {
+  category: { select: { slug: true, name: true } },
+  tags: { select: { tag: true }, orderBy: { tag: 'asc' } },
+} satisfies Prisma.EventInclude;
+
+/**
+ * Whether any listing filter is set; unfiltered pages are the ones cached
+ */
+export function hasEventFilters(filters: EventListQuery): boolean {
+  return Boolean(
+    filters.category ||
+    filters.tags.length > 0 ||
+    filters.from ||
+    filters.to ||
+    filters.location ||
+    filters.hasSeats !== undefined ||
+    filters.organizerId,
+  );
+}
+
+/**
+ * Build the where clause for the listing, optionally leaving one filter out
+ */
+function toEventWhere(
+  base: Prisma.EventWhereInput,
+  filters: EventListQuery,
+  except?: EventFilterName,
+): Prisma.EventWhereInput {
+  const conditions: Prisma.EventWhereInput[] = [base];
+
+  if (filters.category && except !== 'category') {
+    conditions.push({ category: { slug: filters.category } });
+  }
+
+  if (except !== 'tags') {
+    for (const tag of filters.tags) {
+      conditions.push({ tags: { some: { tag } } });
+    }
+  }
+
+  // Events taking place in the window, including ones that overlap its edges
+  if (filters.from) {
+    conditions.push({ endsAt: { gt: new Date(filters.from) } });
+  }
+
+  if (filters.to) {
+    conditions.push({ date: { lt: new Date(filters.to) } });
+  }
+
+  if (filters.location && except !== 'location') {
+    conditions.push({
+      location: { contains: filters.location, mode: 'insensitive' },
+    });
+  }
+
+  if (filters.hasSeats !== undefined && except !== 'hasSeats') {
+    conditions.push({
+      seatsRemaining: filters.hasSeats ? { gt: 0 } : 0,
+    });
+  }
+
+  if (filters.organizerId && except !== 'organizerId') {
+    conditions.push({ organizerId: filters.organizerId });
+  }
+
+  return { AND: conditions };
+}
+
+async function getEventFacets(
+  prisma: PrismaClient,
+  base: Prisma.EventWhereInput,
+  filters: EventListQuery,
+) {
+  const seatsWhere = toEventWhere(base, filters, 'hasSeats');
+
+  const [categoryGroups, tagGroups, organizerGroups, locationGroups, seats] =
+    await Promise.all([
+      prisma.event.groupBy({
+        by: ['categoryId'],
+        where: {
+          ...toEventWhere(base, filters, 'category'),
+          categoryId: { not: null },
+        },
+        _count: { categoryId: true },
+        orderBy: { _count: { categoryId: 'desc' } },
+        take: MAX_FACET_VALUES,
+      }),
+      prisma.eventTag.groupBy({
+        by: ['tag'],
+        where: { event: toEventWhere(base, filters) },
+        _count: { tag: true },
+        orderBy: { _count: { tag: 'desc' } },
+        take: MAX_FACET_VALUES,
+      }),
+      prisma.event.groupBy({
+        by: ['organizerId'],
+        where: toEventWhere(base, filters, 'organizerId'),
+        _count: { organizerId: true },
+        orderBy: { _count: { organizerId: 'desc' } },
+        take: MAX_FACET_VALUES,
+      }),
+      prisma.event.groupBy({
+        by: ['location'],
+        where: toEventWhere(base, filters, 'location'),
+        _count: { location: true },
+        orderBy: { _count: { location: 'desc' } },
+        take: MAX_FACET_VALUES,
+      }),
+      Promise.all([
+        prisma.event.count({
+          where: { ...seatsWhere, seatsRemaining: { gt: 0 } },
+        }),
+        prisma.event.count({ where: { ...seatsWhere, seatsRemaining: 0 } }),
+      ]),
+    ]);
+
+  const [categories, organizers] = await Promise.all([
+    prisma.category.findMany({
+      where: {
+        id: { in: categoryGroups.map((group) => group.categoryId!) },
+      },
+      select: { id: true, slug: true, name: true },
+    }),
+    prisma.user.findMany({
+      where: { id: { in: organizerGroups.map((group) => group.organizerId) } },
+      select: { id: true, name: true },
+    }),
+  ]);
+
+  return {
+    categories: categoryGroups.flatMap((group) => {
+      const category = categories.find(({ id }) => id === group.categoryId);
+      return category
+        ? [
+            {
+              slug: category.slug,
+              name: category.name,
+              count: group._count.categoryId,
+            },
+          ]
+        : [];
+    }),
+    tags: tagGroups.map((group) => ({
+      tag: group.tag,
+      count: group._count.tag,
+    })),
+    organizers: organizerGroups.map((group) => ({
+      id: group.organizerId,
+      name: organizers.find(({ id }) => id === group.organizerId)?.name ?? '',
+      count: group._count.organizerId,
+    })),
+    locations: locationGroups.map((group) => ({
+      location: group.location,
+      count: group._count.location,
+    })),
+    seats: { available: seats[0], soldOut: seats[1] },
+  };
+}
+
+/**
+ * One page of filtered events, with the total and facet counts
+ *
+ * @param prisma - Prisma client instance
+ * @param base - Events the caller may list, e.g. PUBLICLY_LISTED_EVENTS
+ * @param filters - Validated listing filters
+ * @param page - 1-based page number
+ * @param limit - Page size
+ * @returns The events (every column, plus category and tag names), the
+ *          number of events matching the filters and the facets
+ */
+export async function listEvents(
+  prisma: PrismaClient,
+  base: Prisma.EventWhereInput,
+  filters: EventListQuery,
+  page: number,
+  limit: number,
+) {
+  const where = toEventWhere(base, filters);
+
+  const [events, total, facets] = await Promise.all([
+    prisma.event.findMany({
+      where,
+      include: EVENT_LIST_INCLUDE,
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { date: 'asc' },
+    }),
+    prisma.event.count({ where }),
+    getEventFacets(prisma, base, filters),
+  ]);
+
+  return {
+    events: events.map((event) => ({
+      ...event,
+      tags: event.tags.map(({ tag }) => tag),
+    })),
+    total,
+    facets,
+  };
+}
+
+/** Most words of a search that are matched */
+export const MAX_SEARCH_TERMS = 8;
+
+// Delimit matches in ts_headline output; control characters never appear in
+// event text
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+
+const TITLE_HEADLINE_OPTIONS = `HighlightAll=true, StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_END}"`;
+
+const SNIPPET_HEADLINE_OPTIONS = `MaxFragments=2, MaxWords=25, MinWords=10, FragmentDelimiter=" … ", StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_END}"`;
+
+const SEARCH_RESULT_SELECT = {
+  id: true,
+  title: true,
+  ...EVENT_TIME_SELECT,
+  location: true,
+  capacity: true,
+  seatsRemaining: true,
+  category: { select: { slug: true, name: true } },
+  tags: { select: { tag: true }, orderBy: { tag: 'asc' } },
+} satisfies Prisma.EventSelect;
+
+/** A piece of highlighted text; matched words have `highlighted` set */
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+interface SearchRow {
+  id: string;
+  rank: number;
+  titleHighlight: string;
+  snippetHighlight: string;
+  total: bigint;
+}
+
+/**
+ * Turn a search into a tsquery matching every word as a prefix
+ *
+ * Only letters and digits are kept, so the result is always valid tsquery
+ * syntax.
+ *
+ * @returns The tsquery text, or null when the search has no words
+ */
+export function toPrefixQuery(text: string): string | null {
+  const terms = text
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu)
+    ?.slice(0, MAX_SEARCH_TERMS);
+
+  return terms?.length ? terms.map((term) => `${term}:*`).join(' & ') : null;
+}
+
+/**
+ * Split ts_headline output into highlighted and plain segments
+ */
+export function toHighlightSegments(headline: string): HighlightSegment[] {
+  return headline.split(HIGHLIGHT_START).flatMap((part, index) => {
+    if (index === 0) {
+      return part ? [{ text: part, highlighted: false }] : [];
+    }
+
+    const [match, rest] = part.split(HIGHLIGHT_END);
+    return [
+      { text: match, highlighted: true },
+      ...(rest ? [{ text: rest, highlighted: false }] : []),
+    ];
+  });
+}
+
+/**
+ * Full-text search over the publicly listed events
+ *
+ * @param prisma - Prisma client instance
+ * @param text - What the user typed
+ * @param pageNumber - 1-based page number
+ * @param pageSize - Results per page
+ * @returns The page of results, best match first, with highlights and
+ *          pagination details
+ */
+export async function searchEvents(
+  prisma: PrismaClient,
+  text: string,
+  pageNumber: number,
+  pageSize: number,
+) {
+  const page = Math.max(1, pageNumber);
+  const size = Math.min(50, Math.max(1, pageSize));
+
+  try {
+    const query = toPrefixQuery(text);
+
+    // The conditions are those of PUBLICLY_LISTED_EVENTS; trigram-only
+    // matches score at most 0.1, below any title or location word match
+    const rows = query
+      ? await prisma.$queryRaw<SearchRow[]>`
+          SELECT e."id",
+                 ts_rank(e."searchVector", q.query)
+                   + 0.1 * word_similarity(${text}, e."title") AS "rank",
+                 ts_headline('english', e."title", q.query,
+                   ${TITLE_HEADLINE_OPTIONS}) AS "titleHighlight",
+                 ts_headline('english', e."description", q.query,
+                   ${SNIPPET_HEADLINE_OPTIONS}) AS "snippetHighlight",
+                 COUNT(*) OVER () AS "total"
+          FROM "Event" e, to_tsquery('english', ${query}) AS q(query)
+          WHERE e."status" = 'PUBLISHED'
+            AND e."deletedAt" IS NULL
+            AND e."registrationMode" <> 'INVITE_ONLY'
+            AND (e."searchVector" @@ q.query OR ${text} <% e."title")
+          ORDER BY "rank" DESC, e."date" ASC, e."id" ASC
+          LIMIT ${size} OFFSET ${(page - 1) * size}`
+      : [];
+
+    const events = await prisma.event.findMany({
+      where: { id: { in: rows.map((row) => row.id) } },
+      select: SEARCH_RESULT_SELECT,
+    });
+
+    const results = rows.flatMap((row) => {
+      const event = events.find(({ id }) => id === row.id);
+      return event
+        ? [
+            {
+              ...event,
+              tags: event.tags.map(({ tag }) => tag),
+              schedule: toEventSchedule(event),
+              rank: row.rank,
+              highlights: {
+                title: toHighlightSegments(row.titleHighlight),
+                snippet: toHighlightSegments(row.snippetHighlight),
+              },
+            },
+          ]
+        : [];
+    });
+
+    const totalRecords = rows.length > 0 ? Number(rows[0].total) : 0;
+    const totalPages = Math.ceil(totalRecords / size);
+
+    return {
+      success: true,
+      results,
+      pagination: {
+        currentPage: page,
+        pageSize: size,
+        totalRecords,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+      error: null,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      results: [],
+      pagination: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
@@ -0,0 +1,1142 @@
+import {
+  EventStatus,
+  Prisma,
+  PrismaClient,
+  RegistrationMode,
+} from '@prisma/client';
+import { ERROR_CODES } from './errorCodes';
+import { RegistrationError, getErrorCode } from './errors';
+import { invalidateEventListCache } from './eventCache';
+import { cancelRegistration, registerUserForEvent } from './eventRegistration';
+import { revokeUnclaimedGroupSeats } from './groupRegistration';
+import logger from './logger';
+import { Actor, canManageEvent } from './permissions';
+import {
+  RecurrenceRule,
+  expandRecurrence,
+  formatRRule,
+  isRecurrenceExhausted,
+} from './recurrence';
+import { toRegistrationQuestionCreateData } from './registrationQuestions';
+import { ACTIVE_STATUSES } from './registrationStatus';
+import { sanitize } from './security';
+import { getTicketQuotaError, toTicketTypeCreateData } from './ticketTypes';
+import { assertRoomBookable } from './venues';
+import {
+  WaitlistPromotion,
+  notifyWaitlistPromotions,
+  promoteWaitlistedUsers,
+} from './waitlist';
+import { TicketTypeInput } from './schemas/eventSchema';
+import {
+  CreateEventSeriesRequest,
+  SeriesRegistrationRequest,
+  UpdateSeriesOccurrenceRequest,
+} from './schemas/eventSeriesSchema';
+import { RegistrationQuestionInput } from './schemas/registrationFormSchema';
+
+/**
+ * Recurring Event Series
+ *
+ * A series holds a recurrence rule (src/lib/recurrence.ts) and the template
+ * its occurrences are created from. Occurrences are ordinary Events linked
+ * back to the series, so registration, payments, check-in and everything
+ * else work on them unchanged.
+ *
+ * Occurrences are generated SERIES_GENERATION_HORIZON_DAYS (default 90)
+ * ahead: when the series is created, and then by the background job in
+ * src/lib/jobs.ts as time moves on. `generatedUntil` records the last
+ * occurrence generated and is advanced with a conditional update, so two
+ * instances running the job cannot generate the same occurrences twice.
+ *
+ * Edits apply to one occurrence (`THIS`) or to an occurrence and every later
+ * one (`THIS_AND_FUTURE`); the latter also updates the template so
+ * occurrences generated afterwards pick the change up. Changing the
+ * recurrence rule itself means creating a new series.
+ *
+ * Series registration registers a user for every upcoming occurrence and is
+ * remembered, so occurrences generated later register them too.
+ */
+
+export const SERIES_GENERATION_HORIZON_DAYS =
+  Number(process.env.SERIES_GENERATION_HORIZON_DAYS) || 90;
+
+/** Occurrences generated per series in one pass; the next pass continues */
+const MAX_OCCURRENCES_PER_PASS = 100;
+
+const SERIES_SELECT = {
+  id: true,
+  title: true,
+  description: true,
+  location: true,
+  capacity: true,
+  cancellationCutoffHours: true,
+  registrationMode: true,
+  ticketTypes: true,
+  questions: true,
+  startsAt: true,
+  endsAt: true,
+  timeZone: true,
+  frequency: true,
+  interval: true,
+  byWeekday: true,
+  until: true,
+  count: true,
+  exceptions: true,
+  generatedUntil: true,
+  organizerId: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.EventSeriesSelect;
+
+const OCCURRENCE_SELECT = {
+  id: true,
+  title: true,
+  date: true,
+  endsAt: true,
+  timeZone: true,
+  location: true,
+  capacity: true,
+  seatsRemaining: true,
+  registrationMode: true,
+  seriesOccurrenceAt: true,
+} satisfies Prisma.EventSelect;
+
+type SeriesRecord = Prisma.EventSeriesGetPayload<{
+  select: typeof SERIES_SELECT;
+}>;
+
+export type SeriesOccurrenceOutcome =
+  | { eventId: string; date: Date; result: 'REGISTERED'; status: string }
+  | { eventId: string; date: Date; result: 'WAITLISTED' }
+  | {
+      eventId: string;
+      date: Date;
+      result: 'FAILED';
+      error: { message: string; code: string };
+    };
+
+function toRecurrenceRule(series: SeriesRecord): RecurrenceRule {
+  return {
+    startsAt: series.startsAt,
+    frequency: series.frequency,
+    interval: series.interval,
+    byWeekday: series.byWeekday,
+    until: series.until,
+    count: series.count,
+    exceptions: series.exceptions,
+    timeZone: series.timeZone,
+  };
+}
+
+function toSeriesResponse(series: SeriesRecord) {
+  return { ...series, rrule: formatRRule(toRecurrenceRule(series)) };
+}
+
+function seriesNotFound(seriesId: string) {
+  return new RegistrationError(
+    `Event series not found: ${seriesId}`,
+    ERROR_CODES.NOT_FOUND,
+  );
+}
+
+/**
+ * Copy the series' ticket types onto an occurrence, moving their sales
+ * windows by the same offset as the occurrence from the first one
+ */
+function shiftTicketTypes(
+  series: SeriesRecord,
+  occurrenceAt: Date,
+): TicketTypeInput[] {
+  const offset = occurrenceAt.getTime() - series.startsAt.getTime();
+  const shift = (date?: string) =>
+    date && new Date(new Date(date).getTime() + offset).toISOString();
+
+  return (series.ticketTypes as TicketTypeInput[]).map((ticketType) => ({
+    ...ticketType,
+    salesStartAt: shift(ticketType.salesStartAt),
+    salesEndAt: shift(ticketType.salesEndAt),
+  }));
+}
+
+/**
+ * Create the occurrences due within the generation horizon and advance
+ * `generatedUntil`
+ *
+ * @returns The occurrences created
+ */
+async function generateOccurrences(
+  tx: Prisma.TransactionClient,
+  series: SeriesRecord,
+  now: Date,
+) {
+  const horizon = new Date(
+    now.getTime() + SERIES_GENERATION_HORIZON_DAYS * 24 * 60 * 60 * 1000,
+  );
+  const after =
+    series.generatedUntil && series.generatedUntil > now
+      ? series.generatedUntil
+      : now;
+
+  const starts = expandRecurrence(toRecurrenceRule(series), {
+    after,
+    until: horizon,
+    limit: MAX_OCCURRENCES_PER_PASS,
+  });
+
+  if (starts.length === 0) {
+    return [];
+  }
+
+  // Conditional on the value read, so a concurrent pass over the same series
+  // fails here and rolls back instead of duplicating occurrences
+  const { count } = await tx.eventSeries.updateMany({
+    where: { id: series.id, generatedUntil: series.generatedUntil },
+    data: { generatedUntil: starts[starts.length - 1] },
+  });
+
+  if (count === 0) {
+    throw new RegistrationError(
+      `Occurrences of series ${series.id} are already being generated`,
+      ERROR_CODES.OPERATION_FAILED,
+    );
+  }
+
+  const duration = series.endsAt.getTime() - series.startsAt.getTime();
+  const occurrences = [];
+
+  for (const occurrenceAt of starts) {
+    occurrences.push(
+      await tx.event.create({
+        data: {
+          title: series.title,
+          description: series.description,
+          location: series.location,
+          capacity: series.capacity,
+          seatsRemaining: series.capacity,
+          cancellationCutoffHours: series.cancellationCutoffHours,
+          registrationMode: series.registrationMode,
+          date: occurrenceAt,
+          endsAt: new Date(occurrenceAt.getTime() + duration),
+          timeZone: series.timeZone,
+          // Occurrences are listed as soon as they are generated
+          status: EventStatus.PUBLISHED,
+          publishedAt: now,
+          seriesOccurrenceAt: occurrenceAt,
+          seriesId: series.id,
+          organizerId: series.organizerId,
+          ticketTypes: {
+            create: toTicketTypeCreateData(
+              shiftTicketTypes(series, occurrenceAt),
+            ),
+          },
+          questions: {
+            create: toRegistrationQuestionCreateData(
+              series.questions as RegistrationQuestionInput[],
+            ),
+          },
+        },
+        select: OCCURRENCE_SELECT,
+      }),
+    );
+  }
+
+  return occurrences;
+}
+
+/**
+ * Create a series and its first occurrences
+ *
+ * @param prisma - Prisma client instance
+ * @param data - Validated series definition
+ * @param actor - Caller; becomes the organizer of the series
+ */
+export async function createEventSeries(
+  prisma: PrismaClient,
+  data: CreateEventSeriesRequest,
+  actor: Actor,
+) {
+  const operationTimestamp = new Date();
+
+  try {
+    const ticketQuotaError = getTicketQuotaError(
+      data.capacity,
+      data.ticketTypes,
+    );
+    if (ticketQuotaError) {
+      throw new RegistrationError(
+        ticketQuotaError,
+        ERROR_CODES.VALIDATION_ERROR,
+      );
+    }
+
+    const { series, occurrences } = await prisma.$transaction(
+      async (tx) => {
+        const series = await tx.eventSeries.create({
+          data: {
+            title: sanitize(data.title),
+            description: sanitize(data.description),
+            location: sanitize(data.location),
+            capacity: data.capacity,
+            cancellationCutoffHours: data.cancellationCutoffHours,
+            registrationMode: data.registrationMode,
+            ticketTypes: data.ticketTypes ?? [],
+            // Question ids only make sense for an existing event's form
+            questions: (data.questions ?? []).map((question) => ({
+              label: question.label,
+              type: question.type,
+              required: question.required,
+              options: question.options,
+            })),
+            startsAt: new Date(data.startsAt),
+            endsAt: new Date(data.endsAt),
+            timeZone: data.timeZone,
+            frequency: data.recurrence.frequency,
+            interval: data.recurrence.interval,
+            byWeekday: data.recurrence.byWeekday,
+            until: data.recurrence.until
+              ? new Date(data.recurrence.until)
+              : null,
+            count: data.recurrence.count ?? null,
+            exceptions: data.recurrence.exceptions.map(
+              (exception) => new Date(exception),
+            ),
+            organizerId: actor.userId,
+          },
+          select: SERIES_SELECT,
+        });
+
+        const occurrences = await generateOccurrences(
+          tx,
+          series,
+          operationTimestamp,
+        );
+
+        return { series, occurrences };
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 30000,
+      },
+    );
+
+    // Occurrences are published as soon as they are generated
+    if (occurrences.length > 0) {
+      await invalidateEventListCache();
+    }
+
+    if (occurrences.length === 0) {
+      logger.warn({
+        message: 'Event series created without occurrences',
+        seriesId: series.id,
+      });
+    }
+
+    logger.info({
+      message: 'Event series created',
+      seriesId: series.id,
+      organizerId: actor.userId,
+      occurrences: occurrences.length,
+    });
+
+    return {
+      success: true,
+      series: toSeriesResponse({
+        ...series,
+        generatedUntil:
+          occurrences[occurrences.length - 1]?.date ?? series.generatedUntil,
+      }),
+      occurrences,
+      error: null,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      series: null,
+      occurrences: [],
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Fetch a series with its occurrences, earliest first
+ *
+ * @param prisma - Prisma client instance
+ * @param seriesId - UUID of the series
+ * @param upcomingOnly - Leave out occurrences that have already started
+ */
+export async function getEventSeries(
+  prisma: PrismaClient,
+  seriesId: string,
+  upcomingOnly: boolean = false,
+) {
+  try {
+    const series = await prisma.eventSeries.findUnique({
+      where: { id: seriesId },
+      select: {
+        ...SERIES_SELECT,
+        events: {
+          where: {
+            deletedAt: null,
+            ...(upcomingOnly ? { date: { gt: new Date() } } : {}),
+          },
+          select: OCCURRENCE_SELECT,
+          orderBy: { date: 'asc' },
+        },
+      },
+    });
+
+    if (!series) {
+      throw seriesNotFound(seriesId);
+    }
+
+    const { events: occurrences, ...rest } = series;
+
+    return {
+      success: true,
+      series: toSeriesResponse(rest),
+      occurrences,
+      error: null,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      series: null,
+      occurrences: [],
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Load a series the actor organizes, and one of its occurrences
+ */
+async function getManagedOccurrence(
+  tx: Prisma.TransactionClient,
+  seriesId: string,
+  eventId: string,
+  actor: Actor,
+) {
+  const series = await tx.eventSeries.findUnique({
+    where: { id: seriesId },
+    select: SERIES_SELECT,
+  });
+
+  if (!series) {
+    throw seriesNotFound(seriesId);
+  }
+
+  if (!canManageEvent(actor, series)) {
+    throw new RegistrationError(
+      'Only the series organizer can change its occurrences',
+      ERROR_CODES.FORBIDDEN,
+    );
+  }
+
+  const event = await tx.event.findFirst({
+    where: { id: eventId, seriesId, deletedAt: null },
+    select: { id: true, date: true, seriesOccurrenceAt: true },
+  });
+
+  if (!event) {
+    throw new RegistrationError(
+      `Event ${eventId} is not an occurrence of this series`,
+      ERROR_CODES.EVENT_NOT_FOUND,
+    );
+  }
+
+  return { series, event };
+}
+
+/**
+ * Edit one occurrence, or an occurrence and all later ones
+ *
+ * Only draft occurrences can be moved here; published ones are moved with
+ * `rescheduleEvent` (see src/lib/eventChanges.ts) so attendees are told.
+ * A capacity change keeps the seats already taken: seatsRemaining moves by
+ * the same amount, and the change is refused for an occurrence that already
+ * has more registrations than the new capacity. Added seats go to each
+ * occurrence's waitlist first.
+ *
+ * @param prisma - Prisma client instance
+ * @param seriesId - UUID of the series
+ * @param eventId - UUID of the occurrence being edited
+ * @param changes - Validated changes and their scope
+ * @param actor - Caller; must be the series organizer or an admin
+ * @returns The occurrences that were updated
+ */
+export async function updateSeriesOccurrence(
+  prisma: PrismaClient,
+  seriesId: string,
+  eventId: string,
+  changes: UpdateSeriesOccurrenceRequest,
+  actor: Actor,
+) {
+  const { scope, capacity, date, ...rest } = changes;
+
+  const fields = {
+    title: rest.title && sanitize(rest.title),
+    description:
+      rest.description === undefined ? undefined : sanitize(rest.description),
+    location: rest.location && sanitize(rest.location),
+    cancellationCutoffHours: rest.cancellationCutoffHours,
+    registrationMode: rest.registrationMode,
+  };
+
+  try {
+    const { occurrences, promotions } = await prisma.$transaction(
+      async (tx) => {
+        const { series, event } = await getManagedOccurrence(
+          tx,
+          seriesId,
+          eventId,
+          actor,
+        );
+
+        const targets = await tx.event.findMany({
+          where:
+            scope === 'THIS'
+              ? { id: event.id }
+              : {
+                  seriesId,
+                  seriesOccurrenceAt: { gte: event.seriesOccurrenceAt! },
+                  deletedAt: null,
+                },
+          select: {
+            id: true,
+            date: true,
+            endsAt: true,
+            status: true,
+            roomId: true,
+            capacity: true,
+            ticketTypes: { select: { quota: true } },
+          },
+        });
+
+        const promotions: WaitlistPromotion[] = [];
+
+        for (const target of targets) {
+          if (date && target.status !== EventStatus.DRAFT) {
+            throw new RegistrationError(
+              'Published occurrences are moved with POST /api/events/:id/reschedule so attendees are notified',
+              ERROR_CODES.INVALID_INPUT,
+            );
+          }
+
+          // A moved occurrence keeps its duration
+          const moved = date
+            ? {
+                date: new Date(date),
+                endsAt: new Date(
+                  target.endsAt.getTime() +
+                    new Date(date).getTime() -
+                    target.date.getTime(),
+                ),
+              }
+            : {};
+
+          if (target.roomId && (date || capacity !== undefined)) {
+            await assertRoomBookable(tx, {
+              roomId: target.roomId,
+              startsAt: moved.date ?? target.date,
+              endsAt: moved.endsAt ?? target.endsAt,
+              capacity: capacity ?? target.capacity,
+              excludeEventId: target.id,
+            });
+          }
+
+          if (capacity === undefined) {
+            await tx.event.update({
+              where: { id: target.id },
+              data: { ...fields, ...moved },
+            });
+            continue;
+          }
+
+          const ticketQuota = target.ticketTypes.reduce(
+            (sum, ticketType) => sum + ticketType.quota,
+            0,
+          );
+
+          if (ticketQuota > capacity) {
+            throw new RegistrationError(
+              `Ticket type quotas (${ticketQuota}) of the occurrence on ${target.date.toISOString()} exceed the new capacity (${capacity})`,
+              ERROR_CODES.VALIDATION_ERROR,
+            );
+          }
+
+          const difference = capacity - target.capacity;
+
+          // Shrinking only works while enough seats are still free
+          const { count } = await tx.event.updateMany({
+            where: {
+              id: target.id,
+              seatsRemaining: { gte: Math.max(0, -difference) },
+            },
+            data: {
+              ...fields,
+              ...moved,
+              capacity,
+              seatsRemaining: { increment: difference },
+            },
+          });
+
+          if (count === 0) {
+            throw new RegistrationError(
+              `The occurrence on ${target.date.toISOString()} already has more registrations than the new capacity (${capacity})`,
+              ERROR_CODES.INVALID_INPUT,
+            );
+          }
+
+          // Added seats go to the head of the occurrence's waitlist first
+          if (difference > 0) {
+            promotions.push(...(await promoteWaitlistedUsers(tx, target.id)));
+          }
+        }
+
+        if (scope === 'THIS_AND_FUTURE') {
+          if (capacity !== undefined) {
+            const ticketQuotaError = getTicketQuotaError(
+              capacity,
+              series.ticketTypes as TicketTypeInput[],
+            );
+            if (ticketQuotaError) {
+              throw new RegistrationError(
+                ticketQuotaError,
+                ERROR_CODES.VALIDATION_ERROR,
+              );
+            }
+          }
+
+          await tx.eventSeries.update({
+            where: { id: seriesId },
+            data: { ...fields, capacity },
+          });
+        }
+
+        const occurrences = await tx.event.findMany({
+          where: { id: { in: targets.map(({ id }) => id) } },
+          select: OCCURRENCE_SELECT,
+          orderBy: { date: 'asc' },
+        });
+
+        return { occurrences, promotions };
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 30000,
+      },
+    );
+
+    await invalidateEventListCache();
+    await notifyWaitlistPromotions(prisma, promotions);
+
+    logger.info({
+      message: 'Series occurrences updated',
+      seriesId,
+      eventId,
+      scope,
+      updated: occurrences.length,
+    });
+
+    return { success: true, occurrences, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      occurrences: [],
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Skip one occurrence: soft-delete its event, as `deleteEvent` does, and
+ * record it as an exception so it is never generated again
+ *
+ * Refused while the occurrence has active registrations, a waitlist or
+ * payments on record; those have to be cancelled and settled first.
+ *
+ * @param prisma - Prisma client instance
+ * @param seriesId - UUID of the series
+ * @param eventId - UUID of the occurrence to skip
+ * @param actor - Caller; must be the series organizer or an admin
+ */
+export async function skipSeriesOccurrence(
+  prisma: PrismaClient,
+  seriesId: string,
+  eventId: string,
+  actor: Actor,
+) {
+  try {
+    const skippedAt = await prisma.$transaction(
+      async (tx) => {
+        const { event } = await getManagedOccurrence(
+          tx,
+          seriesId,
+          eventId,
+          actor,
+        );
+
+        // Marked first so the row lock keeps new registrations out while
+        // the remaining ones are counted; throwing below rolls it back
+        const { count } = await tx.event.updateMany({
+          where: { id: eventId, deletedAt: null },
+          data: {
+            deletedAt: new Date(),
+            publishAt: null,
+            previewTokenHash: null,
+            previewTokenExpiresAt: null,
+            roomId: null,
+          },
+        });
+
+        if (count === 0) {
+          throw new RegistrationError(
+            `Event ${eventId} is not an occurrence of this series`,
+            ERROR_CODES.EVENT_NOT_FOUND,
+          );
+        }
+
+        const [activeRegistrations, waitlisted, payments] = await Promise.all([
+          tx.registration.count({
+            where: { eventId, status: { in: ACTIVE_STATUSES } },
+          }),
+          tx.waitlist.count({ where: { eventId } }),
+          tx.payment.count({ where: { eventId } }),
+        ]);
+
+        if (activeRegistrations > 0 || waitlisted > 0 || payments > 0) {
+          throw new RegistrationError(
+            `The occurrence on ${event.date.toISOString()} has registrations, a waitlist or payments; cancel them before skipping it`,
+            ERROR_CODES.INVALID_INPUT,
+          );
+        }
+
+        await revokeUnclaimedGroupSeats(tx, eventId);
+        await tx.eventSeries.update({
+          where: { id: seriesId },
+          data: { exceptions: { push: event.seriesOccurrenceAt! } },
+        });
+
+        return event.seriesOccurrenceAt!;
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 10000,
+      },
+    );
+
+    await invalidateEventListCache();
+
+    logger.info({
+      message: 'Series occurrence skipped',
+      seriesId,
+      eventId,
+      occurrenceAt: skippedAt,
+    });
+
+    return { success: true, skippedAt, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      skippedAt: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Register a series subscriber for one occurrence
+ *
+ * The ticket type is matched by name and answers are re-keyed from question
+ * label to the occurrence's question ids. Answers to labels the occurrence
+ * does not ask are left out.
+ */
+async function registerForOccurrence(
+  prisma: PrismaClient,
+  subscription: {
+    userId: string;
+    ticketTypeName: string | null;
+    answers: Prisma.JsonValue;
+    joinWaitlist: boolean;
+  },
+  occurrence: { id: string; date: Date },
+): Promise<SeriesOccurrenceOutcome> {
+  const base = { eventId: occurrence.id, date: occurrence.date };
+
+  const [ticketTypes, questions] = await Promise.all([
+    prisma.ticketType.findMany({
+      where: { eventId: occurrence.id },
+      select: { id: true, name: true },
+    }),
+    prisma.registrationQuestion.findMany({
+      where: { eventId: occurrence.id },
+      select: { id: true, label: true },
+    }),
+  ]);
+
+  const ticketType = subscription.ticketTypeName
+    ? ticketTypes.find(({ name }) => name === subscription.ticketTypeName)
+    : undefined;
+
+  if (subscription.ticketTypeName && !ticketType) {
+    return {
+      ...base,
+      result: 'FAILED',
+      error: {
+        message: `This occurrence has no '${subscription.ticketTypeName}' ticket type`,
+        code: ERROR_CODES.NOT_FOUND,
+      },
+    };
+  }
+
+  const answersByLabel = (subscription.answers ?? {}) as Record<
+    string,
+    unknown
+  >;
+  const answers = Object.fromEntries(
+    questions
+      .filter(({ label }) => answersByLabel[label] !== undefined)
+      .map(({ id, label }) => [id, answersByLabel[label]]),
+  );
+
+  const result = await registerUserForEvent(
+    prisma,
+    subscription.userId,
+    occurrence.id,
+    false,
+    {
+      joinWaitlist: subscription.joinWaitlist,
+      ticketTypeId: ticketType?.id,
+      answers,
+    },
+  );
+
+  if (!result.success) {
+    return { ...base, result: 'FAILED', error: result.error! };
+  }
+
+  return result.registration
+    ? { ...base, result: 'REGISTERED', status: result.registration.status }
+    : { ...base, result: 'WAITLISTED' };
+}
+
+/**
+ * Register a user for every upcoming occurrence of a series, and for
+ * occurrences generated later
+ *
+ * Each occurrence is registered separately, so one that is full or sold out
+ * is reported back without affecting the others. Registering again updates
+ * the preferences and retries the occurrences the user is not registered
+ * for yet.
+ *
+ * @param prisma - Prisma client instance
+ * @param seriesId - UUID of the series
+ * @param userId - UUID of the user registering
+ * @param options - Ticket type name, waitlist preference and answers keyed
+ *                  by question label
+ * @returns One outcome per upcoming occurrence
+ */
+export async function registerForSeries(
+  prisma: PrismaClient,
+  seriesId: string,
+  userId: string,
+  options: SeriesRegistrationRequest,
+) {
+  const operationTimestamp = new Date();
+
+  try {
+    const series = await prisma.eventSeries.findUnique({
+      where: { id: seriesId },
+      select: { id: true, title: true, registrationMode: true },
+    });
+
+    if (!series) {
+      throw seriesNotFound(seriesId);
+    }
+
+    if (series.registrationMode === RegistrationMode.INVITE_ONLY) {
+      throw new RegistrationError(
+        `Series '${series.title}' is invite-only; accept the invitation to each occurrence instead`,
+        ERROR_CODES.INVITATION_REQUIRED,
+      );
+    }
+
+    const subscription = await prisma.seriesRegistration.upsert({
+      where: { seriesId_userId: { seriesId, userId } },
+      create: {
+        seriesId,
+        userId,
+        ticketTypeName: options.ticketTypeName,
+        answers: options.answers as Prisma.InputJsonValue,
+        joinWaitlist: options.joinWaitlist,
+      },
+      update: {
+        ticketTypeName: options.ticketTypeName ?? null,
+        answers: (options.answers as Prisma.InputJsonValue) ?? Prisma.DbNull,
+        joinWaitlist: options.joinWaitlist,
+      },
+      select: {
+        id: true,
+        userId: true,
+        ticketTypeName: true,
+        answers: true,
+        joinWaitlist: true,
+        createdAt: true,
+      },
+    });
+
+    const occurrences = await prisma.event.findMany({
+      where: {
+        seriesId,
+        deletedAt: null,
+        date: { gt: operationTimestamp },
+        registrations: {
+          none: { userId, status: { in: ACTIVE_STATUSES } },
+        },
+        waitlist: { none: { userId } },
+      },
+      select: { id: true, date: true },
+      orderBy: { date: 'asc' },
+    });
+
+    const outcomes: SeriesOccurrenceOutcome[] = [];
+    for (const occurrence of occurrences) {
+      outcomes.push(
+        await registerForOccurrence(prisma, subscription, occurrence),
+      );
+    }
+
+    logger.info({
+      message: 'Registered for event series',
+      seriesId,
+      userId,
+      registered: outcomes.filter(({ result }) => result === 'REGISTERED')
+        .length,
+      failed: outcomes.filter(({ result }) => result === 'FAILED').length,
+    });
+
+    return { success: true, subscription, outcomes, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      subscription: null,
+      outcomes: [],
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Stop a user's series registration and cancel their registrations for
+ * upcoming occurrences
+ *
+ * Cancellations follow the usual rules (see cancelRegistration), so an
+ * occurrence inside its cancellation window stays registered and is reported
+ * in `failed`. Waitlist places for upcoming occurrences are given up.
+ *
+ * @param prisma - Prisma client instance
+ * @param seriesId - UUID of the series
+ * @param actor - The registered user
+ */
+export async function unregisterFromSeries(
+  prisma: PrismaClient,
+  seriesId: string,
+  actor: Actor,
+) {
+  const operationTimestamp = new Date();
+
+  try {
+    const { count } = await prisma.seriesRegistration.deleteMany({
+      where: { seriesId, userId: actor.userId },
+    });
+
+    if (count === 0) {
+      throw new RegistrationError(
+        'You are not registered for this series',
+        ERROR_CODES.REGISTRATION_NOT_FOUND,
+      );
+    }
+
+    const upcoming = { seriesId, date: { gt: operationTimestamp } };
+
+    await prisma.waitlist.deleteMany({
+      where: { userId: actor.userId, event: upcoming },
+    });
+
+    const registrations = await prisma.registration.findMany({
+      where: {
+        userId: actor.userId,
+        status: { in: ACTIVE_STATUSES },
+        event: upcoming,
+      },
+      select: { id: true, eventId: true },
+    });
+
+    const cancelled: string[] = [];
+    const failed: {
+      registrationId: string;
+      eventId: string;
+      error: { message: string; code: string };
+    }[] = [];
+
+    for (const registration of registrations) {
+      const result = await cancelRegistration(prisma, registration.id, actor, {
+        reason: 'Left the event series',
+      });
+
+      if (result.success) {
+        cancelled.push(registration.id);
+      } else {
+        failed.push({
+          registrationId: registration.id,
+          eventId: registration.eventId,
+          error: result.error!,
+        });
+      }
+    }
+
+    logger.info({
+      message: 'Unregistered from event series',
+      seriesId,
+      userId: actor.userId,
+      cancelled: cancelled.length,
+      failed: failed.length,
+    });
+
+    return { success: true, cancelled, failed, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      cancelled: [],
+      failed: [],
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Generate the occurrences that have come within the horizon for every
+ * series, and register the series' subscribers for them
+ *
+ * Run periodically by the background job in src/lib/jobs.ts.
+ *
+ * @returns The number of occurrences generated and registrations attempted
+ */
+export async function extendEventSeries(
+  prisma: PrismaClient,
+  now: Date = new Date(),
+) {
+  const horizon = new Date(
+    now.getTime() + SERIES_GENERATION_HORIZON_DAYS * 24 * 60 * 60 * 1000,
+  );
+
+  const candidates = await prisma.eventSeries.findMany({
+    where: {
+      AND: [
+        { OR: [{ generatedUntil: null }, { generatedUntil: { lt: horizon } }] },
+        { OR: [{ until: null }, { until: { gt: now } }] },
+      ],
+    },
+    select: SERIES_SELECT,
+  });
+
+  let generated = 0;
+  let registrations = 0;
+
+  for (const series of candidates) {
+    if (
+      isRecurrenceExhausted(
+        toRecurrenceRule(series),
+        series.generatedUntil ?? now,
+      )
+    ) {
+      continue;
+    }
+
+    try {
+      const occurrences = await prisma.$transaction(
+        (tx) => generateOccurrences(tx, series, now),
+        {
+          isolationLevel: 'ReadCommitted',
+          timeout: 30000,
+        },
+      );
+
+      if (occurrences.length === 0) {
+        continue;
+      }
+
+      generated += occurrences.length;
+
+      const subscriptions = await prisma.seriesRegistration.findMany({
+        where: { seriesId: series.id },
+        select: {
+          userId: true,
+          ticketTypeName: true,
+          answers: true,
+          joinWaitlist: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      for (const occurrence of occurrences) {
+        for (const subscription of subscriptions) {
+          const outcome = await registerForOccurrence(
+            prisma,
+            subscription,
+            occurrence,
+          );
+          registrations++;
+
+          if (outcome.result === 'FAILED') {
+            logger.warn({
+              message: 'Series registration failed for new occurrence',
+              seriesId: series.id,
+              eventId: occurrence.id,
+              userId: subscription.userId,
+              error: outcome.error.message,
+            });
+          }
+        }
+      }
+    } catch (error) {
+      logger.error({
+        message: 'Failed to generate series occurrences',
+        seriesId: series.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  if (generated > 0) {
+    await invalidateEventListCache();
+
+    logger.info({
+      message: 'Generated series occurrences',
+      generated,
+      registrations,
+    });
+  }
+
+  return { generated, registrations };
+}
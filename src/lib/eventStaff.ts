@@ -0,0 +1,622 @@
+import { EventStaffRole, Prisma, PrismaClient } from '@prisma/client';
+import { sendEmail } from './email';
+import { ERROR_CODES } from './errorCodes';
+import { RegistrationError, getErrorCode } from './errors';
+import { INVITATION_TTL_DAYS } from './invitations';
+import logger from './logger';
+import {
+  Actor,
+  EventPermission,
+  eventStaffSelect,
+  hasEventPermission,
+} from './permissions';
+import { createHashedToken, hashToken } from './secureTokens';
+import { formatDateTime, formatEventTime } from './utils';
+import { StaffInvitationTemplate } from '@/components/emails/StaffInvitationTemplate';
+
+/**
+ * Event Staff
+ *
+ * Events are run by teams. The owner (`Event.organizerId`) adds staff with a
+ * per-event role; what each role may do is defined in src/lib/permissions.ts:
+ *   - CO_ORGANIZER: everything the owner can, except deleting the event,
+ *     managing staff and transferring ownership
+ *   - CHECK_IN: the attendee list and check-in
+ *   - VIEWER: the attendee list and export
+ *
+ * Staff join through an emailed invitation, like invite-only attendees (see
+ * src/lib/invitations.ts): a single-use token, stored hashed, that expires
+ * after INVITATION_TTL_DAYS and can only be accepted by the invited address.
+ * Inviting an address again replaces its token, role and expiry.
+ *
+ * Ownership can be handed to a co-organizer; the previous owner stays on as
+ * a co-organizer.
+ */
+
+const STAFF_SELECT = {
+  role: true,
+  createdAt: true,
+  user: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.EventStaffSelect;
+
+const STAFF_ROLE_NAMES: Record<EventStaffRole, string> = {
+  CO_ORGANIZER: 'co-organizer',
+  CHECK_IN: 'check-in staff',
+  VIEWER: 'viewer',
+};
+
+/**
+ * Load an event and check the actor's permission on it
+ */
+async function getStaffedEvent(
+  tx: Prisma.TransactionClient,
+  eventId: string,
+  actor: Actor,
+  permission: EventPermission,
+) {
+  const event = await tx.event.findUnique({
+    where: { id: eventId, deletedAt: null },
+    select: {
+      id: true,
+      title: true,
+      date: true,
+      endsAt: true,
+      timeZone: true,
+      organizerId: true,
+      staff: eventStaffSelect(actor),
+      organizer: { select: { id: true, name: true, email: true } },
+    },
+  });
+
+  if (!event) {
+    throw new RegistrationError(
+      `Event not found: ${eventId}`,
+      ERROR_CODES.EVENT_NOT_FOUND,
+    );
+  }
+
+  if (!hasEventPermission(actor, event, permission)) {
+    throw new RegistrationError(
+      permission === 'own'
+        ? 'Only the event owner can manage its staff'
+        : 'Only the event organizer and its staff can see its team',
+      ERROR_CODES.FORBIDDEN,
+    );
+  }
+
+  return event;
+}
+
+/**
+ * List an event's owner, staff and pending staff invitations
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event
+ * @param actor - Caller; the owner, any staff member or an admin
+ */
+export async function listEventStaff(
+  prisma: PrismaClient,
+  eventId: string,
+  actor: Actor,
+) {
+  try {
+    const event = await getStaffedEvent(prisma, eventId, actor, 'view');
+
+    const [staff, invitations] = await Promise.all([
+      prisma.eventStaff.findMany({
+        where: { eventId },
+        select: STAFF_SELECT,
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.eventStaffInvitation.findMany({
+        where: { eventId, acceptedAt: null },
+        select: { id: true, email: true, role: true, expiresAt: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    return {
+      success: true,
+      owner: event.organizer,
+      staff,
+      invitations,
+      error: null,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      owner: null,
+      staff: [],
+      invitations: [],
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Invite someone to an event's staff and email them the link
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event
+ * @param email - Lowercased address to invite
+ * @param role - Role they get once they accept
+ * @param actor - Caller; must be the event owner or an admin
+ * @returns The invitation, and whether its email went out
+ */
+export async function inviteStaff(
+  prisma: PrismaClient,
+  eventId: string,
+  email: string,
+  role: EventStaffRole,
+  actor: Actor,
+) {
+  const operationTimestamp = new Date();
+  const expiresAt = new Date(
+    operationTimestamp.getTime() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000,
+  );
+
+  try {
+    const { event, invitation, token } = await prisma.$transaction(
+      async (tx) => {
+        const event = await getStaffedEvent(tx, eventId, actor, 'own');
+
+        if (event.organizer.email.toLowerCase() === email) {
+          throw new RegistrationError(
+            `${email} already owns this event`,
+            ERROR_CODES.INVALID_INPUT,
+          );
+        }
+
+        const member = await tx.eventStaff.findFirst({
+          where: {
+            eventId,
+            user: { email: { equals: email, mode: 'insensitive' } },
+          },
+          select: { id: true },
+        });
+
+        if (member) {
+          throw new RegistrationError(
+            `${email} is already on the staff of this event; change their role instead`,
+            ERROR_CODES.RESOURCE_ALREADY_EXISTS,
+          );
+        }
+
+        const { token, tokenHash } = createHashedToken();
+        const invitation = await tx.eventStaffInvitation.upsert({
+          where: { eventId_email: { eventId, email } },
+          create: {
+            eventId,
+            email,
+            role,
+            tokenHash,
+            expiresAt,
+            invitedById: actor.userId,
+          },
+          update: {
+            role,
+            tokenHash,
+            expiresAt,
+            acceptedAt: null,
+            invitedById: actor.userId,
+          },
+          select: { id: true, email: true, role: true, expiresAt: true },
+        });
+
+        return { event, invitation, token };
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 10000,
+      },
+    );
+
+    // The email only goes out once the token has been committed
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+    const inviter = await prisma.user.findUnique({
+      where: { id: actor.userId },
+      select: { name: true },
+    });
+
+    let emailSent = true;
+    try {
+      await sendEmail({
+        to: email,
+        subject: `Join the team for ${event.title}`,
+        react: StaffInvitationTemplate({
+          inviterName: inviter?.name ?? event.organizer.name,
+          eventTitle: event.title,
+          eventDate: formatEventTime(event.date, event.endsAt, event.timeZone),
+          roleName: STAFF_ROLE_NAMES[role],
+          expiresAt: formatDateTime(expiresAt, event.timeZone),
+          acceptUrl: `${appUrl}/staff-invitations/accept?token=${encodeURIComponent(token)}`,
+        }),
+      });
+    } catch (error) {
+      emailSent = false;
+      logger.error({
+        message: 'Failed to send staff invitation',
+        eventId,
+        email,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    logger.info({ message: 'Staff invited', eventId, role });
+
+    return {
+      success: true,
+      invitation: { ...invitation, emailSent },
+      error: null,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      invitation: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Accept a staff invitation
+ *
+ * @param prisma - Prisma client instance
+ * @param token - Invitation token from the emailed link
+ * @param actor - Caller; must be signed in with the invited address
+ * @returns The event joined and the role held on it
+ */
+export async function acceptStaffInvitation(
+  prisma: PrismaClient,
+  token: string,
+  actor: Actor,
+) {
+  const operationTimestamp = new Date();
+
+  try {
+    const staff = await prisma.$transaction(
+      async (tx) => {
+        const invitation = await tx.eventStaffInvitation.findUnique({
+          where: { tokenHash: hashToken(token) },
+          select: {
+            id: true,
+            eventId: true,
+            email: true,
+            role: true,
+            expiresAt: true,
+            acceptedAt: true,
+            event: {
+              select: { title: true, organizerId: true, deletedAt: true },
+            },
+          },
+        });
+
+        if (!invitation || invitation.event.deletedAt) {
+          throw new RegistrationError(
+            'Staff invitation not found or no longer valid',
+            ERROR_CODES.INVALID_INVITATION,
+          );
+        }
+
+        if (invitation.acceptedAt) {
+          throw new RegistrationError(
+            'This staff invitation has already been accepted',
+            ERROR_CODES.INVITATION_ALREADY_USED,
+          );
+        }
+
+        if (invitation.expiresAt <= operationTimestamp) {
+          throw new RegistrationError(
+            'This staff invitation has expired; ask the organizer for a new one',
+            ERROR_CODES.INVITATION_EXPIRED,
+          );
+        }
+
+        const user = await tx.user.findUnique({
+          where: { id: actor.userId },
+          select: { email: true },
+        });
+
+        if (user?.email.toLowerCase() !== invitation.email) {
+          throw new RegistrationError(
+            `This invitation was sent to ${invitation.email}; sign in with that address to accept it`,
+            ERROR_CODES.INVITATION_EMAIL_MISMATCH,
+          );
+        }
+
+        if (invitation.event.organizerId === actor.userId) {
+          throw new RegistrationError(
+            'You already own this event',
+            ERROR_CODES.INVALID_INPUT,
+          );
+        }
+
+        // Conditional so a token can only be accepted once
+        const { count } = await tx.eventStaffInvitation.updateMany({
+          where: { id: invitation.id, acceptedAt: null },
+          data: { acceptedAt: operationTimestamp },
+        });
+
+        if (count === 0) {
+          throw new RegistrationError(
+            'This staff invitation has already been accepted',
+            ERROR_CODES.INVITATION_ALREADY_USED,
+          );
+        }
+
+        await tx.eventStaff.upsert({
+          where: {
+            eventId_userId: {
+              eventId: invitation.eventId,
+              userId: actor.userId,
+            },
+          },
+          create: {
+            eventId: invitation.eventId,
+            userId: actor.userId,
+            role: invitation.role,
+          },
+          update: { role: invitation.role },
+        });
+
+        return {
+          eventId: invitation.eventId,
+          eventTitle: invitation.event.title,
+          role: invitation.role,
+        };
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 10000,
+      },
+    );
+
+    logger.info({
+      message: 'Staff invitation accepted',
+      eventId: staff.eventId,
+      userId: actor.userId,
+      role: staff.role,
+    });
+
+    return { success: true, staff, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      staff: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Look up the event and role a staff invitation token is for
+ *
+ * @returns The invitation, or null when no pending invitation of a live
+ *          event has this token
+ */
+export async function findStaffInvitation(prisma: PrismaClient, token: string) {
+  const invitation = await prisma.eventStaffInvitation.findUnique({
+    where: { tokenHash: hashToken(token) },
+    select: {
+      role: true,
+      acceptedAt: true,
+      event: {
+        select: {
+          title: true,
+          date: true,
+          endsAt: true,
+          timeZone: true,
+          deletedAt: true,
+        },
+      },
+    },
+  });
+
+  if (!invitation || invitation.acceptedAt || invitation.event.deletedAt) {
+    return null;
+  }
+
+  return {
+    role: invitation.role,
+    roleName: STAFF_ROLE_NAMES[invitation.role],
+    event: invitation.event,
+  };
+}
+
+/**
+ * Change a staff member's role
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event
+ * @param userId - UUID of the staff member
+ * @param role - New role
+ * @param actor - Caller; must be the event owner or an admin
+ */
+export async function updateStaffRole(
+  prisma: PrismaClient,
+  eventId: string,
+  userId: string,
+  role: EventStaffRole,
+  actor: Actor,
+) {
+  try {
+    await getStaffedEvent(prisma, eventId, actor, 'own');
+
+    const { count } = await prisma.eventStaff.updateMany({
+      where: { eventId, userId },
+      data: { role },
+    });
+
+    if (count === 0) {
+      throw new RegistrationError(
+        `User ${userId} is not on the staff of this event`,
+        ERROR_CODES.NOT_FOUND,
+      );
+    }
+
+    const staff = await prisma.eventStaff.findUniqueOrThrow({
+      where: { eventId_userId: { eventId, userId } },
+      select: STAFF_SELECT,
+    });
+
+    logger.info({ message: 'Staff role changed', eventId, userId, role });
+
+    return { success: true, staff, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      staff: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Remove someone from an event's staff
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event
+ * @param userId - UUID of the staff member
+ * @param actor - Caller; the event owner, an admin, or the staff member
+ *                leaving the team
+ */
+export async function removeStaff(
+  prisma: PrismaClient,
+  eventId: string,
+  userId: string,
+  actor: Actor,
+) {
+  try {
+    if (userId !== actor.userId) {
+      await getStaffedEvent(prisma, eventId, actor, 'own');
+    }
+
+    const { count } = await prisma.eventStaff.deleteMany({
+      where: { eventId, userId },
+    });
+
+    if (count === 0) {
+      throw new RegistrationError(
+        `User ${userId} is not on the staff of this event`,
+        ERROR_CODES.NOT_FOUND,
+      );
+    }
+
+    logger.info({ message: 'Staff removed', eventId, userId });
+
+    return { success: true, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Hand an event over to one of its co-organizers
+ *
+ * The previous owner stays on the staff as a co-organizer.
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event
+ * @param newOwnerId - UUID of a co-organizer of the event
+ * @param actor - Caller; must be the event owner or an admin
+ * @returns The event with its new owner
+ */
+export async function transferEventOwnership(
+  prisma: PrismaClient,
+  eventId: string,
+  newOwnerId: string,
+  actor: Actor,
+) {
+  try {
+    const event = await prisma.$transaction(
+      async (tx) => {
+        const event = await getStaffedEvent(tx, eventId, actor, 'own');
+
+        const newOwner = await tx.eventStaff.findUnique({
+          where: { eventId_userId: { eventId, userId: newOwnerId } },
+          select: { role: true },
+        });
+
+        if (newOwner?.role !== EventStaffRole.CO_ORGANIZER) {
+          throw new RegistrationError(
+            'Ownership can only be transferred to a co-organizer of the event',
+            ERROR_CODES.INVALID_INPUT,
+          );
+        }
+
+        // Conditional on the owner read above so two transfers cannot race
+        const { count } = await tx.event.updateMany({
+          where: { id: eventId, organizerId: event.organizerId },
+          data: { organizerId: newOwnerId },
+        });
+
+        if (count === 0) {
+          throw new RegistrationError(
+            `Event '${event.title}' changed owner while it was being transferred; please try again`,
+            ERROR_CODES.INVALID_STATUS_TRANSITION,
+          );
+        }
+
+        await tx.eventStaff.delete({
+          where: { eventId_userId: { eventId, userId: newOwnerId } },
+        });
+
+        await tx.eventStaff.create({
+          data: {
+            eventId,
+            userId: event.organizerId,
+            role: EventStaffRole.CO_ORGANIZER,
+          },
+        });
+
+        return tx.event.findUniqueOrThrow({
+          where: { id: eventId },
+          select: {
+            id: true,
+            title: true,
+            organizer: { select: { id: true, name: true, email: true } },
+          },
+        });
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 10000,
+      },
+    );
+
+    logger.info({
+      message: 'Event ownership transferred',
+      eventId,
+      newOwnerId,
+    });
+
+    return { success: true, event, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      event: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
@@ -0,0 +1,481 @@
+import { EventStatus, Prisma, PrismaClient } from '@prisma/client';
+import { assertCategoryExists } from './categories';
+import { ERROR_CODES } from './errorCodes';
+import { RegistrationError, getErrorCode } from './errors';
+import { invalidateEventListCache } from './eventCache';
+import { revokeUnclaimedGroupSeats } from './groupRegistration';
+import logger from './logger';
+import {
+  Actor,
+  canManageEvent,
+  eventStaffSelect,
+  hasEventPermission,
+} from './permissions';
+import {
+  EVENT_SPEAKERS_SELECT,
+  EVENT_TIME_SELECT,
+  toSpeakerList,
+} from './queryOptimizations';
+import { ACTIVE_STATUSES, SEAT_HOLDING_STATUSES } from './registrationStatus';
+import { shiftEventSessions } from './sessions';
+import { getTicketQuotaError } from './ticketTypes';
+import { toEventSchedule } from './timeZones';
+import { assertRoomBookable } from './venues';
+import { notifyWaitlistPromotions, promoteWaitlistedUsers } from './waitlist';
+import { UpdateEventRequest } from './schemas/eventSchema';
+
+/**
+ * Single Event Details, Updates and Deletion
+ *
+ * Anyone can read a listed or invite-only event; drafts are only visible to
+ * their organizer, its staff and admins, and are reported as not found to
+ * everyone else.
+ *
+ * Updates are limited to those who manage the event (its owner,
+ * co-organizers and admins):
+ *   - cancelled and completed events can no longer be edited
+ *   - only drafts can be moved here; published events are moved with
+ *     `rescheduleEvent` (see src/lib/eventChanges.ts) so attendees are told
+ *   - capacity can grow or shrink, but never below the seats already taken
+ *     and never below the ticket type quotas; added seats promote the
+ *     waitlist
+ *   - sending `tags` replaces the event's tags
+ *
+ * Deleting is a soft delete: `deletedAt` is set and the event disappears
+ * from every listing and lookup, while its registrations, payments and
+ * change history are kept. An event with active registrations or a waitlist
+ * has to be cancelled first so those people are notified.
+ */
+
+const EVENT_DETAIL_SELECT = {
+  id: true,
+  title: true,
+  description: true,
+  ...EVENT_TIME_SELECT,
+  location: true,
+  capacity: true,
+  seatsRemaining: true,
+  cancellationCutoffHours: true,
+  registrationMode: true,
+  status: true,
+  publishAt: true,
+  publishedAt: true,
+  roomId: true,
+  organizerId: true,
+  ticketTypes: {
+    select: {
+      id: true,
+      name: true,
+      kind: true,
+      priceCents: true,
+      currency: true,
+      quota: true,
+      seatsRemaining: true,
+      salesStartAt: true,
+      salesEndAt: true,
+    },
+    orderBy: { priceCents: 'asc' },
+  },
+  speakers: EVENT_SPEAKERS_SELECT,
+  category: { select: { id: true, slug: true, name: true } },
+  tags: { select: { tag: true }, orderBy: { tag: 'asc' } },
+  _count: {
+    select: {
+      registrations: { where: { status: { in: SEAT_HOLDING_STATUSES } } },
+    },
+  },
+} satisfies Prisma.EventSelect;
+
+function toEventDetail(
+  event: Prisma.EventGetPayload<{ select: typeof EVENT_DETAIL_SELECT }>,
+) {
+  return {
+    ...event,
+    speakers: toSpeakerList(event.speakers),
+    tags: event.tags.map(({ tag }) => tag),
+    schedule: toEventSchedule(event),
+  };
+}
+
+/**
+ * Get one event
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event
+ * @param actor - Caller, or null when anonymous; drafts are only returned to
+ *                the organizer, its staff and admins
+ * @returns The event with its ticket types, speakers and local schedule
+ */
+export async function getEvent(
+  prisma: PrismaClient,
+  eventId: string,
+  actor: Actor | null,
+) {
+  try {
+    const event = await prisma.event.findUnique({
+      where: { id: eventId, deletedAt: null },
+      select: EVENT_DETAIL_SELECT,
+    });
+
+    const visible =
+      event &&
+      (event.status !== EventStatus.DRAFT ||
+        (actor &&
+          hasEventPermission(
+            actor,
+            {
+              organizerId: event.organizerId,
+              staff: await prisma.eventStaff.findMany({
+                where: { eventId, userId: actor.userId },
+                select: { role: true },
+              }),
+            },
+            'view',
+          )));
+
+    if (!event || !visible) {
+      throw new RegistrationError(
+        `Event not found: ${eventId}`,
+        ERROR_CODES.EVENT_NOT_FOUND,
+      );
+    }
+
+    return { success: true, event: toEventDetail(event), error: null };
+  } catch (error) {
+    return {
+      success: false,
+      event: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Update an event's details
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event
+ * @param changes - Validated, sanitized fields to change
+ * @param actor - Caller; must be the event owner, a co-organizer or an admin
+ * @returns The updated event
+ */
+export async function updateEvent(
+  prisma: PrismaClient,
+  eventId: string,
+  changes: UpdateEventRequest,
+  actor: Actor,
+) {
+  try {
+    const { event, promotions } = await prisma.$transaction(
+      async (tx) => {
+        const event = await tx.event.findUnique({
+          where: { id: eventId, deletedAt: null },
+          select: {
+            id: true,
+            title: true,
+            status: true,
+            ...EVENT_TIME_SELECT,
+            publishAt: true,
+            capacity: true,
+            seatsRemaining: true,
+            roomId: true,
+            organizerId: true,
+            staff: eventStaffSelect(actor),
+            ticketTypes: { select: { quota: true } },
+          },
+        });
+
+        if (!event) {
+          throw new RegistrationError(
+            `Event not found: ${eventId}`,
+            ERROR_CODES.EVENT_NOT_FOUND,
+          );
+        }
+
+        if (!canManageEvent(actor, event)) {
+          throw new RegistrationError(
+            'Only the event organizer can edit it',
+            ERROR_CODES.FORBIDDEN,
+          );
+        }
+
+        if (
+          event.status === EventStatus.CANCELLED ||
+          event.status === EventStatus.COMPLETED
+        ) {
+          throw new RegistrationError(
+            `Event '${event.title}' is ${event.status.toLowerCase()} and can no longer be edited`,
+            ERROR_CODES.INVALID_STATUS_TRANSITION,
+          );
+        }
+
+        const moving =
+          changes.date !== undefined || changes.endsAt !== undefined;
+
+        if (moving && event.status !== EventStatus.DRAFT) {
+          throw new RegistrationError(
+            'Published events are moved with POST /api/events/:id/reschedule so attendees are notified',
+            ERROR_CODES.INVALID_INPUT,
+          );
+        }
+
+        const startsAt = changes.date ? new Date(changes.date) : event.date;
+        const endsAt = changes.endsAt ? new Date(changes.endsAt) : event.endsAt;
+
+        if (endsAt <= startsAt) {
+          throw new RegistrationError(
+            'An event must end after it starts',
+            ERROR_CODES.VALIDATION_ERROR,
+          );
+        }
+
+        if (event.publishAt && event.publishAt >= startsAt) {
+          throw new RegistrationError(
+            'The event is scheduled to be published after it starts; change its publish time first',
+            ERROR_CODES.VALIDATION_ERROR,
+          );
+        }
+
+        const capacity = changes.capacity ?? event.capacity;
+        const seatsTaken = event.capacity - event.seatsRemaining;
+
+        if (capacity < seatsTaken) {
+          throw new RegistrationError(
+            `Capacity cannot be reduced to ${capacity}; ${seatsTaken} seats are already taken`,
+            ERROR_CODES.CAPACITY_BELOW_REGISTRATIONS,
+          );
+        }
+
+        const ticketQuotaError = getTicketQuotaError(
+          capacity,
+          event.ticketTypes,
+        );
+        if (ticketQuotaError) {
+          throw new RegistrationError(
+            ticketQuotaError,
+            ERROR_CODES.VALIDATION_ERROR,
+          );
+        }
+
+        const roomId =
+          changes.roomId === undefined ? event.roomId : changes.roomId;
+
+        if (
+          roomId &&
+          (roomId !== event.roomId || moving || capacity !== event.capacity)
+        ) {
+          await assertRoomBookable(tx, {
+            roomId,
+            startsAt,
+            endsAt,
+            capacity,
+            excludeEventId: eventId,
+          });
+        }
+
+        if (changes.categoryId) {
+          await assertCategoryExists(tx, changes.categoryId);
+        }
+
+        // Seats are adjusted relative to the current count; when shrinking,
+        // the update misses if registrations took the seats in the meantime
+        const { count } = await tx.event.updateMany({
+          where: {
+            id: eventId,
+            deletedAt: null,
+            capacity: event.capacity,
+            ...(capacity < event.capacity && {
+              seatsRemaining: { gte: event.capacity - capacity },
+            }),
+          },
+          data: {
+            title: changes.title,
+            description: changes.description,
+            location: changes.location,
+            cancellationCutoffHours: changes.cancellationCutoffHours,
+            registrationMode: changes.registrationMode,
+            timeZone: changes.timeZone,
+            roomId,
+            categoryId: changes.categoryId,
+            date: startsAt,
+            endsAt,
+            capacity,
+            seatsRemaining: { increment: capacity - event.capacity },
+          },
+        });
+
+        if (count === 0) {
+          throw new RegistrationError(
+            `Event '${event.title}' changed while it was being edited; please try again`,
+            ERROR_CODES.INVALID_STATUS_TRANSITION,
+          );
+        }
+
+        await shiftEventSessions(
+          tx,
+          eventId,
+          startsAt.getTime() - event.date.getTime(),
+        );
+
+        if (changes.tags) {
+          await tx.eventTag.deleteMany({ where: { eventId } });
+          await tx.eventTag.createMany({
+            data: changes.tags.map((tag) => ({ eventId, tag })),
+            skipDuplicates: true,
+          });
+        }
+
+        // Added seats go to the head of the waitlist first
+        const promotions =
+          capacity > event.capacity
+            ? await promoteWaitlistedUsers(tx, eventId)
+            : [];
+
+        const updated = await tx.event.findUniqueOrThrow({
+          where: { id: eventId },
+          select: EVENT_DETAIL_SELECT,
+        });
+
+        return { event: updated, promotions };
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 10000,
+      },
+    );
+
+    await invalidateEventListCache();
+
+    await notifyWaitlistPromotions(prisma, promotions);
+
+    logger.info({
+      message: 'Event updated',
+      eventId,
+      fields: Object.keys(changes),
+    });
+
+    return { success: true, event: toEventDetail(event), error: null };
+  } catch (error) {
+    return {
+      success: false,
+      event: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Soft-delete an event
+ *
+ * Also clears its publish schedule and preview link, frees its room and
+ * revokes unclaimed group seat invitations.
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event
+ * @param actor - Caller; must be the event owner or an admin
+ * @returns The deleted event's id, title and deletion time
+ */
+export async function deleteEvent(
+  prisma: PrismaClient,
+  eventId: string,
+  actor: Actor,
+) {
+  const operationTimestamp = new Date();
+
+  try {
+    const event = await prisma.$transaction(
+      async (tx) => {
+        const event = await tx.event.findUnique({
+          where: { id: eventId, deletedAt: null },
+          select: {
+            id: true,
+            title: true,
+            organizerId: true,
+            staff: eventStaffSelect(actor),
+          },
+        });
+
+        if (!event) {
+          throw new RegistrationError(
+            `Event not found: ${eventId}`,
+            ERROR_CODES.EVENT_NOT_FOUND,
+          );
+        }
+
+        if (!hasEventPermission(actor, event, 'own')) {
+          throw new RegistrationError(
+            'Only the event owner can delete it',
+            ERROR_CODES.FORBIDDEN,
+          );
+        }
+
+        // Marked first so the row lock keeps new registrations out while
+        // the remaining ones are counted; throwing below rolls it back
+        const { count } = await tx.event.updateMany({
+          where: { id: eventId, deletedAt: null },
+          data: {
+            deletedAt: operationTimestamp,
+            publishAt: null,
+            previewTokenHash: null,
+            previewTokenExpiresAt: null,
+            roomId: null,
+          },
+        });
+
+        if (count === 0) {
+          throw new RegistrationError(
+            `Event not found: ${eventId}`,
+            ERROR_CODES.EVENT_NOT_FOUND,
+          );
+        }
+
+        const [registrations, waitlisted] = await Promise.all([
+          tx.registration.count({
+            where: { eventId, status: { in: ACTIVE_STATUSES } },
+          }),
+          tx.waitlist.count({ where: { eventId } }),
+        ]);
+
+        if (registrations > 0 || waitlisted > 0) {
+          throw new RegistrationError(
+            `Event '${event.title}' still has ${registrations} active registrations and ${waitlisted} waitlisted users; cancel it first so they are notified`,
+            ERROR_CODES.EVENT_HAS_REGISTRATIONS,
+          );
+        }
+
+        await revokeUnclaimedGroupSeats(tx, eventId);
+
+        return {
+          id: event.id,
+          title: event.title,
+          deletedAt: operationTimestamp,
+        };
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 10000,
+      },
+    );
+
+    await invalidateEventListCache();
+
+    logger.info({ message: 'Event deleted', eventId });
+
+    return { success: true, event, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      event: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
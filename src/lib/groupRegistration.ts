@@ -0,0 +1,835 @@
+import {
+  Prisma,
+  PrismaClient,
+  RegistrationMode,
+  RegistrationStatus,
+} from '@prisma/client';
+import { sendEmail } from './email';
+import { ERROR_CODES } from './errorCodes';
+import { RegistrationError, getErrorCode } from './errors';
+import { assertEventOpenForRegistration } from './eventLifecycle';
+import logger from './logger';
+import { Actor, canManageEvent, eventStaffSelect } from './permissions';
+import { parseRegistrationAnswers } from './registrationQuestions';
+import {
+  assertTransition,
+  createOrReopenRegistration,
+} from './registrationStatus';
+import { GroupAttendee } from './schemas/registrationSchema';
+import { claimSeats, claimTicketSeats } from './seatAllocation';
+import { countActiveHolds, releaseSeatHold } from './seatHolds';
+import { createHashedToken, hashToken } from './secureTokens';
+import { releaseAgenda } from './sessions';
+import { sendRegistrationTicket } from './tickets';
+import { resolveTicketType } from './ticketTypes';
+import { formatEventTime } from './utils';
+import { GroupSeatInvitationTemplate } from '@/components/emails/GroupSeatInvitationTemplate';
+
+/**
+ * Group Registration
+ *
+ * One purchaser books N seats for an event on behalf of named attendees. All
+ * N seats are claimed from the event (and ticket type) in a single conditional
+ * update, so a group is either booked in full or not at all.
+ *
+ * Each seat is a GroupSeat row naming its attendee:
+ *   - attendees who already have an account are registered immediately and
+ *     receive their ticket;
+ *   - everyone else gets a placeholder seat and an emailed invitation. Once
+ *     they sign in with the invited address and claim it, the seat becomes
+ *     their Registration.
+ *
+ * The purchaser can reassign any seat that has not been checked in. The seat
+ * itself stays with the group: the previous attendee's registration (or
+ * invitation) is replaced without going back through the event's capacity.
+ *
+ * Invitation tokens are random and only their SHA-256 is stored, so a
+ * database leak cannot be turned into claim links.
+ *
+ * Group bookings are limited to free ticket types on OPEN events for now; paid
+ * tickets go through the single-registration payment flow and approval-only
+ * or invite-only events through their own review. Events with required
+ * registration questions are refused too, since the purchaser cannot answer
+ * them for each attendee.
+ */
+
+const GROUP_TRANSACTION_OPTIONS = {
+  isolationLevel: 'ReadCommitted' as const,
+  timeout: 10000,
+};
+
+const GROUP_SEAT_SELECT = {
+  id: true,
+  attendeeName: true,
+  attendeeEmail: true,
+  registrationId: true,
+  inviteTokenHash: true,
+  registration: { select: { id: true, userId: true, checkedInAt: true } },
+} satisfies Prisma.GroupSeatSelect;
+
+const GROUP_BOOKING_SELECT = {
+  id: true,
+  eventId: true,
+  purchaserId: true,
+  ticketTypeId: true,
+  createdAt: true,
+  event: {
+    select: {
+      id: true,
+      title: true,
+      date: true,
+      endsAt: true,
+      timeZone: true,
+      location: true,
+      organizerId: true,
+    },
+  },
+  purchaser: { select: { id: true, name: true, email: true } },
+  ticketType: { select: { id: true, name: true, kind: true } },
+  seats: { select: GROUP_SEAT_SELECT, orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.GroupBookingSelect;
+
+type GroupSeatRecord = Prisma.GroupSeatGetPayload<{
+  select: typeof GROUP_SEAT_SELECT;
+}>;
+
+type GroupBookingRecord = Prisma.GroupBookingGetPayload<{
+  select: typeof GROUP_BOOKING_SELECT;
+}>;
+
+/** An invitation to email once the transaction that created it commits */
+interface PendingInvitation {
+  attendee: GroupAttendee;
+  token: string;
+}
+
+/**
+ * Public shape of a seat: the invitation token hash never leaves the service
+ */
+function toSeatView(seat: GroupSeatRecord) {
+  return {
+    id: seat.id,
+    attendeeName: seat.attendeeName,
+    attendeeEmail: seat.attendeeEmail,
+    status: seat.registrationId
+      ? ('REGISTERED' as const)
+      : ('INVITED' as const),
+    registrationId: seat.registrationId,
+    checkedInAt: seat.registration?.checkedInAt ?? null,
+  };
+}
+
+function toBookingView(booking: GroupBookingRecord) {
+  const { seats, event, ...rest } = booking;
+  return {
+    ...rest,
+    event: {
+      id: event.id,
+      title: event.title,
+      date: event.date,
+      location: event.location,
+    },
+    seatCount: seats.length,
+    seats: seats.map(toSeatView),
+  };
+}
+
+/**
+ * Reject attendees who are already registered for the event or already hold
+ * an unclaimed seat in another group booking for it
+ */
+async function assertAttendeesAvailable(
+  tx: Prisma.TransactionClient,
+  eventId: string,
+  emails: string[],
+  usersByEmail: Map<string, { id: string }>,
+): Promise<void> {
+  const registered = await tx.registration.findMany({
+    where: {
+      eventId,
+      userId: { in: [...usersByEmail.values()].map((user) => user.id) },
+      status: { not: RegistrationStatus.CANCELLED },
+    },
+    select: { user: { select: { email: true } } },
+  });
+
+  if (registered.length > 0) {
+    throw new RegistrationError(
+      `Already registered for this event: ${registered.map((r) => r.user.email).join(', ')}`,
+      ERROR_CODES.DUPLICATE_ENTRY,
+    );
+  }
+
+  const invited = await tx.groupSeat.findMany({
+    where: {
+      attendeeEmail: { in: emails },
+      registrationId: null,
+      groupBooking: { eventId },
+    },
+    select: { attendeeEmail: true },
+  });
+
+  if (invited.length > 0) {
+    throw new RegistrationError(
+      `Already invited to this event by another group booking: ${invited.map((seat) => seat.attendeeEmail).join(', ')}`,
+      ERROR_CODES.DUPLICATE_ENTRY,
+    );
+  }
+}
+
+/**
+ * Fill a seat for an attendee: register them if they have an account,
+ * otherwise attach a fresh invitation
+ *
+ * @returns The seat data to write and the invitation to send, if any
+ */
+async function assignSeat(
+  tx: Prisma.TransactionClient,
+  booking: { eventId: string; ticketTypeId: string | null },
+  attendee: GroupAttendee,
+  user: { id: string } | undefined,
+) {
+  if (user) {
+    const registration = await createOrReopenRegistration(tx, {
+      userId: user.id,
+      eventId: booking.eventId,
+      ticketTypeId: booking.ticketTypeId,
+      status: RegistrationStatus.APPROVED,
+    });
+
+    // A booked seat supersedes any place the attendee held in the queue
+    await tx.waitlist.deleteMany({
+      where: { userId: user.id, eventId: booking.eventId },
+    });
+
+    return {
+      data: {
+        attendeeName: attendee.name,
+        attendeeEmail: attendee.email,
+        registrationId: registration.id,
+        inviteTokenHash: null,
+      },
+      invitation: null,
+    };
+  }
+
+  const { token, tokenHash } = createHashedToken();
+
+  return {
+    data: {
+      attendeeName: attendee.name,
+      attendeeEmail: attendee.email,
+      registrationId: null,
+      inviteTokenHash: tokenHash,
+    },
+    invitation: { attendee, token },
+  };
+}
+
+/**
+ * Revoke the invitations of every unclaimed group seat of an event
+ *
+ * Called inside the transaction that cancels or deletes the event, so no
+ * invitee can claim a registration for it afterwards.
+ */
+export async function revokeUnclaimedGroupSeats(
+  tx: Prisma.TransactionClient,
+  eventId: string,
+): Promise<void> {
+  await tx.groupSeat.updateMany({
+    where: {
+      registrationId: null,
+      inviteTokenHash: { not: null },
+      groupBooking: { eventId },
+    },
+    data: { inviteTokenHash: null },
+  });
+}
+
+/**
+ * Send tickets to newly registered attendees and invitations to the rest
+ *
+ * Delivery failures are logged but never thrown.
+ */
+async function notifyGroupAttendees(
+  prisma: PrismaClient,
+  booking: GroupBookingRecord,
+  registrationIds: string[],
+  invitations: PendingInvitation[],
+): Promise<void> {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+  const results = await Promise.allSettled(
+    invitations.map(({ attendee, token }) =>
+      sendEmail({
+        to: attendee.email,
+        subject: `${booking.purchaser.name} booked you a seat at ${booking.event.title}`,
+        react: GroupSeatInvitationTemplate({
+          attendeeName: attendee.name,
+          purchaserName: booking.purchaser.name,
+          eventTitle: booking.event.title,
+          eventDate: formatEventTime(
+            booking.event.date,
+            booking.event.endsAt,
+            booking.event.timeZone,
+          ),
+          eventLocation: booking.event.location,
+          claimUrl: `${appUrl}/group-seats/claim?token=${encodeURIComponent(token)}`,
+        }),
+      }),
+    ),
+  );
+
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      logger.error({
+        message: 'Failed to send group seat invitation',
+        groupBookingId: booking.id,
+        attendeeEmail: invitations[index].attendee.email,
+        error:
+          result.reason instanceof Error
+            ? result.reason.message
+            : String(result.reason),
+      });
+    }
+  });
+
+  await Promise.all(
+    registrationIds.map((registrationId) =>
+      sendRegistrationTicket(prisma, registrationId),
+    ),
+  );
+}
+
+/**
+ * Book seats for a group of attendees in one atomic operation
+ *
+ * @param prisma - Prisma client instance
+ * @param purchaserId - UUID of the user making the booking
+ * @param eventId - UUID of the event
+ * @param attendees - One entry per seat; emails must be unique
+ * @param ticketTypeId - Ticket type for every seat; required when the event
+ *                       defines any
+ * @returns The booking with one seat per attendee, or a structured error
+ */
+export async function createGroupRegistration(
+  prisma: PrismaClient,
+  purchaserId: string,
+  eventId: string,
+  attendees: GroupAttendee[],
+  ticketTypeId?: string,
+) {
+  const operationTimestamp = new Date();
+  const seatCount = attendees.length;
+
+  try {
+    // Read outside the transaction: holds live in Redis, not the database
+    const heldByOthers = await countActiveHolds(eventId, purchaserId);
+
+    const result = await prisma.$transaction(async (tx) => {
+      const event = await tx.event.findUnique({
+        where: { id: eventId },
+        select: {
+          id: true,
+          title: true,
+          seatsRemaining: true,
+          registrationMode: true,
+          status: true,
+          deletedAt: true,
+        },
+      });
+
+      if (!event) {
+        throw new RegistrationError(
+          `Event not found: ${eventId}`,
+          ERROR_CODES.EVENT_NOT_FOUND,
+        );
+      }
+
+      assertEventOpenForRegistration(event);
+
+      if (event.registrationMode !== RegistrationMode.OPEN) {
+        throw new RegistrationError(
+          `Group bookings are not available for '${event.title}' because its registrations are reviewed by the organizer`,
+          ERROR_CODES.FORBIDDEN,
+        );
+      }
+
+      const ticketType = await resolveTicketType(
+        tx,
+        eventId,
+        ticketTypeId,
+        operationTimestamp,
+      );
+
+      if ((ticketType?.priceCents ?? 0) > 0) {
+        throw new RegistrationError(
+          `Group bookings are only available for free ticket types; '${ticketType!.name}' must be purchased individually`,
+          ERROR_CODES.INVALID_INPUT,
+        );
+      }
+
+      // Required questions cannot be answered on the attendees' behalf
+      await parseRegistrationAnswers(tx, eventId, undefined);
+
+      const emails = attendees.map((attendee) => attendee.email);
+      const users = await tx.user.findMany({
+        where: { email: { in: emails } },
+        select: { id: true, email: true },
+      });
+      const usersByEmail = new Map(
+        users.map((user) => [user.email.toLowerCase(), user]),
+      );
+
+      await assertAttendeesAvailable(tx, eventId, emails, usersByEmail);
+
+      if (!(await claimSeats(tx, eventId, seatCount, heldByOthers))) {
+        throw new RegistrationError(
+          `Event '${event.title}' does not have ${seatCount} seats available (${Math.max(event.seatsRemaining - heldByOthers, 0)} left)`,
+          ERROR_CODES.EVENT_FULL,
+        );
+      }
+
+      if (
+        ticketType &&
+        !(await claimTicketSeats(tx, ticketType.id, seatCount))
+      ) {
+        throw new RegistrationError(
+          `Ticket type '${ticketType.name}' does not have ${seatCount} seats left`,
+          ERROR_CODES.TICKET_TYPE_SOLD_OUT,
+        );
+      }
+
+      const { id: groupBookingId } = await tx.groupBooking.create({
+        data: { eventId, purchaserId, ticketTypeId: ticketType?.id },
+        select: { id: true },
+      });
+
+      const registrationIds: string[] = [];
+      const invitations: PendingInvitation[] = [];
+
+      for (const attendee of attendees) {
+        const { data, invitation } = await assignSeat(
+          tx,
+          { eventId, ticketTypeId: ticketType?.id ?? null },
+          attendee,
+          usersByEmail.get(attendee.email),
+        );
+
+        await tx.groupSeat.create({ data: { ...data, groupBookingId } });
+
+        if (data.registrationId) {
+          registrationIds.push(data.registrationId);
+        }
+        if (invitation) {
+          invitations.push(invitation);
+        }
+      }
+
+      const booking = await tx.groupBooking.findUniqueOrThrow({
+        where: { id: groupBookingId },
+        select: GROUP_BOOKING_SELECT,
+      });
+
+      return { booking, registrationIds, invitations };
+    }, GROUP_TRANSACTION_OPTIONS);
+
+    // The booking consumed the seats the purchaser was holding at checkout
+    await releaseSeatHold(eventId, purchaserId).catch((error) =>
+      logger.warn({
+        message: 'Could not release seat hold after group booking',
+        eventId,
+        error: error instanceof Error ? error.message : String(error),
+      }),
+    );
+
+    await notifyGroupAttendees(
+      prisma,
+      result.booking,
+      result.registrationIds,
+      result.invitations,
+    );
+
+    logger.info({
+      message: 'Group booking created',
+      eventId,
+      groupBookingId: result.booking.id,
+      seats: seatCount,
+      invited: result.invitations.length,
+    });
+
+    return {
+      success: true,
+      booking: toBookingView(result.booking),
+      error: null,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.warn({
+      message: 'Group booking failed',
+      eventId,
+      seats: seatCount,
+      error: errorMessage,
+    });
+
+    return {
+      success: false,
+      booking: null,
+      error: { message: errorMessage, code: getErrorCode(error) },
+    };
+  }
+}
+
+/**
+ * Get a group booking with the status of each seat
+ *
+ * @param actor - Caller; the purchaser, the event organizer or an admin
+ */
+export async function getGroupBooking(
+  prisma: PrismaClient,
+  groupBookingId: string,
+  actor: Actor,
+) {
+  try {
+    const booking = await prisma.groupBooking.findUnique({
+      where: { id: groupBookingId },
+      select: {
+        ...GROUP_BOOKING_SELECT,
+        event: {
+          select: {
+            ...GROUP_BOOKING_SELECT.event.select,
+            staff: eventStaffSelect(actor),
+          },
+        },
+      },
+    });
+
+    if (!booking) {
+      throw new RegistrationError(
+        `Group booking not found: ${groupBookingId}`,
+        ERROR_CODES.NOT_FOUND,
+      );
+    }
+
+    if (
+      booking.purchaserId !== actor.userId &&
+      !canManageEvent(actor, booking.event)
+    ) {
+      throw new RegistrationError(
+        'You can only view your own group bookings',
+        ERROR_CODES.FORBIDDEN,
+      );
+    }
+
+    return { success: true, booking: toBookingView(booking), error: null };
+  } catch (error) {
+    return {
+      success: false,
+      booking: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Give a group seat to a different attendee
+ *
+ * The previous attendee's registration is cancelled (and recorded as a
+ * cancellation) or their invitation revoked; the new attendee is registered or
+ * invited exactly as at booking time. The seat never returns to the event, so
+ * reassignment cannot lose it to another registrant.
+ *
+ * @param prisma - Prisma client instance
+ * @param groupBookingId - UUID of the booking the seat belongs to
+ * @param seatId - UUID of the seat to reassign
+ * @param attendee - The new attendee
+ * @param actor - Caller; the purchaser, the event organizer or an admin
+ */
+export async function reassignGroupSeat(
+  prisma: PrismaClient,
+  groupBookingId: string,
+  seatId: string,
+  attendee: GroupAttendee,
+  actor: Actor,
+) {
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      const seat = await tx.groupSeat.findFirst({
+        where: { id: seatId, groupBookingId },
+        select: {
+          ...GROUP_SEAT_SELECT,
+          registration: {
+            select: {
+              id: true,
+              userId: true,
+              status: true,
+              checkedInAt: true,
+              createdAt: true,
+            },
+          },
+        },
+      });
+
+      if (!seat) {
+        throw new RegistrationError(
+          `Seat ${seatId} not found in group booking ${groupBookingId}`,
+          ERROR_CODES.NOT_FOUND,
+        );
+      }
+
+      const booking = await tx.groupBooking.findUniqueOrThrow({
+        where: { id: groupBookingId },
+        select: {
+          eventId: true,
+          purchaserId: true,
+          ticketTypeId: true,
+          event: {
+            select: { organizerId: true, staff: eventStaffSelect(actor) },
+          },
+        },
+      });
+
+      if (
+        booking.purchaserId !== actor.userId &&
+        !canManageEvent(actor, booking.event)
+      ) {
+        throw new RegistrationError(
+          'Only the purchaser can reassign seats in this group booking',
+          ERROR_CODES.FORBIDDEN,
+        );
+      }
+
+      if (seat.registration?.checkedInAt) {
+        throw new RegistrationError(
+          `${seat.attendeeName} has already checked in; this seat can no longer be reassigned`,
+          ERROR_CODES.ALREADY_CHECKED_IN,
+        );
+      }
+
+      // Same person, corrected name: nothing to re-issue
+      if (seat.attendeeEmail === attendee.email) {
+        await tx.groupSeat.update({
+          where: { id: seat.id },
+          data: { attendeeName: attendee.name },
+        });
+        return { registrationId: null, invitation: null };
+      }
+
+      const user = await tx.user.findUnique({
+        where: { email: attendee.email },
+        select: { id: true },
+      });
+      const usersByEmail = new Map(user ? [[attendee.email, user]] : []);
+
+      await assertAttendeesAvailable(
+        tx,
+        booking.eventId,
+        [attendee.email],
+        usersByEmail,
+      );
+
+      // The seat passes straight to the new attendee, so nothing is released
+      if (seat.registration) {
+        assertTransition(
+          seat.registration.status,
+          RegistrationStatus.CANCELLED,
+        );
+
+        const { count } = await tx.registration.updateMany({
+          where: {
+            id: seat.registration.id,
+            status: seat.registration.status,
+          },
+          data: { status: RegistrationStatus.CANCELLED },
+        });
+
+        if (count === 0) {
+          throw new RegistrationError(
+            `${seat.attendeeName}'s registration changed while the seat was being reassigned; please try again`,
+            ERROR_CODES.INVALID_STATUS_TRANSITION,
+          );
+        }
+
+        // Their sessions were picked for them, not for the new attendee
+        await releaseAgenda(tx, seat.registration.id);
+
+        await tx.registrationCancellation.create({
+          data: {
+            registrationId: seat.registration.id,
+            userId: seat.registration.userId,
+            eventId: booking.eventId,
+            cancelledById: actor.userId,
+            reason: `Group seat reassigned to ${attendee.email}`,
+            registeredAt: seat.registration.createdAt,
+          },
+        });
+      }
+
+      const { data, invitation } = await assignSeat(
+        tx,
+        booking,
+        attendee,
+        user ?? undefined,
+      );
+
+      await tx.groupSeat.update({ where: { id: seat.id }, data });
+
+      return { registrationId: data.registrationId, invitation };
+    }, GROUP_TRANSACTION_OPTIONS);
+
+    const booking = await prisma.groupBooking.findUniqueOrThrow({
+      where: { id: groupBookingId },
+      select: GROUP_BOOKING_SELECT,
+    });
+
+    await notifyGroupAttendees(
+      prisma,
+      booking,
+      result.registrationId ? [result.registrationId] : [],
+      result.invitation ? [result.invitation] : [],
+    );
+
+    const seat = booking.seats.find((s) => s.id === seatId)!;
+
+    return { success: true, seat: toSeatView(seat), error: null };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.warn({
+      message: 'Group seat reassignment failed',
+      groupBookingId,
+      seatId,
+      error: errorMessage,
+    });
+
+    return {
+      success: false,
+      seat: null,
+      error: { message: errorMessage, code: getErrorCode(error) },
+    };
+  }
+}
+
+/**
+ * Claim an invited group seat, turning it into the caller's registration
+ *
+ * @param prisma - Prisma client instance
+ * @param token - Invitation token from the emailed claim link
+ * @param actor - Caller; must be signed in with the invited email address
+ */
+export async function claimGroupSeat(
+  prisma: PrismaClient,
+  token: string,
+  actor: Actor,
+) {
+  const tokenHash = hashToken(token);
+
+  try {
+    const registration = await prisma.$transaction(async (tx) => {
+      const seat = await tx.groupSeat.findUnique({
+        where: { inviteTokenHash: tokenHash },
+        select: {
+          id: true,
+          attendeeEmail: true,
+          groupBooking: {
+            select: {
+              eventId: true,
+              ticketTypeId: true,
+              event: {
+                select: {
+                  id: true,
+                  title: true,
+                  status: true,
+                  deletedAt: true,
+                },
+              },
+            },
+          },
+        },
+      });
+
+      if (!seat) {
+        throw new RegistrationError(
+          'Invitation not found or already claimed',
+          ERROR_CODES.INVALID_INVITATION,
+        );
+      }
+
+      const user = await tx.user.findUnique({
+        where: { id: actor.userId },
+        select: { id: true, email: true },
+      });
+
+      if (!user) {
+        throw new RegistrationError(
+          `User not found: ${actor.userId}`,
+          ERROR_CODES.USER_NOT_FOUND,
+        );
+      }
+
+      if (user.email.toLowerCase() !== seat.attendeeEmail) {
+        throw new RegistrationError(
+          `This invitation was sent to ${seat.attendeeEmail}; sign in with that address to claim it`,
+          ERROR_CODES.INVITATION_EMAIL_MISMATCH,
+        );
+      }
+
+      // Cancel and delete revoke unclaimed seats; this covers a claim that
+      // raced them
+      assertEventOpenForRegistration(seat.groupBooking.event);
+
+      const { eventId, ticketTypeId } = seat.groupBooking;
+
+      const { id: registrationId } = await createOrReopenRegistration(tx, {
+        userId: user.id,
+        eventId,
+        ticketTypeId,
+        status: RegistrationStatus.APPROVED,
+      });
+
+      const created = await tx.registration.findUniqueOrThrow({
+        where: { id: registrationId },
+        select: {
+          id: true,
+          status: true,
+          createdAt: true,
+          event: { select: { id: true, title: true, date: true } },
+        },
+      });
+
+      // Guard against the seat being reassigned or claimed concurrently
+      const { count } = await tx.groupSeat.updateMany({
+        where: { id: seat.id, inviteTokenHash: tokenHash },
+        data: { registrationId: created.id, inviteTokenHash: null },
+      });
+
+      if (count === 0) {
+        throw new RegistrationError(
+          'Invitation not found or already claimed',
+          ERROR_CODES.INVALID_INVITATION,
+        );
+      }
+
+      await tx.waitlist.deleteMany({ where: { userId: user.id, eventId } });
+
+      return created;
+    }, GROUP_TRANSACTION_OPTIONS);
+
+    await sendRegistrationTicket(prisma, registration.id);
+
+    return { success: true, registration, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      registration: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
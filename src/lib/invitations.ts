@@ -0,0 +1,357 @@
+import {
+  EventStatus,
+  Prisma,
+  PrismaClient,
+  RegistrationMode,
+} from '@prisma/client';
+import { sendEmail } from './email';
+import { ERROR_CODES } from './errorCodes';
+import { RegistrationError, getErrorCode } from './errors';
+import logger from './logger';
+import { Actor, canManageEvent, eventStaffSelect } from './permissions';
+import { ACTIVE_STATUSES } from './registrationStatus';
+import { createHashedToken, hashToken } from './secureTokens';
+import { formatDateTime, formatEventTime } from './utils';
+import { EventInvitationTemplate } from '@/components/emails/EventInvitationTemplate';
+
+/**
+ * Event Invitations
+ *
+ * INVITE_ONLY events are not listed publicly and refuse self-registration.
+ * Their organizer issues invitations by email instead; each carries a
+ * single-use token that expires after INVITATION_TTL_DAYS (default 14).
+ * Only the SHA-256 hash of the token is stored.
+ *
+ * Redeeming goes through `registerUserForEvent` with the token: the
+ * invitation is checked (right event, invited address, unused, unexpired)
+ * and marked used in the same transaction that creates the registration, so
+ * a token can never produce two registrations.
+ *
+ * Inviting an address again replaces its token and expiry, which also
+ * invalidates the earlier link. Invitations whose registration is still
+ * active are left alone; one whose registration was cancelled is reissued
+ * as unused.
+ */
+
+export const INVITATION_TTL_DAYS =
+  Number(process.env.INVITATION_TTL_DAYS) || 14;
+
+export type InvitationSkipReason = 'ALREADY_REGISTERED' | 'ALREADY_ACCEPTED';
+
+/** An invitation to email once the transaction that issued it commits */
+interface PendingInvitation {
+  email: string;
+  token: string;
+  expiresAt: Date;
+}
+
+/**
+ * Issue (or re-issue) invitations to an invite-only event and email them
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event
+ * @param emails - Lowercased, de-duplicated addresses to invite
+ * @param actor - Caller; must be the event organizer or an admin
+ * @returns The invitations sent and the addresses skipped (already
+ *          registered or already accepted), or a structured error
+ */
+export async function issueInvitations(
+  prisma: PrismaClient,
+  eventId: string,
+  emails: string[],
+  actor: Actor,
+) {
+  const operationTimestamp = new Date();
+  const expiresAt = new Date(
+    operationTimestamp.getTime() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000,
+  );
+
+  try {
+    const event = await prisma.event.findUnique({
+      where: { id: eventId, deletedAt: null },
+      select: {
+        id: true,
+        title: true,
+        status: true,
+        date: true,
+        endsAt: true,
+        timeZone: true,
+        location: true,
+        organizerId: true,
+        staff: eventStaffSelect(actor),
+        registrationMode: true,
+        organizer: { select: { name: true } },
+      },
+    });
+
+    if (!event) {
+      throw new RegistrationError(
+        `Event not found: ${eventId}`,
+        ERROR_CODES.EVENT_NOT_FOUND,
+      );
+    }
+
+    if (!canManageEvent(actor, event)) {
+      throw new RegistrationError(
+        'Only the event organizer can invite attendees',
+        ERROR_CODES.FORBIDDEN,
+      );
+    }
+
+    // Drafts can collect invitations ahead of publishing
+    if (
+      event.status !== EventStatus.DRAFT &&
+      event.status !== EventStatus.PUBLISHED
+    ) {
+      throw new RegistrationError(
+        `Event '${event.title}' is ${event.status.toLowerCase()} and no longer takes invitations`,
+        ERROR_CODES.EVENT_NOT_PUBLISHED,
+      );
+    }
+
+    if (event.registrationMode !== RegistrationMode.INVITE_ONLY) {
+      throw new RegistrationError(
+        `Event '${event.title}' is not invite-only; attendees can register directly`,
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    const { issued, skipped } = await prisma.$transaction(
+      async (tx) => {
+        const [accepted, registered] = await Promise.all([
+          tx.invitation.findMany({
+            where: {
+              eventId,
+              email: { in: emails },
+              usedAt: { not: null },
+              // An invitee who has since cancelled can be invited again
+              registration: { status: { in: ACTIVE_STATUSES } },
+            },
+            select: { email: true },
+          }),
+          tx.registration.findMany({
+            where: {
+              eventId,
+              status: { in: ACTIVE_STATUSES },
+              user: { email: { in: emails, mode: 'insensitive' } },
+            },
+            select: { user: { select: { email: true } } },
+          }),
+        ]);
+
+        const acceptedEmails = new Set(accepted.map(({ email }) => email));
+        const registeredEmails = new Set(
+          registered.map(({ user }) => user.email.toLowerCase()),
+        );
+
+        const skipped: { email: string; reason: InvitationSkipReason }[] = [];
+        const issued: (PendingInvitation & { id: string })[] = [];
+
+        for (const email of emails) {
+          if (registeredEmails.has(email)) {
+            skipped.push({ email, reason: 'ALREADY_REGISTERED' });
+            continue;
+          }
+
+          if (acceptedEmails.has(email)) {
+            skipped.push({ email, reason: 'ALREADY_ACCEPTED' });
+            continue;
+          }
+
+          const { token, tokenHash } = createHashedToken();
+          const invitation = await tx.invitation.upsert({
+            where: { eventId_email: { eventId, email } },
+            create: {
+              eventId,
+              email,
+              tokenHash,
+              expiresAt,
+              invitedById: actor.userId,
+            },
+            update: {
+              tokenHash,
+              expiresAt,
+              invitedById: actor.userId,
+              usedAt: null,
+              registrationId: null,
+            },
+            select: { id: true },
+          });
+
+          issued.push({ id: invitation.id, email, token, expiresAt });
+        }
+
+        return { issued, skipped };
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 10000,
+      },
+    );
+
+    // Emails only go out once the tokens have been committed
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+    const results = await Promise.allSettled(
+      issued.map(({ email, token }) =>
+        sendEmail({
+          to: email,
+          subject: `You're invited to ${event.title}`,
+          react: EventInvitationTemplate({
+            organizerName: event.organizer.name,
+            eventTitle: event.title,
+            eventDate: formatEventTime(
+              event.date,
+              event.endsAt,
+              event.timeZone,
+            ),
+            eventLocation: event.location,
+            expiresAt: formatDateTime(expiresAt, event.timeZone),
+            acceptUrl: `${appUrl}/invitations/accept?token=${encodeURIComponent(token)}`,
+          }),
+        }),
+      ),
+    );
+
+    const failedEmails: string[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        failedEmails.push(issued[index].email);
+        logger.error({
+          message: 'Failed to send event invitation',
+          eventId,
+          email: issued[index].email,
+          error:
+            result.reason instanceof Error
+              ? result.reason.message
+              : String(result.reason),
+        });
+      }
+    });
+
+    logger.info({
+      message: 'Event invitations issued',
+      eventId,
+      issued: issued.length,
+      skipped: skipped.length,
+    });
+
+    return {
+      success: true,
+      invitations: issued.map(({ id, email }) => ({
+        id,
+        email,
+        expiresAt,
+        emailSent: !failedEmails.includes(email),
+      })),
+      skipped,
+      error: null,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      invitations: [],
+      skipped: [],
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Look up the event an invitation token belongs to
+ *
+ * @returns The event id, or null when no invitation has this token
+ */
+export async function findInvitationEventId(
+  prisma: PrismaClient,
+  token: string,
+): Promise<string | null> {
+  const invitation = await prisma.invitation.findUnique({
+    where: { tokenHash: hashToken(token) },
+    select: { eventId: true },
+  });
+
+  return invitation?.eventId ?? null;
+}
+
+/**
+ * Check that an invitation token lets `user` register for the event
+ *
+ * @returns The invitation id, to be passed to `markInvitationUsed` once the
+ *          registration is written
+ */
+export async function assertInvitationRedeemable(
+  tx: Prisma.TransactionClient,
+  token: string,
+  user: { email: string },
+  eventId: string,
+  at: Date,
+): Promise<string> {
+  const invitation = await tx.invitation.findUnique({
+    where: { tokenHash: hashToken(token) },
+    select: {
+      id: true,
+      eventId: true,
+      email: true,
+      expiresAt: true,
+      usedAt: true,
+    },
+  });
+
+  if (!invitation || invitation.eventId !== eventId) {
+    throw new RegistrationError(
+      'Invitation not found or no longer valid',
+      ERROR_CODES.INVALID_INVITATION,
+    );
+  }
+
+  if (invitation.usedAt) {
+    throw new RegistrationError(
+      `This invitation was already used on ${invitation.usedAt.toISOString()}`,
+      ERROR_CODES.INVITATION_ALREADY_USED,
+    );
+  }
+
+  if (invitation.expiresAt <= at) {
+    throw new RegistrationError(
+      `This invitation expired on ${invitation.expiresAt.toISOString()}; ask the organizer to invite you again`,
+      ERROR_CODES.INVITATION_EXPIRED,
+    );
+  }
+
+  if (invitation.email !== user.email.toLowerCase()) {
+    throw new RegistrationError(
+      `This invitation was sent to ${invitation.email}; sign in with that address to accept it`,
+      ERROR_CODES.INVITATION_EMAIL_MISMATCH,
+    );
+  }
+
+  return invitation.id;
+}
+
+/**
+ * Mark an invitation used by the registration it produced
+ *
+ * Conditional on `usedAt IS NULL`, so two concurrent redemptions of the same
+ * token cannot both succeed.
+ */
+export async function markInvitationUsed(
+  tx: Prisma.TransactionClient,
+  invitationId: string,
+  registrationId: string,
+  at: Date,
+): Promise<void> {
+  const { count } = await tx.invitation.updateMany({
+    where: { id: invitationId, usedAt: null },
+    data: { usedAt: at, registrationId },
+  });
+
+  if (count === 0) {
+    throw new RegistrationError(
+      'This invitation has already been used',
+      ERROR_CODES.INVITATION_ALREADY_USED,
+    );
+  }
+}
@@ -0,0 +1,128 @@
+import { completeEndedEvents, publishScheduledEvents } from './eventLifecycle';
+import { extendEventSeries } from './eventSeries';
+import logger from './logger';
+import prisma from './prisma';
+import { releaseExpiredPaymentHolds } from './registrationPayments';
+import { sweepExpiredSeatHolds } from './seatHolds';
+import { promoteFromWaitlist } from './waitlist';
+
+declare global {
+  var backgroundJobsStarted: boolean | undefined;
+}
+
+/**
+ * How often expired payment holds are swept (PAYMENT_HOLD_SWEEP_INTERVAL_MS,
+ * default one minute)
+ */
+const PAYMENT_HOLD_SWEEP_INTERVAL_MS =
+  Number(process.env.PAYMENT_HOLD_SWEEP_INTERVAL_MS) || 60 * 1000;
+
+/**
+ * How often expired checkout seat holds are swept
+ * (SEAT_HOLD_SWEEP_INTERVAL_MS, default 30 seconds)
+ */
+const SEAT_HOLD_SWEEP_INTERVAL_MS =
+  Number(process.env.SEAT_HOLD_SWEEP_INTERVAL_MS) || 30 * 1000;
+
+/**
+ * How often recurring series are extended with the occurrences that have come
+ * within their generation horizon (SERIES_GENERATION_INTERVAL_MS, default one
+ * hour)
+ */
+const SERIES_GENERATION_INTERVAL_MS =
+  Number(process.env.SERIES_GENERATION_INTERVAL_MS) || 60 * 60 * 1000;
+
+/**
+ * How often drafts due to be published are published and ended events are
+ * completed (EVENT_STATUS_INTERVAL_MS, default one minute)
+ */
+const EVENT_STATUS_INTERVAL_MS =
+  Number(process.env.EVENT_STATUS_INTERVAL_MS) || 60 * 1000;
+
+/**
+ * Run a job, logging instead of throwing so one failure never stops the timer
+ */
+function runSafely(name: string, job: () => Promise<unknown>) {
+  return async () => {
+    try {
+      await job();
+    } catch (error) {
+      logger.error({
+        message: `${name} failed`,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+}
+
+/**
+ * Drop expired checkout holds and offer the freed seats to the waitlist
+ */
+async function releaseExpiredSeatHolds(): Promise<void> {
+  const swept = await sweepExpiredSeatHolds();
+
+  for (const { eventId, released } of swept) {
+    const promotions = await promoteFromWaitlist(prisma, eventId);
+
+    logger.info({
+      message: 'Released expired seat holds',
+      eventId,
+      released,
+      promoted: promotions.length,
+    });
+  }
+}
+
+/**
+ * Publish drafts whose publish time has passed and complete ended events
+ */
+async function advanceEventStatuses(): Promise<void> {
+  await publishScheduledEvents(prisma);
+  await completeEndedEvents(prisma);
+}
+
+/**
+ * Start the in-process background jobs
+ *
+ * Called once from instrumentation.ts on the Node.js runtime. The guard on
+ * `global` keeps hot reloads from stacking duplicate intervals. Every job is
+ * safe to run on several instances at once because the work it does is
+ * guarded by conditional updates.
+ */
+export function startBackgroundJobs(): void {
+  if (global.backgroundJobsStarted) {
+    return;
+  }
+  global.backgroundJobsStarted = true;
+
+  // Timers are unref'd so they never keep the process alive on their own
+  setInterval(
+    runSafely('Expired payment hold sweep', () =>
+      releaseExpiredPaymentHolds(prisma),
+    ),
+    PAYMENT_HOLD_SWEEP_INTERVAL_MS,
+  ).unref();
+
+  setInterval(
+    runSafely('Expired seat hold sweep', releaseExpiredSeatHolds),
+    SEAT_HOLD_SWEEP_INTERVAL_MS,
+  ).unref();
+
+  setInterval(
+    runSafely('Event series generation', () => extendEventSeries(prisma)),
+    SERIES_GENERATION_INTERVAL_MS,
+  ).unref();
+
+  setInterval(
+    runSafely('Event status update', advanceEventStatuses),
+    EVENT_STATUS_INTERVAL_MS,
+  ).unref();
+
+  logger.info({
+    message: 'Background jobs started',
+    paymentHoldSweepIntervalMs: PAYMENT_HOLD_SWEEP_INTERVAL_MS,
+    seatHoldSweepIntervalMs: SEAT_HOLD_SWEEP_INTERVAL_MS,
+    seriesGenerationIntervalMs: SERIES_GENERATION_INTERVAL_MS,
+    eventStatusIntervalMs: EVENT_STATUS_INTERVAL_MS,
+  });
+}
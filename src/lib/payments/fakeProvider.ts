@@ -0,0 +1,137 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import {
+  CreatePaymentIntentParams,
+  PaymentIntent,
+  PaymentIntentStatus,
+  PaymentProvider,
+  PaymentWebhookEvent,
+} from './types';
+
+/**
+ * In-process payment provider for local development and tests.
+ *
+ * Intents live in a Map, confirmation always succeeds unless the intent was
+ * explicitly declined with `declineIntent`, and webhooks are signed with an
+ * HMAC-SHA256 of the raw body so the verification path is exercised exactly
+ * like a real gateway's.
+ */
+export interface FakePaymentProvider extends PaymentProvider {
+  /** Produce the signature header value for a webhook body */
+  signWebhook(payload: string): string;
+  /** Build a signed webhook body for an intent's current state */
+  buildWebhook(intentId: string): { payload: string; signature: string };
+  /** Make the next confirmation of this intent fail (card declined) */
+  declineIntent(intentId: string): void;
+}
+
+export function createFakePaymentProvider(
+  webhookSecret: string = process.env.PAYMENT_WEBHOOK_SECRET ||
+    'fake-webhook-secret',
+): FakePaymentProvider {
+  const intents = new Map<string, PaymentIntent>();
+  const declined = new Set<string>();
+
+  function getIntent(intentId: string): PaymentIntent {
+    const intent = intents.get(intentId);
+    if (!intent) {
+      throw new Error(`Unknown payment intent: ${intentId}`);
+    }
+    return intent;
+  }
+
+  function setStatus(
+    intentId: string,
+    status: PaymentIntentStatus,
+  ): PaymentIntent {
+    const intent = { ...getIntent(intentId), status };
+    intents.set(intentId, intent);
+    return { ...intent };
+  }
+
+  function signWebhook(payload: string): string {
+    return createHmac('sha256', webhookSecret).update(payload).digest('hex');
+  }
+
+  return {
+    name: 'fake',
+
+    async createIntent({
+      amountCents,
+      currency,
+    }: CreatePaymentIntentParams): Promise<PaymentIntent> {
+      const intent: PaymentIntent = {
+        id: `fake_pi_${randomUUID()}`,
+        status: 'requires_confirmation',
+        amountCents,
+        currency,
+        clientSecret: `fake_secret_${randomUUID()}`,
+      };
+      intents.set(intent.id, intent);
+      return { ...intent };
+    },
+
+    async confirmIntent(intentId: string): Promise<PaymentIntent> {
+      const intent = getIntent(intentId);
+      if (intent.status !== 'requires_confirmation') {
+        return { ...intent };
+      }
+      return setStatus(
+        intentId,
+        declined.has(intentId) ? 'failed' : 'succeeded',
+      );
+    },
+
+    async cancelIntent(intentId: string): Promise<PaymentIntent> {
+      const intent = getIntent(intentId);
+      if (intent.status !== 'requires_confirmation') {
+        throw new Error(
+          `Cannot cancel payment intent in status '${intent.status}'`,
+        );
+      }
+      return setStatus(intentId, 'canceled');
+    },
+
+    async refund(intentId: string): Promise<PaymentIntent> {
+      const intent = getIntent(intentId);
+      if (intent.status !== 'succeeded') {
+        throw new Error(
+          `Cannot refund payment intent in status '${intent.status}'`,
+        );
+      }
+      return setStatus(intentId, 'refunded');
+    },
+
+    async verifyWebhook(
+      payload: string,
+      signature: string | null,
+    ): Promise<PaymentWebhookEvent> {
+      if (!signature) {
+        throw new Error('Missing webhook signature');
+      }
+
+      const expected = Buffer.from(signWebhook(payload), 'hex');
+      const received = Buffer.from(signature, 'hex');
+
+      if (
+        expected.length !== received.length ||
+        !timingSafeEqual(expected, received)
+      ) {
+        throw new Error('Invalid webhook signature');
+      }
+
+      return JSON.parse(payload) as PaymentWebhookEvent;
+    },
+
+    signWebhook,
+
+    buildWebhook(intentId: string) {
+      const payload = JSON.stringify({ intent: getIntent(intentId) });
+      return { payload, signature: signWebhook(payload) };
+    },
+
+    declineIntent(intentId: string) {
+      getIntent(intentId);
+      declined.add(intentId);
+    },
+  };
+}
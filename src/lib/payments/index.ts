@@ -0,0 +1,41 @@
+import { createFakePaymentProvider } from './fakeProvider';
+import { PaymentProvider } from './types';
+
+export * from './types';
+
+declare global {
+  var paymentProvider: PaymentProvider | undefined;
+}
+
+/**
+ * How long a seat is held for a registration awaiting payment before the
+ * sweeper releases it (PAYMENT_HOLD_MINUTES, default 15)
+ */
+export const PAYMENT_HOLD_MINUTES =
+  Number(process.env.PAYMENT_HOLD_MINUTES) || 15;
+
+export function getPaymentHoldExpiry(from: Date = new Date()): Date {
+  return new Date(from.getTime() + PAYMENT_HOLD_MINUTES * 60 * 1000);
+}
+
+/**
+ * Resolve the configured payment provider (PAYMENT_PROVIDER, default "fake")
+ *
+ * The instance is cached on `global` like the Prisma and Redis clients so the
+ * fake provider's in-memory intents survive hot reloads in development.
+ */
+export function getPaymentProvider(): PaymentProvider {
+  if (!global.paymentProvider) {
+    const providerName = process.env.PAYMENT_PROVIDER || 'fake';
+
+    switch (providerName) {
+      case 'fake':
+        global.paymentProvider = createFakePaymentProvider();
+        break;
+      default:
+        throw new Error(`Unsupported payment provider: ${providerName}`);
+    }
+  }
+
+  return global.paymentProvider;
+}
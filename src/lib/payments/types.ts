@@ -0,0 +1,57 @@
+/**
+ * Payment provider abstraction
+ *
+ * The registration flow only talks to this interface, so a real gateway
+ * (Stripe, Razorpay, ...) can be dropped in without touching the services.
+ * Amounts are always integer minor units (cents) plus an ISO 4217 currency.
+ */
+
+export type PaymentIntentStatus =
+  | 'requires_confirmation'
+  | 'succeeded'
+  | 'failed'
+  | 'canceled'
+  | 'refunded';
+
+export interface PaymentIntent {
+  id: string;
+  status: PaymentIntentStatus;
+  amountCents: number;
+  currency: string;
+  /** Secret handed to the client to complete payment, if the provider uses one */
+  clientSecret?: string;
+}
+
+export interface CreatePaymentIntentParams {
+  amountCents: number;
+  currency: string;
+  /** Free-form identifiers echoed back by the provider (registrationId, ...) */
+  metadata: Record<string, string>;
+}
+
+/**
+ * Verified webhook notification: the provider's view of an intent after an
+ * asynchronous state change
+ */
+export interface PaymentWebhookEvent {
+  intent: PaymentIntent;
+}
+
+export interface PaymentProvider {
+  /** Stored on each Payment row so intents can be traced to their provider */
+  readonly name: string;
+
+  createIntent(params: CreatePaymentIntentParams): Promise<PaymentIntent>;
+  confirmIntent(intentId: string): Promise<PaymentIntent>;
+  cancelIntent(intentId: string): Promise<PaymentIntent>;
+  refund(intentId: string): Promise<PaymentIntent>;
+
+  /**
+   * Authenticate a raw webhook body against its signature header
+   * @throws Error if the signature is missing or invalid
+   */
+  verifyWebhook(
+    payload: string,
+    signature: string | null,
+  ): Promise<PaymentWebhookEvent>;
+}
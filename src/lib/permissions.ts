@@ -0,0 +1,95 @@
+import { EventStaffRole } from '@prisma/client';
+
+/**
+ * Authorization helpers shared by API routes and services.
+ *
+ * An `Actor` is the authenticated caller as returned by `requireAuth`. Roles
+ * mirror the Prisma `UserRole` enum (VIEWER, EDITOR, ADMIN).
+ *
+ * Each event is owned by its `organizerId`; its staff (see
+ * src/lib/eventStaff.ts) hold a per-event role. To let staff in, load the
+ * actor's staff row with the event (`staff: eventStaffSelect(actor)`);
+ * without it only the owner and admins pass.
+ */
+export interface Actor {
+  userId: string;
+  role: string;
+}
+
+export type EventRole = 'OWNER' | EventStaffRole;
+
+export type EventPermission =
+  // Edit the event, its sessions, speakers, questions, invitations, ...
+  | 'manage'
+  // See drafts, the staff list and the attendee list
+  | 'view'
+  | 'checkIn'
+  | 'exportAttendees'
+  // Delete the event, manage its staff and transfer its ownership
+  | 'own';
+
+const EVENT_ROLE_PERMISSIONS: Record<EventRole, EventPermission[]> = {
+  OWNER: ['manage', 'view', 'checkIn', 'exportAttendees', 'own'],
+  CO_ORGANIZER: ['manage', 'view', 'checkIn', 'exportAttendees'],
+  CHECK_IN: ['view', 'checkIn'],
+  VIEWER: ['view', 'exportAttendees'],
+};
+
+/** An event as needed for permission checks */
+export interface PermissionEvent {
+  organizerId: string;
+  // The actor's staff row, if loaded with `eventStaffSelect`
+  staff?: { role: EventStaffRole }[];
+}
+
+export function isAdmin(actor: Actor): boolean {
+  return actor.role === 'ADMIN';
+}
+
+/**
+ * Nested select loading only the actor's staff row of an event
+ */
+export function eventStaffSelect(actor: Actor) {
+  return {
+    where: { userId: actor.userId },
+    select: { role: true },
+  };
+}
+
+/**
+ * The actor's role on an event, or null when they have none
+ */
+export function getEventRole(
+  actor: Actor,
+  event: PermissionEvent,
+): EventRole | null {
+  if (event.organizerId === actor.userId) {
+    return 'OWNER';
+  }
+
+  return event.staff?.[0]?.role ?? null;
+}
+
+/**
+ * Admins can do everything; everyone else needs a role granting it
+ */
+export function hasEventPermission(
+  actor: Actor,
+  event: PermissionEvent,
+  permission: EventPermission,
+): boolean {
+  if (isAdmin(actor)) {
+    return true;
+  }
+
+  const role = getEventRole(actor, event);
+  return role !== null && EVENT_ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Owners and co-organizers manage their events; admins can manage every
+ * event.
+ */
+export function canManageEvent(actor: Actor, event: PermissionEvent): boolean {
+  return hasEventPermission(actor, event, 'manage');
+}
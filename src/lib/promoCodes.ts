@@ -0,0 +1,653 @@
+import { DiscountType, Prisma, PrismaClient } from '@prisma/client';
+import { ERROR_CODES } from './errorCodes';
+import { RegistrationError, getErrorCode } from './errors';
+import logger from './logger';
+import { Actor, isAdmin } from './permissions';
+import { ACTIVE_STATUSES } from './registrationStatus';
+import {
+  CreatePromoCodeRequest,
+  UpdatePromoCodeRequest,
+} from './schemas/promoCodeSchema';
+
+/**
+ * Promo Codes
+ *
+ * Admins create discount codes (a percentage or a fixed amount off the
+ * ticket price) that can be limited to a number of redemptions, a validity
+ * window, and specific events or ticket types.
+ *
+ * A code is redeemed inside the registration transaction, by the same kind
+ * of conditional decrement that claims seats (see seatAllocation.ts):
+ * `redemptionsRemaining` only goes down while it is at least 1, so two
+ * concurrent registrations cannot both take the last redemption. Unlimited
+ * codes keep `redemptionsRemaining` null. Cancelling, rejecting or letting
+ * the payment hold of a discounted registration lapse gives the redemption
+ * back.
+ *
+ * Only priced tickets can be discounted. The discount is stored on the
+ * registration (`discountCents`) and taken off the amount charged.
+ */
+
+const PROMO_CODE_SELECT = {
+  id: true,
+  code: true,
+  description: true,
+  discountType: true,
+  discountValue: true,
+  currency: true,
+  maxRedemptions: true,
+  redemptionsRemaining: true,
+  redemptionCount: true,
+  startsAt: true,
+  expiresAt: true,
+  active: true,
+  eventIds: true,
+  ticketTypeIds: true,
+  createdById: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.PromoCodeSelect;
+
+/** Number of most recent redemptions included in the usage report */
+const RECENT_REDEMPTIONS_LIMIT = 20;
+
+/**
+ * Amount a promo code takes off a ticket price, in cents
+ * Percentages round down; a fixed amount never exceeds the price
+ */
+export function calculateDiscountCents(
+  promoCode: { discountType: DiscountType; discountValue: number },
+  priceCents: number,
+): number {
+  if (promoCode.discountType === DiscountType.PERCENTAGE) {
+    return Math.floor(
+      (priceCents * Math.min(promoCode.discountValue, 100)) / 100,
+    );
+  }
+
+  return Math.min(promoCode.discountValue, priceCents);
+}
+
+/**
+ * Check a promo code against the ticket being registered for and claim one
+ * of its redemptions
+ *
+ * Must run in the transaction that writes the registration, so the
+ * redemption is rolled back with it if anything else fails.
+ *
+ * @param tx - Transaction client
+ * @param code - Code as entered by the registrant (matched case-insensitively)
+ * @param target - Event and ticket type being registered for
+ * @param at - Time of the registration
+ * @returns The promo code id and the discount to record on the registration
+ */
+export async function redeemPromoCode(
+  tx: Prisma.TransactionClient,
+  code: string,
+  target: {
+    eventId: string;
+    ticketType: { id: string; priceCents: number; currency: string } | null;
+  },
+  at: Date,
+): Promise<{ promoCodeId: string; discountCents: number }> {
+  const promoCode = await tx.promoCode.findUnique({
+    where: { code: code.trim().toUpperCase() },
+    select: PROMO_CODE_SELECT,
+  });
+
+  if (!promoCode || !promoCode.active) {
+    throw new RegistrationError(
+      `Promo code '${code}' is not valid`,
+      ERROR_CODES.INVALID_PROMO_CODE,
+    );
+  }
+
+  if (promoCode.startsAt && promoCode.startsAt > at) {
+    throw new RegistrationError(
+      `Promo code '${promoCode.code}' is valid from ${promoCode.startsAt.toISOString()}`,
+      ERROR_CODES.INVALID_PROMO_CODE,
+    );
+  }
+
+  if (promoCode.expiresAt && promoCode.expiresAt <= at) {
+    throw new RegistrationError(
+      `Promo code '${promoCode.code}' expired on ${promoCode.expiresAt.toISOString()}`,
+      ERROR_CODES.INVALID_PROMO_CODE,
+    );
+  }
+
+  if (
+    promoCode.eventIds.length > 0 &&
+    !promoCode.eventIds.includes(target.eventId)
+  ) {
+    throw new RegistrationError(
+      `Promo code '${promoCode.code}' cannot be used for this event`,
+      ERROR_CODES.PROMO_CODE_NOT_APPLICABLE,
+    );
+  }
+
+  const { ticketType } = target;
+
+  if (
+    promoCode.ticketTypeIds.length > 0 &&
+    (!ticketType || !promoCode.ticketTypeIds.includes(ticketType.id))
+  ) {
+    throw new RegistrationError(
+      `Promo code '${promoCode.code}' cannot be used for this ticket type`,
+      ERROR_CODES.PROMO_CODE_NOT_APPLICABLE,
+    );
+  }
+
+  if (!ticketType || ticketType.priceCents === 0) {
+    throw new RegistrationError(
+      `Promo code '${promoCode.code}' only applies to paid tickets`,
+      ERROR_CODES.PROMO_CODE_NOT_APPLICABLE,
+    );
+  }
+
+  if (
+    promoCode.discountType === DiscountType.FIXED_AMOUNT &&
+    promoCode.currency !== ticketType.currency
+  ) {
+    throw new RegistrationError(
+      `Promo code '${promoCode.code}' only applies to tickets priced in ${promoCode.currency}`,
+      ERROR_CODES.PROMO_CODE_NOT_APPLICABLE,
+    );
+  }
+
+  // The remaining count read above may be stale under concurrent
+  // registrations, so the redemption is claimed with a conditional update
+  const { count } = await tx.promoCode.updateMany({
+    where: {
+      id: promoCode.id,
+      active: true,
+      OR: [
+        { redemptionsRemaining: null },
+        { redemptionsRemaining: { gte: 1 } },
+      ],
+    },
+    data: {
+      redemptionCount: { increment: 1 },
+      redemptionsRemaining: { decrement: 1 },
+    },
+  });
+
+  if (count === 0) {
+    throw new RegistrationError(
+      `Promo code '${promoCode.code}' has reached its redemption limit`,
+      ERROR_CODES.PROMO_CODE_EXHAUSTED,
+    );
+  }
+
+  return {
+    promoCodeId: promoCode.id,
+    discountCents: calculateDiscountCents(promoCode, ticketType.priceCents),
+  };
+}
+
+/**
+ * Give back the redemption held by a registration that is no longer active
+ *
+ * Call in the same transaction as the status change that ends the
+ * registration, after that change has been applied, so it runs at most once.
+ */
+export async function releasePromoCodeRedemption(
+  tx: Prisma.TransactionClient,
+  promoCodeId: string,
+): Promise<void> {
+  await tx.promoCode.updateMany({
+    where: { id: promoCodeId, redemptionCount: { gt: 0 } },
+    data: {
+      redemptionCount: { decrement: 1 },
+      redemptionsRemaining: { increment: 1 },
+    },
+  });
+}
+
+function assertAdmin(actor: Actor) {
+  if (!isAdmin(actor)) {
+    throw new RegistrationError(
+      'Only admins can manage promo codes',
+      ERROR_CODES.FORBIDDEN,
+    );
+  }
+}
+
+/**
+ * Check that every event and ticket type a code is restricted to exists
+ */
+async function assertRestrictionsExist(
+  tx: Prisma.TransactionClient,
+  restrictions: { eventIds?: string[]; ticketTypeIds?: string[] },
+) {
+  const { eventIds = [], ticketTypeIds = [] } = restrictions;
+
+  const [eventCount, ticketTypeCount] = await Promise.all([
+    eventIds.length > 0
+      ? tx.event.count({ where: { id: { in: eventIds } } })
+      : 0,
+    ticketTypeIds.length > 0
+      ? tx.ticketType.count({ where: { id: { in: ticketTypeIds } } })
+      : 0,
+  ]);
+
+  if (eventCount !== eventIds.length) {
+    throw new RegistrationError(
+      'One or more events in eventIds do not exist',
+      ERROR_CODES.INVALID_INPUT,
+    );
+  }
+
+  if (ticketTypeCount !== ticketTypeIds.length) {
+    throw new RegistrationError(
+      'One or more ticket types in ticketTypeIds do not exist',
+      ERROR_CODES.INVALID_INPUT,
+    );
+  }
+}
+
+function promoCodeNotFound(promoCodeId: string) {
+  return new RegistrationError(
+    `Promo code not found: ${promoCodeId}`,
+    ERROR_CODES.NOT_FOUND,
+  );
+}
+
+/**
+ * List every promo code, newest first
+ *
+ * @param prisma - Prisma client instance
+ * @param actor - Caller; must be an admin
+ */
+export async function listPromoCodes(prisma: PrismaClient, actor: Actor) {
+  try {
+    assertAdmin(actor);
+
+    const promoCodes = await prisma.promoCode.findMany({
+      select: PROMO_CODE_SELECT,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return { success: true, promoCodes, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      promoCodes: [],
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Fetch a single promo code
+ *
+ * @param prisma - Prisma client instance
+ * @param promoCodeId - UUID of the promo code
+ * @param actor - Caller; must be an admin
+ */
+export async function getPromoCode(
+  prisma: PrismaClient,
+  promoCodeId: string,
+  actor: Actor,
+) {
+  try {
+    assertAdmin(actor);
+
+    const promoCode = await prisma.promoCode.findUnique({
+      where: { id: promoCodeId },
+      select: PROMO_CODE_SELECT,
+    });
+
+    if (!promoCode) {
+      throw promoCodeNotFound(promoCodeId);
+    }
+
+    return { success: true, promoCode, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      promoCode: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Create a promo code
+ *
+ * @param prisma - Prisma client instance
+ * @param data - Validated promo code definition
+ * @param actor - Caller; must be an admin
+ * @returns The new promo code, or a structured error (DUPLICATE_ENTRY when
+ *          the code is already taken)
+ */
+export async function createPromoCode(
+  prisma: PrismaClient,
+  data: CreatePromoCodeRequest,
+  actor: Actor,
+) {
+  try {
+    assertAdmin(actor);
+
+    const promoCode = await prisma.$transaction(
+      async (tx) => {
+        await assertRestrictionsExist(tx, data);
+
+        return tx.promoCode.create({
+          data: {
+            code: data.code,
+            description: data.description,
+            discountType: data.discountType,
+            discountValue: data.discountValue,
+            currency: data.currency,
+            maxRedemptions: data.maxRedemptions ?? null,
+            redemptionsRemaining: data.maxRedemptions ?? null,
+            startsAt: data.startsAt ? new Date(data.startsAt) : null,
+            expiresAt: data.expiresAt ? new Date(data.expiresAt) : null,
+            active: data.active,
+            eventIds: data.eventIds,
+            ticketTypeIds: data.ticketTypeIds,
+            createdById: actor.userId,
+          },
+          select: PROMO_CODE_SELECT,
+        });
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 10000,
+      },
+    );
+
+    logger.info({
+      message: 'Promo code created',
+      promoCodeId: promoCode.id,
+      code: promoCode.code,
+      createdById: actor.userId,
+    });
+
+    return { success: true, promoCode, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      promoCode: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Update a promo code
+ *
+ * Changing `maxRedemptions` recomputes `redemptionsRemaining` from the
+ * redemptions already made; it cannot go below that number. The update is
+ * conditional on the redemption count read, so a concurrent redemption makes
+ * it fail rather than leave the remaining count wrong.
+ *
+ * @param prisma - Prisma client instance
+ * @param promoCodeId - UUID of the promo code
+ * @param data - Validated fields to change
+ * @param actor - Caller; must be an admin
+ */
+export async function updatePromoCode(
+  prisma: PrismaClient,
+  promoCodeId: string,
+  data: UpdatePromoCodeRequest,
+  actor: Actor,
+) {
+  try {
+    assertAdmin(actor);
+
+    const promoCode = await prisma.$transaction(
+      async (tx) => {
+        const existing = await tx.promoCode.findUnique({
+          where: { id: promoCodeId },
+          select: PROMO_CODE_SELECT,
+        });
+
+        if (!existing) {
+          throw promoCodeNotFound(promoCodeId);
+        }
+
+        if (
+          existing.discountType === DiscountType.PERCENTAGE &&
+          data.discountValue !== undefined &&
+          data.discountValue > 100
+        ) {
+          throw new RegistrationError(
+            'A percentage discount cannot exceed 100',
+            ERROR_CODES.VALIDATION_ERROR,
+          );
+        }
+
+        const startsAt =
+          data.startsAt === undefined
+            ? existing.startsAt
+            : data.startsAt && new Date(data.startsAt);
+        const expiresAt =
+          data.expiresAt === undefined
+            ? existing.expiresAt
+            : data.expiresAt && new Date(data.expiresAt);
+
+        if (startsAt && expiresAt && expiresAt <= startsAt) {
+          throw new RegistrationError(
+            'Expiry must be after the start',
+            ERROR_CODES.VALIDATION_ERROR,
+          );
+        }
+
+        if (
+          data.maxRedemptions &&
+          data.maxRedemptions < existing.redemptionCount
+        ) {
+          throw new RegistrationError(
+            `Promo code '${existing.code}' has already been redeemed ${existing.redemptionCount} times; the limit cannot be lower`,
+            ERROR_CODES.INVALID_INPUT,
+          );
+        }
+
+        await assertRestrictionsExist(tx, data);
+
+        const { count } = await tx.promoCode.updateMany({
+          where: { id: promoCodeId, redemptionCount: existing.redemptionCount },
+          data: {
+            description: data.description,
+            discountValue: data.discountValue,
+            active: data.active,
+            eventIds: data.eventIds,
+            ticketTypeIds: data.ticketTypeIds,
+            startsAt,
+            expiresAt,
+            ...(data.maxRedemptions !== undefined && {
+              maxRedemptions: data.maxRedemptions,
+              redemptionsRemaining:
+                data.maxRedemptions === null
+                  ? null
+                  : data.maxRedemptions - existing.redemptionCount,
+            }),
+          },
+        });
+
+        if (count === 0) {
+          throw new RegistrationError(
+            `Promo code '${existing.code}' was redeemed while it was being updated; please try again`,
+            ERROR_CODES.OPERATION_FAILED,
+          );
+        }
+
+        return tx.promoCode.findUniqueOrThrow({
+          where: { id: promoCodeId },
+          select: PROMO_CODE_SELECT,
+        });
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 10000,
+      },
+    );
+
+    logger.info({
+      message: 'Promo code updated',
+      promoCodeId,
+      updatedById: actor.userId,
+    });
+
+    return { success: true, promoCode, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      promoCode: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Delete a promo code
+ *
+ * Registrations that used it keep their discount but lose the link to the
+ * code, so it drops out of usage reporting. Deactivate a code instead to
+ * stop new redemptions while keeping its history.
+ *
+ * @param prisma - Prisma client instance
+ * @param promoCodeId - UUID of the promo code
+ * @param actor - Caller; must be an admin
+ */
+export async function deletePromoCode(
+  prisma: PrismaClient,
+  promoCodeId: string,
+  actor: Actor,
+) {
+  try {
+    assertAdmin(actor);
+
+    const { count } = await prisma.promoCode.deleteMany({
+      where: { id: promoCodeId },
+    });
+
+    if (count === 0) {
+      throw promoCodeNotFound(promoCodeId);
+    }
+
+    logger.info({
+      message: 'Promo code deleted',
+      promoCodeId,
+      deletedById: actor.userId,
+    });
+
+    return { success: true, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Usage report for a promo code: redemptions held by active registrations,
+ * the total discount given, a per-event breakdown and the latest redemptions
+ *
+ * @param prisma - Prisma client instance
+ * @param promoCodeId - UUID of the promo code
+ * @param actor - Caller; must be an admin
+ */
+export async function getPromoCodeUsage(
+  prisma: PrismaClient,
+  promoCodeId: string,
+  actor: Actor,
+) {
+  try {
+    assertAdmin(actor);
+
+    const promoCode = await prisma.promoCode.findUnique({
+      where: { id: promoCodeId },
+      select: PROMO_CODE_SELECT,
+    });
+
+    if (!promoCode) {
+      throw promoCodeNotFound(promoCodeId);
+    }
+
+    const activeRedemptions = {
+      promoCodeId,
+      status: { in: ACTIVE_STATUSES },
+    } satisfies Prisma.RegistrationWhereInput;
+
+    const [totals, perEvent, recent] = await Promise.all([
+      prisma.registration.aggregate({
+        where: activeRedemptions,
+        _count: { _all: true },
+        _sum: { discountCents: true },
+      }),
+      prisma.registration.groupBy({
+        by: ['eventId'],
+        where: activeRedemptions,
+        _count: { _all: true },
+        _sum: { discountCents: true },
+      }),
+      prisma.registration.findMany({
+        where: activeRedemptions,
+        select: {
+          id: true,
+          status: true,
+          discountCents: true,
+          createdAt: true,
+          user: { select: { id: true, name: true, email: true } },
+          event: { select: { id: true, title: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        take: RECENT_REDEMPTIONS_LIMIT,
+      }),
+    ]);
+
+    const events = await prisma.event.findMany({
+      where: { id: { in: perEvent.map(({ eventId }) => eventId) } },
+      select: { id: true, title: true },
+    });
+    const titles = new Map(events.map(({ id, title }) => [id, title]));
+
+    return {
+      success: true,
+      usage: {
+        promoCode,
+        redemptionCount: totals._count._all,
+        redemptionsRemaining: promoCode.redemptionsRemaining,
+        totalDiscountCents: totals._sum.discountCents ?? 0,
+        byEvent: perEvent
+          .map((group) => ({
+            eventId: group.eventId,
+            eventTitle: titles.get(group.eventId) ?? null,
+            redemptionCount: group._count._all,
+            totalDiscountCents: group._sum.discountCents ?? 0,
+          }))
+          .sort((a, b) => b.redemptionCount - a.redemptionCount),
+        recentRedemptions: recent,
+      },
+      error: null,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      usage: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
@@ -1,11 +1,73 @@
-import { PrismaClient } from '@prisma/client';
+import {
+  EventStatus,
+  Prisma,
+  PrismaClient,
+  RegistrationMode,
+  RegistrationStatus,
+} from '@prisma/client';
+import { SEAT_HOLDING_STATUSES } from './registrationStatus';
+import { toEventSchedule } from './timeZones';
+
+/**
+ * Every helper that exposes seat information returns both numbers:
+ * `capacity` (total seats, set by the organizer) and
+ * `seatsRemaining` (free seats, maintained by the registration services).
+ *
+ * Registration counts only include registrations that hold a seat; pending
+ * applications, rejections and cancellations are left out.
+ *
+ * Public listings only include PUBLISHED events (see src/lib/eventLifecycle.ts)
+ * and leave out INVITE_ONLY ones; those are only reachable by invitation
+ * (see src/lib/invitations.ts). Soft-deleted events (see src/lib/events.ts)
+ * are left out of every helper.
+ *
+ * Event times are returned as UTC instants (`date`, `endsAt`) plus a
+ * `schedule` with the same times in the event's own zone (see
+ * src/lib/timeZones.ts).
+ */
+
+const SEATED_REGISTRATIONS = {
+  where: { status: { in: SEAT_HOLDING_STATUSES } },
+};
+
+export const PUBLICLY_LISTED_EVENTS = {
+  status: EventStatus.PUBLISHED,
+  deletedAt: null,
+  registrationMode: { not: RegistrationMode.INVITE_ONLY },
+};
+
+/** Public summary of a speaker, as shown on event cards and session lists */
+export const SPEAKER_SUMMARY_SELECT = {
+  id: true,
+  name: true,
+  headline: true,
+  photoUrl: true,
+} satisfies Prisma.SpeakerSelect;
+
+/** An event's speaker line-up in display order; flatten with `toSpeakerList` */
+export const EVENT_SPEAKERS_SELECT = {
+  select: { speaker: { select: SPEAKER_SUMMARY_SELECT } },
+  orderBy: { position: 'asc' },
+} satisfies Prisma.Event$speakersArgs;
+
+export function toSpeakerList<T>(links: { speaker: T }[]): T[] {
+  return links.map(({ speaker }) => speaker);
+}
+
+/** Start, end and zone of an event; add `schedule` with `toEventSchedule` */
+export const EVENT_TIME_SELECT = {
+  date: true,
+  endsAt: true,
+  timeZone: true,
+} satisfies Prisma.EventSelect;
 
 export async function getUpcomingEventsOptimized(prisma: PrismaClient) {
   const futureDate = new Date();
   futureDate.setDate(futureDate.getDate() + 30);
 
-  return prisma.event.findMany({
+  const events = await prisma.event.findMany({
     where: {
+      ...PUBLICLY_LISTED_EVENTS,
       date: {
         gte: new Date(),
         lte: futureDate,
@@ -14,15 +76,23 @@ export async function getUpcomingEventsOptimized(prisma: PrismaClient) {
     select: {
       id: true,
       title: true,
-      date: true,
+      ...EVENT_TIME_SELECT,
       location: true,
       capacity: true,
+      seatsRemaining: true,
+      speakers: EVENT_SPEAKERS_SELECT,
       _count: {
-        select: { registrations: true },
+        select: { registrations: SEATED_REGISTRATIONS },
       },
     },
     orderBy: { date: 'asc' },
   });
+
+  return events.map((event) => ({
+    ...event,
+    schedule: toEventSchedule(event),
+    speakers: toSpeakerList(event.speakers),
+  }));
 }
 
 export async function getEventsPaginated(
@@ -36,24 +106,31 @@ export async function getEventsPaginated(
 
   const [events, totalCount] = await Promise.all([
     prisma.event.findMany({
+      where: PUBLICLY_LISTED_EVENTS,
       select: {
         id: true,
         title: true,
-        date: true,
+        ...EVENT_TIME_SELECT,
         location: true,
         capacity: true,
+        seatsRemaining: true,
+        speakers: EVENT_SPEAKERS_SELECT,
       },
       orderBy: { date: 'asc' },
       skip,
       take: size,
     }),
-    prisma.event.count(),
+    prisma.event.count({ where: PUBLICLY_LISTED_EVENTS }),
   ]);
 
   const totalPages = Math.ceil(totalCount / size);
 
   return {
-    events,
+    events: events.map((event) => ({
+      ...event,
+      schedule: toEventSchedule(event),
+      speakers: toSpeakerList(event.speakers),
+    })),
     pagination: {
       currentPage: page,
       pageSize: size,
@@ -69,16 +146,20 @@ export async function getOrganizerEventsWithRegistrations(
   prisma: PrismaClient,
   organizerId: string,
 ) {
-  return prisma.event.findMany({
-    where: { organizerId },
+  const events = await prisma.event.findMany({
+    where: { organizerId, deletedAt: null },
     select: {
       id: true,
       title: true,
       date: true,
       capacity: true,
+      seatsRemaining: true,
       registrations: {
+        where: { status: { not: RegistrationStatus.CANCELLED } },
         select: {
           id: true,
+          status: true,
+          checkedInAt: true,
           createdAt: true,
           user: {
             select: {
@@ -89,11 +170,35 @@ export async function getOrganizerEventsWithRegistrations(
           },
         },
       },
+      waitlist: {
+        select: {
+          id: true,
+          createdAt: true,
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+        },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      },
       _count: {
-        select: { registrations: true },
+        select: { registrations: SEATED_REGISTRATIONS, waitlist: true },
       },
     },
   });
+
+  // Waitlist is FIFO, so a user's position is their index in the ordered list
+  return events.map((event) => ({
+    ...event,
+    waitlist: event.waitlist.map((entry, index) => ({
+      ...entry,
+      position: index + 1,
+    })),
+    waitlistSize: event._count.waitlist,
+  }));
 }
 
 export async function bulkCreateUsers(
@@ -115,28 +220,6 @@ export async function bulkCreateUsers(
   };
 }
 
-export async function bulkUpdateEventDates(
-  prisma: PrismaClient,
-  eventIds: string[],
-  daysToAdd: number,
-) {
-  const newDate = new Date();
-  newDate.setDate(newDate.getDate() + daysToAdd);
-
-  const result = await prisma.event.updateMany({
-    where: {
-      id: { in: eventIds },
-    },
-    data: {
-      date: newDate,
-    },
-  });
-
-  return {
-    updated: result.count,
-  };
-}
-
 export async function getAvailableEventsWithMinRegistrations(
   prisma: PrismaClient,
   organizerId: string,
@@ -148,18 +231,20 @@ export async function getAvailableEventsWithMinRegistrations(
   const events = await prisma.event.findMany({
     where: {
       organizerId,
+      deletedAt: null,
       date: {
         gte: new Date(),
         lte: futureDate,
       },
-      capacity: { gt: 0 },
+      seatsRemaining: { gt: 0 },
     },
     select: {
       id: true,
       title: true,
       date: true,
       capacity: true,
-      _count: { select: { registrations: true } },
+      seatsRemaining: true,
+      _count: { select: { registrations: SEATED_REGISTRATIONS } },
     },
   });
 
@@ -184,14 +269,31 @@ export async function getUniqueOrganizers(prisma: PrismaClient) {
 export async function getEventSafely(prisma: PrismaClient, eventId: string) {
   try {
     const event = await prisma.event.findUnique({
-      where: { id: eventId },
+      where: { id: eventId, deletedAt: null },
       select: {
         id: true,
         title: true,
-        date: true,
+        ...EVENT_TIME_SELECT,
         location: true,
         capacity: true,
-        _count: { select: { registrations: true } },
+        seatsRemaining: true,
+        registrationMode: true,
+        status: true,
+        ticketTypes: {
+          select: {
+            id: true,
+            name: true,
+            kind: true,
+            priceCents: true,
+            currency: true,
+            quota: true,
+            seatsRemaining: true,
+            salesStartAt: true,
+            salesEndAt: true,
+          },
+          orderBy: { priceCents: 'asc' },
+        },
+        _count: { select: { registrations: SEATED_REGISTRATIONS } },
       },
     });
 
@@ -199,7 +301,10 @@ export async function getEventSafely(prisma: PrismaClient, eventId: string) {
       return { success: false, error: 'Event not found', data: null };
     }
 
-    return { success: true, data: event };
+    return {
+      success: true,
+      data: { ...event, schedule: toEventSchedule(event) },
+    };
   } catch (error) {
     const errorMessage =
       error instanceof Error ? error.message : 'Database error';
@@ -220,18 +325,22 @@ export async function getUserProfileWithEvents(
       email: true,
       createdAt: true,
       events: {
+        where: { deletedAt: null },
         select: {
           id: true,
           title: true,
           date: true,
           capacity: true,
+          seatsRemaining: true,
         },
         orderBy: { date: 'asc' },
         take: 10,
       },
       registrations: {
+        where: { status: { not: RegistrationStatus.CANCELLED } },
         select: {
           id: true,
+          status: true,
           createdAt: true,
           event: {
             select: {
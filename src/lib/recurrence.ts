@@ -0,0 +1,205 @@
+import { fromWallClock, toWallClock } from './timeZones';
+
+/**
+ * Recurrence Rules
+ *
+ * Expands the RRULE subset used by event series (src/lib/eventSeries.ts)
+ * into concrete occurrence start times:
+ *   - FREQ DAILY, WEEKLY or MONTHLY, every INTERVAL periods
+ *   - BYDAY for weekly rules (several weekdays per week)
+ *   - UNTIL (inclusive) or COUNT; with neither the rule never ends
+ *   - exceptions (EXDATE) skip occurrences but, as in RFC 5545, still count
+ *     towards COUNT
+ *
+ * Monthly rules repeat on the day of the month of the first occurrence and
+ * skip months that have no such day. Rules are expanded in the series' time
+ * zone, so every occurrence starts at the same local time of day as the
+ * first, also across daylight saving changes (without a zone, UTC is used).
+ */
+
+export const RECURRENCE_FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY'] as const;
+
+/** RRULE weekday codes, indexed like Date.getUTCDay() */
+export const WEEKDAY_CODES = [
+  'SU',
+  'MO',
+  'TU',
+  'WE',
+  'TH',
+  'FR',
+  'SA',
+] as const;
+
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number];
+export type WeekdayCode = (typeof WEEKDAY_CODES)[number];
+
+export interface RecurrenceRule {
+  /** Start of the first occurrence (DTSTART) */
+  startsAt: Date;
+  frequency: RecurrenceFrequency;
+  interval: number;
+  /** Weekly rules only; empty means the weekday of `startsAt` */
+  byWeekday: string[];
+  until?: Date | null;
+  count?: number | null;
+  exceptions?: Date[];
+  /** IANA zone whose local time of day occurrences keep */
+  timeZone?: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Upper bound on the periods walked for one expansion, so a rule that can
+ * never produce another occurrence (e.g. monthly on the 31st with an interval
+ * that only lands on shorter months) cannot loop forever
+ */
+const MAX_PERIODS = 10000;
+
+function addUtcMonths(date: Date, months: number): Date | null {
+  const result = new Date(date);
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  result.setUTCDate(date.getUTCDate());
+
+  // Rolled over into the next month: this month has no such day
+  return result.getUTCDate() === date.getUTCDate() ? result : null;
+}
+
+/**
+ * Candidate starts produced by period `index` of the rule, in order
+ *
+ * `startsAt` is the wall-clock start in the rule's zone; so are the results.
+ */
+function periodOccurrences(
+  rule: RecurrenceRule,
+  startsAt: Date,
+  index: number,
+): Date[] {
+  const { interval } = rule;
+
+  switch (rule.frequency) {
+    case 'DAILY':
+      return [new Date(startsAt.getTime() + index * interval * DAY_MS)];
+
+    case 'MONTHLY': {
+      const occurrence = addUtcMonths(startsAt, index * interval);
+      return occurrence ? [occurrence] : [];
+    }
+
+    case 'WEEKLY': {
+      const weekdays =
+        rule.byWeekday.length > 0
+          ? rule.byWeekday
+              .map((code) => WEEKDAY_CODES.indexOf(code as WeekdayCode))
+              .filter((day) => day >= 0)
+              .sort((a, b) => a - b)
+          : [startsAt.getUTCDay()];
+      const weekStart =
+        startsAt.getTime() +
+        (index * interval * 7 - startsAt.getUTCDay()) * DAY_MS;
+
+      return weekdays
+        .map((day) => new Date(weekStart + day * DAY_MS))
+        .filter((occurrence) => occurrence >= startsAt);
+    }
+  }
+}
+
+/**
+ * List a rule's occurrence starts, earliest first
+ *
+ * @param rule - The recurrence rule
+ * @param window.after - Only return occurrences strictly after this instant
+ * @param window.until - Stop at this instant (inclusive)
+ * @param window.limit - Return at most this many occurrences
+ */
+export function expandRecurrence(
+  rule: RecurrenceRule,
+  window: { after?: Date | null; until: Date; limit: number },
+): Date[] {
+  const end =
+    rule.until && rule.until < window.until ? rule.until : window.until;
+  const skipped = new Set(
+    (rule.exceptions ?? []).map((exception) => exception.getTime()),
+  );
+
+  const timeZone = rule.timeZone ?? 'UTC';
+  const wallStart = toWallClock(rule.startsAt, timeZone);
+
+  const occurrences: Date[] = [];
+  let produced = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const wallClock of periodOccurrences(rule, wallStart, period)) {
+      const occurrence = fromWallClock(wallClock, timeZone);
+
+      if (occurrence > end || (rule.count && produced >= rule.count)) {
+        return occurrences;
+      }
+
+      produced++;
+
+      if (
+        (window.after && occurrence <= window.after) ||
+        skipped.has(occurrence.getTime())
+      ) {
+        continue;
+      }
+
+      occurrences.push(occurrence);
+
+      if (occurrences.length >= window.limit) {
+        return occurrences;
+      }
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Whether the rule can produce no occurrence after `after`
+ */
+export function isRecurrenceExhausted(
+  rule: RecurrenceRule,
+  after: Date,
+): boolean {
+  if (!rule.until && !rule.count) {
+    return false;
+  }
+
+  return (
+    expandRecurrence(rule, {
+      after,
+      until: rule.until ?? new Date(8.64e15),
+      limit: 1,
+    }).length === 0
+  );
+}
+
+function toRRuleDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/**
+ * Format a rule as an RRULE string (e.g. for calendar exports or display)
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency}`, `INTERVAL=${rule.interval}`];
+
+  if (rule.frequency === 'WEEKLY' && rule.byWeekday.length > 0) {
+    parts.push(`BYDAY=${rule.byWeekday.join(',')}`);
+  }
+
+  if (rule.until) {
+    parts.push(`UNTIL=${toRRuleDate(rule.until)}`);
+  } else if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+
+  return parts.join(';');
+}
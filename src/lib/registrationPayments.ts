@@ -0,0 +1,702 @@
+import {
+  PaymentStatus,
+  Prisma,
+  PrismaClient,
+  RegistrationStatus,
+} from '@prisma/client';
+import { ERROR_CODES } from './errorCodes';
+import { RegistrationError, getErrorCode } from './errors';
+import logger from './logger';
+import {
+  PaymentIntent,
+  PaymentIntentStatus,
+  PaymentProvider,
+  getPaymentProvider,
+} from './payments';
+import { Actor } from './permissions';
+import { releasePromoCodeRedemption } from './promoCodes';
+import { releaseSeats, releaseTicketSeats } from './seatAllocation';
+import { releaseAgenda } from './sessions';
+import { sendRegistrationTicket } from './tickets';
+import {
+  WaitlistPromotion,
+  notifyWaitlistPromotions,
+  promoteWaitlistedUsers,
+} from './waitlist';
+
+/**
+ * Registration Payment Service
+ *
+ * Registrations for a priced ticket type are created as PENDING_PAYMENT with
+ * a seat hold (`holdExpiresAt`). The seat is claimed up front exactly like a
+ * free registration, so the event cannot be oversold while people pay.
+ *
+ * The hold resolves one of three ways:
+ *   - The provider reports success → the registration becomes APPROVED
+ *   - The provider reports failure/cancellation → the registration is
+ *     CANCELLED, its seat released and the waitlist promoted
+ *   - The hold expires → `releaseExpiredPaymentHolds` (run by the background
+ *     job in src/lib/jobs.ts) does the same release and voids the intent
+ *
+ * Provider calls are network I/O and are never made inside a transaction.
+ * Every state change is guarded on the current status so webhooks that arrive
+ * twice, out of order, or race the expiry sweeper are applied at most once.
+ * Money that lands for a registration that is no longer awaiting it is
+ * refunded.
+ */
+
+const PAYMENT_SELECT = {
+  id: true,
+  registrationId: true,
+  provider: true,
+  providerIntentId: true,
+  amountCents: true,
+  currency: true,
+  status: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.PaymentSelect;
+
+/**
+ * Number of expired holds released per sweep; the next sweep picks up the rest
+ */
+const EXPIRED_HOLD_BATCH_SIZE = 100;
+
+const INTENT_STATUS_TO_PAYMENT_STATUS: Record<
+  PaymentIntentStatus,
+  PaymentStatus
+> = {
+  requires_confirmation: PaymentStatus.REQUIRES_CONFIRMATION,
+  succeeded: PaymentStatus.SUCCEEDED,
+  failed: PaymentStatus.FAILED,
+  canceled: PaymentStatus.CANCELLED,
+  refunded: PaymentStatus.REFUNDED,
+};
+
+/**
+ * Status changes a provider update may apply; anything else is a replayed or
+ * stale notification and is ignored. A locally CANCELLED payment (expired
+ * hold) can still succeed at the provider, which is then refunded.
+ */
+const ALLOWED_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  REQUIRES_CONFIRMATION: [
+    PaymentStatus.SUCCEEDED,
+    PaymentStatus.FAILED,
+    PaymentStatus.CANCELLED,
+  ],
+  SUCCEEDED: [PaymentStatus.REFUNDED],
+  CANCELLED: [PaymentStatus.SUCCEEDED],
+  FAILED: [],
+  REFUNDED: [],
+};
+
+/**
+ * Cancel a PENDING_PAYMENT registration and hand its seat to the waitlist
+ * (and its promo code redemption back to the code)
+ *
+ * The update is conditional on the status, so if a concurrent confirmation
+ * got there first nothing is released.
+ *
+ * @returns The resulting waitlist promotions, or null if the registration was
+ *          no longer pending
+ */
+async function releaseHeldRegistration(
+  tx: Prisma.TransactionClient,
+  registration: {
+    id: string;
+    eventId: string;
+    ticketTypeId: string | null;
+    promoCodeId: string | null;
+  },
+): Promise<WaitlistPromotion[] | null> {
+  const { count } = await tx.registration.updateMany({
+    where: {
+      id: registration.id,
+      status: RegistrationStatus.PENDING_PAYMENT,
+    },
+    data: { status: RegistrationStatus.CANCELLED, holdExpiresAt: null },
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  await releaseSeats(tx, registration.eventId);
+
+  if (registration.ticketTypeId) {
+    await releaseTicketSeats(tx, registration.ticketTypeId);
+  }
+
+  await releaseAgenda(tx, registration.id);
+
+  if (registration.promoCodeId) {
+    await releasePromoCodeRedemption(tx, registration.promoCodeId);
+  }
+
+  return promoteWaitlistedUsers(tx, registration.eventId);
+}
+
+/**
+ * Refund a succeeded payment; failures are logged for manual follow-up
+ */
+async function refundPayment(
+  prisma: PrismaClient,
+  provider: PaymentProvider,
+  payment: { id: string; providerIntentId: string },
+): Promise<boolean> {
+  try {
+    await provider.refund(payment.providerIntentId);
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: { status: PaymentStatus.REFUNDED },
+    });
+    return true;
+  } catch (error) {
+    logger.error({
+      message: 'Failed to refund payment',
+      paymentId: payment.id,
+      providerIntentId: payment.providerIntentId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
+
+/**
+ * Void an unconfirmed intent at the provider; failures are only logged
+ */
+async function cancelProviderIntent(
+  provider: PaymentProvider,
+  providerIntentId: string,
+): Promise<void> {
+  try {
+    await provider.cancelIntent(providerIntentId);
+  } catch (error) {
+    logger.warn({
+      message: 'Failed to cancel payment intent',
+      providerIntentId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Load a registration that is awaiting payment, enforcing ownership and the
+ * hold window
+ */
+async function getPendingRegistration(
+  prisma: PrismaClient,
+  registrationId: string,
+  actor: Actor | null,
+  at: Date,
+) {
+  const registration = await prisma.registration.findUnique({
+    where: { id: registrationId },
+    select: {
+      id: true,
+      userId: true,
+      eventId: true,
+      status: true,
+      holdExpiresAt: true,
+      discountCents: true,
+      ticketType: { select: { priceCents: true, currency: true } },
+      payment: { select: PAYMENT_SELECT },
+    },
+  });
+
+  if (!registration) {
+    throw new RegistrationError(
+      `Registration not found: ${registrationId}`,
+      ERROR_CODES.REGISTRATION_NOT_FOUND,
+    );
+  }
+
+  if (actor && registration.userId !== actor.userId) {
+    throw new RegistrationError(
+      'You can only pay for your own registrations',
+      ERROR_CODES.FORBIDDEN,
+    );
+  }
+
+  if (registration.status !== RegistrationStatus.PENDING_PAYMENT) {
+    throw new RegistrationError(
+      `Registration ${registrationId} is not awaiting payment`,
+      ERROR_CODES.PAYMENT_NOT_PENDING,
+    );
+  }
+
+  if (registration.holdExpiresAt && registration.holdExpiresAt <= at) {
+    throw new RegistrationError(
+      `The seat hold for registration ${registrationId} expired at ${registration.holdExpiresAt.toISOString()}`,
+      ERROR_CODES.PAYMENT_HOLD_EXPIRED,
+    );
+  }
+
+  return registration;
+}
+
+/**
+ * Return the registration's payment, creating the provider intent if needed
+ *
+ * Idempotent: concurrent callers race on the unique `registrationId`; the
+ * loser voids its own intent and returns the winner's payment.
+ */
+async function ensurePayment(
+  prisma: PrismaClient,
+  provider: PaymentProvider,
+  registration: Awaited<ReturnType<typeof getPendingRegistration>>,
+) {
+  if (registration.payment) {
+    return { payment: registration.payment, clientSecret: null };
+  }
+
+  if (!registration.ticketType) {
+    throw new RegistrationError(
+      `Registration ${registration.id} has no priced ticket type to pay for`,
+      ERROR_CODES.OPERATION_FAILED,
+    );
+  }
+
+  const intent = await provider.createIntent({
+    amountCents:
+      registration.ticketType.priceCents - registration.discountCents,
+    currency: registration.ticketType.currency,
+    metadata: {
+      registrationId: registration.id,
+      userId: registration.userId,
+      eventId: registration.eventId,
+    },
+  });
+
+  try {
+    const payment = await prisma.payment.create({
+      data: {
+        registrationId: registration.id,
+        userId: registration.userId,
+        eventId: registration.eventId,
+        provider: provider.name,
+        providerIntentId: intent.id,
+        amountCents: intent.amountCents,
+        currency: intent.currency,
+      },
+      select: PAYMENT_SELECT,
+    });
+
+    return { payment, clientSecret: intent.clientSecret ?? null };
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002'
+    ) {
+      await cancelProviderIntent(provider, intent.id);
+
+      const payment = await prisma.payment.findUniqueOrThrow({
+        where: { registrationId: registration.id },
+        select: PAYMENT_SELECT,
+      });
+
+      return { payment, clientSecret: null };
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Create (or fetch) the payment intent for a PENDING_PAYMENT registration
+ *
+ * @param prisma - Prisma client instance
+ * @param registrationId - UUID of the registration to pay for
+ * @param actor - Caller; must own the registration. Pass null for internal
+ *                callers such as `registerUserForEvent`
+ * @param provider - Payment provider (defaults to the configured one)
+ * @returns The payment and, when the intent was just created, the provider's
+ *          client secret
+ */
+export async function createRegistrationPayment(
+  prisma: PrismaClient,
+  registrationId: string,
+  actor: Actor | null,
+  provider: PaymentProvider = getPaymentProvider(),
+) {
+  try {
+    const registration = await getPendingRegistration(
+      prisma,
+      registrationId,
+      actor,
+      new Date(),
+    );
+
+    const { payment, clientSecret } = await ensurePayment(
+      prisma,
+      provider,
+      registration,
+    );
+
+    return { success: true, payment, clientSecret, error: null };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.warn({
+      message: 'Failed to create registration payment',
+      registrationId,
+      error: errorMessage,
+    });
+
+    return {
+      success: false,
+      payment: null,
+      clientSecret: null,
+      error: { message: errorMessage, code: getErrorCode(error) },
+    };
+  }
+}
+
+/**
+ * Apply the provider's view of an intent to our Payment and Registration
+ *
+ * Called from the webhook handler and after a synchronous confirmation.
+ *   - succeeded: PENDING_PAYMENT → APPROVED (or refund if it is no longer pending)
+ *   - failed / canceled: release the held seat and promote the waitlist
+ *   - refunded: record it
+ *
+ * @param prisma - Prisma client instance
+ * @param intent - Verified intent state from the provider
+ * @param provider - Payment provider (defaults to the configured one)
+ * @returns The payment, whether the update changed anything, and any
+ *          promotions or refunds it triggered
+ */
+export async function applyPaymentIntentUpdate(
+  prisma: PrismaClient,
+  intent: PaymentIntent,
+  provider: PaymentProvider = getPaymentProvider(),
+) {
+  try {
+    const outcome = await prisma.$transaction(
+      async (tx) => {
+        const payment = await tx.payment.findUnique({
+          where: { providerIntentId: intent.id },
+          select: {
+            ...PAYMENT_SELECT,
+            registration: {
+              select: {
+                id: true,
+                eventId: true,
+                ticketTypeId: true,
+                promoCodeId: true,
+              },
+            },
+          },
+        });
+
+        if (!payment) {
+          throw new RegistrationError(
+            `Payment not found for intent: ${intent.id}`,
+            ERROR_CODES.NOT_FOUND,
+          );
+        }
+
+        const { registration, ...currentPayment } = payment;
+        const nextStatus = INTENT_STATUS_TO_PAYMENT_STATUS[intent.status];
+
+        if (!ALLOWED_TRANSITIONS[payment.status].includes(nextStatus)) {
+          return {
+            payment: currentPayment,
+            applied: false,
+            promotions: [] as WaitlistPromotion[],
+            needsRefund: false,
+          };
+        }
+
+        let promotions: WaitlistPromotion[] = [];
+        let needsRefund = false;
+
+        if (nextStatus === PaymentStatus.SUCCEEDED) {
+          const { count } = registration
+            ? await tx.registration.updateMany({
+                where: {
+                  id: registration.id,
+                  status: RegistrationStatus.PENDING_PAYMENT,
+                },
+                data: {
+                  status: RegistrationStatus.APPROVED,
+                  holdExpiresAt: null,
+                },
+              })
+            : { count: 0 };
+
+          // The hold expired or the registration was cancelled before the
+          // money arrived; there is no seat to give, so give the money back
+          needsRefund = count === 0;
+        } else if (
+          registration &&
+          (nextStatus === PaymentStatus.FAILED ||
+            nextStatus === PaymentStatus.CANCELLED)
+        ) {
+          promotions = (await releaseHeldRegistration(tx, registration)) ?? [];
+        }
+
+        const updatedPayment = await tx.payment.update({
+          where: { id: payment.id },
+          data: { status: nextStatus },
+          select: PAYMENT_SELECT,
+        });
+
+        return {
+          payment: updatedPayment,
+          applied: true,
+          promotions,
+          needsRefund,
+        };
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 10000,
+      },
+    );
+
+    await notifyWaitlistPromotions(prisma, outcome.promotions);
+
+    // Paid and confirmed: the registrant can now have their ticket
+    if (
+      outcome.applied &&
+      outcome.payment.status === PaymentStatus.SUCCEEDED &&
+      outcome.payment.registrationId &&
+      !outcome.needsRefund
+    ) {
+      await sendRegistrationTicket(prisma, outcome.payment.registrationId);
+    }
+
+    const refunded = outcome.needsRefund
+      ? await refundPayment(prisma, provider, outcome.payment)
+      : false;
+
+    return {
+      success: true,
+      payment: refunded
+        ? { ...outcome.payment, status: PaymentStatus.REFUNDED }
+        : outcome.payment,
+      applied: outcome.applied,
+      promotions: outcome.promotions,
+      refunded,
+      error: null,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.error({
+      message: 'Failed to apply payment intent update',
+      providerIntentId: intent.id,
+      intentStatus: intent.status,
+      error: errorMessage,
+    });
+
+    return {
+      success: false,
+      payment: null,
+      applied: false,
+      promotions: [],
+      refunded: false,
+      error: { message: errorMessage, code: getErrorCode(error) },
+    };
+  }
+}
+
+/**
+ * Pay for a held registration in one step: create the intent if needed,
+ * confirm it with the provider and apply the outcome
+ *
+ * Gateways that confirm client-side report the result through the webhook
+ * instead; this path serves in-process providers such as the fake one.
+ *
+ * @param prisma - Prisma client instance
+ * @param registrationId - UUID of the registration to pay for
+ * @param actor - Caller; must own the registration
+ * @param provider - Payment provider (defaults to the configured one)
+ */
+export async function confirmRegistrationPayment(
+  prisma: PrismaClient,
+  registrationId: string,
+  actor: Actor,
+  provider: PaymentProvider = getPaymentProvider(),
+) {
+  try {
+    const registration = await getPendingRegistration(
+      prisma,
+      registrationId,
+      actor,
+      new Date(),
+    );
+
+    const { payment } = await ensurePayment(prisma, provider, registration);
+    const intent = await provider.confirmIntent(payment.providerIntentId);
+    const result = await applyPaymentIntentUpdate(prisma, intent, provider);
+
+    if (!result.success) {
+      return result;
+    }
+
+    if (result.payment?.status !== PaymentStatus.SUCCEEDED) {
+      throw new RegistrationError(
+        `Payment ${payment.id} did not succeed (status: ${intent.status}); the seat hold has been released`,
+        ERROR_CODES.PAYMENT_FAILED,
+      );
+    }
+
+    return result;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.warn({
+      message: 'Registration payment was not confirmed',
+      registrationId,
+      error: errorMessage,
+    });
+
+    return {
+      success: false,
+      payment: null,
+      applied: false,
+      promotions: [],
+      refunded: false,
+      error: { message: errorMessage, code: getErrorCode(error) },
+    };
+  }
+}
+
+/**
+ * Settle the payment of a registration that has just been cancelled
+ *
+ * A succeeded payment is refunded; an unconfirmed intent is voided so it can
+ * no longer be charged.
+ *
+ * @returns The payment's resulting status
+ */
+export async function settleCancelledRegistrationPayment(
+  prisma: PrismaClient,
+  payment: { id: string; providerIntentId: string; status: PaymentStatus },
+  provider: PaymentProvider = getPaymentProvider(),
+): Promise<PaymentStatus> {
+  if (payment.status === PaymentStatus.SUCCEEDED) {
+    return (await refundPayment(prisma, provider, payment))
+      ? PaymentStatus.REFUNDED
+      : payment.status;
+  }
+
+  if (payment.status === PaymentStatus.REQUIRES_CONFIRMATION) {
+    const { count } = await prisma.payment.updateMany({
+      where: { id: payment.id, status: PaymentStatus.REQUIRES_CONFIRMATION },
+      data: { status: PaymentStatus.CANCELLED },
+    });
+
+    if (count > 0) {
+      await cancelProviderIntent(provider, payment.providerIntentId);
+      return PaymentStatus.CANCELLED;
+    }
+  }
+
+  return payment.status;
+}
+
+/**
+ * Release every PENDING_PAYMENT registration whose seat hold has expired
+ *
+ * Each hold is released in its own transaction so one failure does not block
+ * the rest. Expired intents are voided at the provider after commit; if one
+ * succeeds anyway, `applyPaymentIntentUpdate` refunds it.
+ *
+ * @param prisma - Prisma client instance
+ * @param now - Holds expiring at or before this instant are released
+ * @param provider - Payment provider (defaults to the configured one)
+ * @returns How many holds were released and the promotions that followed
+ */
+export async function releaseExpiredPaymentHolds(
+  prisma: PrismaClient,
+  now: Date = new Date(),
+  provider: PaymentProvider = getPaymentProvider(),
+) {
+  const expired = await prisma.registration.findMany({
+    where: {
+      status: RegistrationStatus.PENDING_PAYMENT,
+      holdExpiresAt: { lte: now },
+    },
+    select: {
+      id: true,
+      eventId: true,
+      ticketTypeId: true,
+      promoCodeId: true,
+      payment: { select: { id: true, providerIntentId: true } },
+    },
+    orderBy: { holdExpiresAt: 'asc' },
+    take: EXPIRED_HOLD_BATCH_SIZE,
+  });
+
+  let released = 0;
+  const promotions: WaitlistPromotion[] = [];
+
+  for (const registration of expired) {
+    try {
+      const outcome = await prisma.$transaction(
+        async (tx) => {
+          const eventPromotions = await releaseHeldRegistration(
+            tx,
+            registration,
+          );
+
+          // Paid (or cancelled) in the meantime
+          if (!eventPromotions) {
+            return null;
+          }
+
+          const voided = registration.payment
+            ? await tx.payment.updateMany({
+                where: {
+                  id: registration.payment.id,
+                  status: PaymentStatus.REQUIRES_CONFIRMATION,
+                },
+                data: { status: PaymentStatus.CANCELLED },
+              })
+            : { count: 0 };
+
+          return { promotions: eventPromotions, voided: voided.count > 0 };
+        },
+        {
+          isolationLevel: 'ReadCommitted',
+          timeout: 10000,
+        },
+      );
+
+      if (!outcome) {
+        continue;
+      }
+
+      released += 1;
+      promotions.push(...outcome.promotions);
+
+      if (outcome.voided && registration.payment) {
+        await cancelProviderIntent(
+          provider,
+          registration.payment.providerIntentId,
+        );
+      }
+    } catch (error) {
+      logger.error({
+        message: 'Failed to release expired payment hold',
+        registrationId: registration.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  await notifyWaitlistPromotions(prisma, promotions);
+
+  if (released > 0) {
+    logger.info({
+      message: 'Released expired payment holds',
+      released,
+      promoted: promotions.length,
+    });
+  }
+
+  return { released, promotions };
+}
@@ -0,0 +1,233 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { ERROR_CODES } from './errorCodes';
+import { RegistrationError, getErrorCode } from './errors';
+import logger from './logger';
+import { Actor, canManageEvent, eventStaffSelect } from './permissions';
+import { sanitize } from './security';
+import {
+  RegistrationAnswers,
+  RegistrationQuestionInput,
+  buildRegistrationAnswersSchema,
+} from './schemas/registrationFormSchema';
+
+/**
+ * Registration Questions
+ *
+ * Organizers can add their own questions (text, select, checkbox) to an
+ * event's registration form. Answers are validated server-side with a Zod
+ * schema generated from the event's questions (see
+ * src/lib/schemas/registrationFormSchema.ts) and stored on the Registration
+ * as JSON keyed by question id, so editing a question's label keeps the
+ * answers already given to it.
+ */
+
+const QUESTION_SELECT = {
+  id: true,
+  label: true,
+  type: true,
+  required: true,
+  options: true,
+  position: true,
+} as const;
+
+function toQuestionData(question: RegistrationQuestionInput, position: number) {
+  return {
+    label: sanitize(question.label),
+    type: question.type,
+    required: question.required,
+    options: question.options.map((option) => sanitize(option)),
+    position,
+  };
+}
+
+/**
+ * Map validated question input to Prisma nested-create data
+ * Questions keep the order they were given in
+ */
+export function toRegistrationQuestionCreateData(
+  questions: RegistrationQuestionInput[] = [],
+): Prisma.RegistrationQuestionCreateWithoutEventInput[] {
+  return questions.map((question, position) =>
+    toQuestionData(question, position),
+  );
+}
+
+/**
+ * Validate a registrant's answers against the event's questions
+ *
+ * @param tx - Transaction client
+ * @param eventId - UUID of the event being registered for
+ * @param answers - Raw answers from the request, keyed by question id
+ * @returns The validated answers, or null when the event has no questions
+ */
+export async function parseRegistrationAnswers(
+  tx: Prisma.TransactionClient,
+  eventId: string,
+  answers: unknown,
+): Promise<RegistrationAnswers | null> {
+  const questions = await tx.registrationQuestion.findMany({
+    where: { eventId },
+    select: QUESTION_SELECT,
+  });
+
+  const result = buildRegistrationAnswersSchema(questions).safeParse(
+    answers ?? {},
+  );
+
+  if (!result.success) {
+    throw new RegistrationError(
+      result.error.issues.map((issue) => issue.message).join('; '),
+      ERROR_CODES.VALIDATION_ERROR,
+    );
+  }
+
+  return questions.length > 0 ? (result.data as RegistrationAnswers) : null;
+}
+
+/**
+ * List an event's registration questions in display order
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event
+ */
+export async function getRegistrationQuestions(
+  prisma: PrismaClient,
+  eventId: string,
+) {
+  try {
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+      select: {
+        id: true,
+        questions: { select: QUESTION_SELECT, orderBy: { position: 'asc' } },
+      },
+    });
+
+    if (!event) {
+      throw new RegistrationError(
+        `Event not found: ${eventId}`,
+        ERROR_CODES.EVENT_NOT_FOUND,
+      );
+    }
+
+    return { success: true, questions: event.questions, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      questions: [],
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Replace an event's registration form
+ *
+ * Questions sent with an `id` are updated in place; questions without one
+ * are created, and the event's other questions are removed. Answers to a
+ * removed question stay on the registrations that gave them but are no
+ * longer exported.
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event
+ * @param questions - The full form, in display order
+ * @param actor - Caller; must be the event organizer or an admin
+ */
+export async function setRegistrationQuestions(
+  prisma: PrismaClient,
+  eventId: string,
+  questions: RegistrationQuestionInput[],
+  actor: Actor,
+) {
+  try {
+    const updated = await prisma.$transaction(
+      async (tx) => {
+        const event = await tx.event.findUnique({
+          where: { id: eventId },
+          select: {
+            id: true,
+            organizerId: true,
+            staff: eventStaffSelect(actor),
+            questions: { select: { id: true } },
+          },
+        });
+
+        if (!event) {
+          throw new RegistrationError(
+            `Event not found: ${eventId}`,
+            ERROR_CODES.EVENT_NOT_FOUND,
+          );
+        }
+
+        if (!canManageEvent(actor, event)) {
+          throw new RegistrationError(
+            'Only the event organizer can edit its registration questions',
+            ERROR_CODES.FORBIDDEN,
+          );
+        }
+
+        const existingIds = new Set(event.questions.map(({ id }) => id));
+        const keptIds = questions.flatMap((question) =>
+          question.id ? [question.id] : [],
+        );
+
+        const unknownId = keptIds.find((id) => !existingIds.has(id));
+        if (unknownId) {
+          throw new RegistrationError(
+            `Question ${unknownId} does not belong to this event`,
+            ERROR_CODES.INVALID_INPUT,
+          );
+        }
+
+        await tx.registrationQuestion.deleteMany({
+          where: { eventId, id: { notIn: keptIds } },
+        });
+
+        for (const [position, question] of questions.entries()) {
+          const data = toQuestionData(question, position);
+
+          if (question.id) {
+            await tx.registrationQuestion.update({
+              where: { id: question.id },
+              data,
+            });
+          } else {
+            await tx.registrationQuestion.create({
+              data: { ...data, eventId },
+            });
+          }
+        }
+
+        return tx.registrationQuestion.findMany({
+          where: { eventId },
+          select: QUESTION_SELECT,
+          orderBy: { position: 'asc' },
+        });
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 10000,
+      },
+    );
+
+    logger.info({
+      message: 'Registration questions updated',
+      eventId,
+      questionCount: updated.length,
+    });
+
+    return { success: true, questions: updated, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      questions: [],
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
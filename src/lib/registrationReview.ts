@@ -0,0 +1,479 @@
+import { PrismaClient, RegistrationStatus } from '@prisma/client';
+import { sendEmail } from './email';
+import { ERROR_CODES } from './errorCodes';
+import { RegistrationError, getErrorCode } from './errors';
+import { assertEventOpenForRegistration } from './eventLifecycle';
+import logger from './logger';
+import { getPaymentHoldExpiry } from './payments';
+import { Actor, canManageEvent, eventStaffSelect } from './permissions';
+import { releasePromoCodeRedemption } from './promoCodes';
+import { createRegistrationPayment } from './registrationPayments';
+import { assertTransition } from './registrationStatus';
+import { claimSeats, claimTicketSeats } from './seatAllocation';
+import { countActiveHolds } from './seatHolds';
+import { sendRegistrationTicket } from './tickets';
+import { formatDateTime, formatEventTime } from './utils';
+import { RegistrationDecisionTemplate } from '@/components/emails/RegistrationDecisionTemplate';
+
+/**
+ * Organizer Review Queue
+ *
+ * Events in APPROVAL mode collect PENDING registrations that hold no seat.
+ * The organizer approves or rejects them in batches:
+ *   - approving claims the seat (and ticket type quota) at that moment, so an
+ *     event can never be oversold by approvals; a priced ticket moves to
+ *     PENDING_PAYMENT with a fresh hold instead of straight to APPROVED
+ *   - rejecting moves the application to REJECTED; no capacity is involved,
+ *     but a promo code redeemed with the application is given back
+ *
+ * Every registration in a batch is reviewed in its own transaction, so one
+ * that cannot be approved (event full, already reviewed, ...) is reported
+ * back without undoing the others. Applicants are emailed once their
+ * decision has committed.
+ */
+
+export interface ReviewFailure {
+  registrationId: string;
+  error: { message: string; code: string };
+}
+
+interface ReviewedRegistration {
+  id: string;
+  status: RegistrationStatus;
+  holdExpiresAt: Date | null;
+  user: { id: string; name: string; email: string };
+}
+
+const REVIEW_TRANSACTION_OPTIONS = {
+  isolationLevel: 'ReadCommitted' as const,
+  timeout: 10000,
+};
+
+/**
+ * Load an event and make sure the caller may review its registrations
+ */
+async function getReviewableEvent(
+  prisma: PrismaClient,
+  eventId: string,
+  actor: Actor,
+) {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: {
+      id: true,
+      title: true,
+      date: true,
+      endsAt: true,
+      timeZone: true,
+      organizerId: true,
+      staff: eventStaffSelect(actor),
+      registrationMode: true,
+      status: true,
+      deletedAt: true,
+    },
+  });
+
+  if (!event) {
+    throw new RegistrationError(
+      `Event not found: ${eventId}`,
+      ERROR_CODES.EVENT_NOT_FOUND,
+    );
+  }
+
+  if (!canManageEvent(actor, event)) {
+    throw new RegistrationError(
+      'Only the event organizer can review registrations',
+      ERROR_CODES.FORBIDDEN,
+    );
+  }
+
+  return event;
+}
+
+function toReviewFailure(
+  registrationId: string,
+  error: unknown,
+): ReviewFailure {
+  return {
+    registrationId,
+    error: {
+      message: error instanceof Error ? error.message : String(error),
+      code: getErrorCode(error),
+    },
+  };
+}
+
+/**
+ * Email applicants whose registration was rejected or approved pending
+ * payment; approved free registrations get their ticket instead
+ *
+ * Delivery failures are logged but never thrown.
+ */
+async function notifyReviewedApplicants(
+  prisma: PrismaClient,
+  event: { title: string; date: Date; endsAt: Date; timeZone: string },
+  registrations: ReviewedRegistration[],
+  reason?: string,
+): Promise<void> {
+  const results = await Promise.allSettled(
+    registrations
+      .filter(
+        (registration) => registration.status !== RegistrationStatus.APPROVED,
+      )
+      .map((registration) =>
+        sendEmail({
+          to: registration.user.email,
+          subject:
+            registration.status === RegistrationStatus.REJECTED
+              ? `Your registration for ${event.title}`
+              : `Your registration for ${event.title} was approved`,
+          react: RegistrationDecisionTemplate({
+            userName: registration.user.name,
+            eventTitle: event.title,
+            eventDate: formatEventTime(
+              event.date,
+              event.endsAt,
+              event.timeZone,
+            ),
+            approved: registration.status !== RegistrationStatus.REJECTED,
+            paymentDueBy: registration.holdExpiresAt
+              ? formatDateTime(registration.holdExpiresAt, event.timeZone)
+              : undefined,
+            reason,
+          }),
+        }),
+      ),
+  );
+
+  results.forEach((result) => {
+    if (result.status === 'rejected') {
+      logger.error({
+        message: 'Failed to send registration decision email',
+        error:
+          result.reason instanceof Error
+            ? result.reason.message
+            : String(result.reason),
+      });
+    }
+  });
+
+  await Promise.all(
+    registrations
+      .filter(
+        (registration) => registration.status === RegistrationStatus.APPROVED,
+      )
+      .map((registration) => sendRegistrationTicket(prisma, registration.id)),
+  );
+}
+
+/**
+ * List an event's registrations awaiting review, oldest first
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event
+ * @param actor - Caller; must be the event organizer or an admin
+ */
+export async function getRegistrationReviewQueue(
+  prisma: PrismaClient,
+  eventId: string,
+  actor: Actor,
+) {
+  try {
+    const event = await getReviewableEvent(prisma, eventId, actor);
+
+    const registrations = await prisma.registration.findMany({
+      where: { eventId, status: RegistrationStatus.PENDING },
+      select: {
+        id: true,
+        status: true,
+        createdAt: true,
+        user: { select: { id: true, name: true, email: true } },
+        ticketType: {
+          select: { id: true, name: true, kind: true, priceCents: true },
+        },
+      },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+
+    return {
+      success: true,
+      event: {
+        id: event.id,
+        title: event.title,
+        registrationMode: event.registrationMode,
+      },
+      registrations,
+      error: null,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      event: null,
+      registrations: [],
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Approve registrations, claiming a seat for each
+ *
+ * Registrations are approved in the order given until the event (or a
+ * ticket type) runs out of seats; the rest are reported as failures. Only
+ * published events that have not been deleted accept approvals.
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event
+ * @param registrationIds - PENDING (or previously REJECTED) registrations
+ * @param actor - Caller; must be the event organizer or an admin
+ * @returns The approved registrations and, per registration, why any could
+ *          not be approved
+ */
+export async function approveRegistrations(
+  prisma: PrismaClient,
+  eventId: string,
+  registrationIds: string[],
+  actor: Actor,
+) {
+  const operationTimestamp = new Date();
+
+  try {
+    const event = await getReviewableEvent(prisma, eventId, actor);
+
+    // Cancelled, completed and deleted events take no more attendees
+    assertEventOpenForRegistration(event);
+
+    // Seats held by users mid-checkout are not the organizer's to hand out
+    const heldSeats = await countActiveHolds(eventId);
+
+    const approved: ReviewedRegistration[] = [];
+    const failed: ReviewFailure[] = [];
+
+    for (const registrationId of registrationIds) {
+      try {
+        const registration = await prisma.$transaction(async (tx) => {
+          const current = await tx.registration.findFirst({
+            where: { id: registrationId, eventId },
+            select: {
+              id: true,
+              userId: true,
+              status: true,
+              discountCents: true,
+              ticketType: {
+                select: { id: true, name: true, priceCents: true },
+              },
+            },
+          });
+
+          if (!current) {
+            throw new RegistrationError(
+              `Registration not found for this event: ${registrationId}`,
+              ERROR_CODES.REGISTRATION_NOT_FOUND,
+            );
+          }
+
+          const requiresPayment =
+            (current.ticketType?.priceCents ?? 0) - current.discountCents > 0;
+          const nextStatus = requiresPayment
+            ? RegistrationStatus.PENDING_PAYMENT
+            : RegistrationStatus.APPROVED;
+
+          assertTransition(current.status, nextStatus);
+
+          if (!(await claimSeats(tx, eventId, 1, heldSeats))) {
+            throw new RegistrationError(
+              `Event '${event.title}' has no seats left to approve this registration`,
+              ERROR_CODES.EVENT_FULL,
+            );
+          }
+
+          if (
+            current.ticketType &&
+            !(await claimTicketSeats(tx, current.ticketType.id))
+          ) {
+            throw new RegistrationError(
+              `Ticket type '${current.ticketType.name}' is sold out`,
+              ERROR_CODES.TICKET_TYPE_SOLD_OUT,
+            );
+          }
+
+          const { count } = await tx.registration.updateMany({
+            where: { id: registrationId, status: current.status },
+            data: {
+              status: nextStatus,
+              holdExpiresAt: requiresPayment
+                ? getPaymentHoldExpiry(operationTimestamp)
+                : null,
+              reviewedAt: operationTimestamp,
+              reviewedById: actor.userId,
+            },
+          });
+
+          if (count === 0) {
+            throw new RegistrationError(
+              `Registration ${registrationId} was changed while it was being reviewed`,
+              ERROR_CODES.INVALID_STATUS_TRANSITION,
+            );
+          }
+
+          await tx.waitlist.deleteMany({
+            where: { userId: current.userId, eventId },
+          });
+
+          return tx.registration.findUniqueOrThrow({
+            where: { id: registrationId },
+            select: {
+              id: true,
+              status: true,
+              holdExpiresAt: true,
+              user: { select: { id: true, name: true, email: true } },
+            },
+          });
+        }, REVIEW_TRANSACTION_OPTIONS);
+
+        approved.push(registration);
+      } catch (error) {
+        failed.push(toReviewFailure(registrationId, error));
+      }
+    }
+
+    // Open the payment intents now that the holds are committed; registrants
+    // can retry via the payment endpoint if this fails
+    for (const registration of approved) {
+      if (registration.status === RegistrationStatus.PENDING_PAYMENT) {
+        await createRegistrationPayment(prisma, registration.id, null);
+      }
+    }
+
+    await notifyReviewedApplicants(prisma, event, approved);
+
+    logger.info({
+      message: 'Registrations approved',
+      eventId,
+      approved: approved.length,
+      failed: failed.length,
+    });
+
+    return { success: true, approved, failed, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      approved: [],
+      failed: [],
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Reject PENDING registrations
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event
+ * @param registrationIds - Registrations to reject
+ * @param actor - Caller; must be the event organizer or an admin
+ * @param reason - Optional explanation emailed to the applicants
+ * @returns The rejected registrations and, per registration, why any could
+ *          not be rejected
+ */
+export async function rejectRegistrations(
+  prisma: PrismaClient,
+  eventId: string,
+  registrationIds: string[],
+  actor: Actor,
+  reason?: string,
+) {
+  const operationTimestamp = new Date();
+
+  try {
+    const event = await getReviewableEvent(prisma, eventId, actor);
+
+    const rejected: ReviewedRegistration[] = [];
+    const failed: ReviewFailure[] = [];
+
+    for (const registrationId of registrationIds) {
+      try {
+        const registration = await prisma.$transaction(async (tx) => {
+          const current = await tx.registration.findFirst({
+            where: { id: registrationId, eventId },
+            select: { id: true, status: true, promoCodeId: true },
+          });
+
+          if (!current) {
+            throw new RegistrationError(
+              `Registration not found for this event: ${registrationId}`,
+              ERROR_CODES.REGISTRATION_NOT_FOUND,
+            );
+          }
+
+          assertTransition(current.status, RegistrationStatus.REJECTED);
+
+          // PENDING registrations hold no seat, so there is nothing to release.
+          // The promo code is detached so a later approval charges full price.
+          const { count } = await tx.registration.updateMany({
+            where: { id: registrationId, status: current.status },
+            data: {
+              status: RegistrationStatus.REJECTED,
+              reviewedAt: operationTimestamp,
+              reviewedById: actor.userId,
+              promoCodeId: null,
+              discountCents: 0,
+            },
+          });
+
+          if (count === 0) {
+            throw new RegistrationError(
+              `Registration ${registrationId} was changed while it was being reviewed`,
+              ERROR_CODES.INVALID_STATUS_TRANSITION,
+            );
+          }
+
+          if (current.promoCodeId) {
+            await releasePromoCodeRedemption(tx, current.promoCodeId);
+          }
+
+          return tx.registration.findUniqueOrThrow({
+            where: { id: registrationId },
+            select: {
+              id: true,
+              status: true,
+              holdExpiresAt: true,
+              user: { select: { id: true, name: true, email: true } },
+            },
+          });
+        });
+
+        rejected.push(registration);
+      } catch (error) {
+        failed.push(toReviewFailure(registrationId, error));
+      }
+    }
+
+    await notifyReviewedApplicants(prisma, event, rejected, reason);
+
+    logger.info({
+      message: 'Registrations rejected',
+      eventId,
+      rejected: rejected.length,
+      failed: failed.length,
+    });
+
+    return { success: true, rejected, failed, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      rejected: [],
+      failed: [],
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
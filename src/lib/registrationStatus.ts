@@ -0,0 +1,193 @@
+import { Prisma, RegistrationStatus } from '@prisma/client';
+import { ERROR_CODES } from './errorCodes';
+import { RegistrationError } from './errors';
+
+/**
+ * Registration Status State Machine
+ *
+ *   PENDING ─────────┬─▶ APPROVED ──────────▶ CANCELLED
+ *     │  (approval)  └─▶ PENDING_PAYMENT ─┬─▶ APPROVED
+ *     │                                   └─▶ CANCELLED (failed/expired)
+ *     ├─▶ REJECTED ──▶ APPROVED (organizer changes their mind)
+ *     └─▶ CANCELLED (applicant withdraws)
+ *
+ *   CANCELLED ──▶ PENDING / PENDING_PAYMENT / APPROVED (registering again)
+ *
+ * Only APPROVED and PENDING_PAYMENT registrations occupy a seat: capacity is
+ * claimed when a registration enters one of them and released when it leaves.
+ * PENDING applications wait in the organizer's review queue without a seat.
+ *
+ * Rows are never deleted on cancellation, so a user's (userId, eventId) slot
+ * can hold a CANCELLED registration. Every code path that creates a
+ * registration goes through `createOrReopenRegistration`, which reuses such a
+ * row instead of tripping the unique constraint.
+ */
+
+/** Statuses that hold one of the event's seats */
+export const SEAT_HOLDING_STATUSES: RegistrationStatus[] = [
+  RegistrationStatus.APPROVED,
+  RegistrationStatus.PENDING_PAYMENT,
+];
+
+/** Statuses that count as being registered (and block a second registration) */
+export const ACTIVE_STATUSES: RegistrationStatus[] = [
+  RegistrationStatus.PENDING,
+  RegistrationStatus.PENDING_PAYMENT,
+  RegistrationStatus.APPROVED,
+];
+
+const REGISTRATION_TRANSITIONS: Record<
+  RegistrationStatus,
+  RegistrationStatus[]
+> = {
+  PENDING: [
+    RegistrationStatus.APPROVED,
+    RegistrationStatus.PENDING_PAYMENT,
+    RegistrationStatus.REJECTED,
+    RegistrationStatus.CANCELLED,
+  ],
+  PENDING_PAYMENT: [RegistrationStatus.APPROVED, RegistrationStatus.CANCELLED],
+  APPROVED: [RegistrationStatus.CANCELLED],
+  REJECTED: [RegistrationStatus.APPROVED, RegistrationStatus.PENDING_PAYMENT],
+  CANCELLED: [
+    RegistrationStatus.PENDING,
+    RegistrationStatus.PENDING_PAYMENT,
+    RegistrationStatus.APPROVED,
+  ],
+};
+
+export function canTransition(
+  from: RegistrationStatus,
+  to: RegistrationStatus,
+): boolean {
+  return REGISTRATION_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Throw INVALID_STATUS_TRANSITION unless `from → to` is allowed
+ */
+export function assertTransition(
+  from: RegistrationStatus,
+  to: RegistrationStatus,
+): void {
+  if (!canTransition(from, to)) {
+    throw new RegistrationError(
+      `Registration cannot move from ${from} to ${to}`,
+      ERROR_CODES.INVALID_STATUS_TRANSITION,
+    );
+  }
+}
+
+export function holdsSeat(status: RegistrationStatus): boolean {
+  return SEAT_HOLDING_STATUSES.includes(status);
+}
+
+/**
+ * Refuse to register a user who already has an active or rejected
+ * registration for the event
+ *
+ * @returns The user's CANCELLED registration, if any, for reuse
+ */
+export async function assertCanRegister(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  eventId: string,
+) {
+  const existing = await tx.registration.findUnique({
+    where: { userId_eventId: { userId, eventId } },
+    select: { id: true, status: true },
+  });
+
+  if (!existing || existing.status === RegistrationStatus.CANCELLED) {
+    return existing;
+  }
+
+  if (existing.status === RegistrationStatus.REJECTED) {
+    throw new RegistrationError(
+      `The organizer has declined this user's registration for the event (registration ID: ${existing.id})`,
+      ERROR_CODES.REGISTRATION_REJECTED,
+    );
+  }
+
+  throw new RegistrationError(
+    `User is already registered for this event (registration ID: ${existing.id})`,
+    ERROR_CODES.DUPLICATE_ENTRY,
+  );
+}
+
+export interface RegistrationWrite {
+  userId: string;
+  eventId: string;
+  ticketTypeId?: string | null;
+  status: RegistrationStatus;
+  holdExpiresAt?: Date | null;
+  /** Set when the registration is approved by an organizer */
+  reviewedById?: string | null;
+  /** Validated answers to the event's registration questions */
+  answers?: Prisma.InputJsonValue | null;
+  /** Promo code redeemed for this registration and the amount it took off */
+  promoCodeId?: string | null;
+  discountCents?: number;
+}
+
+/**
+ * Create a registration, or reopen the user's CANCELLED one for the event
+ *
+ * A reopened registration starts over: a new ticket version (so a ticket
+ * from before the cancellation stays invalid), no check-in, and any old
+ * payment detached so a fresh one can be taken.
+ *
+ * @returns The id of the registration written
+ */
+export async function createOrReopenRegistration(
+  tx: Prisma.TransactionClient,
+  data: RegistrationWrite,
+  at: Date = new Date(),
+): Promise<{ id: string }> {
+  const existing = await assertCanRegister(tx, data.userId, data.eventId);
+
+  const fields = {
+    ticketTypeId: data.ticketTypeId ?? null,
+    status: data.status,
+    holdExpiresAt: data.holdExpiresAt ?? null,
+    reviewedById: data.reviewedById ?? null,
+    reviewedAt: data.reviewedById ? at : null,
+    answers: data.answers ?? Prisma.DbNull,
+    promoCodeId: data.promoCodeId ?? null,
+    discountCents: data.discountCents ?? 0,
+    rescheduleResponse: null,
+  };
+
+  if (!existing) {
+    return tx.registration.create({
+      data: { userId: data.userId, eventId: data.eventId, ...fields },
+      select: { id: true },
+    });
+  }
+
+  // Old payments stay on record for reconciliation but no longer belong here
+  await tx.payment.updateMany({
+    where: { registrationId: existing.id },
+    data: { registrationId: null },
+  });
+
+  const { count } = await tx.registration.updateMany({
+    where: { id: existing.id, status: RegistrationStatus.CANCELLED },
+    data: {
+      ...fields,
+      checkedInAt: null,
+      checkedInById: null,
+      ticketVersion: { increment: 1 },
+      createdAt: at,
+    },
+  });
+
+  if (count === 0) {
+    throw new RegistrationError(
+      `User is already registered for this event (registration ID: ${existing.id})`,
+      ERROR_CODES.DUPLICATE_ENTRY,
+    );
+  }
+
+  return { id: existing.id };
+}
@@ -0,0 +1,313 @@
+import {
+  Prisma,
+  PrismaClient,
+  RegistrationMode,
+  RegistrationStatus,
+} from '@prisma/client';
+import { sendEmail } from './email';
+import { ERROR_CODES } from './errorCodes';
+import { RegistrationError, getErrorCode } from './errors';
+import { assertEventOpenForRegistration } from './eventLifecycle';
+import logger from './logger';
+import { Actor, canManageEvent, eventStaffSelect } from './permissions';
+import { parseRegistrationAnswers } from './registrationQuestions';
+import { assertCanRegister } from './registrationStatus';
+import { releaseAgenda } from './sessions';
+import { sendRegistrationTicket } from './tickets';
+import { formatEventTime } from './utils';
+import { RegistrationTransferredTemplate } from '@/components/emails/RegistrationTransferredTemplate';
+
+/**
+ * Registration Transfers
+ *
+ * A registrant who can no longer attend can hand their registration to
+ * another user instead of cancelling it. The Registration row is reassigned
+ * in place, so the seat never returns to the event and cannot be picked up by
+ * the waitlist in between.
+ *
+ * The transfer bumps `ticketVersion`, which invalidates the previous holder's
+ * ticket code (see src/lib/tickets.ts); the recipient is emailed a fresh one.
+ * Any payment stays attributed to the user who made it. The previous holder's
+ * answers to the registration questions are cleared, since they describe
+ * someone who is no longer attending, and so is their session agenda; its
+ * session seats go back for anyone to pick, the recipient included. Events
+ * with required questions cannot be transferred, since the recipient's
+ * answers cannot be given on their behalf.
+ *
+ * For approval-only and invite-only events the recipient has not been vetted
+ * by the organizer, so only the organizer (or an admin) may transfer. A
+ * recipient who cancelled their own registration for the event is refused;
+ * they register again instead, which reopens that registration.
+ */
+
+/**
+ * Transfer a confirmed registration to another user
+ *
+ * @param prisma - Prisma client instance
+ * @param registrationId - UUID of the registration to transfer
+ * @param recipientEmail - Email address of the recipient's account
+ * @param actor - Caller; the registrant, the event organizer or an admin
+ * @returns The transferred registration and the transfer record, or a
+ *          structured error
+ */
+export async function transferRegistration(
+  prisma: PrismaClient,
+  registrationId: string,
+  recipientEmail: string,
+  actor: Actor,
+) {
+  try {
+    const result = await prisma.$transaction(
+      async (tx) => {
+        const registration = await tx.registration.findUnique({
+          where: { id: registrationId },
+          select: {
+            id: true,
+            userId: true,
+            eventId: true,
+            status: true,
+            checkedInAt: true,
+            user: { select: { id: true, name: true, email: true } },
+            event: {
+              select: {
+                id: true,
+                title: true,
+                date: true,
+                endsAt: true,
+                timeZone: true,
+                organizerId: true,
+                staff: eventStaffSelect(actor),
+                registrationMode: true,
+                status: true,
+                deletedAt: true,
+              },
+            },
+          },
+        });
+
+        if (!registration) {
+          throw new RegistrationError(
+            `Registration not found: ${registrationId}`,
+            ERROR_CODES.REGISTRATION_NOT_FOUND,
+          );
+        }
+
+        // Registrations for cancelled or completed events can no longer change hands
+        assertEventOpenForRegistration(registration.event);
+
+        const isManager = canManageEvent(actor, registration.event);
+
+        if (!isManager && registration.userId !== actor.userId) {
+          throw new RegistrationError(
+            'You can only transfer your own registrations',
+            ERROR_CODES.FORBIDDEN,
+          );
+        }
+
+        if (
+          !isManager &&
+          registration.event.registrationMode !== RegistrationMode.OPEN
+        ) {
+          throw new RegistrationError(
+            `Registrations for '${registration.event.title}' can only be transferred by the organizer`,
+            ERROR_CODES.FORBIDDEN,
+          );
+        }
+
+        if (registration.status !== RegistrationStatus.APPROVED) {
+          throw new RegistrationError(
+            `Registration ${registrationId} is not confirmed yet; complete payment before transferring it`,
+            ERROR_CODES.REGISTRATION_NOT_CONFIRMED,
+          );
+        }
+
+        if (registration.checkedInAt) {
+          throw new RegistrationError(
+            `${registration.user.name} has already checked in; the registration can no longer be transferred`,
+            ERROR_CODES.ALREADY_CHECKED_IN,
+          );
+        }
+
+        const recipient = await tx.user.findUnique({
+          where: { email: recipientEmail },
+          select: { id: true, name: true, email: true },
+        });
+
+        if (!recipient) {
+          throw new RegistrationError(
+            `No EventEase account uses ${recipientEmail}; the recipient must sign up before a registration can be transferred to them`,
+            ERROR_CODES.USER_NOT_FOUND,
+          );
+        }
+
+        if (recipient.id === registration.userId) {
+          throw new RegistrationError(
+            'The registration already belongs to this user',
+            ERROR_CODES.INVALID_INPUT,
+          );
+        }
+
+        // Required questions cannot be answered on the recipient's behalf
+        await parseRegistrationAnswers(tx, registration.eventId, undefined);
+
+        const previousRegistration = await assertCanRegister(
+          tx,
+          recipient.id,
+          registration.eventId,
+        );
+
+        // The recipient's own cancelled registration occupies their
+        // (userId, eventId) slot and keeps its payments, check-in and
+        // transfer history, so it is not overwritten; they can reopen it
+        // by registering again
+        if (previousRegistration) {
+          throw new RegistrationError(
+            `${recipient.name} has a cancelled registration for this event; they can register again instead`,
+            ERROR_CODES.DUPLICATE_ENTRY,
+          );
+        }
+
+        // Conditional on the state checked above, so a concurrent check-in,
+        // cancellation or transfer of the same registration cannot interleave.
+        // A concurrent registration by the recipient fails the
+        // (userId, eventId) unique constraint instead.
+        const { count } = await tx.registration.updateMany({
+          where: {
+            id: registrationId,
+            userId: registration.userId,
+            status: RegistrationStatus.APPROVED,
+            checkedInAt: null,
+          },
+          data: {
+            userId: recipient.id,
+            ticketVersion: { increment: 1 },
+            answers: Prisma.DbNull,
+          },
+        });
+
+        if (count === 0) {
+          throw new RegistrationError(
+            `Registration ${registrationId} changed while it was being transferred; please try again`,
+            ERROR_CODES.OPERATION_FAILED,
+          );
+        }
+
+        // Keep a group booking's seat list naming the actual attendee
+        await tx.groupSeat.updateMany({
+          where: { registrationId },
+          data: {
+            attendeeName: recipient.name,
+            attendeeEmail: recipient.email.toLowerCase(),
+          },
+        });
+
+        await releaseAgenda(tx, registrationId);
+
+        // The recipient no longer needs their place in the queue
+        await tx.waitlist.deleteMany({
+          where: { userId: recipient.id, eventId: registration.eventId },
+        });
+
+        const transfer = await tx.registrationTransfer.create({
+          data: {
+            registrationId,
+            eventId: registration.eventId,
+            fromUserId: registration.userId,
+            toUserId: recipient.id,
+            transferredById: actor.userId,
+          },
+          select: {
+            id: true,
+            registrationId: true,
+            eventId: true,
+            fromUserId: true,
+            toUserId: true,
+            transferredById: true,
+            transferredAt: true,
+          },
+        });
+
+        const transferred = await tx.registration.findUniqueOrThrow({
+          where: { id: registrationId },
+          select: {
+            id: true,
+            status: true,
+            ticketVersion: true,
+            createdAt: true,
+            user: { select: { id: true, name: true, email: true } },
+            event: { select: { id: true, title: true, date: true } },
+          },
+        });
+
+        return {
+          registration: transferred,
+          transfer,
+          previousHolder: registration.user,
+          event: registration.event,
+        };
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 10000,
+      },
+    );
+
+    // Emails only go out once the hand-over has been committed
+    await sendRegistrationTicket(prisma, registrationId, {
+      transferredFrom: result.previousHolder.name,
+    });
+
+    try {
+      await sendEmail({
+        to: result.previousHolder.email,
+        subject: `Your registration for ${result.event.title} was transferred`,
+        react: RegistrationTransferredTemplate({
+          userName: result.previousHolder.name,
+          recipientName: result.registration.user.name,
+          eventTitle: result.event.title,
+          eventDate: formatEventTime(
+            result.event.date,
+            result.event.endsAt,
+            result.event.timeZone,
+          ),
+        }),
+      });
+    } catch (error) {
+      logger.error({
+        message: 'Failed to send registration transfer email',
+        registrationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    logger.info({
+      message: 'Registration transferred',
+      registrationId,
+      eventId: result.event.id,
+      fromUserId: result.transfer.fromUserId,
+      toUserId: result.transfer.toUserId,
+    });
+
+    return {
+      success: true,
+      registration: result.registration,
+      transfer: result.transfer,
+      error: null,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.warn({
+      message: 'Registration transfer failed',
+      registrationId,
+      error: errorMessage,
+    });
+
+    return {
+      success: false,
+      registration: null,
+      transfer: null,
+      error: { message: errorMessage, code: getErrorCode(error) },
+    };
+  }
+}
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+
+const categoryFieldsSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, { message: 'Category name must be at least 2 characters' })
+    .max(100, { message: 'Category name must not exceed 100 characters' }),
+  // Derived from the name when left out
+  slug: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, {
+      message:
+        'Slug must be lowercase letters and digits separated by single hyphens',
+    })
+    .max(100, { message: 'Slug must not exceed 100 characters' })
+    .optional(),
+  description: z
+    .string()
+    .trim()
+    .max(500, { message: 'Description must not exceed 500 characters' })
+    .nullable()
+    .optional(),
+});
+
+/**
+ * Schema for POST /api/categories
+ */
+export const createCategorySchema = categoryFieldsSchema;
+
+export type CreateCategoryRequest = z.infer<typeof createCategorySchema>;
+
+/**
+ * Schema for PATCH /api/categories/:id
+ * Renaming keeps the slug unless a new one is sent
+ */
+export const updateCategorySchema = categoryFieldsSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export type UpdateCategoryRequest = z.infer<typeof updateCategorySchema>;
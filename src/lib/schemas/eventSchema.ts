@@ -1,28 +1,56 @@
 import { z } from 'zod';
+import { registrationFormSchema } from './registrationFormSchema';
+import { fromWallClock, isValidTimeZone } from '../timeZones';
 
+/**
+ * IANA time zone name, e.g. "Europe/Berlin"
+ */
+export const timeZoneSchema = z
+  .string()
+  .trim()
+  .min(1, { message: 'Time zone is required' })
+  .refine(isValidTimeZone, {
+    message: 'Time zone must be an IANA time zone name, e.g. Europe/Berlin',
+  });
+
+/**
+ * Instant at which a `datetime-local` input value ("2026-11-02T09:00")
+ * happens in the given zone
+ */
+export function fromLocalDateTime(value: string, timeZone: string): Date {
+  return fromWallClock(new Date(`${value}Z`), timeZone);
+}
+
+const localDateTimeSchema = (label: string) =>
+  z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/, {
+    message: `${label} is required`,
+  });
+
+/**
+ * Event form: start and end are entered as local times in the event's zone
+ */
 export const eventFormSchema = z
   .object({
     title: z.string().min(5, 'Title must be at least 5 characters'),
     description: z
       .string()
       .min(20, 'Description must be at least 20 characters'),
-    date: z
-      .string()
-      .refine(
-        (val) => new Date(val) > new Date(),
-        'Date must be in the future',
-      ),
     location: z.string().min(1, 'Location is required'),
-    startTime: z.string().optional(),
-    endTime: z.string().optional(),
+    startTime: localDateTimeSchema('Start time'),
+    endTime: localDateTimeSchema('End time'),
+    timeZone: timeZoneSchema,
   })
   .refine(
-    (data) => {
-      if (data.startTime && data.endTime) {
-        return new Date(data.endTime) > new Date(data.startTime);
-      }
-      return true;
+    (data) => fromLocalDateTime(data.startTime, data.timeZone) > new Date(),
+    {
+      message: 'Start time must be in the future',
+      path: ['startTime'],
     },
+  )
+  .refine(
+    (data) =>
+      fromLocalDateTime(data.endTime, data.timeZone) >
+      fromLocalDateTime(data.startTime, data.timeZone),
     {
       message: 'End time must be after start time',
       path: ['endTime'],
@@ -31,6 +59,95 @@ export const eventFormSchema = z
 
 export type EventFormData = z.infer<typeof eventFormSchema>;
 
+/**
+ * Start, end and zone of a submitted event form, in the shape the events API
+ * expects
+ */
+export function toEventTimes(data: EventFormData) {
+  return {
+    date: fromLocalDateTime(data.startTime, data.timeZone).toISOString(),
+    endsAt: fromLocalDateTime(data.endTime, data.timeZone).toISOString(),
+    timeZone: data.timeZone,
+  };
+}
+
+export const TICKET_KINDS = [
+  'GENERAL',
+  'VIP',
+  'STUDENT',
+  'EARLY_BIRD',
+] as const;
+
+/**
+ * Schema for a single ticket type definition (General, VIP, Student, ...)
+ * Each ticket type has its own quota and price; Early-bird style offers use
+ * the optional sale window
+ */
+export const ticketTypeSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1, { message: 'Ticket type name is required' })
+      .max(100, { message: 'Ticket type name must not exceed 100 characters' })
+      .trim(),
+    kind: z.enum(TICKET_KINDS).default('GENERAL'),
+    priceCents: z
+      .number()
+      .int({ message: 'Price must be a whole number of cents' })
+      .min(0, { message: 'Price cannot be negative' })
+      .default(0),
+    currency: z
+      .string()
+      .length(3, { message: 'Currency must be a 3-letter ISO 4217 code' })
+      .toUpperCase()
+      .default('USD'),
+    quota: z
+      .number()
+      .int({ message: 'Quota must be a whole number' })
+      .min(1, { message: 'Quota must be at least 1' }),
+    salesStartAt: z
+      .string()
+      .datetime({ message: 'Sales start must be a valid ISO 8601 datetime' })
+      .optional(),
+    salesEndAt: z
+      .string()
+      .datetime({ message: 'Sales end must be a valid ISO 8601 datetime' })
+      .optional(),
+  })
+  .refine(
+    (data) => {
+      if (data.salesStartAt && data.salesEndAt) {
+        return new Date(data.salesEndAt) > new Date(data.salesStartAt);
+      }
+      return true;
+    },
+    {
+      message: 'Sales end must be after sales start',
+      path: ['salesEndAt'],
+    },
+  );
+
+export type TicketTypeInput = z.infer<typeof ticketTypeSchema>;
+
+export const REGISTRATION_MODES = ['OPEN', 'APPROVAL', 'INVITE_ONLY'] as const;
+
+export const MAX_EVENT_TAGS = 10;
+
+// Free-form, e.g. "javascript", "networking", "family friendly"
+const tagSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1, { message: 'Tags cannot be empty' })
+  .max(50, { message: 'Tags must not exceed 50 characters' });
+
+const tagsSchema = z
+  .array(tagSchema)
+  .max(MAX_EVENT_TAGS, {
+    message: `An event can have at most ${MAX_EVENT_TAGS} tags`,
+  })
+  .transform((tags) => [...new Set(tags)]);
+
 export const eventBaseSchema = z.object({
   title: z
     .string()
@@ -43,12 +160,22 @@ export const eventBaseSchema = z.object({
     .trim()
     .optional()
     .default(''),
+  // Start and end instants; offsets other than Z are accepted
   date: z
     .string()
-    .datetime({ message: 'Date must be a valid ISO 8601 datetime string' })
+    .datetime({
+      offset: true,
+      message: 'Date must be a valid ISO 8601 datetime string',
+    })
     .refine((date) => new Date(date) > new Date(), {
       message: 'Event date must be in the future',
     }),
+  endsAt: z.string().datetime({
+    offset: true,
+    message: 'End must be a valid ISO 8601 datetime string',
+  }),
+  // Zone the event's times are shown in
+  timeZone: timeZoneSchema.default('UTC'),
   location: z
     .string()
     .min(2, { message: 'Location must be at least 2 characters long' })
@@ -59,42 +186,220 @@ export const eventBaseSchema = z.object({
     .int({ message: 'Capacity must be a whole number' })
     .min(1, { message: 'Capacity must be at least 1' })
     .max(100000, { message: 'Capacity cannot exceed 100,000' }),
+  cancellationCutoffHours: z
+    .number()
+    .int({ message: 'Cancellation cutoff must be a whole number of hours' })
+    .min(0, { message: 'Cancellation cutoff cannot be negative' })
+    .max(720, { message: 'Cancellation cutoff cannot exceed 720 hours' })
+    .optional(),
+  // OPEN: register immediately; APPROVAL: organizer reviews each
+  // registration; INVITE_ONLY: no self-registration
+  registrationMode: z.enum(REGISTRATION_MODES).optional(),
+  // Total quotas must fit within capacity; checked against the event's
+  // capacity in the route (see getTicketQuotaError) since it spans fields
+  ticketTypes: z
+    .array(ticketTypeSchema)
+    .max(20, { message: 'An event can have at most 20 ticket types' })
+    .refine(
+      (types) => new Set(types.map((type) => type.name)).size === types.length,
+      { message: 'Ticket type names must be unique' },
+    )
+    .optional(),
+  // Extra questions attendees answer when registering
+  questions: registrationFormSchema.optional(),
+  // Room of a venue (see /api/venues); checked for capacity and
+  // double-booking by the route
+  roomId: z.string().uuid({ message: 'Room ID must be a UUID' }).optional(),
+  // Listing category (see /api/categories)
+  categoryId: z
+    .string()
+    .uuid({ message: 'Category ID must be a UUID' })
+    .optional(),
+  tags: tagsSchema.optional(),
+});
+
+const publishAtSchema = z.string().datetime({
+  offset: true,
+  message: 'Publish time must be a valid ISO 8601 datetime string',
 });
 
 /**
  * Schema for POST /api/events (event creation)
- * Requires organizerId to link event to user
+ * Requires organizerId to link event to user. Events are created as drafts;
+ * publishAt schedules when they are published.
  */
-export const createEventSchema = eventBaseSchema.extend({
+const createEventFieldsSchema = eventBaseSchema.extend({
   organizerId: z
     .number()
     .int({ message: 'Organization ID must be a valid integer' })
     .positive({ message: 'Organization ID must be positive' }),
+  publishAt: publishAtSchema.optional(),
+});
+
+export const createEventSchema = createEventFieldsSchema
+  .refine((data) => new Date(data.endsAt) > new Date(data.date), {
+    message: 'An event must end after it starts',
+    path: ['endsAt'],
+  })
+  .refine(
+    (data) => !data.publishAt || new Date(data.publishAt) < new Date(data.date),
+    {
+      message: 'The publish time must be before the event starts',
+      path: ['publishAt'],
+    },
+  );
+
+/**
+ * Schema for POST /api/events/:id/publish
+ * Without publishAt the draft is published immediately
+ */
+export const publishEventSchema = z.object({
+  publishAt: publishAtSchema.optional(),
+});
+
+const changeReasonSchema = z
+  .string()
+  .max(500, { message: 'Reason must not exceed 500 characters' })
+  .trim();
+
+/**
+ * Schema for POST /api/events/:id/cancel
+ * The reason is included in the email sent to attendees
+ */
+export const cancelEventSchema = z.object({
+  reason: changeReasonSchema.optional(),
 });
 
 /**
- * Schema for PUT /api/events/:id (event update)
+ * Schema for POST /api/events/:id/reschedule
+ * timeZone defaults to the event's current zone
+ */
+export const rescheduleEventSchema = z
+  .object({
+    date: eventBaseSchema.shape.date,
+    endsAt: eventBaseSchema.shape.endsAt,
+    timeZone: timeZoneSchema.optional(),
+    reason: changeReasonSchema.optional(),
+  })
+  .refine((data) => new Date(data.endsAt) > new Date(data.date), {
+    message: 'An event must end after it starts',
+    path: ['endsAt'],
+  });
+
+/**
+ * Schema for PATCH /api/events/:id (event update)
  * All fields are optional to allow partial updates
- * organizerId cannot be changed (immutable)
+ * organizerId cannot be changed (immutable); ticket types and questions are
+ * not edited here (questions: /api/events/:id/questions)
  */
 export const updateEventSchema = eventBaseSchema
   .partial()
-  .omit({ date: true })
+  .omit({ date: true, ticketTypes: true, questions: true })
   .extend({
+    // Without its default, so leaving it out keeps the stored description
+    description: eventBaseSchema.shape.description.unwrap(),
     date: z
       .string()
-      .datetime({ message: 'Date must be a valid ISO 8601 datetime string' })
+      .datetime({
+        offset: true,
+        message: 'Date must be a valid ISO 8601 datetime string',
+      })
       .refine((date) => new Date(date) > new Date(), {
         message: 'Event date must be in the future',
       })
       .optional(),
+    // A new zone keeps the stored instants; send date / endsAt to move them
+    timeZone: timeZoneSchema.optional(),
+    // null takes the event out of its room
+    roomId: z
+      .string()
+      .uuid({ message: 'Room ID must be a UUID' })
+      .nullable()
+      .optional(),
+    // null removes the category; tags replace the event's current tags
+    categoryId: z
+      .string()
+      .uuid({ message: 'Category ID must be a UUID' })
+      .nullable()
+      .optional(),
   });
 
+/**
+ * Query parameters of GET /api/events (listing filters)
+ * `tags` come from repeated `tag` parameters; an event must carry all of
+ * them. `from` / `to` keep the events taking place in that window.
+ */
+export const eventListQuerySchema = z
+  .object({
+    category: z
+      .string()
+      .trim()
+      .toLowerCase()
+      .min(1)
+      .max(100, { message: 'Category must not exceed 100 characters' })
+      .optional(),
+    tags: tagsSchema.default([]),
+    from: z
+      .string()
+      .datetime({
+        offset: true,
+        message: 'From must be a valid ISO 8601 datetime',
+      })
+      .optional(),
+    to: z
+      .string()
+      .datetime({
+        offset: true,
+        message: 'To must be a valid ISO 8601 datetime',
+      })
+      .optional(),
+    location: z
+      .string()
+      .trim()
+      .min(1)
+      .max(200, { message: 'Location must not exceed 200 characters' })
+      .optional(),
+    hasSeats: z
+      .enum(['true', 'false'], { message: 'hasSeats must be true or false' })
+      .transform((value) => value === 'true')
+      .optional(),
+    organizerId: z.string().trim().min(1).optional(),
+  })
+  .refine(
+    (data) => !data.from || !data.to || new Date(data.to) > new Date(data.from),
+    {
+      message: 'To must be after from',
+      path: ['to'],
+    },
+  );
+
+/**
+ * Query parameters of GET /api/events/search (full-text search)
+ */
+export const eventSearchQuerySchema = z.object({
+  q: z
+    .string()
+    .trim()
+    .min(2, { message: 'Search must be at least 2 characters' })
+    .max(200, { message: 'Search must not exceed 200 characters' }),
+  page: z.coerce
+    .number()
+    .int({ message: 'Page must be a whole number' })
+    .min(1, { message: 'Page must be at least 1' })
+    .default(1),
+  limit: z.coerce
+    .number()
+    .int({ message: 'Limit must be a whole number' })
+    .min(1, { message: 'Limit must be at least 1' })
+    .max(50, { message: 'Limit cannot exceed 50' })
+    .default(10),
+});
+
 /**
  * Schema for event response (when returning event data)
  * Includes computed fields like id and timestamps
  */
-export const eventResponseSchema = createEventSchema.extend({
+export const eventResponseSchema = createEventFieldsSchema.extend({
   id: z.number(),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
@@ -119,6 +424,11 @@ export const eventResponseSchema = createEventSchema.extend({
  */
 export type CreateEventRequest = z.infer<typeof createEventSchema>;
 export type UpdateEventRequest = z.infer<typeof updateEventSchema>;
+export type PublishEventRequest = z.infer<typeof publishEventSchema>;
+export type CancelEventRequest = z.infer<typeof cancelEventSchema>;
+export type RescheduleEventRequest = z.infer<typeof rescheduleEventSchema>;
+export type EventListQuery = z.infer<typeof eventListQuerySchema>;
+export type EventSearchQuery = z.infer<typeof eventSearchQuerySchema>;
 export type EventResponse = z.infer<typeof eventResponseSchema>;
 
 /**
@@ -0,0 +1,168 @@
+import { z } from 'zod';
+import { RECURRENCE_FREQUENCIES, WEEKDAY_CODES } from '../recurrence';
+import { eventBaseSchema } from './eventSchema';
+
+export const MAX_SERIES_OCCURRENCES = 200;
+export const MAX_SERIES_EXCEPTIONS = 100;
+
+export const OCCURRENCE_EDIT_SCOPES = ['THIS', 'THIS_AND_FUTURE'] as const;
+
+/**
+ * Recurrence rule of an event series (RRULE subset, see src/lib/recurrence.ts)
+ * At most one of `until` and `count` may be set; with neither the series
+ * repeats until it is stopped.
+ */
+export const recurrenceSchema = z
+  .object({
+    frequency: z.enum(RECURRENCE_FREQUENCIES),
+    interval: z
+      .number()
+      .int({ message: 'Interval must be a whole number' })
+      .min(1, { message: 'Interval must be at least 1' })
+      .max(52, { message: 'Interval cannot exceed 52' })
+      .default(1),
+    byWeekday: z
+      .array(z.enum(WEEKDAY_CODES))
+      .transform((days) => [...new Set(days)])
+      .default([]),
+    until: z
+      .string()
+      .datetime({ message: 'Until must be a valid ISO 8601 datetime' })
+      .optional(),
+    count: z
+      .number()
+      .int({ message: 'Count must be a whole number' })
+      .min(1, { message: 'Count must be at least 1' })
+      .max(MAX_SERIES_OCCURRENCES, {
+        message: `A series can have at most ${MAX_SERIES_OCCURRENCES} occurrences`,
+      })
+      .optional(),
+    exceptions: z
+      .array(
+        z
+          .string()
+          .datetime({ message: 'Exceptions must be valid ISO 8601 datetimes' }),
+      )
+      .max(MAX_SERIES_EXCEPTIONS, {
+        message: `A series can have at most ${MAX_SERIES_EXCEPTIONS} exceptions`,
+      })
+      .default([]),
+  })
+  .refine((rule) => !(rule.until && rule.count), {
+    message: 'Set either until or count, not both',
+    path: ['count'],
+  })
+  .refine(
+    (rule) => rule.frequency === 'WEEKLY' || rule.byWeekday.length === 0,
+    {
+      message: 'byWeekday can only be used with weekly recurrence',
+      path: ['byWeekday'],
+    },
+  );
+
+export type RecurrenceInput = z.infer<typeof recurrenceSchema>;
+
+/**
+ * Schema for POST /api/series
+ * The event fields are the template every occurrence is created from;
+ * `startsAt` / `endsAt` are the start and end of the first occurrence, and
+ * later occurrences start at the same local time in `timeZone`
+ */
+export const createEventSeriesSchema = eventBaseSchema
+  .omit({ date: true, endsAt: true, roomId: true })
+  .extend({
+    startsAt: z
+      .string()
+      .datetime({
+        offset: true,
+        message: 'Start must be a valid ISO 8601 datetime string',
+      })
+      .refine((date) => new Date(date) > new Date(), {
+        message: 'The first occurrence must be in the future',
+      }),
+    endsAt: z.string().datetime({
+      offset: true,
+      message: 'End must be a valid ISO 8601 datetime string',
+    }),
+    recurrence: recurrenceSchema,
+  })
+  .refine((data) => new Date(data.endsAt) > new Date(data.startsAt), {
+    message: 'An occurrence must end after it starts',
+    path: ['endsAt'],
+  })
+  .refine(
+    (data) =>
+      !data.recurrence.until ||
+      new Date(data.recurrence.until) >= new Date(data.startsAt),
+    {
+      message: 'Until must not be before the first occurrence',
+      path: ['recurrence', 'until'],
+    },
+  );
+
+export type CreateEventSeriesRequest = z.infer<typeof createEventSeriesSchema>;
+
+/**
+ * Schema for PATCH /api/series/:id/occurrences/:eventId
+ * `THIS` changes only the given occurrence and may move it; `THIS_AND_FUTURE`
+ * changes it and every later occurrence, including ones generated later
+ */
+export const updateSeriesOccurrenceSchema = eventBaseSchema
+  .pick({
+    title: true,
+    location: true,
+    capacity: true,
+    cancellationCutoffHours: true,
+    registrationMode: true,
+  })
+  .partial()
+  .extend({
+    scope: z.enum(OCCURRENCE_EDIT_SCOPES),
+    description: z
+      .string()
+      .max(2000, { message: 'Description must not exceed 2000 characters' })
+      .trim()
+      .optional(),
+    date: z
+      .string()
+      .datetime({
+        offset: true,
+        message: 'Date must be a valid ISO 8601 datetime string',
+      })
+      .refine((date) => new Date(date) > new Date(), {
+        message: 'Event date must be in the future',
+      })
+      .optional(),
+  })
+  .refine((data) => !data.date || data.scope === 'THIS', {
+    message:
+      'Only a single occurrence can be moved; use scope THIS to change its date',
+    path: ['date'],
+  })
+  .refine((data) => Object.keys(data).some((key) => key !== 'scope'), {
+    message: 'At least one field must be provided',
+  });
+
+export type UpdateSeriesOccurrenceRequest = z.infer<
+  typeof updateSeriesOccurrenceSchema
+>;
+
+/**
+ * Schema for POST /api/series/:id/registrations
+ * Each occurrence has its own ticket types and questions, so the ticket type
+ * is chosen by name and answers are keyed by question label
+ */
+export const seriesRegistrationSchema = z.object({
+  ticketTypeName: z
+    .string()
+    .trim()
+    .min(1, { message: 'Ticket type name cannot be empty' })
+    .max(100, { message: 'Ticket type name must not exceed 100 characters' })
+    .optional(),
+  joinWaitlist: z.boolean().default(false),
+  answers: z.record(z.string(), z.unknown()).optional(),
+});
+
+export type SeriesRegistrationRequest = z.infer<
+  typeof seriesRegistrationSchema
+>;
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+
+export const EVENT_STAFF_ROLES = [
+  'CO_ORGANIZER',
+  'CHECK_IN',
+  'VIEWER',
+] as const;
+
+const staffRoleSchema = z.enum(EVENT_STAFF_ROLES, {
+  message: 'Role must be CO_ORGANIZER, CHECK_IN or VIEWER',
+});
+
+/**
+ * Schema for POST /api/events/:id/staff (staff invitation)
+ */
+export const inviteStaffSchema = z.object({
+  email: z
+    .string()
+    .trim()
+    .email({ message: 'Please provide a valid email address' })
+    .toLowerCase(),
+  role: staffRoleSchema,
+});
+
+/**
+ * Schema for PATCH /api/events/:id/staff/:userId
+ */
+export const updateStaffRoleSchema = z.object({
+  role: staffRoleSchema,
+});
+
+/**
+ * Schema for POST /api/staff-invitations/accept
+ * `token` is the invitation token from the emailed link
+ */
+export const acceptStaffInvitationSchema = z.object({
+  token: z
+    .string()
+    .trim()
+    .min(1, { message: 'Invitation token is required' })
+    .max(256, { message: 'Invitation token is too long' }),
+});
+
+/**
+ * Schema for POST /api/events/:id/transfer-ownership
+ */
+export const transferOwnershipSchema = z.object({
+  userId: z.string().uuid({ message: 'User ID must be a UUID' }),
+});
+
+export type InviteStaffRequest = z.infer<typeof inviteStaffSchema>;
+export type UpdateStaffRoleRequest = z.infer<typeof updateStaffRoleSchema>;
+export type AcceptStaffInvitationRequest = z.infer<
+  typeof acceptStaffInvitationSchema
+>;
+export type TransferOwnershipRequest = z.infer<typeof transferOwnershipSchema>;
@@ -0,0 +1,125 @@
+import { z } from 'zod';
+
+export const DISCOUNT_TYPES = ['PERCENTAGE', 'FIXED_AMOUNT'] as const;
+
+export const MAX_PROMO_CODE_RESTRICTIONS = 100;
+
+/**
+ * A promo code as typed by an attendee
+ * Codes are case-insensitive and stored uppercased
+ */
+export const promoCodeValueSchema = z
+  .string()
+  .trim()
+  .min(3, { message: 'Promo code must be at least 3 characters' })
+  .max(32, { message: 'Promo code must not exceed 32 characters' })
+  .toUpperCase()
+  .regex(/^[A-Z0-9_-]+$/, {
+    message:
+      'Promo code can only contain letters, numbers, hyphens and underscores',
+  });
+
+const restrictionIdsSchema = z
+  .array(z.string().uuid({ message: 'Restriction IDs must be UUIDs' }))
+  .max(MAX_PROMO_CODE_RESTRICTIONS, {
+    message: `A promo code can be restricted to at most ${MAX_PROMO_CODE_RESTRICTIONS} items`,
+  })
+  .transform((ids) => [...new Set(ids)]);
+
+const promoCodeFieldsSchema = z.object({
+  code: promoCodeValueSchema,
+  description: z
+    .string()
+    .trim()
+    .max(500, { message: 'Description must not exceed 500 characters' })
+    .optional(),
+  discountType: z.enum(DISCOUNT_TYPES),
+  // Percent off for PERCENTAGE codes, cents off for FIXED_AMOUNT codes
+  discountValue: z
+    .number()
+    .int({ message: 'Discount must be a whole number' })
+    .min(1, { message: 'Discount must be at least 1' }),
+  currency: z
+    .string()
+    .length(3, { message: 'Currency must be a 3-letter ISO 4217 code' })
+    .toUpperCase()
+    .default('USD'),
+  // Omitted (or null) for unlimited redemptions
+  maxRedemptions: z
+    .number()
+    .int({ message: 'Redemption limit must be a whole number' })
+    .min(1, { message: 'Redemption limit must be at least 1' })
+    .nullable()
+    .optional(),
+  startsAt: z
+    .string()
+    .datetime({ message: 'Start must be a valid ISO 8601 datetime' })
+    .nullable()
+    .optional(),
+  expiresAt: z
+    .string()
+    .datetime({ message: 'Expiry must be a valid ISO 8601 datetime' })
+    .nullable()
+    .optional(),
+  active: z.boolean().default(true),
+  // Empty means the code is valid for every event / ticket type
+  eventIds: restrictionIdsSchema.default([]),
+  ticketTypeIds: restrictionIdsSchema.default([]),
+});
+
+function isValidWindow(data: {
+  startsAt?: string | null;
+  expiresAt?: string | null;
+}) {
+  if (data.startsAt && data.expiresAt) {
+    return new Date(data.expiresAt) > new Date(data.startsAt);
+  }
+  return true;
+}
+
+/**
+ * Schema for POST /api/admin/promo-codes
+ */
+export const createPromoCodeSchema = promoCodeFieldsSchema
+  .refine(
+    (data) => data.discountType !== 'PERCENTAGE' || data.discountValue <= 100,
+    {
+      message: 'A percentage discount cannot exceed 100',
+      path: ['discountValue'],
+    },
+  )
+  .refine(isValidWindow, {
+    message: 'Expiry must be after the start',
+    path: ['expiresAt'],
+  });
+
+export type CreatePromoCodeRequest = z.infer<typeof createPromoCodeSchema>;
+
+/**
+ * Schema for PATCH /api/admin/promo-codes/:id
+ * The code, discount type and currency are fixed once created; create a new
+ * code to change them. Send `null` to clear a limit or date.
+ */
+export const updatePromoCodeSchema = promoCodeFieldsSchema
+  .omit({ code: true, discountType: true, currency: true })
+  .partial()
+  .extend({
+    description: z
+      .string()
+      .trim()
+      .max(500, { message: 'Description must not exceed 500 characters' })
+      .nullable()
+      .optional(),
+    active: z.boolean().optional(),
+    eventIds: restrictionIdsSchema.optional(),
+    ticketTypeIds: restrictionIdsSchema.optional(),
+  })
+  .refine(isValidWindow, {
+    message: 'Expiry must be after the start',
+    path: ['expiresAt'],
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export type UpdatePromoCodeRequest = z.infer<typeof updatePromoCodeSchema>;
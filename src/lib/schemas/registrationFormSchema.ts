@@ -0,0 +1,156 @@
+import { z } from 'zod';
+
+export const QUESTION_TYPES = ['TEXT', 'SELECT', 'CHECKBOX'] as const;
+
+export const MAX_REGISTRATION_QUESTIONS = 30;
+export const MAX_TEXT_ANSWER_LENGTH = 1000;
+
+/**
+ * Schema for a single registration question defined by the organizer
+ * (dietary needs, T-shirt size, company name, ...)
+ *
+ * `id` is only used when updating an event's form: it keeps an existing
+ * question (and the answers already given to it) instead of replacing it
+ */
+export const registrationQuestionSchema = z
+  .object({
+    id: z.string().uuid().optional(),
+    label: z
+      .string()
+      .trim()
+      .min(1, { message: 'Question label is required' })
+      .max(200, { message: 'Question label must not exceed 200 characters' }),
+    type: z.enum(QUESTION_TYPES),
+    required: z.boolean().default(false),
+    options: z
+      .array(
+        z
+          .string()
+          .trim()
+          .min(1, { message: 'Options cannot be empty' })
+          .max(100, { message: 'Options must not exceed 100 characters' }),
+      )
+      .max(50, { message: 'A question can have at most 50 options' })
+      .default([]),
+  })
+  .refine(
+    (question) =>
+      question.type === 'SELECT'
+        ? question.options.length >= 2
+        : question.options.length === 0,
+    {
+      message:
+        'Select questions need at least 2 options; other types take none',
+      path: ['options'],
+    },
+  )
+  .refine(
+    (question) => new Set(question.options).size === question.options.length,
+    { message: 'Options must be unique', path: ['options'] },
+  );
+
+export type RegistrationQuestionInput = z.infer<
+  typeof registrationQuestionSchema
+>;
+
+/**
+ * An event's registration form: its questions in display order
+ */
+export const registrationFormSchema = z
+  .array(registrationQuestionSchema)
+  .max(MAX_REGISTRATION_QUESTIONS, {
+    message: `An event can have at most ${MAX_REGISTRATION_QUESTIONS} registration questions`,
+  })
+  .refine(
+    (questions) =>
+      new Set(questions.map((question) => question.label)).size ===
+      questions.length,
+    { message: 'Question labels must be unique' },
+  )
+  .refine(
+    (questions) => {
+      const ids = questions.flatMap((question) =>
+        question.id ? [question.id] : [],
+      );
+      return new Set(ids).size === ids.length;
+    },
+    { message: 'A question can only appear once' },
+  );
+
+/**
+ * Schema for PUT /api/events/:id/questions
+ * Replaces the event's whole registration form
+ */
+export const setRegistrationQuestionsSchema = z.object({
+  questions: registrationFormSchema,
+});
+
+export type SetRegistrationQuestionsRequest = z.infer<
+  typeof setRegistrationQuestionsSchema
+>;
+
+/**
+ * A stored question, as needed to validate answers to it
+ */
+export interface RegistrationQuestionDefinition {
+  id: string;
+  label: string;
+  type: (typeof QUESTION_TYPES)[number];
+  required: boolean;
+  options: string[];
+}
+
+/** Answers keyed by question id */
+export type RegistrationAnswers = Record<string, string | boolean>;
+
+function buildAnswerSchema(question: RegistrationQuestionDefinition) {
+  const label = `"${question.label}"`;
+
+  switch (question.type) {
+    case 'TEXT': {
+      const text = z
+        .string({
+          message: question.required
+            ? `${label} is required`
+            : `${label} must be text`,
+        })
+        .trim()
+        .max(MAX_TEXT_ANSWER_LENGTH, {
+          message: `${label} must not exceed ${MAX_TEXT_ANSWER_LENGTH} characters`,
+        });
+
+      return question.required
+        ? text.min(1, { message: `${label} is required` })
+        : text.optional();
+    }
+
+    case 'SELECT': {
+      const choice = z.enum(question.options as [string, ...string[]], {
+        message: `${label} must be one of: ${question.options.join(', ')}`,
+      });
+
+      return question.required ? choice : choice.optional();
+    }
+
+    case 'CHECKBOX':
+      return question.required
+        ? z.literal(true, { message: `${label} must be checked` })
+        : z.boolean({ message: `${label} must be true or false` }).optional();
+  }
+}
+
+/**
+ * Generate the Zod schema that validates answers to an event's questions
+ *
+ * The schema is an object keyed by question id. Unknown keys are rejected so
+ * answers to a question that has since been removed do not slip through.
+ */
+export function buildRegistrationAnswersSchema(
+  questions: RegistrationQuestionDefinition[],
+) {
+  return z.strictObject(
+    Object.fromEntries(
+      questions.map((question) => [question.id, buildAnswerSchema(question)]),
+    ),
+  );
+}
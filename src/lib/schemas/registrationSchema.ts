@@ -0,0 +1,188 @@
+import { z } from 'zod';
+import { promoCodeValueSchema } from './promoCodeSchema';
+
+/**
+ * Schema for DELETE /api/registrations/:id (registration cancellation)
+ * The body is optional; a reason is recorded in the cancellation audit trail
+ */
+export const cancelRegistrationSchema = z.object({
+  reason: z
+    .string()
+    .max(500, { message: 'Reason must not exceed 500 characters' })
+    .trim()
+    .optional(),
+});
+
+export type CancelRegistrationRequest = z.infer<
+  typeof cancelRegistrationSchema
+>;
+
+export const RESCHEDULE_ANSWERS = ['CONFIRM', 'RELEASE'] as const;
+
+/**
+ * Schema for POST /api/registrations/:id/reschedule-response
+ * CONFIRM keeps the seat at the new time; RELEASE cancels the registration
+ */
+export const rescheduleResponseSchema = z.object({
+  response: z.enum(RESCHEDULE_ANSWERS, {
+    message: 'Response must be CONFIRM or RELEASE',
+  }),
+});
+
+export type RescheduleResponseRequest = z.infer<
+  typeof rescheduleResponseSchema
+>;
+
+/**
+ * Schema for POST /api/events/:id/check-in
+ * `code` is the signed ticket code read from the attendee's QR code
+ */
+export const checkInSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(1, { message: 'Ticket code is required' })
+    .max(2048, { message: 'Ticket code is too long' }),
+});
+
+export type CheckInRequest = z.infer<typeof checkInSchema>;
+
+/**
+ * Attendee named on a group booking seat
+ */
+export const groupAttendeeSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, { message: 'Attendee name is required' })
+    .max(100, { message: 'Attendee name must not exceed 100 characters' }),
+  email: z
+    .string()
+    .trim()
+    .email({ message: 'Please provide a valid email address' })
+    .toLowerCase(),
+});
+
+export type GroupAttendee = z.infer<typeof groupAttendeeSchema>;
+
+export const MAX_GROUP_SIZE = 20;
+
+/**
+ * Schema for POST /api/events/:id/group-registrations
+ * One seat is booked per attendee; attendee emails must be unique
+ */
+export const groupRegistrationSchema = z.object({
+  attendees: z
+    .array(groupAttendeeSchema)
+    .min(1, { message: 'At least one attendee is required' })
+    .max(MAX_GROUP_SIZE, {
+      message: `A group booking can include at most ${MAX_GROUP_SIZE} attendees`,
+    })
+    .refine(
+      (attendees) =>
+        new Set(attendees.map((attendee) => attendee.email)).size ===
+        attendees.length,
+      { message: 'Each attendee must have a different email address' },
+    ),
+  ticketTypeId: z.string().uuid().optional(),
+});
+
+export type GroupRegistrationRequest = z.infer<typeof groupRegistrationSchema>;
+
+/**
+ * Schema for POST /api/group-seats/claim
+ * `token` is the invitation token from the emailed claim link
+ */
+export const claimGroupSeatSchema = z.object({
+  token: z
+    .string()
+    .trim()
+    .min(1, { message: 'Invitation token is required' })
+    .max(256, { message: 'Invitation token is too long' }),
+});
+
+export type ClaimGroupSeatRequest = z.infer<typeof claimGroupSeatSchema>;
+
+/**
+ * Schema for POST /api/registrations/:id/transfer
+ * The recipient is identified by the email address of their account
+ */
+export const transferRegistrationSchema = z.object({
+  email: z
+    .string()
+    .trim()
+    .email({ message: 'Please provide a valid email address' })
+    .toLowerCase(),
+});
+
+export type TransferRegistrationRequest = z.infer<
+  typeof transferRegistrationSchema
+>;
+
+export const MAX_REVIEW_BATCH_SIZE = 100;
+
+/**
+ * Schema for POST /api/events/:id/registrations/approve and .../reject
+ * `reason` is only used when rejecting; it is included in the email to the
+ * applicant
+ */
+export const reviewRegistrationsSchema = z.object({
+  registrationIds: z
+    .array(z.string().uuid({ message: 'Registration IDs must be UUIDs' }))
+    .min(1, { message: 'At least one registration ID is required' })
+    .max(MAX_REVIEW_BATCH_SIZE, {
+      message: `At most ${MAX_REVIEW_BATCH_SIZE} registrations can be reviewed at once`,
+    })
+    .transform((ids) => [...new Set(ids)]),
+  reason: z
+    .string()
+    .max(500, { message: 'Reason must not exceed 500 characters' })
+    .trim()
+    .optional(),
+});
+
+export type ReviewRegistrationsRequest = z.infer<
+  typeof reviewRegistrationsSchema
+>;
+
+export const MAX_INVITATION_BATCH_SIZE = 100;
+
+/**
+ * Schema for POST /api/events/:id/invitations
+ * Duplicate addresses (after lowercasing) are invited once
+ */
+export const issueInvitationsSchema = z.object({
+  emails: z
+    .array(
+      z
+        .string()
+        .trim()
+        .email({ message: 'Please provide valid email addresses' })
+        .toLowerCase(),
+    )
+    .min(1, { message: 'At least one email address is required' })
+    .max(MAX_INVITATION_BATCH_SIZE, {
+      message: `At most ${MAX_INVITATION_BATCH_SIZE} invitations can be sent at once`,
+    })
+    .transform((emails) => [...new Set(emails)]),
+});
+
+export type IssueInvitationsRequest = z.infer<typeof issueInvitationsSchema>;
+
+/**
+ * Schema for POST /api/invitations/redeem
+ * `token` is the invitation token from the emailed link
+ */
+export const redeemInvitationSchema = z.object({
+  token: z
+    .string()
+    .trim()
+    .min(1, { message: 'Invitation token is required' })
+    .max(256, { message: 'Invitation token is too long' }),
+  ticketTypeId: z.string().uuid().optional(),
+  // Validated against the event's registration questions by the service
+  answers: z.record(z.string(), z.unknown()).optional(),
+  promoCode: promoCodeValueSchema.optional(),
+});
+
+export type RedeemInvitationRequest = z.infer<typeof redeemInvitationSchema>;
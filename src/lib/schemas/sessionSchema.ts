@@ -0,0 +1,106 @@
+import { z } from 'zod';
+
+export const MAX_SESSION_SPEAKERS = 10;
+export const MAX_AGENDA_SESSIONS = 50;
+
+// Speakers are picked from the event's line-up (POST /api/events/:id/speakers)
+const speakerIdsSchema = z
+  .array(z.string().uuid({ message: 'Speaker IDs must be UUIDs' }))
+  .max(MAX_SESSION_SPEAKERS, {
+    message: `A session can have at most ${MAX_SESSION_SPEAKERS} speakers`,
+  })
+  .transform((ids) => [...new Set(ids)]);
+
+const sessionFieldsSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(3, { message: 'Title must be at least 3 characters' })
+    .max(200, { message: 'Title must not exceed 200 characters' }),
+  description: z
+    .string()
+    .max(2000, { message: 'Description must not exceed 2000 characters' })
+    .trim()
+    .default(''),
+  track: z
+    .string()
+    .trim()
+    .max(100, { message: 'Track must not exceed 100 characters' })
+    .nullable()
+    .optional(),
+  room: z
+    .string()
+    .trim()
+    .max(100, { message: 'Room must not exceed 100 characters' })
+    .nullable()
+    .optional(),
+  speakerIds: speakerIdsSchema.default([]),
+  startsAt: z
+    .string()
+    .datetime({ message: 'Start must be a valid ISO 8601 datetime string' }),
+  endsAt: z
+    .string()
+    .datetime({ message: 'End must be a valid ISO 8601 datetime string' }),
+  capacity: z
+    .number()
+    .int({ message: 'Capacity must be a whole number' })
+    .min(1, { message: 'Capacity must be at least 1' })
+    .max(100000, { message: 'Capacity cannot exceed 100,000' }),
+});
+
+function endsAfterStart(data: { startsAt?: string; endsAt?: string }) {
+  if (data.startsAt && data.endsAt) {
+    return new Date(data.endsAt) > new Date(data.startsAt);
+  }
+  return true;
+}
+
+/**
+ * Schema for POST /api/events/:id/sessions
+ */
+export const createSessionSchema = sessionFieldsSchema.refine(endsAfterStart, {
+  message: 'A session must end after it starts',
+  path: ['endsAt'],
+});
+
+export type CreateSessionRequest = z.infer<typeof createSessionSchema>;
+
+/**
+ * Schema for PATCH /api/events/:id/sessions/:sessionId
+ * A new start or end is checked against the stored one by the service
+ */
+export const updateSessionSchema = sessionFieldsSchema
+  .partial()
+  .extend({
+    description: z
+      .string()
+      .max(2000, { message: 'Description must not exceed 2000 characters' })
+      .trim()
+      .optional(),
+    speakerIds: speakerIdsSchema.optional(),
+  })
+  .refine(endsAfterStart, {
+    message: 'A session must end after it starts',
+    path: ['endsAt'],
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export type UpdateSessionRequest = z.infer<typeof updateSessionSchema>;
+
+/**
+ * Schema for PUT /api/events/:id/agenda
+ * The full list of sessions the attendee wants; an empty list clears the
+ * agenda
+ */
+export const setAgendaSchema = z.object({
+  sessionIds: z
+    .array(z.string().uuid({ message: 'Session IDs must be UUIDs' }))
+    .max(MAX_AGENDA_SESSIONS, {
+      message: `An agenda can have at most ${MAX_AGENDA_SESSIONS} sessions`,
+    })
+    .transform((ids) => [...new Set(ids)]),
+});
+
+export type SetAgendaRequest = z.infer<typeof setAgendaSchema>;
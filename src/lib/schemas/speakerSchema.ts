@@ -0,0 +1,141 @@
+import { z } from 'zod';
+
+export const MAX_SPEAKER_LINKS = 10;
+
+export const SPEAKER_PHOTO_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+] as const;
+
+/**
+ * Token from the emailed profile edit link
+ */
+const speakerTokenSchema = z
+  .string()
+  .trim()
+  .min(1, { message: 'Profile link token is required' })
+  .max(256, { message: 'Profile link token is too long' });
+
+const speakerProfileFieldsSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, { message: 'Name must be at least 2 characters' })
+    .max(100, { message: 'Name must not exceed 100 characters' }),
+  headline: z
+    .string()
+    .trim()
+    .max(150, { message: 'Headline must not exceed 150 characters' })
+    .nullable()
+    .optional(),
+  bio: z
+    .string()
+    .max(5000, { message: 'Bio must not exceed 5000 characters' })
+    .trim()
+    .default(''),
+  // Uploaded through POST .../photo; the service only accepts URLs of the
+  // speaker's own uploads
+  photoUrl: z
+    .string()
+    .url({ message: 'Photo must be a valid URL' })
+    .nullable()
+    .optional(),
+  links: z
+    .array(
+      z
+        .string()
+        .trim()
+        .url({ message: 'Links must be valid URLs' })
+        .refine((url) => /^https?:\/\//i.test(url), {
+          message: 'Links must be http or https URLs',
+        }),
+    )
+    .max(MAX_SPEAKER_LINKS, {
+      message: `A speaker can have at most ${MAX_SPEAKER_LINKS} links`,
+    })
+    .transform((links) => [...new Set(links)])
+    .default([]),
+});
+
+const speakerEmailSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .email({ message: 'Invalid email address' });
+
+/**
+ * Schema for creating a speaker, e.g. while adding them to an event
+ * The email is only needed to invite them to edit their profile; the photo
+ * can only be uploaded once the speaker exists
+ */
+export const createSpeakerSchema = speakerProfileFieldsSchema
+  .omit({ photoUrl: true })
+  .extend({ email: speakerEmailSchema.optional() });
+
+export type CreateSpeakerRequest = z.infer<typeof createSpeakerSchema>;
+
+/**
+ * Schema for POST /api/events/:id/speakers
+ * Adds an existing speaker by id, or creates a new one
+ */
+export const addEventSpeakerSchema = z
+  .object({
+    speakerId: z.string().uuid({ message: 'Speaker ID must be a UUID' }),
+    speaker: createSpeakerSchema,
+  })
+  .partial()
+  .refine((data) => !data.speakerId !== !data.speaker, {
+    message: 'Provide either speakerId or speaker, not both',
+  });
+
+export type AddEventSpeakerRequest = z.infer<typeof addEventSpeakerSchema>;
+
+const speakerProfileUpdateSchema = speakerProfileFieldsSchema.partial().extend({
+  bio: z
+    .string()
+    .max(5000, { message: 'Bio must not exceed 5000 characters' })
+    .trim()
+    .optional(),
+  links: speakerProfileFieldsSchema.shape.links.optional(),
+});
+
+/**
+ * Schema for PATCH /api/speakers/:id (organizers and admins)
+ * Send `null` to clear an optional field
+ */
+export const updateSpeakerSchema = speakerProfileUpdateSchema
+  .extend({ email: speakerEmailSchema.nullable().optional() })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export type UpdateSpeakerRequest = z.infer<typeof updateSpeakerSchema>;
+
+/**
+ * Schema for PATCH /api/speakers/profile (the speaker, via their edit link)
+ */
+export const updateOwnSpeakerProfileSchema = speakerProfileUpdateSchema
+  .extend({ token: speakerTokenSchema })
+  .refine((data) => Object.keys(data).some((key) => key !== 'token'), {
+    message: 'At least one field must be provided',
+  });
+
+export type UpdateOwnSpeakerProfileRequest = z.infer<
+  typeof updateOwnSpeakerProfileSchema
+>;
+
+/**
+ * Schema for the photo upload endpoints; `token` is only used by
+ * POST /api/speakers/profile/photo
+ */
+export const speakerPhotoUploadSchema = z.object({
+  contentType: z.enum(SPEAKER_PHOTO_TYPES, {
+    message: 'Photo must be a JPEG, PNG or WebP image',
+  }),
+  token: speakerTokenSchema.optional(),
+});
+
+export type SpeakerPhotoUploadRequest = z.infer<
+  typeof speakerPhotoUploadSchema
+>;
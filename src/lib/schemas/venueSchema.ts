@@ -0,0 +1,143 @@
+import { z } from 'zod';
+
+export const MAX_ROOM_AMENITIES = 20;
+export const MAX_ROOMS_PER_REQUEST = 50;
+
+// Free-form, e.g. "projector", "wheelchair access", "stage"
+const amenitiesSchema = z
+  .array(
+    z
+      .string()
+      .trim()
+      .toLowerCase()
+      .min(1, { message: 'Amenities cannot be empty' })
+      .max(50, { message: 'Amenities must not exceed 50 characters' }),
+  )
+  .max(MAX_ROOM_AMENITIES, {
+    message: `A room can list at most ${MAX_ROOM_AMENITIES} amenities`,
+  })
+  .transform((amenities) => [...new Set(amenities)]);
+
+const roomFieldsSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, { message: 'Room name is required' })
+    .max(100, { message: 'Room name must not exceed 100 characters' }),
+  capacity: z
+    .number()
+    .int({ message: 'Capacity must be a whole number' })
+    .min(1, { message: 'Capacity must be at least 1' })
+    .max(100000, { message: 'Capacity cannot exceed 100,000' }),
+  amenities: amenitiesSchema.default([]),
+});
+
+/**
+ * Schema for POST /api/venues/:id/rooms
+ */
+export const createRoomSchema = roomFieldsSchema;
+
+export type CreateRoomRequest = z.infer<typeof createRoomSchema>;
+
+/**
+ * Schema for PATCH /api/venues/:id/rooms/:roomId
+ */
+export const updateRoomSchema = roomFieldsSchema
+  .partial()
+  .extend({ amenities: amenitiesSchema.optional() })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export type UpdateRoomRequest = z.infer<typeof updateRoomSchema>;
+
+const optionalAddressPart = (label: string, max: number) =>
+  z
+    .string()
+    .trim()
+    .max(max, { message: `${label} must not exceed ${max} characters` })
+    .nullable()
+    .optional();
+
+const venueFieldsSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, { message: 'Venue name must be at least 2 characters' })
+    .max(200, { message: 'Venue name must not exceed 200 characters' }),
+  addressLine1: z
+    .string()
+    .trim()
+    .min(2, { message: 'Address must be at least 2 characters' })
+    .max(200, { message: 'Address must not exceed 200 characters' }),
+  addressLine2: optionalAddressPart('Address line 2', 200),
+  city: z
+    .string()
+    .trim()
+    .min(1, { message: 'City is required' })
+    .max(100, { message: 'City must not exceed 100 characters' }),
+  region: optionalAddressPart('Region', 100),
+  postalCode: optionalAddressPart('Postal code', 20),
+  country: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z]{2}$/, {
+      message: 'Country must be a 2-letter ISO 3166-1 code',
+    }),
+});
+
+/**
+ * Schema for POST /api/venues
+ * Rooms can be created along with the venue or added later
+ */
+export const createVenueSchema = venueFieldsSchema.extend({
+  rooms: z
+    .array(createRoomSchema)
+    .max(MAX_ROOMS_PER_REQUEST, {
+      message: `At most ${MAX_ROOMS_PER_REQUEST} rooms can be created at once`,
+    })
+    .refine(
+      (rooms) => new Set(rooms.map((room) => room.name)).size === rooms.length,
+      { message: 'Room names must be unique within a venue' },
+    )
+    .default([]),
+});
+
+export type CreateVenueRequest = z.infer<typeof createVenueSchema>;
+
+/**
+ * Schema for PATCH /api/venues/:id
+ * Send `null` to clear an optional address part
+ */
+export const updateVenueSchema = venueFieldsSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export type UpdateVenueRequest = z.infer<typeof updateVenueSchema>;
+
+/**
+ * Query parameters of GET /api/venues/:id/rooms/:roomId (room schedule)
+ */
+export const roomScheduleQuerySchema = z
+  .object({
+    from: z
+      .string()
+      .datetime({ message: 'From must be a valid ISO 8601 datetime' })
+      .optional(),
+    to: z
+      .string()
+      .datetime({ message: 'To must be a valid ISO 8601 datetime' })
+      .optional(),
+  })
+  .refine(
+    (data) => !data.from || !data.to || new Date(data.to) > new Date(data.from),
+    {
+      message: 'To must be after from',
+      path: ['to'],
+    },
+  );
+
+export type RoomScheduleQuery = z.infer<typeof roomScheduleQuerySchema>;
@@ -0,0 +1,163 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Race-free seat allocation
+ *
+ * Reading `seatsRemaining`, checking it is > 0 and then decrementing it is a
+ * classic check-then-act race: two transactions can both read "1 seat left"
+ * and both decrement, overselling the event.
+ *
+ * Instead we claim seats with a single conditional UPDATE:
+ *
+ *   UPDATE "Event" SET "seatsRemaining" = "seatsRemaining" - $n
+ *   WHERE id = $eventId AND "seatsRemaining" >= $n
+ *
+ * PostgreSQL takes a row lock for the UPDATE, and under ReadCommitted a
+ * blocked writer re-evaluates the WHERE clause against the committed row once
+ * the lock is released. Exactly as many claims succeed as there are seats; the
+ * rest match zero rows. A CHECK ("seatsRemaining" >= 0) constraint on the
+ * table is the last line of defence should any other write path forget this.
+ *
+ * Both helpers take the caller's transaction client so the seat change commits
+ * or rolls back together with the Registration rows it accounts for.
+ *
+ * Seats reserved by checkout holds (src/lib/seatHolds.ts) stay in
+ * `seatsRemaining`; callers pass the number held by other users as `reserved`
+ * so the claim leaves them untouched.
+ */
+
+/**
+ * Atomically claim seats for an event
+ *
+ * @param tx - Transaction client
+ * @param eventId - UUID of the event
+ * @param seats - Number of seats to claim (default 1)
+ * @param reserved - Seats that must remain free for other users' holds
+ * @returns true if the seats were claimed, false if not enough were left
+ */
+export async function claimSeats(
+  tx: Prisma.TransactionClient,
+  eventId: string,
+  seats: number = 1,
+  reserved: number = 0,
+): Promise<boolean> {
+  if (seats <= 0) {
+    return true;
+  }
+
+  const result = await tx.event.updateMany({
+    where: { id: eventId, seatsRemaining: { gte: seats + reserved } },
+    data: { seatsRemaining: { decrement: seats } },
+  });
+
+  return result.count === 1;
+}
+
+/**
+ * Return seats to an event (cancellation, expired hold, etc.)
+ *
+ * @param tx - Transaction client
+ * @param eventId - UUID of the event
+ * @param seats - Number of seats to release (default 1)
+ */
+export async function releaseSeats(
+  tx: Prisma.TransactionClient,
+  eventId: string,
+  seats: number = 1,
+): Promise<void> {
+  if (seats <= 0) {
+    return;
+  }
+
+  await tx.event.update({
+    where: { id: eventId },
+    data: { seatsRemaining: { increment: seats } },
+  });
+}
+
+/**
+ * Atomically claim seats from a ticket type's quota
+ *
+ * Same conditional-update pattern as `claimSeats`, applied to
+ * `TicketType.seatsRemaining`. Callers claim the event seat and the ticket
+ * seat in the same transaction.
+ *
+ * @returns true if the seats were claimed, false if the quota is exhausted
+ */
+export async function claimTicketSeats(
+  tx: Prisma.TransactionClient,
+  ticketTypeId: string,
+  seats: number = 1,
+): Promise<boolean> {
+  if (seats <= 0) {
+    return true;
+  }
+
+  const result = await tx.ticketType.updateMany({
+    where: { id: ticketTypeId, seatsRemaining: { gte: seats } },
+    data: { seatsRemaining: { decrement: seats } },
+  });
+
+  return result.count === 1;
+}
+
+/**
+ * Return seats to a ticket type's quota
+ */
+export async function releaseTicketSeats(
+  tx: Prisma.TransactionClient,
+  ticketTypeId: string,
+  seats: number = 1,
+): Promise<void> {
+  if (seats <= 0) {
+    return;
+  }
+
+  await tx.ticketType.update({
+    where: { id: ticketTypeId },
+    data: { seatsRemaining: { increment: seats } },
+  });
+}
+
+/**
+ * Atomically claim seats in a session of a multi-session event
+ *
+ * Same conditional-update pattern as `claimSeats`, applied to
+ * `Session.seatsRemaining`.
+ *
+ * @returns true if the seats were claimed, false if the session is full
+ */
+export async function claimSessionSeats(
+  tx: Prisma.TransactionClient,
+  sessionId: string,
+  seats: number = 1,
+): Promise<boolean> {
+  if (seats <= 0) {
+    return true;
+  }
+
+  const result = await tx.session.updateMany({
+    where: { id: sessionId, seatsRemaining: { gte: seats } },
+    data: { seatsRemaining: { decrement: seats } },
+  });
+
+  return result.count === 1;
+}
+
+/**
+ * Return seats to a session
+ */
+export async function releaseSessionSeats(
+  tx: Prisma.TransactionClient,
+  sessionId: string,
+  seats: number = 1,
+): Promise<void> {
+  if (seats <= 0) {
+    return;
+  }
+
+  await tx.session.update({
+    where: { id: sessionId },
+    data: { seatsRemaining: { increment: seats } },
+  });
+}
@@ -0,0 +1,328 @@
+import { PrismaClient } from '@prisma/client';
+import { ERROR_CODES } from './errorCodes';
+import { RegistrationError, getErrorCode } from './errors';
+import { assertEventOpenForRegistration } from './eventLifecycle';
+import logger from './logger';
+import redis from './redis';
+import { assertCanRegister } from './registrationStatus';
+
+/**
+ * Checkout Seat Holds
+ *
+ * A user who starts registering for a nearly full event can reserve a seat for
+ * SEAT_HOLD_MINUTES while they fill in the form, so a faster registrant cannot
+ * take it from under them. Holds live in Redis only; they never touch
+ * `Event.seatsRemaining`. Instead, registration and waitlist promotion treat
+ * seats held by *other* users as unavailable (see `claimSeats`'s `reserved`
+ * argument), and the holder's own registration consumes their hold.
+ *
+ * Keys:
+ *   seat-hold:{eventId}:{userId}  hold record, expires with the hold (PX TTL)
+ *   seat-holds:{eventId}          sorted set of holders scored by expiry (ms)
+ *   seat-holds:events             events that currently have holds
+ *
+ * Expired members are ignored when counting and pruned from the sorted set
+ * only by the background sweeper (src/lib/jobs.ts), which also promotes the
+ * waitlist into seats whose holds lapsed.
+ *
+ * Holds are advisory: the database seat claim remains the guarantee against
+ * overselling. If Redis is unavailable, held seats are counted as zero and
+ * registration carries on without them.
+ */
+
+export const SEAT_HOLD_MINUTES = Number(process.env.SEAT_HOLD_MINUTES) || 10;
+
+const HOLDING_EVENTS_KEY = 'seat-holds:events';
+
+function holdsKey(eventId: string): string {
+  return `seat-holds:${eventId}`;
+}
+
+function holdKey(eventId: string, userId: string): string {
+  return `seat-hold:${eventId}:${userId}`;
+}
+
+/**
+ * Grant a hold if fewer seats are held than remain. Runs atomically in Redis
+ * so concurrent checkouts cannot over-hold. Expired holds are not counted but
+ * are left for the sweeper, which promotes the waitlist into their seats.
+ *
+ * KEYS: holds zset, hold key, holding-events set
+ * ARGV: now ms, expires-at ms, seats remaining, user id, ttl ms, record, event id
+ * Returns { granted (1/0), expires-at ms of the hold or held count }
+ */
+const ACQUIRE_HOLD_SCRIPT = `
+local existing = redis.call('ZSCORE', KEYS[1], ARGV[4])
+if existing and tonumber(existing) > tonumber(ARGV[1]) then
+  return {1, existing}
+end
+local held = redis.call('ZCOUNT', KEYS[1], '(' .. ARGV[1], '+inf')
+if held >= tonumber(ARGV[3]) then
+  return {0, tostring(held)}
+end
+redis.call('ZADD', KEYS[1], ARGV[2], ARGV[4])
+redis.call('SET', KEYS[2], ARGV[6], 'PX', ARGV[5])
+redis.call('SADD', KEYS[3], ARGV[7])
+return {1, ARGV[2]}
+`;
+
+/**
+ * Remove expired holds for one event and forget the event once it has none
+ *
+ * KEYS: holds zset, holding-events set
+ * ARGV: now ms, event id
+ * Returns the number of holds removed
+ */
+const SWEEP_EVENT_SCRIPT = `
+local removed = redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', ARGV[1])
+if redis.call('ZCARD', KEYS[1]) == 0 then
+  redis.call('SREM', KEYS[2], ARGV[2])
+end
+return removed
+`;
+
+export interface SeatHold {
+  eventId: string;
+  userId: string;
+  expiresAt: Date;
+}
+
+/**
+ * Reserve a seat for a user while they complete registration
+ *
+ * Acquiring again while a hold is active returns the existing hold unchanged;
+ * holds cannot be extended by re-requesting them.
+ *
+ * @param prisma - Prisma client instance
+ * @param userId - UUID of the user checking out
+ * @param eventId - UUID of the event
+ * @param now - Current instant (injectable for tests)
+ * @returns The hold, or an EVENT_FULL error when every free seat is held
+ */
+export async function acquireSeatHold(
+  prisma: PrismaClient,
+  userId: string,
+  eventId: string,
+  now: Date = new Date(),
+) {
+  try {
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+      select: {
+        id: true,
+        title: true,
+        seatsRemaining: true,
+        status: true,
+        deletedAt: true,
+      },
+    });
+
+    if (!event) {
+      throw new RegistrationError(
+        `Event not found: ${eventId}`,
+        ERROR_CODES.EVENT_NOT_FOUND,
+      );
+    }
+
+    assertEventOpenForRegistration(event);
+
+    await assertCanRegister(prisma, userId, eventId);
+
+    const ttlMs = SEAT_HOLD_MINUTES * 60 * 1000;
+    const expiresAtMs = now.getTime() + ttlMs;
+
+    const [granted, value] = (await redis.eval(
+      ACQUIRE_HOLD_SCRIPT,
+      3,
+      holdsKey(eventId),
+      holdKey(eventId, userId),
+      HOLDING_EVENTS_KEY,
+      now.getTime(),
+      expiresAtMs,
+      event.seatsRemaining,
+      userId,
+      ttlMs,
+      JSON.stringify({ userId, eventId, createdAt: now.toISOString() }),
+      eventId,
+    )) as [number, string];
+
+    if (granted !== 1) {
+      throw new RegistrationError(
+        `Event '${event.title}' has no seats available to hold (${value} of ${event.seatsRemaining} remaining seats are held)`,
+        ERROR_CODES.EVENT_FULL,
+      );
+    }
+
+    const hold: SeatHold = {
+      eventId,
+      userId,
+      expiresAt: new Date(Number(value)),
+    };
+
+    return { success: true, hold, error: null };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.warn({
+      message: 'Seat hold not granted',
+      eventId,
+      error: errorMessage,
+    });
+
+    return {
+      success: false,
+      hold: null,
+      error: { message: errorMessage, code: getErrorCode(error) },
+    };
+  }
+}
+
+/**
+ * Drop a user's hold (registration completed or checkout abandoned)
+ *
+ * @returns true if an active hold was removed
+ */
+export async function releaseSeatHold(
+  eventId: string,
+  userId: string,
+): Promise<boolean> {
+  const [[, removed]] = (await redis
+    .multi()
+    .zrem(holdsKey(eventId), userId)
+    .del(holdKey(eventId, userId))
+    .exec()) as [[Error | null, number], [Error | null, number]];
+
+  return removed > 0;
+}
+
+/**
+ * Count seats currently held for an event
+ *
+ * Fails open (returns 0) when Redis is unreachable so registrations are not
+ * blocked by the advisory hold layer.
+ *
+ * @param eventId - UUID of the event
+ * @param excludeUserId - Do not count this user's own hold
+ * @param now - Holds expiring at or before this instant are ignored
+ */
+export async function countActiveHolds(
+  eventId: string,
+  excludeUserId?: string,
+  now: Date = new Date(),
+): Promise<number> {
+  try {
+    const [held, ownExpiry] = await Promise.all([
+      redis.zcount(holdsKey(eventId), `(${now.getTime()}`, '+inf'),
+      excludeUserId
+        ? redis.zscore(holdsKey(eventId), excludeUserId)
+        : Promise.resolve(null),
+    ]);
+
+    const ownHoldActive =
+      ownExpiry !== null && Number(ownExpiry) > now.getTime();
+
+    return ownHoldActive ? held - 1 : held;
+  } catch (error) {
+    logger.error({
+      message: 'Failed to count seat holds; treating as none',
+      eventId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return 0;
+  }
+}
+
+/**
+ * List the active holds for an event, soonest expiry first
+ */
+export async function listActiveHolds(
+  eventId: string,
+  now: Date = new Date(),
+): Promise<SeatHold[]> {
+  const entries = await redis.zrangebyscore(
+    holdsKey(eventId),
+    `(${now.getTime()}`,
+    '+inf',
+    'WITHSCORES',
+  );
+
+  const holds: SeatHold[] = [];
+  for (let i = 0; i < entries.length; i += 2) {
+    holds.push({
+      eventId,
+      userId: entries[i],
+      expiresAt: new Date(Number(entries[i + 1])),
+    });
+  }
+
+  return holds;
+}
+
+/**
+ * Remove expired holds across all events
+ *
+ * @returns The events that had at least one hold expire, with the count
+ */
+export async function sweepExpiredSeatHolds(
+  now: Date = new Date(),
+): Promise<{ eventId: string; released: number }[]> {
+  const eventIds = await redis.smembers(HOLDING_EVENTS_KEY);
+  const swept: { eventId: string; released: number }[] = [];
+
+  for (const eventId of eventIds) {
+    const released = (await redis.eval(
+      SWEEP_EVENT_SCRIPT,
+      2,
+      holdsKey(eventId),
+      HOLDING_EVENTS_KEY,
+      now.getTime(),
+      eventId,
+    )) as number;
+
+    if (released > 0) {
+      swept.push({ eventId, released });
+    }
+  }
+
+  return swept;
+}
+
+/**
+ * Organizer view of an event's checkout holds
+ *
+ * @returns Seat counts and every active hold with its holder, or null if the
+ *          event does not exist
+ */
+export async function getSeatHoldSummary(
+  prisma: PrismaClient,
+  eventId: string,
+  now: Date = new Date(),
+) {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: { id: true, capacity: true, seatsRemaining: true },
+  });
+
+  if (!event) {
+    return null;
+  }
+
+  const holds = await listActiveHolds(eventId, now);
+  const users = await prisma.user.findMany({
+    where: { id: { in: holds.map((hold) => hold.userId) } },
+    select: { id: true, name: true, email: true },
+  });
+  const usersById = new Map(users.map((user) => [user.id, user]));
+
+  return {
+    eventId: event.id,
+    capacity: event.capacity,
+    seatsRemaining: event.seatsRemaining,
+    seatsHeld: holds.length,
+    seatsAvailable: Math.max(event.seatsRemaining - holds.length, 0),
+    holds: holds.map((hold) => ({
+      user: usersById.get(hold.userId) ?? { id: hold.userId },
+      expiresAt: hold.expiresAt,
+    })),
+  };
+}
@@ -0,0 +1,22 @@
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Random link tokens stored only as their SHA-256 hash
+ *
+ * Used for every emailed or shared link that grants access without a
+ * session: event invitations, staff invitations, group seat claims, speaker
+ * edit links and draft preview links. Only the hash is persisted, so a
+ * database leak cannot be turned into working links.
+ */
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Generate a random URL-safe token and the hash to store for it
+ */
+export function createHashedToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString('base64url');
+  return { token, tokenHash: hashToken(token) };
+}
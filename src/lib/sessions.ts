@@ -0,0 +1,742 @@
+import { EventStatus, Prisma, PrismaClient } from '@prisma/client';
+import { ERROR_CODES } from './errorCodes';
+import { RegistrationError, getErrorCode } from './errors';
+import logger from './logger';
+import { Actor, canManageEvent, eventStaffSelect } from './permissions';
+import { SPEAKER_SUMMARY_SELECT, toSpeakerList } from './queryOptimizations';
+import { holdsSeat } from './registrationStatus';
+import { claimSessionSeats, releaseSessionSeats } from './seatAllocation';
+import { sanitize } from './security';
+import {
+  CreateSessionRequest,
+  UpdateSessionRequest,
+} from './schemas/sessionSchema';
+
+/**
+ * Event Sessions and Personal Agendas
+ *
+ * A multi-session event (a conference, a festival, ...) is split into
+ * sessions, each with its own time slot, room, speakers and capacity.
+ * Session speakers are picked from the event's speaker line-up (see
+ * src/lib/speakers.ts).
+ * Registered attendees build a personal agenda by picking sessions; picks
+ * are checked server-side:
+ *   - only attendees holding an event seat can pick sessions
+ *   - sessions on one agenda cannot overlap (back-to-back is fine)
+ *   - a session's seats are claimed with the same conditional decrement as
+ *     event seats, so concurrent picks can never overfill it
+ *
+ * The agenda belongs to the event registration: cancelling the registration
+ * (or letting a payment hold expire) gives its session seats back through
+ * `releaseAgenda`.
+ */
+
+const SESSION_SELECT = {
+  id: true,
+  eventId: true,
+  title: true,
+  description: true,
+  track: true,
+  room: true,
+  speakers: { select: { speaker: { select: SPEAKER_SUMMARY_SELECT } } },
+  startsAt: true,
+  endsAt: true,
+  capacity: true,
+  seatsRemaining: true,
+} satisfies Prisma.SessionSelect;
+
+function toSessionResponse(
+  session: Prisma.SessionGetPayload<{ select: typeof SESSION_SELECT }>,
+) {
+  return { ...session, speakers: toSpeakerList(session.speakers) };
+}
+
+interface TimeSlot {
+  id: string;
+  startsAt: Date;
+  endsAt: Date;
+}
+
+/**
+ * Find pairs of sessions whose time slots overlap
+ *
+ * Slots are half-open, so a session ending at 10:00 does not overlap one
+ * starting at 10:00.
+ *
+ * @returns The overlapping pairs, each ordered by start time
+ */
+export function findOverlappingSessions<T extends TimeSlot>(
+  sessions: T[],
+): Array<[T, T]> {
+  const sorted = [...sessions].sort(
+    (a, b) => a.startsAt.getTime() - b.startsAt.getTime(),
+  );
+  const overlaps: Array<[T, T]> = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    for (let j = i + 1; j < sorted.length; j++) {
+      // Later sessions start even later, so none of them can overlap either
+      if (sorted[j].startsAt >= sorted[i].endsAt) {
+        break;
+      }
+      overlaps.push([sorted[i], sorted[j]]);
+    }
+  }
+
+  return overlaps;
+}
+
+function eventNotFound(eventId: string) {
+  return new RegistrationError(
+    `Event not found: ${eventId}`,
+    ERROR_CODES.EVENT_NOT_FOUND,
+  );
+}
+
+/**
+ * Load an event the actor organizes
+ */
+async function getManagedEvent(
+  tx: Prisma.TransactionClient,
+  eventId: string,
+  actor: Actor,
+) {
+  const event = await tx.event.findUnique({
+    where: { id: eventId, deletedAt: null },
+    select: {
+      id: true,
+      organizerId: true,
+      staff: eventStaffSelect(actor),
+      capacity: true,
+    },
+  });
+
+  if (!event) {
+    throw eventNotFound(eventId);
+  }
+
+  if (!canManageEvent(actor, event)) {
+    throw new RegistrationError(
+      'Only the event organizer can manage its sessions',
+      ERROR_CODES.FORBIDDEN,
+    );
+  }
+
+  return event;
+}
+
+/**
+ * Replace a session's speakers; they must be on the event's line-up
+ */
+async function setSessionSpeakers(
+  tx: Prisma.TransactionClient,
+  eventId: string,
+  sessionId: string,
+  speakerIds: string[],
+) {
+  const lineUp = await tx.eventSpeaker.findMany({
+    where: { eventId, speakerId: { in: speakerIds } },
+    select: { speakerId: true },
+  });
+
+  const onLineUp = new Set(lineUp.map(({ speakerId }) => speakerId));
+  const unknownId = speakerIds.find((id) => !onLineUp.has(id));
+  if (unknownId) {
+    throw new RegistrationError(
+      `Speaker ${unknownId} is not on this event's line-up`,
+      ERROR_CODES.INVALID_INPUT,
+    );
+  }
+
+  await tx.sessionSpeaker.deleteMany({ where: { sessionId } });
+  await tx.sessionSpeaker.createMany({
+    data: speakerIds.map((speakerId) => ({ sessionId, speakerId })),
+  });
+}
+
+function toSessionData(
+  session: Omit<Partial<CreateSessionRequest>, 'capacity' | 'speakerIds'>,
+) {
+  return {
+    title: session.title && sanitize(session.title),
+    description:
+      session.description === undefined
+        ? undefined
+        : sanitize(session.description),
+    track: session.track && sanitize(session.track),
+    room: session.room && sanitize(session.room),
+    startsAt: session.startsAt ? new Date(session.startsAt) : undefined,
+    endsAt: session.endsAt ? new Date(session.endsAt) : undefined,
+  };
+}
+
+/**
+ * List an event's sessions in start order
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event
+ */
+export async function listEventSessions(prisma: PrismaClient, eventId: string) {
+  try {
+    // Drafts are not public yet and deleted events are gone
+    const event = await prisma.event.findUnique({
+      where: {
+        id: eventId,
+        deletedAt: null,
+        status: { not: EventStatus.DRAFT },
+      },
+      select: {
+        id: true,
+        sessions: {
+          select: SESSION_SELECT,
+          orderBy: [{ startsAt: 'asc' }, { title: 'asc' }],
+        },
+      },
+    });
+
+    if (!event) {
+      throw eventNotFound(eventId);
+    }
+
+    return {
+      success: true,
+      sessions: event.sessions.map(toSessionResponse),
+      error: null,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      sessions: [],
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Add a session to an event
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event
+ * @param data - Validated session details
+ * @param actor - Caller; must be the event organizer or an admin
+ */
+export async function createSession(
+  prisma: PrismaClient,
+  eventId: string,
+  data: CreateSessionRequest,
+  actor: Actor,
+) {
+  try {
+    const session = await prisma.$transaction(
+      async (tx) => {
+        const event = await getManagedEvent(tx, eventId, actor);
+
+        if (data.capacity > event.capacity) {
+          throw new RegistrationError(
+            `Session capacity (${data.capacity}) cannot exceed the event capacity (${event.capacity})`,
+            ERROR_CODES.VALIDATION_ERROR,
+          );
+        }
+
+        const { speakerIds, ...details } = data;
+        const { startsAt, endsAt, ...fields } = toSessionData(details);
+
+        const { id } = await tx.session.create({
+          data: {
+            ...fields,
+            title: fields.title!,
+            startsAt: startsAt!,
+            endsAt: endsAt!,
+            eventId,
+            capacity: data.capacity,
+            seatsRemaining: data.capacity,
+          },
+          select: { id: true },
+        });
+
+        await setSessionSpeakers(tx, eventId, id, speakerIds);
+
+        return tx.session.findUniqueOrThrow({
+          where: { id },
+          select: SESSION_SELECT,
+        });
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 10000,
+      },
+    );
+
+    logger.info({
+      message: 'Session created',
+      eventId,
+      sessionId: session.id,
+    });
+
+    return { success: true, session: toSessionResponse(session), error: null };
+  } catch (error) {
+    return {
+      success: false,
+      session: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Edit a session
+ *
+ * A capacity change keeps the seats already taken: seatsRemaining moves by
+ * the same amount, and shrinking below the current attendance is refused.
+ * Moving a session is refused if it would then overlap another session on
+ * one of its attendees' agendas.
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event
+ * @param sessionId - UUID of the session
+ * @param changes - Validated changes
+ * @param actor - Caller; must be the event organizer or an admin
+ */
+export async function updateSession(
+  prisma: PrismaClient,
+  eventId: string,
+  sessionId: string,
+  changes: UpdateSessionRequest,
+  actor: Actor,
+) {
+  const { capacity, speakerIds, ...rest } = changes;
+  const fields = toSessionData(rest);
+
+  try {
+    const session = await prisma.$transaction(
+      async (tx) => {
+        const event = await getManagedEvent(tx, eventId, actor);
+
+        const current = await tx.session.findFirst({
+          where: { id: sessionId, eventId },
+          select: { id: true, startsAt: true, endsAt: true, capacity: true },
+        });
+
+        if (!current) {
+          throw new RegistrationError(
+            `Session ${sessionId} not found for this event`,
+            ERROR_CODES.NOT_FOUND,
+          );
+        }
+
+        const startsAt = fields.startsAt ?? current.startsAt;
+        const endsAt = fields.endsAt ?? current.endsAt;
+
+        if (endsAt <= startsAt) {
+          throw new RegistrationError(
+            'A session must end after it starts',
+            ERROR_CODES.VALIDATION_ERROR,
+          );
+        }
+
+        if (fields.startsAt || fields.endsAt) {
+          const clash = await tx.sessionRegistration.findFirst({
+            where: {
+              sessionId: { not: sessionId },
+              registration: { sessions: { some: { sessionId } } },
+              session: { startsAt: { lt: endsAt }, endsAt: { gt: startsAt } },
+            },
+            select: { session: { select: { title: true } } },
+          });
+
+          if (clash) {
+            throw new RegistrationError(
+              `Moving this session would overlap '${clash.session.title}' on an attendee's agenda`,
+              ERROR_CODES.SESSION_OVERLAP,
+            );
+          }
+        }
+
+        if (speakerIds) {
+          await setSessionSpeakers(tx, eventId, sessionId, speakerIds);
+        }
+
+        if (capacity === undefined) {
+          return tx.session.update({
+            where: { id: sessionId },
+            data: fields,
+            select: SESSION_SELECT,
+          });
+        }
+
+        if (capacity > event.capacity) {
+          throw new RegistrationError(
+            `Session capacity (${capacity}) cannot exceed the event capacity (${event.capacity})`,
+            ERROR_CODES.VALIDATION_ERROR,
+          );
+        }
+
+        const difference = capacity - current.capacity;
+
+        // Shrinking only works while enough seats are still free
+        const { count } = await tx.session.updateMany({
+          where: {
+            id: sessionId,
+            seatsRemaining: { gte: Math.max(0, -difference) },
+          },
+          data: {
+            ...fields,
+            capacity,
+            seatsRemaining: { increment: difference },
+          },
+        });
+
+        if (count === 0) {
+          throw new RegistrationError(
+            `The session already has more attendees than the new capacity (${capacity})`,
+            ERROR_CODES.INVALID_INPUT,
+          );
+        }
+
+        return tx.session.findUniqueOrThrow({
+          where: { id: sessionId },
+          select: SESSION_SELECT,
+        });
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 10000,
+      },
+    );
+
+    logger.info({ message: 'Session updated', eventId, sessionId });
+
+    return { success: true, session: toSessionResponse(session), error: null };
+  } catch (error) {
+    return {
+      success: false,
+      session: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Remove a session; it disappears from every agenda it was on
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event
+ * @param sessionId - UUID of the session
+ * @param actor - Caller; must be the event organizer or an admin
+ */
+export async function deleteSession(
+  prisma: PrismaClient,
+  eventId: string,
+  sessionId: string,
+  actor: Actor,
+) {
+  try {
+    const removedFromAgendas = await prisma.$transaction(
+      async (tx) => {
+        await getManagedEvent(tx, eventId, actor);
+
+        const session = await tx.session.findFirst({
+          where: { id: sessionId, eventId },
+          select: { id: true, _count: { select: { attendees: true } } },
+        });
+
+        if (!session) {
+          throw new RegistrationError(
+            `Session ${sessionId} not found for this event`,
+            ERROR_CODES.NOT_FOUND,
+          );
+        }
+
+        await tx.session.delete({ where: { id: sessionId } });
+
+        return session._count.attendees;
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 10000,
+      },
+    );
+
+    logger.info({
+      message: 'Session deleted',
+      eventId,
+      sessionId,
+      removedFromAgendas,
+    });
+
+    return { success: true, removedFromAgendas, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      removedFromAgendas: 0,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+async function getAgendaSessions(
+  tx: Prisma.TransactionClient,
+  registrationId: string,
+) {
+  const picks = await tx.sessionRegistration.findMany({
+    where: { registrationId },
+    select: { session: { select: SESSION_SELECT } },
+    orderBy: { session: { startsAt: 'asc' } },
+  });
+
+  return picks.map(({ session }) => toSessionResponse(session));
+}
+
+/**
+ * Get the caller's personal agenda for an event
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event
+ * @param actor - The registered user
+ * @returns The sessions on the agenda, in start order
+ */
+export async function getAgenda(
+  prisma: PrismaClient,
+  eventId: string,
+  actor: Actor,
+) {
+  try {
+    const registration = await prisma.registration.findUnique({
+      where: { userId_eventId: { userId: actor.userId, eventId } },
+      select: { id: true },
+    });
+
+    if (!registration) {
+      throw new RegistrationError(
+        'You are not registered for this event',
+        ERROR_CODES.REGISTRATION_NOT_FOUND,
+      );
+    }
+
+    const sessions = await getAgendaSessions(prisma, registration.id);
+
+    return { success: true, sessions, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      sessions: [],
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Replace the caller's personal agenda for an event
+ *
+ * Runs in one transaction: the whole selection is checked for overlaps,
+ * sessions no longer picked give their seats back, and newly picked ones
+ * claim a seat; if any session is full, nothing changes.
+ *
+ * The registration row is locked first (a no-op conditional update on its
+ * status), which serializes concurrent agenda edits by the same attendee and
+ * makes a concurrent cancellation either wait for the agenda or fail it.
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event
+ * @param sessionIds - The full list of sessions wanted
+ * @param actor - The registered user
+ * @returns The sessions on the new agenda, in start order
+ */
+export async function setAgenda(
+  prisma: PrismaClient,
+  eventId: string,
+  sessionIds: string[],
+  actor: Actor,
+) {
+  try {
+    const sessions = await prisma.$transaction(
+      async (tx) => {
+        const registration = await tx.registration.findUnique({
+          where: { userId_eventId: { userId: actor.userId, eventId } },
+          select: { id: true, status: true },
+        });
+
+        if (!registration) {
+          throw new RegistrationError(
+            'You are not registered for this event',
+            ERROR_CODES.REGISTRATION_NOT_FOUND,
+          );
+        }
+
+        if (!holdsSeat(registration.status)) {
+          throw new RegistrationError(
+            `Only attendees with a seat can pick sessions (registration is ${registration.status})`,
+            ERROR_CODES.REGISTRATION_NOT_CONFIRMED,
+          );
+        }
+
+        const { count } = await tx.registration.updateMany({
+          where: { id: registration.id, status: registration.status },
+          data: { status: registration.status },
+        });
+
+        if (count === 0) {
+          throw new RegistrationError(
+            'Your registration changed while the agenda was being saved; please try again',
+            ERROR_CODES.INVALID_STATUS_TRANSITION,
+          );
+        }
+
+        const selected = await tx.session.findMany({
+          where: { id: { in: sessionIds }, eventId },
+          select: { id: true, title: true, startsAt: true, endsAt: true },
+        });
+
+        const foundIds = new Set(selected.map(({ id }) => id));
+        const unknownId = sessionIds.find((id) => !foundIds.has(id));
+        if (unknownId) {
+          throw new RegistrationError(
+            `Session ${unknownId} not found for this event`,
+            ERROR_CODES.NOT_FOUND,
+          );
+        }
+
+        const [overlap] = findOverlappingSessions(selected);
+        if (overlap) {
+          throw new RegistrationError(
+            `'${overlap[0].title}' and '${overlap[1].title}' overlap; pick one of them`,
+            ERROR_CODES.SESSION_OVERLAP,
+          );
+        }
+
+        const current = await tx.sessionRegistration.findMany({
+          where: { registrationId: registration.id },
+          select: { sessionId: true },
+        });
+        const currentIds = new Set(current.map(({ sessionId }) => sessionId));
+
+        const removedIds = [...currentIds].filter((id) => !foundIds.has(id));
+
+        await tx.sessionRegistration.deleteMany({
+          where: {
+            registrationId: registration.id,
+            sessionId: { in: removedIds },
+          },
+        });
+
+        for (const sessionId of removedIds) {
+          await releaseSessionSeats(tx, sessionId);
+        }
+
+        for (const session of selected) {
+          if (currentIds.has(session.id)) {
+            continue;
+          }
+
+          if (!(await claimSessionSeats(tx, session.id))) {
+            throw new RegistrationError(
+              `'${session.title}' is full`,
+              ERROR_CODES.SESSION_FULL,
+            );
+          }
+
+          await tx.sessionRegistration.create({
+            data: { sessionId: session.id, registrationId: registration.id },
+          });
+        }
+
+        return getAgendaSessions(tx, registration.id);
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 10000,
+      },
+    );
+
+    logger.info({
+      message: 'Agenda updated',
+      eventId,
+      userId: actor.userId,
+      sessionCount: sessions.length,
+    });
+
+    return { success: true, sessions, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      sessions: [],
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Clear a registration's agenda and give its session seats back
+ *
+ * Called inside the transaction that takes the registration's event seat
+ * away (cancellation, expired payment hold) or hands it to someone else
+ * (transfer).
+ */
+export async function releaseAgenda(
+  tx: Prisma.TransactionClient,
+  registrationId: string,
+): Promise<void> {
+  const picks = await tx.sessionRegistration.findMany({
+    where: { registrationId },
+    select: { sessionId: true },
+  });
+
+  if (picks.length === 0) {
+    return;
+  }
+
+  await tx.sessionRegistration.deleteMany({ where: { registrationId } });
+
+  for (const { sessionId } of picks) {
+    await releaseSessionSeats(tx, sessionId);
+  }
+}
+
+/**
+ * Move every session of an event by the same amount as its start
+ *
+ * Called inside the transaction that moves the event, so sessions keep
+ * their place in the programme.
+ */
+export async function shiftEventSessions(
+  tx: Prisma.TransactionClient,
+  eventId: string,
+  shiftMs: number,
+): Promise<void> {
+  if (shiftMs === 0) {
+    return;
+  }
+
+  const sessions = await tx.session.findMany({
+    where: { eventId },
+    select: { id: true, startsAt: true, endsAt: true },
+  });
+
+  for (const session of sessions) {
+    await tx.session.update({
+      where: { id: session.id },
+      data: {
+        startsAt: new Date(session.startsAt.getTime() + shiftMs),
+        endsAt: new Date(session.endsAt.getTime() + shiftMs),
+      },
+    });
+  }
+}
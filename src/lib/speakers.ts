@@ -0,0 +1,744 @@
+import { randomUUID } from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { generateUploadSasUrl, getBlobUrl } from './azureStorage';
+import { sendEmail } from './email';
+import { ERROR_CODES } from './errorCodes';
+import { RegistrationError, getErrorCode } from './errors';
+import logger from './logger';
+import {
+  Actor,
+  canManageEvent,
+  eventStaffSelect,
+  isAdmin,
+} from './permissions';
+import { PUBLICLY_LISTED_EVENTS } from './queryOptimizations';
+import { createHashedToken, hashToken } from './secureTokens';
+import { sanitize } from './security';
+import { formatDateTime } from './utils';
+import {
+  AddEventSpeakerRequest,
+  CreateSpeakerRequest,
+  UpdateSpeakerRequest,
+} from './schemas/speakerSchema';
+import { SpeakerInvitationTemplate } from '@/components/emails/SpeakerInvitationTemplate';
+
+/**
+ * Speaker Profiles
+ *
+ * Speakers are shared profiles (bio, photo, links) that organizers put on
+ * their events' line-ups and assign to sessions (src/lib/sessions.ts). Each
+ * speaker has a public page at /speakers/:id.
+ *
+ * Organizers can put any speaker on their events' line-ups, but only the
+ * speaker's creator (or an admin) can edit the profile or email the speaker
+ * a link to edit it themselves without an account. The link carries a
+ * random token valid for SPEAKER_EDIT_LINK_TTL_DAYS (default 30); only its
+ * SHA-256 hash is stored, and sending a new link invalidates the previous
+ * one.
+ *
+ * Photos are uploaded straight to Azure Storage with a short-lived SAS URL;
+ * a profile only accepts photo URLs under its own `speakers/<id>/` prefix.
+ */
+
+export const SPEAKER_EDIT_LINK_TTL_DAYS =
+  Number(process.env.SPEAKER_EDIT_LINK_TTL_DAYS) || 30;
+
+const PHOTO_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+/** Everything shown on the public speaker page */
+const SPEAKER_PROFILE_SELECT = {
+  id: true,
+  name: true,
+  headline: true,
+  bio: true,
+  photoUrl: true,
+  links: true,
+} satisfies Prisma.SpeakerSelect;
+
+type SpeakerProfileChanges = Omit<UpdateSpeakerRequest, 'email'>;
+
+function speakerNotFound(speakerId: string) {
+  return new RegistrationError(
+    `Speaker not found: ${speakerId}`,
+    ERROR_CODES.NOT_FOUND,
+  );
+}
+
+function toSpeakerData(profile: SpeakerProfileChanges) {
+  return {
+    name: profile.name && sanitize(profile.name),
+    headline: profile.headline && sanitize(profile.headline),
+    bio: profile.bio === undefined ? undefined : sanitize(profile.bio),
+    photoUrl: profile.photoUrl,
+    links: profile.links,
+  };
+}
+
+/**
+ * Refuse photo URLs that were not uploaded for this speaker
+ */
+function assertOwnPhotoUrl(speakerId: string, photoUrl?: string | null) {
+  if (photoUrl && !photoUrl.startsWith(getBlobUrl(`speakers/${speakerId}/`))) {
+    throw new RegistrationError(
+      'Photos must be uploaded through the speaker photo endpoint',
+      ERROR_CODES.INVALID_INPUT,
+    );
+  }
+}
+
+/**
+ * Load a speaker the actor may edit: admins and whoever created the speaker
+ *
+ * Organizers can put any speaker on their line-up, so being on an event's
+ * line-up grants no rights over the shared profile or where its edit link
+ * is sent; the speaker edits it themselves through that link.
+ */
+async function getEditableSpeaker(
+  tx: Prisma.TransactionClient,
+  speakerId: string,
+  actor: Actor,
+) {
+  const speaker = await tx.speaker.findUnique({
+    where: { id: speakerId },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      createdById: true,
+      events: { select: { event: { select: { title: true } } } },
+    },
+  });
+
+  if (!speaker) {
+    throw speakerNotFound(speakerId);
+  }
+
+  if (!isAdmin(actor) && speaker.createdById !== actor.userId) {
+    throw new RegistrationError(
+      'Only whoever created this speaker can edit it',
+      ERROR_CODES.FORBIDDEN,
+    );
+  }
+
+  return speaker;
+}
+
+/**
+ * Load the speaker an edit link belongs to
+ */
+async function getSpeakerForToken(
+  tx: Prisma.TransactionClient,
+  token: string,
+  at: Date,
+) {
+  const speaker = await tx.speaker.findUnique({
+    where: { editTokenHash: hashToken(token) },
+    select: { id: true, editTokenExpiresAt: true },
+  });
+
+  if (!speaker) {
+    throw new RegistrationError(
+      'Profile link not found or no longer valid',
+      ERROR_CODES.INVALID_SPEAKER_LINK,
+    );
+  }
+
+  if (!speaker.editTokenExpiresAt || speaker.editTokenExpiresAt <= at) {
+    throw new RegistrationError(
+      'This profile link has expired; ask the organizer for a new one',
+      ERROR_CODES.SPEAKER_LINK_EXPIRED,
+    );
+  }
+
+  return speaker;
+}
+
+/**
+ * List an event's speakers in line-up order, with their sessions at the
+ * event
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event
+ */
+export async function listEventSpeakers(prisma: PrismaClient, eventId: string) {
+  try {
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+      select: {
+        id: true,
+        speakers: {
+          select: {
+            speaker: {
+              select: {
+                ...SPEAKER_PROFILE_SELECT,
+                sessions: {
+                  where: { session: { eventId } },
+                  select: {
+                    session: {
+                      select: {
+                        id: true,
+                        title: true,
+                        room: true,
+                        startsAt: true,
+                        endsAt: true,
+                      },
+                    },
+                  },
+                  orderBy: { session: { startsAt: 'asc' } },
+                },
+              },
+            },
+          },
+          orderBy: { position: 'asc' },
+        },
+      },
+    });
+
+    if (!event) {
+      throw new RegistrationError(
+        `Event not found: ${eventId}`,
+        ERROR_CODES.EVENT_NOT_FOUND,
+      );
+    }
+
+    const speakers = event.speakers.map(({ speaker }) => ({
+      ...speaker,
+      sessions: speaker.sessions.map(({ session }) => session),
+    }));
+
+    return { success: true, speakers, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      speakers: [],
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Put a speaker on an event's line-up, creating the speaker if needed
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event
+ * @param data - An existing speaker's id, or the details of a new speaker
+ * @param actor - Caller; must be the event organizer or an admin
+ */
+export async function addEventSpeaker(
+  prisma: PrismaClient,
+  eventId: string,
+  data: AddEventSpeakerRequest,
+  actor: Actor,
+) {
+  try {
+    const speaker = await prisma.$transaction(
+      async (tx) => {
+        const event = await tx.event.findUnique({
+          where: { id: eventId },
+          select: {
+            id: true,
+            organizerId: true,
+            staff: eventStaffSelect(actor),
+            _count: { select: { speakers: true } },
+          },
+        });
+
+        if (!event) {
+          throw new RegistrationError(
+            `Event not found: ${eventId}`,
+            ERROR_CODES.EVENT_NOT_FOUND,
+          );
+        }
+
+        if (!canManageEvent(actor, event)) {
+          throw new RegistrationError(
+            'Only the event organizer can change its speakers',
+            ERROR_CODES.FORBIDDEN,
+          );
+        }
+
+        let speakerId = data.speakerId;
+
+        if (speakerId) {
+          const existing = await tx.speaker.findUnique({
+            where: { id: speakerId },
+            select: { id: true },
+          });
+
+          if (!existing) {
+            throw speakerNotFound(speakerId);
+          }
+        } else {
+          const details = data.speaker as CreateSpeakerRequest;
+
+          const created = await tx.speaker.create({
+            data: {
+              ...toSpeakerData(details),
+              name: sanitize(details.name),
+              email: details.email,
+              createdById: actor.userId,
+            },
+            select: { id: true },
+          });
+          speakerId = created.id;
+        }
+
+        await tx.eventSpeaker.create({
+          data: { eventId, speakerId, position: event._count.speakers },
+        });
+
+        return tx.speaker.findUniqueOrThrow({
+          where: { id: speakerId },
+          select: SPEAKER_PROFILE_SELECT,
+        });
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 10000,
+      },
+    );
+
+    logger.info({
+      message: 'Speaker added to event',
+      eventId,
+      speakerId: speaker.id,
+    });
+
+    return { success: true, speaker, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      speaker: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Take a speaker off an event's line-up and off the event's sessions
+ *
+ * The speaker profile itself is kept.
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event
+ * @param speakerId - UUID of the speaker
+ * @param actor - Caller; must be the event organizer or an admin
+ */
+export async function removeEventSpeaker(
+  prisma: PrismaClient,
+  eventId: string,
+  speakerId: string,
+  actor: Actor,
+) {
+  try {
+    await prisma.$transaction(
+      async (tx) => {
+        const event = await tx.event.findUnique({
+          where: { id: eventId },
+          select: {
+            id: true,
+            organizerId: true,
+            staff: eventStaffSelect(actor),
+          },
+        });
+
+        if (!event) {
+          throw new RegistrationError(
+            `Event not found: ${eventId}`,
+            ERROR_CODES.EVENT_NOT_FOUND,
+          );
+        }
+
+        if (!canManageEvent(actor, event)) {
+          throw new RegistrationError(
+            'Only the event organizer can change its speakers',
+            ERROR_CODES.FORBIDDEN,
+          );
+        }
+
+        const { count } = await tx.eventSpeaker.deleteMany({
+          where: { eventId, speakerId },
+        });
+
+        if (count === 0) {
+          throw new RegistrationError(
+            `Speaker ${speakerId} is not on this event's line-up`,
+            ERROR_CODES.NOT_FOUND,
+          );
+        }
+
+        await tx.sessionSpeaker.deleteMany({
+          where: { speakerId, session: { eventId } },
+        });
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 10000,
+      },
+    );
+
+    logger.info({ message: 'Speaker removed from event', eventId, speakerId });
+
+    return { success: true, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Get a speaker's public profile with their publicly listed events and
+ * sessions
+ *
+ * @param prisma - Prisma client instance
+ * @param speakerId - UUID of the speaker
+ */
+export async function getSpeaker(prisma: PrismaClient, speakerId: string) {
+  try {
+    const speaker = await prisma.speaker.findUnique({
+      where: { id: speakerId },
+      select: {
+        ...SPEAKER_PROFILE_SELECT,
+        events: {
+          where: { event: PUBLICLY_LISTED_EVENTS },
+          select: {
+            event: {
+              select: {
+                id: true,
+                title: true,
+                date: true,
+                endsAt: true,
+                timeZone: true,
+                location: true,
+              },
+            },
+          },
+          orderBy: { event: { date: 'asc' } },
+        },
+        sessions: {
+          where: { session: { event: PUBLICLY_LISTED_EVENTS } },
+          select: {
+            session: {
+              select: {
+                id: true,
+                eventId: true,
+                title: true,
+                room: true,
+                startsAt: true,
+                endsAt: true,
+              },
+            },
+          },
+          orderBy: { session: { startsAt: 'asc' } },
+        },
+      },
+    });
+
+    if (!speaker) {
+      throw speakerNotFound(speakerId);
+    }
+
+    return {
+      success: true,
+      speaker: {
+        ...speaker,
+        events: speaker.events.map(({ event }) => event),
+        sessions: speaker.sessions.map(({ session }) => session),
+      },
+      error: null,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      speaker: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Edit a speaker's profile as an organizer
+ *
+ * @param prisma - Prisma client instance
+ * @param speakerId - UUID of the speaker
+ * @param changes - Validated changes; `null` clears an optional field
+ * @param actor - Caller; see `getEditableSpeaker` for who may edit
+ */
+export async function updateSpeaker(
+  prisma: PrismaClient,
+  speakerId: string,
+  changes: UpdateSpeakerRequest,
+  actor: Actor,
+) {
+  const { email, ...profile } = changes;
+
+  try {
+    const speaker = await prisma.$transaction(
+      async (tx) => {
+        await getEditableSpeaker(tx, speakerId, actor);
+        assertOwnPhotoUrl(speakerId, profile.photoUrl);
+
+        return tx.speaker.update({
+          where: { id: speakerId },
+          data: { ...toSpeakerData(profile), email },
+          select: { ...SPEAKER_PROFILE_SELECT, email: true },
+        });
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 10000,
+      },
+    );
+
+    logger.info({ message: 'Speaker updated', speakerId });
+
+    return { success: true, speaker, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      speaker: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Email a speaker a link to edit their own profile
+ *
+ * Replaces any earlier link. The email goes out after the new token is
+ * committed; a failed send is reported in `emailSent` rather than as an
+ * error, and can be retried by inviting again.
+ *
+ * @param prisma - Prisma client instance
+ * @param speakerId - UUID of the speaker; they need an email address
+ * @param actor - Caller; see `getEditableSpeaker` for who may invite
+ */
+export async function inviteSpeaker(
+  prisma: PrismaClient,
+  speakerId: string,
+  actor: Actor,
+) {
+  const operationTimestamp = new Date();
+  const expiresAt = new Date(
+    operationTimestamp.getTime() +
+      SPEAKER_EDIT_LINK_TTL_DAYS * 24 * 60 * 60 * 1000,
+  );
+  const { token, tokenHash } = createHashedToken();
+
+  try {
+    const speaker = await prisma.$transaction(
+      async (tx) => {
+        const speaker = await getEditableSpeaker(tx, speakerId, actor);
+
+        if (!speaker.email) {
+          throw new RegistrationError(
+            'Add an email address to the speaker before inviting them',
+            ERROR_CODES.INVALID_INPUT,
+          );
+        }
+
+        await tx.speaker.update({
+          where: { id: speakerId },
+          data: {
+            editTokenHash: tokenHash,
+            editTokenExpiresAt: expiresAt,
+          },
+        });
+
+        return { ...speaker, email: speaker.email };
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 10000,
+      },
+    );
+
+    const inviter = await prisma.user.findUnique({
+      where: { id: actor.userId },
+      select: { name: true },
+    });
+
+    // Only email the link once the token has been committed
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+    let emailSent = true;
+    try {
+      await sendEmail({
+        to: speaker.email,
+        subject: 'Set up your speaker profile',
+        react: SpeakerInvitationTemplate({
+          speakerName: speaker.name,
+          inviterName: inviter?.name ?? 'An organizer',
+          eventTitles: speaker.events.map(({ event }) => event.title),
+          expiresAt: formatDateTime(expiresAt),
+          editUrl: `${appUrl}/speakers/edit?token=${encodeURIComponent(token)}`,
+        }),
+      });
+    } catch (error) {
+      emailSent = false;
+      logger.error({
+        message: 'Failed to send speaker invitation',
+        speakerId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    logger.info({ message: 'Speaker invited', speakerId, emailSent });
+
+    return {
+      success: true,
+      invitation: { email: speaker.email, expiresAt, emailSent },
+      error: null,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      invitation: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Get the profile an edit link belongs to
+ *
+ * @param prisma - Prisma client instance
+ * @param token - Token from the emailed link
+ */
+export async function getOwnSpeakerProfile(
+  prisma: PrismaClient,
+  token: string,
+) {
+  try {
+    const { id } = await getSpeakerForToken(prisma, token, new Date());
+
+    const speaker = await prisma.speaker.findUniqueOrThrow({
+      where: { id },
+      select: SPEAKER_PROFILE_SELECT,
+    });
+
+    return { success: true, speaker, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      speaker: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Edit a profile through its edit link
+ *
+ * @param prisma - Prisma client instance
+ * @param token - Token from the emailed link
+ * @param changes - Validated profile changes
+ */
+export async function updateOwnSpeakerProfile(
+  prisma: PrismaClient,
+  token: string,
+  changes: SpeakerProfileChanges,
+) {
+  try {
+    const speaker = await prisma.$transaction(
+      async (tx) => {
+        const { id } = await getSpeakerForToken(tx, token, new Date());
+        assertOwnPhotoUrl(id, changes.photoUrl);
+
+        return tx.speaker.update({
+          where: { id },
+          data: toSpeakerData(changes),
+          select: SPEAKER_PROFILE_SELECT,
+        });
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 10000,
+      },
+    );
+
+    logger.info({
+      message: 'Speaker updated their profile',
+      speakerId: speaker.id,
+    });
+
+    return { success: true, speaker, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      speaker: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Create a short-lived upload URL for a speaker photo
+ *
+ * The client PUTs the image to `uploadUrl`, then saves `photoUrl` on the
+ * profile.
+ *
+ * @param prisma - Prisma client instance
+ * @param contentType - MIME type of the photo
+ * @param access - The organizer editing the speaker, or the speaker's edit
+ *                 link token
+ */
+export async function createSpeakerPhotoUpload(
+  prisma: PrismaClient,
+  contentType: string,
+  access: { speakerId: string; actor: Actor } | { token: string },
+) {
+  try {
+    const speakerId =
+      'token' in access
+        ? (await getSpeakerForToken(prisma, access.token, new Date())).id
+        : (await getEditableSpeaker(prisma, access.speakerId, access.actor)).id;
+
+    const blobName = `speakers/${speakerId}/${randomUUID()}.${PHOTO_EXTENSIONS[contentType]}`;
+    const { sasUrl } = await generateUploadSasUrl(blobName, contentType);
+
+    return {
+      success: true,
+      upload: { uploadUrl: sasUrl, photoUrl: getBlobUrl(blobName) },
+      error: null,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      upload: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
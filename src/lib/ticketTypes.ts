@@ -0,0 +1,132 @@
+import { Prisma } from '@prisma/client';
+import { ERROR_CODES } from './errorCodes';
+import { RegistrationError } from './errors';
+import { sanitize } from './security';
+import { TicketTypeInput } from './schemas/eventSchema';
+
+/**
+ * Ticket Type Helpers
+ *
+ * Events can offer several ticket types (General, VIP, Student, Early-bird),
+ * each with its own price, quota and optional sale window. An event without
+ * ticket types keeps working as a single pool of identical seats.
+ */
+
+/**
+ * Check that the ticket quotas fit within the event capacity
+ *
+ * @returns An error message, or null if the quotas are valid
+ */
+export function getTicketQuotaError(
+  capacity: number,
+  ticketTypes: Pick<TicketTypeInput, 'quota'>[] = [],
+): string | null {
+  const totalQuota = ticketTypes.reduce((sum, type) => sum + type.quota, 0);
+
+  if (totalQuota > capacity) {
+    return `Ticket type quotas (${totalQuota}) exceed the event capacity (${capacity})`;
+  }
+
+  return null;
+}
+
+/**
+ * Map validated ticket type input to Prisma nested-create data
+ * Every ticket type starts with its full quota available
+ */
+export function toTicketTypeCreateData(
+  ticketTypes: TicketTypeInput[] = [],
+): Prisma.TicketTypeCreateWithoutEventInput[] {
+  return ticketTypes.map((type) => ({
+    name: sanitize(type.name),
+    kind: type.kind,
+    priceCents: type.priceCents,
+    currency: type.currency,
+    quota: type.quota,
+    seatsRemaining: type.quota,
+    salesStartAt: type.salesStartAt ? new Date(type.salesStartAt) : null,
+    salesEndAt: type.salesEndAt ? new Date(type.salesEndAt) : null,
+  }));
+}
+
+/**
+ * Whether a ticket type can be bought at the given instant
+ */
+export function isTicketTypeOnSale(
+  ticketType: { salesStartAt: Date | null; salesEndAt: Date | null },
+  at: Date = new Date(),
+): boolean {
+  if (ticketType.salesStartAt && at < ticketType.salesStartAt) {
+    return false;
+  }
+
+  if (ticketType.salesEndAt && at > ticketType.salesEndAt) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Resolve and validate the ticket type for a new registration
+ *
+ * - Events without ticket types accept registrations without one (null)
+ * - Events with ticket types require one that belongs to the event and is
+ *   currently inside its sale window
+ *
+ * Quota is NOT checked here; it is claimed atomically with
+ * `claimTicketSeats` once the event seat has been claimed.
+ *
+ * @param tx - Transaction client
+ * @param eventId - UUID of the event being registered for
+ * @param ticketTypeId - Requested ticket type, if any
+ * @param at - Instant used for the sale-window check
+ */
+export async function resolveTicketType(
+  tx: Prisma.TransactionClient,
+  eventId: string,
+  ticketTypeId: string | undefined,
+  at: Date = new Date(),
+) {
+  if (!ticketTypeId) {
+    const ticketTypeCount = await tx.ticketType.count({ where: { eventId } });
+
+    if (ticketTypeCount > 0) {
+      throw new RegistrationError(
+        'This event offers multiple ticket types; a ticketTypeId is required',
+        ERROR_CODES.MISSING_REQUIRED_FIELD,
+      );
+    }
+
+    return null;
+  }
+
+  const ticketType = await tx.ticketType.findFirst({
+    where: { id: ticketTypeId, eventId },
+    select: {
+      id: true,
+      name: true,
+      kind: true,
+      priceCents: true,
+      currency: true,
+      salesStartAt: true,
+      salesEndAt: true,
+    },
+  });
+
+  if (!ticketType) {
+    throw new RegistrationError(
+      `Ticket type not found for this event: ${ticketTypeId}`,
+      ERROR_CODES.NOT_FOUND,
+    );
+  }
+
+  if (!isTicketTypeOnSale(ticketType, at)) {
+    throw new RegistrationError(
+      `Ticket type '${ticketType.name}' is not on sale at this time`,
+      ERROR_CODES.TICKET_NOT_ON_SALE,
+    );
+  }
+
+  return ticketType;
+}
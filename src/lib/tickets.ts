@@ -0,0 +1,354 @@
+import { PrismaClient, RegistrationStatus } from '@prisma/client';
+import QRCode from 'qrcode';
+import { generateTicketToken, verifyTicketToken } from './auth-tokens';
+import { sendEmail } from './email';
+import { ERROR_CODES } from './errorCodes';
+import { RegistrationError, getErrorCode } from './errors';
+import logger from './logger';
+import { Actor, eventStaffSelect, hasEventPermission } from './permissions';
+import { formatEventTime } from './utils';
+import { RegistrationConfirmationTemplate } from '@/components/emails/RegistrationConfirmationTemplate';
+
+/**
+ * Tickets and Check-in
+ *
+ * Every APPROVED registration has a ticket: a signed code (see
+ * `generateTicketToken`) carrying the registration and event ids, rendered as
+ * a QR code in the confirmation email. Nothing is stored for the ticket
+ * itself; the code is re-derived on demand and validated by signature.
+ *
+ * The code also carries `Registration.ticketVersion`. Transferring a
+ * registration, or reopening a cancelled one, bumps the version, so codes
+ * issued before are refused at the door while the current code is derived as
+ * usual.
+ *
+ * At the door the organizer's scanner posts the code to the check-in API,
+ * which stamps `checkedInAt`/`checkedInById` exactly once. The stamp is a
+ * conditional update on `checkedInAt IS NULL`, so two scanners reading the
+ * same ticket at the same moment cannot both admit it.
+ */
+
+const QR_CODE_CID = 'ticket-qr';
+
+const QR_CODE_OPTIONS = {
+  errorCorrectionLevel: 'M' as const,
+  margin: 2,
+  width: 480,
+};
+
+/**
+ * Render a ticket code as a QR code data URL (for in-app display)
+ */
+export function renderTicketQrDataUrl(code: string): Promise<string> {
+  return QRCode.toDataURL(code, QR_CODE_OPTIONS);
+}
+
+/**
+ * Get a registration's ticket code and QR code
+ *
+ * @param prisma - Prisma client instance
+ * @param registrationId - UUID of the registration
+ * @param actor - Caller; the registrant, event staff who can check attendees
+ *                in, or an admin
+ */
+export async function getRegistrationTicket(
+  prisma: PrismaClient,
+  registrationId: string,
+  actor: Actor,
+) {
+  try {
+    const registration = await prisma.registration.findUnique({
+      where: { id: registrationId },
+      select: {
+        id: true,
+        userId: true,
+        eventId: true,
+        status: true,
+        ticketVersion: true,
+        checkedInAt: true,
+        event: {
+          select: { organizerId: true, staff: eventStaffSelect(actor) },
+        },
+      },
+    });
+
+    if (!registration) {
+      throw new RegistrationError(
+        `Registration not found: ${registrationId}`,
+        ERROR_CODES.REGISTRATION_NOT_FOUND,
+      );
+    }
+
+    if (
+      registration.userId !== actor.userId &&
+      !hasEventPermission(actor, registration.event, 'checkIn')
+    ) {
+      throw new RegistrationError(
+        'You can only view your own tickets',
+        ERROR_CODES.FORBIDDEN,
+      );
+    }
+
+    if (registration.status !== RegistrationStatus.APPROVED) {
+      throw new RegistrationError(
+        `Registration ${registrationId} is not confirmed yet; its ticket is issued once it is`,
+        ERROR_CODES.REGISTRATION_NOT_CONFIRMED,
+      );
+    }
+
+    const code = generateTicketToken(
+      registration.id,
+      registration.eventId,
+      registration.ticketVersion,
+    );
+
+    return {
+      success: true,
+      ticket: {
+        registrationId: registration.id,
+        eventId: registration.eventId,
+        code,
+        qrCode: await renderTicketQrDataUrl(code),
+        checkedInAt: registration.checkedInAt,
+      },
+      error: null,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      ticket: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+export interface SendRegistrationTicketOptions {
+  /** Name of the previous holder when the ticket was transferred */
+  transferredFrom?: string;
+}
+
+/**
+ * Email the registrant their confirmation with the ticket QR code attached
+ * inline
+ *
+ * Call after the registration has been committed as APPROVED. Delivery
+ * failures are logged but never thrown.
+ *
+ * @param prisma - Prisma client instance
+ * @param registrationId - UUID of the confirmed registration
+ * @param options - See SendRegistrationTicketOptions
+ */
+export async function sendRegistrationTicket(
+  prisma: PrismaClient,
+  registrationId: string,
+  options: SendRegistrationTicketOptions = {},
+): Promise<void> {
+  try {
+    const registration = await prisma.registration.findUnique({
+      where: { id: registrationId },
+      select: {
+        id: true,
+        eventId: true,
+        status: true,
+        ticketVersion: true,
+        user: { select: { email: true, name: true } },
+        event: {
+          select: {
+            title: true,
+            date: true,
+            endsAt: true,
+            timeZone: true,
+            location: true,
+          },
+        },
+        ticketType: { select: { name: true } },
+      },
+    });
+
+    if (!registration || registration.status !== RegistrationStatus.APPROVED) {
+      return;
+    }
+
+    const code = generateTicketToken(
+      registration.id,
+      registration.eventId,
+      registration.ticketVersion,
+    );
+    const qrCode = await QRCode.toBuffer(code, QR_CODE_OPTIONS);
+
+    await sendEmail({
+      to: registration.user.email,
+      subject: `Your ticket for ${registration.event.title}`,
+      react: RegistrationConfirmationTemplate({
+        userName: registration.user.name,
+        eventTitle: registration.event.title,
+        eventDate: formatEventTime(
+          registration.event.date,
+          registration.event.endsAt,
+          registration.event.timeZone,
+        ),
+        eventLocation: registration.event.location,
+        ticketTypeName: registration.ticketType?.name,
+        transferredFrom: options.transferredFrom,
+        qrCodeSrc: `cid:${QR_CODE_CID}`,
+      }),
+      attachments: [
+        {
+          filename: 'ticket.png',
+          content: qrCode,
+          contentType: 'image/png',
+          contentId: QR_CODE_CID,
+        },
+      ],
+    });
+  } catch (error) {
+    logger.error({
+      message: 'Failed to send registration ticket email',
+      registrationId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Check an attendee in by their ticket code
+ *
+ * @param prisma - Prisma client instance
+ * @param eventId - UUID of the event being scanned for
+ * @param code - Ticket code read from the QR code
+ * @param actor - Scanner operator; the event organizer, its co-organizers and
+ *                check-in staff, or an admin
+ * @returns The checked-in registration, or a structured error describing why
+ *          the ticket was rejected
+ */
+export async function checkInAttendee(
+  prisma: PrismaClient,
+  eventId: string,
+  code: string,
+  actor: Actor,
+) {
+  const operationTimestamp = new Date();
+
+  try {
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+      select: {
+        id: true,
+        title: true,
+        organizerId: true,
+        staff: eventStaffSelect(actor),
+      },
+    });
+
+    if (!event) {
+      throw new RegistrationError(
+        `Event not found: ${eventId}`,
+        ERROR_CODES.EVENT_NOT_FOUND,
+      );
+    }
+
+    if (!hasEventPermission(actor, event, 'checkIn')) {
+      throw new RegistrationError(
+        'Only the event organizer and its check-in staff can check attendees in',
+        ERROR_CODES.FORBIDDEN,
+      );
+    }
+
+    let ticket;
+    try {
+      ticket = verifyTicketToken(code);
+    } catch {
+      throw new RegistrationError(
+        'Ticket code is not valid',
+        ERROR_CODES.INVALID_TICKET,
+      );
+    }
+
+    if (ticket.eventId !== eventId) {
+      throw new RegistrationError(
+        `This ticket is not for '${event.title}'`,
+        ERROR_CODES.TICKET_EVENT_MISMATCH,
+      );
+    }
+
+    const { count } = await prisma.registration.updateMany({
+      where: {
+        id: ticket.registrationId,
+        eventId,
+        status: RegistrationStatus.APPROVED,
+        ticketVersion: ticket.ticketVersion,
+        checkedInAt: null,
+      },
+      data: {
+        checkedInAt: operationTimestamp,
+        checkedInById: actor.userId,
+      },
+    });
+
+    const registration = await prisma.registration.findUnique({
+      where: { id: ticket.registrationId },
+      select: {
+        id: true,
+        status: true,
+        ticketVersion: true,
+        checkedInAt: true,
+        user: { select: { id: true, name: true, email: true } },
+        ticketType: { select: { id: true, name: true, kind: true } },
+        checkedInBy: { select: { id: true, name: true } },
+      },
+    });
+
+    if (count === 0) {
+      if (!registration) {
+        throw new RegistrationError(
+          'This ticket belongs to a registration that no longer exists',
+          ERROR_CODES.REGISTRATION_NOT_FOUND,
+        );
+      }
+
+      if (registration.ticketVersion !== ticket.ticketVersion) {
+        throw new RegistrationError(
+          'This ticket has been reissued or transferred and is no longer valid',
+          ERROR_CODES.INVALID_TICKET,
+        );
+      }
+
+      if (registration.status !== RegistrationStatus.APPROVED) {
+        throw new RegistrationError(
+          `Registration for ${registration.user.name} is not confirmed`,
+          ERROR_CODES.REGISTRATION_NOT_CONFIRMED,
+        );
+      }
+
+      throw new RegistrationError(
+        `${registration.user.name} was already checked in at ${registration.checkedInAt?.toISOString()}${registration.checkedInBy ? ` by ${registration.checkedInBy.name}` : ''}`,
+        ERROR_CODES.ALREADY_CHECKED_IN,
+      );
+    }
+
+    logger.info({
+      message: 'Attendee checked in',
+      eventId,
+      registrationId: ticket.registrationId,
+    });
+
+    return { success: true, registration, error: null };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    logger.warn({
+      message: 'Check-in rejected',
+      eventId,
+      error: errorMessage,
+    });
+
+    return {
+      success: false,
+      registration: null,
+      error: { message: errorMessage, code: getErrorCode(error) },
+    };
+  }
+}
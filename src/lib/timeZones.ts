@@ -0,0 +1,156 @@
+/**
+ * Time Zones
+ *
+ * Event times are stored as UTC instants (`date` / `endsAt`) next to the IANA
+ * time zone the event takes place in (e.g. "Europe/Berlin"). Everything that
+ * shows a time to people converts it to that zone, so the server's own zone
+ * never leaks into what attendees see.
+ *
+ * "Wall-clock" dates are Dates whose UTC fields hold the local date and time
+ * in a zone (09:00 in Berlin is represented as 09:00Z). They let calendar
+ * arithmetic such as "same time next week" run in UTC and be converted back
+ * to a real instant afterwards, keeping the local time across DST changes.
+ */
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getPartsFormatter(timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Whether `timeZone` is an IANA time zone name this runtime knows
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * IANA zones this runtime knows, for pickers; UTC first
+ */
+export function listTimeZones(): string[] {
+  // Intl.supportedValuesOf is missing from the ES2020 typings, and its list
+  // leaves out UTC
+  const supportedValuesOf: unknown = (
+    Intl as unknown as Record<string, unknown>
+  ).supportedValuesOf;
+  const zones =
+    typeof supportedValuesOf === 'function'
+      ? (Reflect.apply(supportedValuesOf, Intl, ['timeZone']) as string[])
+      : [];
+
+  return [DEFAULT_TIME_ZONE, ...zones.filter((zone) => zone !== 'UTC')];
+}
+
+/**
+ * Local date and time of an instant in a zone, as a wall-clock date
+ */
+export function toWallClock(instant: Date, timeZone: string): Date {
+  const parts: Record<string, number> = {};
+  for (const part of getPartsFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+
+  return new Date(
+    Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute,
+      parts.second,
+      instant.getUTCMilliseconds(),
+    ),
+  );
+}
+
+/**
+ * Offset of a zone from UTC at the given instant, in minutes (e.g. 60 for
+ * Berlin in winter)
+ */
+export function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  return Math.round(
+    (toWallClock(instant, timeZone).getTime() - instant.getTime()) / 60000,
+  );
+}
+
+/**
+ * Instant at which the clocks in a zone show the given wall-clock time
+ *
+ * Local times skipped by a DST change resolve to the same time after the
+ * change (02:30 on a spring-forward night becomes 03:30); repeated local
+ * times resolve to their first occurrence.
+ */
+export function fromWallClock(wallClock: Date, timeZone: string): Date {
+  const wall = wallClock.getTime();
+  // Zones change offset at most once around a given day
+  const offsetBefore = getTimeZoneOffset(new Date(wall - DAY_MS), timeZone);
+  const offsetAfter = getTimeZoneOffset(new Date(wall + DAY_MS), timeZone);
+
+  const matches = [offsetBefore, offsetAfter]
+    .map((offset) => wall - offset * 60000)
+    .filter(
+      (instant) => toWallClock(new Date(instant), timeZone).getTime() === wall,
+    );
+
+  return new Date(
+    matches.length > 0 ? Math.min(...matches) : wall - offsetBefore * 60000,
+  );
+}
+
+/**
+ * ISO 8601 string of an instant with the zone's offset, e.g.
+ * "2026-11-02T09:00:00+01:00"
+ */
+export function toZonedISOString(instant: Date, timeZone: string): string {
+  const offset = getTimeZoneOffset(instant, timeZone);
+  const sign = offset < 0 ? '-' : '+';
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0');
+  const minutes = String(Math.abs(offset) % 60).padStart(2, '0');
+
+  return (
+    toWallClock(instant, timeZone).toISOString().slice(0, 19) +
+    `${sign}${hours}:${minutes}`
+  );
+}
+
+/**
+ * Start and end of an event in its own zone, as returned by the API next to
+ * the UTC instants
+ */
+export function toEventSchedule(event: {
+  date: Date;
+  endsAt: Date;
+  timeZone: string;
+}) {
+  return {
+    timeZone: event.timeZone,
+    startsAt: toZonedISOString(event.date, event.timeZone),
+    endsAt: toZonedISOString(event.endsAt, event.timeZone),
+  };
+}
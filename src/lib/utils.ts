@@ -1,13 +1,75 @@
+import { DEFAULT_TIME_ZONE } from './timeZones';
+
+function toDate(date: Date | string): Date {
+  return typeof date === 'string' ? new Date(date) : date;
+}
+
 /**
  * Formats an event date to a readable string.
  * @param date - The date to format (Date object or ISO string)
+ * @param timeZone - IANA zone the day is taken in; pass the event's zone
  * @returns Formatted date string in 'MMM DD, YYYY' format
  */
-export function formatEventDate(date: Date | string): string {
-  const dateObj = typeof date === 'string' ? new Date(date) : date;
-  return dateObj.toLocaleDateString('en-US', {
+export function formatEventDate(
+  date: Date | string,
+  timeZone: string = DEFAULT_TIME_ZONE,
+): string {
+  return toDate(date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    timeZone,
+  });
+}
+
+/**
+ * Formats an instant with its time of day, for deadlines such as seat holds.
+ * @param date - The date to format (Date object or ISO string)
+ * @param timeZone - IANA zone to show the time in
+ * @returns Formatted string like 'Oct 19, 2026, 9:15 AM UTC'
+ */
+export function formatDateTime(
+  date: Date | string,
+  timeZone: string = DEFAULT_TIME_ZONE,
+): string {
+  return toDate(date).toLocaleString('en-US', {
     year: 'numeric',
     month: 'short',
     day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone,
+    timeZoneName: 'short',
   });
 }
+
+/**
+ * Formats an event's start and end in the given zone.
+ * @param startsAt - Start of the event (Date object or ISO string)
+ * @param endsAt - End of the event (Date object or ISO string)
+ * @param timeZone - IANA zone to show the times in; pass the event's zone
+ * @returns Formatted string like 'Nov 2, 2026, 9:00 AM – 5:00 PM GMT+1', or
+ *   'Nov 2, 2026, 9:00 PM – Nov 3, 2026, 2:00 AM GMT+1' across midnight
+ */
+export function formatEventTime(
+  startsAt: Date | string,
+  endsAt: Date | string,
+  timeZone: string = DEFAULT_TIME_ZONE,
+): string {
+  const start = toDate(startsAt);
+  const end = toDate(endsAt);
+  const time = (date: Date, withZone: boolean) =>
+    date.toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+      timeZone,
+      ...(withZone && { timeZoneName: 'short' }),
+    });
+
+  const startDay = formatEventDate(start, timeZone);
+  const endDay = formatEventDate(end, timeZone);
+
+  return startDay === endDay
+    ? `${startDay}, ${time(start, false)} – ${time(end, true)}`
+    : `${startDay}, ${time(start, false)} – ${endDay}, ${time(end, true)}`;
+}
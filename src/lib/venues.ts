@@ -0,0 +1,623 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { ERROR_CODES } from './errorCodes';
+import { RegistrationError, getErrorCode } from './errors';
+import logger from './logger';
+import { Actor, isAdmin } from './permissions';
+import { sanitize } from './security';
+import {
+  CreateRoomRequest,
+  CreateVenueRequest,
+  RoomScheduleQuery,
+  UpdateRoomRequest,
+  UpdateVenueRequest,
+} from './schemas/venueSchema';
+
+/**
+ * Venues and Rooms
+ *
+ * Venues are shared places (a conference centre, an office, ...) managed by
+ * admins; each has an inventory of rooms with a seating capacity and a list
+ * of amenities. Organizers book an event into a room by setting its
+ * `roomId`; the booking covers the event's `date` to `endsAt`.
+ *
+ * Every booking goes through `assertRoomBookable`:
+ *   - the event cannot seat more people than the room holds
+ *   - the room cannot hold two events whose time slots overlap (back-to-back
+ *     bookings are fine)
+ * The room row is locked first, so two concurrent bookings of the same room
+ * are checked one after the other and cannot both succeed.
+ */
+
+const ROOM_SELECT = {
+  id: true,
+  venueId: true,
+  name: true,
+  capacity: true,
+  amenities: true,
+} satisfies Prisma.RoomSelect;
+
+const VENUE_SELECT = {
+  id: true,
+  name: true,
+  addressLine1: true,
+  addressLine2: true,
+  city: true,
+  region: true,
+  postalCode: true,
+  country: true,
+  rooms: { select: ROOM_SELECT, orderBy: { name: 'asc' } },
+} satisfies Prisma.VenueSelect;
+
+const BOOKING_SELECT = {
+  id: true,
+  title: true,
+  date: true,
+  endsAt: true,
+  capacity: true,
+} satisfies Prisma.EventSelect;
+
+function venueNotFound(venueId: string) {
+  return new RegistrationError(
+    `Venue not found: ${venueId}`,
+    ERROR_CODES.NOT_FOUND,
+  );
+}
+
+function roomNotFound(roomId: string) {
+  return new RegistrationError(
+    `Room ${roomId} not found for this venue`,
+    ERROR_CODES.NOT_FOUND,
+  );
+}
+
+function assertCanManageVenues(actor: Actor) {
+  if (!isAdmin(actor)) {
+    throw new RegistrationError(
+      'Only admins can manage venues',
+      ERROR_CODES.FORBIDDEN,
+    );
+  }
+}
+
+function toRoomData<T extends Partial<CreateRoomRequest>>(data: T) {
+  return {
+    ...data,
+    ...(data.name !== undefined && { name: sanitize(data.name) }),
+    ...(data.amenities !== undefined && {
+      amenities: data.amenities.map((amenity) => sanitize(amenity)),
+    }),
+  };
+}
+
+function sanitizeOptional<T extends string | null | undefined>(value: T): T {
+  return (typeof value === 'string' ? sanitize(value) : value) as T;
+}
+
+function toVenueData<T extends UpdateVenueRequest>(data: T) {
+  return {
+    ...data,
+    name: sanitizeOptional(data.name),
+    addressLine1: sanitizeOptional(data.addressLine1),
+    addressLine2: sanitizeOptional(data.addressLine2),
+    city: sanitizeOptional(data.city),
+    region: sanitizeOptional(data.region),
+    postalCode: sanitizeOptional(data.postalCode),
+  };
+}
+
+/**
+ * Check that an event can be booked into a room
+ *
+ * Must run inside the transaction that writes the booking; the room row stays
+ * locked until it commits.
+ *
+ * @param tx - Transaction client
+ * @param booking - The room and the event's time slot and capacity;
+ *   `excludeEventId` skips the event being moved
+ * @throws RegistrationError NOT_FOUND, ROOM_CAPACITY_EXCEEDED or
+ *   ROOM_ALREADY_BOOKED
+ */
+export async function assertRoomBookable(
+  tx: Prisma.TransactionClient,
+  booking: {
+    roomId: string;
+    startsAt: Date;
+    endsAt: Date;
+    capacity: number;
+    excludeEventId?: string;
+  },
+) {
+  // No-op update: takes the row lock that serializes bookings of this room
+  const { count } = await tx.room.updateMany({
+    where: { id: booking.roomId },
+    data: { updatedAt: new Date() },
+  });
+
+  if (count === 0) {
+    throw new RegistrationError(
+      `Room not found: ${booking.roomId}`,
+      ERROR_CODES.NOT_FOUND,
+    );
+  }
+
+  const room = await tx.room.findUniqueOrThrow({
+    where: { id: booking.roomId },
+    select: { name: true, capacity: true },
+  });
+
+  if (booking.capacity > room.capacity) {
+    throw new RegistrationError(
+      `Event capacity (${booking.capacity}) exceeds the capacity of ${room.name} (${room.capacity})`,
+      ERROR_CODES.ROOM_CAPACITY_EXCEEDED,
+    );
+  }
+
+  const clash = await tx.event.findFirst({
+    where: {
+      roomId: booking.roomId,
+      ...(booking.excludeEventId && { id: { not: booking.excludeEventId } }),
+      date: { lt: booking.endsAt },
+      endsAt: { gt: booking.startsAt },
+    },
+    select: BOOKING_SELECT,
+    orderBy: { date: 'asc' },
+  });
+
+  if (clash) {
+    throw new RegistrationError(
+      `${room.name} is already booked for '${clash.title}' from ${clash.date.toISOString()} to ${clash.endsAt.toISOString()}`,
+      ERROR_CODES.ROOM_ALREADY_BOOKED,
+    );
+  }
+}
+
+/**
+ * List venues with their rooms
+ *
+ * @param prisma - Prisma client instance
+ * @param filters - Optional city filter (case-insensitive)
+ */
+export async function listVenues(
+  prisma: PrismaClient,
+  filters: { city?: string } = {},
+) {
+  try {
+    const venues = await prisma.venue.findMany({
+      where: filters.city
+        ? { city: { equals: filters.city, mode: 'insensitive' } }
+        : undefined,
+      select: VENUE_SELECT,
+      orderBy: { name: 'asc' },
+    });
+
+    return { success: true, venues, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      venues: [],
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Get a venue with its rooms
+ *
+ * @param prisma - Prisma client instance
+ * @param venueId - UUID of the venue
+ */
+export async function getVenue(prisma: PrismaClient, venueId: string) {
+  try {
+    const venue = await prisma.venue.findUnique({
+      where: { id: venueId },
+      select: VENUE_SELECT,
+    });
+
+    if (!venue) {
+      throw venueNotFound(venueId);
+    }
+
+    return { success: true, venue, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      venue: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Create a venue, optionally with its rooms
+ *
+ * @param prisma - Prisma client instance
+ * @param data - Validated venue details
+ * @param actor - Caller; must be an admin
+ */
+export async function createVenue(
+  prisma: PrismaClient,
+  data: CreateVenueRequest,
+  actor: Actor,
+) {
+  try {
+    assertCanManageVenues(actor);
+
+    const { rooms, ...details } = data;
+
+    const venue = await prisma.venue.create({
+      data: {
+        ...toVenueData(details),
+        createdBy: { connect: { id: actor.userId } },
+        rooms: { create: rooms.map((room) => toRoomData(room)) },
+      },
+      select: VENUE_SELECT,
+    });
+
+    logger.info({
+      message: 'Venue created',
+      venueId: venue.id,
+      rooms: venue.rooms.length,
+      createdBy: actor.userId,
+    });
+
+    return { success: true, venue, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      venue: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Edit a venue's name or address
+ *
+ * @param prisma - Prisma client instance
+ * @param venueId - UUID of the venue
+ * @param changes - Validated changes
+ * @param actor - Caller; must be an admin
+ */
+export async function updateVenue(
+  prisma: PrismaClient,
+  venueId: string,
+  changes: UpdateVenueRequest,
+  actor: Actor,
+) {
+  try {
+    assertCanManageVenues(actor);
+
+    const existing = await prisma.venue.findUnique({
+      where: { id: venueId },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      throw venueNotFound(venueId);
+    }
+
+    const venue = await prisma.venue.update({
+      where: { id: venueId },
+      data: toVenueData(changes),
+      select: VENUE_SELECT,
+    });
+
+    logger.info({ message: 'Venue updated', venueId });
+
+    return { success: true, venue, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      venue: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Delete a venue and its rooms
+ *
+ * Refused while any event is booked into one of its rooms; move or unbook
+ * those events first.
+ *
+ * @param prisma - Prisma client instance
+ * @param venueId - UUID of the venue
+ * @param actor - Caller; must be an admin
+ */
+export async function deleteVenue(
+  prisma: PrismaClient,
+  venueId: string,
+  actor: Actor,
+) {
+  try {
+    assertCanManageVenues(actor);
+
+    await prisma.$transaction(
+      async (tx) => {
+        const venue = await tx.venue.findUnique({
+          where: { id: venueId },
+          select: { id: true },
+        });
+
+        if (!venue) {
+          throw venueNotFound(venueId);
+        }
+
+        const bookings = await tx.event.count({
+          where: { room: { venueId } },
+        });
+
+        if (bookings > 0) {
+          throw new RegistrationError(
+            `The venue still has ${bookings} event(s) booked into its rooms`,
+            ERROR_CODES.INVALID_INPUT,
+          );
+        }
+
+        await tx.venue.delete({ where: { id: venueId } });
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 10000,
+      },
+    );
+
+    logger.info({ message: 'Venue deleted', venueId, deletedBy: actor.userId });
+
+    return { success: true, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Add a room to a venue
+ *
+ * @param prisma - Prisma client instance
+ * @param venueId - UUID of the venue
+ * @param data - Validated room details; names are unique within a venue
+ * @param actor - Caller; must be an admin
+ */
+export async function addRoom(
+  prisma: PrismaClient,
+  venueId: string,
+  data: CreateRoomRequest,
+  actor: Actor,
+) {
+  try {
+    assertCanManageVenues(actor);
+
+    const venue = await prisma.venue.findUnique({
+      where: { id: venueId },
+      select: { id: true },
+    });
+
+    if (!venue) {
+      throw venueNotFound(venueId);
+    }
+
+    const room = await prisma.room.create({
+      data: { ...toRoomData(data), venueId },
+      select: ROOM_SELECT,
+    });
+
+    logger.info({ message: 'Room added', venueId, roomId: room.id });
+
+    return { success: true, room, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      room: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Edit a room
+ *
+ * Shrinking the capacity is refused while an upcoming event booked into the
+ * room needs more seats.
+ *
+ * @param prisma - Prisma client instance
+ * @param venueId - UUID of the venue
+ * @param roomId - UUID of the room
+ * @param changes - Validated changes
+ * @param actor - Caller; must be an admin
+ */
+export async function updateRoom(
+  prisma: PrismaClient,
+  venueId: string,
+  roomId: string,
+  changes: UpdateRoomRequest,
+  actor: Actor,
+) {
+  try {
+    assertCanManageVenues(actor);
+
+    const room = await prisma.$transaction(
+      async (tx) => {
+        // Lock the room so no booking slips in while the capacity shrinks
+        const { count } = await tx.room.updateMany({
+          where: { id: roomId, venueId },
+          data: { updatedAt: new Date() },
+        });
+
+        if (count === 0) {
+          throw roomNotFound(roomId);
+        }
+
+        if (changes.capacity !== undefined) {
+          const tooLarge = await tx.event.findFirst({
+            where: {
+              roomId,
+              endsAt: { gt: new Date() },
+              capacity: { gt: changes.capacity },
+            },
+            select: BOOKING_SELECT,
+            orderBy: { capacity: 'desc' },
+          });
+
+          if (tooLarge) {
+            throw new RegistrationError(
+              `'${tooLarge.title}' is booked into this room for ${tooLarge.capacity} people`,
+              ERROR_CODES.ROOM_CAPACITY_EXCEEDED,
+            );
+          }
+        }
+
+        return tx.room.update({
+          where: { id: roomId },
+          data: toRoomData(changes),
+          select: ROOM_SELECT,
+        });
+      },
+      {
+        isolationLevel: 'ReadCommitted',
+        timeout: 10000,
+      },
+    );
+
+    logger.info({ message: 'Room updated', venueId, roomId });
+
+    return { success: true, room, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      room: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Remove a room; refused while any event is booked into it
+ *
+ * @param prisma - Prisma client instance
+ * @param venueId - UUID of the venue
+ * @param roomId - UUID of the room
+ * @param actor - Caller; must be an admin
+ */
+export async function deleteRoom(
+  prisma: PrismaClient,
+  venueId: string,
+  roomId: string,
+  actor: Actor,
+) {
+  try {
+    assertCanManageVenues(actor);
+
+    const room = await prisma.room.findFirst({
+      where: { id: roomId, venueId },
+      select: { id: true, _count: { select: { events: true } } },
+    });
+
+    if (!room) {
+      throw roomNotFound(roomId);
+    }
+
+    if (room._count.events > 0) {
+      throw new RegistrationError(
+        `The room still has ${room._count.events} event(s) booked`,
+        ERROR_CODES.INVALID_INPUT,
+      );
+    }
+
+    // The foreign key (ON DELETE RESTRICT) still catches a booking made in
+    // the meantime
+    await prisma.room.delete({ where: { id: roomId } });
+
+    logger.info({ message: 'Room deleted', venueId, roomId });
+
+    return { success: true, error: null };
+  } catch (error) {
+    return {
+      success: false,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
+
+/**
+ * Get a room with the events booked into it
+ *
+ * Defaults to bookings that have not ended yet.
+ *
+ * @param prisma - Prisma client instance
+ * @param venueId - UUID of the venue
+ * @param roomId - UUID of the room
+ * @param query - Optional window; bookings overlapping it are returned
+ */
+export async function getRoomSchedule(
+  prisma: PrismaClient,
+  venueId: string,
+  roomId: string,
+  query: RoomScheduleQuery = {},
+) {
+  try {
+    const from = query.from ? new Date(query.from) : new Date();
+
+    const room = await prisma.room.findFirst({
+      where: { id: roomId, venueId },
+      select: {
+        ...ROOM_SELECT,
+        events: {
+          where: {
+            endsAt: { gt: from },
+            ...(query.to && { date: { lt: new Date(query.to) } }),
+          },
+          select: BOOKING_SELECT,
+          orderBy: { date: 'asc' },
+        },
+      },
+    });
+
+    if (!room) {
+      throw roomNotFound(roomId);
+    }
+
+    const { events, ...details } = room;
+
+    return {
+      success: true,
+      room: { ...details, bookings: events },
+      error: null,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      room: null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: getErrorCode(error),
+      },
+    };
+  }
+}
@@ -0,0 +1,360 @@
+import { Prisma, PrismaClient, RegistrationStatus } from '@prisma/client';
+import { sendEmail } from './email';
+import { ERROR_CODES } from './errorCodes';
+import { RegistrationError } from './errors';
+import logger from './logger';
+import { getPaymentHoldExpiry } from './payments';
+import { claimSeats, claimTicketSeats, releaseSeats } from './seatAllocation';
+import {
+  assertCanRegister,
+  createOrReopenRegistration,
+} from './registrationStatus';
+import { countActiveHolds } from './seatHolds';
+import { sendRegistrationTicket } from './tickets';
+import { formatDateTime, formatEventTime } from './utils';
+import { WaitlistPromotionTemplate } from '@/components/emails/WaitlistPromotionTemplate';
+
+/**
+ * Event Waitlist Service
+ *
+ * When an event is full, users can opt to join its waitlist instead of being
+ * turned away. Entries are served strictly FIFO (oldest `createdAt` first).
+ *
+ * Whenever a seat frees up, `promoteWaitlistedUsers` moves the head of the
+ * queue into a real Registration. It runs on the caller's transaction client so
+ * the seat release and the promotion commit (or roll back) together; the
+ * promoted users are only emailed once that transaction has committed.
+ *
+ * Users queued for a priced ticket type are promoted into a PENDING_PAYMENT
+ * registration with a fresh seat hold; if they do not pay in time the seat
+ * moves on to the next person in line.
+ */
+
+export interface WaitlistEntry {
+  id: string;
+  createdAt: Date;
+  position: number;
+}
+
+export interface WaitlistPromotion {
+  registrationId: string;
+  /** Set when the promoted seat is held pending payment */
+  holdExpiresAt: Date | null;
+  user: { id: string; email: string; name: string };
+  event: {
+    id: string;
+    title: string;
+    date: Date;
+    endsAt: Date;
+    timeZone: string;
+    location: string;
+  };
+}
+
+/**
+ * FIFO ordering shared by every waitlist query (id breaks createdAt ties)
+ */
+const WAITLIST_ORDER: Prisma.WaitlistOrderByWithRelationInput[] = [
+  { createdAt: 'asc' },
+  { id: 'asc' },
+];
+
+async function getPositionOf(
+  tx: Prisma.TransactionClient,
+  eventId: string,
+  entry: { id: string; createdAt: Date },
+): Promise<number> {
+  const ahead = await tx.waitlist.count({
+    where: {
+      eventId,
+      OR: [
+        { createdAt: { lt: entry.createdAt } },
+        { createdAt: entry.createdAt, id: { lt: entry.id } },
+      ],
+    },
+  });
+
+  return ahead + 1;
+}
+
+/**
+ * Append a user to the back of an event's waitlist
+ *
+ * Must be called inside a transaction; the caller is responsible for checking
+ * that the event is actually full and the user is not already registered.
+ *
+ * @param tx - Transaction client
+ * @param userId - UUID of the user joining the waitlist
+ * @param eventId - UUID of the full event
+ * @param ticketTypeId - Ticket type to register with once promoted, if any
+ * @param answers - Validated registration question answers, if any
+ * @returns The new entry with its 1-indexed queue position
+ */
+export async function addToWaitlist(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  eventId: string,
+  ticketTypeId?: string,
+  answers?: Prisma.InputJsonValue | null,
+): Promise<WaitlistEntry> {
+  const existingEntry = await tx.waitlist.findUnique({
+    where: { userId_eventId: { userId, eventId } },
+    select: { id: true },
+  });
+
+  if (existingEntry) {
+    throw new RegistrationError(
+      `User is already on the waitlist for this event (entry ID: ${existingEntry.id})`,
+      ERROR_CODES.DUPLICATE_ENTRY,
+    );
+  }
+
+  const entry = await tx.waitlist.create({
+    data: { userId, eventId, ticketTypeId, answers: answers ?? Prisma.DbNull },
+    select: { id: true, createdAt: true },
+  });
+
+  return { ...entry, position: await getPositionOf(tx, eventId, entry) };
+}
+
+/**
+ * Fill every free seat of an event from the head of its waitlist
+ *
+ * Runs on the caller's transaction client so a cancellation (or capacity
+ * increase) and the resulting promotions are atomic. Emails are NOT sent here;
+ * pass the returned promotions to `notifyWaitlistPromotions` after commit.
+ *
+ * @param tx - Transaction client
+ * @param eventId - UUID of the event that has seats available
+ * @returns The promotions that were made, in queue order
+ */
+export async function promoteWaitlistedUsers(
+  tx: Prisma.TransactionClient,
+  eventId: string,
+): Promise<WaitlistPromotion[]> {
+  const event = await tx.event.findUnique({
+    where: { id: eventId },
+    select: {
+      id: true,
+      title: true,
+      date: true,
+      endsAt: true,
+      timeZone: true,
+      location: true,
+      seatsRemaining: true,
+    },
+  });
+
+  // Seats held by users mid-checkout are not up for promotion
+  const heldSeats = await countActiveHolds(eventId);
+
+  if (!event || event.seatsRemaining <= heldSeats) {
+    return [];
+  }
+
+  const nextInLine = await tx.waitlist.findMany({
+    where: { eventId },
+    orderBy: WAITLIST_ORDER,
+    select: {
+      id: true,
+      ticketTypeId: true,
+      answers: true,
+      ticketType: { select: { priceCents: true } },
+      user: { select: { id: true, email: true, name: true } },
+    },
+  });
+
+  const promotions: WaitlistPromotion[] = [];
+
+  for (const entry of nextInLine) {
+    // The user may have registered (or been rejected) some other way since
+    // joining the queue; their entry is stale and must not fail the caller
+    try {
+      await assertCanRegister(tx, entry.user.id, eventId);
+    } catch (error) {
+      if (!(error instanceof RegistrationError)) {
+        throw error;
+      }
+      await tx.waitlist.delete({ where: { id: entry.id } });
+      continue;
+    }
+
+    // A concurrent registration may have taken the seat since the read above
+    if (!(await claimSeats(tx, eventId, 1, heldSeats))) {
+      break;
+    }
+
+    // The freed seat may belong to a different ticket type than the one this
+    // user queued for; if theirs is still sold out, they keep their place
+    if (
+      entry.ticketTypeId &&
+      !(await claimTicketSeats(tx, entry.ticketTypeId))
+    ) {
+      await releaseSeats(tx, eventId);
+      continue;
+    }
+
+    const requiresPayment = (entry.ticketType?.priceCents ?? 0) > 0;
+
+    const holdExpiresAt = requiresPayment ? getPaymentHoldExpiry() : null;
+
+    const registration = await createOrReopenRegistration(tx, {
+      userId: entry.user.id,
+      eventId,
+      ticketTypeId: entry.ticketTypeId,
+      status: requiresPayment
+        ? RegistrationStatus.PENDING_PAYMENT
+        : RegistrationStatus.APPROVED,
+      holdExpiresAt,
+      answers: entry.answers ?? null,
+    });
+
+    await tx.waitlist.delete({ where: { id: entry.id } });
+
+    promotions.push({
+      registrationId: registration.id,
+      holdExpiresAt,
+      user: entry.user,
+      event: {
+        id: event.id,
+        title: event.title,
+        date: event.date,
+        endsAt: event.endsAt,
+        timeZone: event.timeZone,
+        location: event.location,
+      },
+    });
+  }
+
+  return promotions;
+}
+
+/**
+ * Email every promoted user that they now hold a seat, followed by their
+ * ticket when the registration is already confirmed
+ *
+ * Delivery failures are logged but never thrown: the promotion itself has
+ * already been committed and must not be reported as failed.
+ */
+export async function notifyWaitlistPromotions(
+  prisma: PrismaClient,
+  promotions: WaitlistPromotion[],
+): Promise<void> {
+  const results = await Promise.allSettled(
+    promotions.map((promotion) =>
+      sendEmail({
+        to: promotion.user.email,
+        subject: promotion.holdExpiresAt
+          ? `A seat is being held for you at ${promotion.event.title}`
+          : `You're registered for ${promotion.event.title}`,
+        react: WaitlistPromotionTemplate({
+          userName: promotion.user.name,
+          eventTitle: promotion.event.title,
+          eventDate: formatEventTime(
+            promotion.event.date,
+            promotion.event.endsAt,
+            promotion.event.timeZone,
+          ),
+          eventLocation: promotion.event.location,
+          paymentDueBy: promotion.holdExpiresAt
+            ? formatDateTime(promotion.holdExpiresAt, promotion.event.timeZone)
+            : undefined,
+        }),
+      }),
+    ),
+  );
+
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      logger.error({
+        message: 'Failed to send waitlist promotion email',
+        registrationId: promotions[index].registrationId,
+        error:
+          result.reason instanceof Error
+            ? result.reason.message
+            : String(result.reason),
+      });
+    }
+  });
+
+  await Promise.all(
+    promotions
+      .filter((promotion) => !promotion.holdExpiresAt)
+      .map((promotion) =>
+        sendRegistrationTicket(prisma, promotion.registrationId),
+      ),
+  );
+}
+
+/**
+ * Promote waitlisted users into any free seats and notify them
+ *
+ * Convenience wrapper for callers that are not already inside a transaction.
+ *
+ * @param prisma - Prisma client
+ * @param eventId - UUID of the event
+ * @returns The promotions that were made
+ */
+export async function promoteFromWaitlist(
+  prisma: PrismaClient,
+  eventId: string,
+): Promise<WaitlistPromotion[]> {
+  const promotions = await prisma.$transaction(
+    (tx) => promoteWaitlistedUsers(tx, eventId),
+    { isolationLevel: 'ReadCommitted', timeout: 10000 },
+  );
+
+  await notifyWaitlistPromotions(prisma, promotions);
+
+  return promotions;
+}
+
+/**
+ * Look up a user's place in an event's waitlist
+ *
+ * @returns Position (1-indexed) and total waitlist size, or null if the user
+ *          is not waitlisted for the event
+ */
+export async function getWaitlistPosition(
+  prisma: PrismaClient,
+  userId: string,
+  eventId: string,
+) {
+  const entry = await prisma.waitlist.findUnique({
+    where: { userId_eventId: { userId, eventId } },
+    select: { id: true, createdAt: true },
+  });
+
+  if (!entry) {
+    return null;
+  }
+
+  const [position, waitlistSize] = await Promise.all([
+    getPositionOf(prisma, eventId, entry),
+    prisma.waitlist.count({ where: { eventId } }),
+  ]);
+
+  return {
+    entryId: entry.id,
+    joinedAt: entry.createdAt,
+    position,
+    waitlistSize,
+  };
+}
+
+/**
+ * Remove a user from an event's waitlist
+ *
+ * @returns true if an entry was removed, false if the user was not waitlisted
+ */
+export async function leaveWaitlist(
+  prisma: PrismaClient,
+  userId: string,
+  eventId: string,
+): Promise<boolean> {
+  const result = await prisma.waitlist.deleteMany({
+    where: { userId, eventId },
+  });
+
+  return result.count > 0;
+}
@@ -7,9 +7,14 @@ export function middleware(req: NextRequest) {
   // Generate unique request ID for correlation
   const requestId = req.headers.get('x-request-id') || crypto.randomUUID();
 
-  // Skip auth routes and static files
+  // Skip auth routes, signature- and token-authenticated routes and static
+  // files
   if (
     pathname.startsWith('/api/auth/') ||
+    pathname.startsWith('/api/payments/webhook') ||
+    pathname.startsWith('/api/speakers/profile') ||
+    pathname === '/events/preview' ||
+    pathname === '/api/events/preview' ||
     pathname.startsWith('/_next/') ||
     pathname.includes('.')
   ) {